@@ -0,0 +1,12 @@
+import { Attachment } from "../../domain/entities/attachment";
+
+export type AttachmentData = Omit<Attachment, 'id' | 'createdAt'>
+
+export type AttachmentRepository = {
+    create(data: AttachmentData): Promise<Attachment>;
+    // Del más antiguo al más reciente
+    readByPost(postId: number): Promise<Attachment[]>;
+    countByPost(postId: number): Promise<number>;
+    // Adjunto del fichero original o de su miniatura
+    readByKey(key: string): Promise<Attachment | null>;
+}
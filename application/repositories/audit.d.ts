@@ -0,0 +1,23 @@
+import { AuditAction, AuditLogEntry, AuditTargetType } from "../../domain/entities/audit";
+
+export type AuditLogData = Omit<AuditLogEntry, 'id' | 'createdAt'>
+// De la más reciente a la más antigua, el cursor es el id. `from` y `to` incluyen los extremos
+export type AuditLogQuery = {
+    actorId?: number;
+    action?: AuditAction;
+    targetType?: AuditTargetType;
+    targetId?: number;
+    from?: Date;
+    to?: Date;
+    limit: number;
+    cursor?: number;
+}
+export type AuditLogPage = {
+    entries: AuditLogEntry[];
+    nextCursor: number | null;
+}
+// Sin update ni delete: el registro solo admite añadir entradas
+export type AuditLogRepository = {
+    append(data: AuditLogData): Promise<AuditLogEntry>;
+    read(query: AuditLogQuery): Promise<AuditLogPage>;
+}
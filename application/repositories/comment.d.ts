@@ -0,0 +1,24 @@
+import { Comment } from "../../domain/entities/comment";
+
+export type CommentData = Pick<Comment, 'content' | 'postId' | 'authorId' | 'parentId'>
+export type CommentUpdateData = Partial<Pick<Comment, 'content' | 'deleted' | 'editedAt'>>
+export type CommentOrder = 'newest' | 'oldest'
+export type CommentQuery = {
+    postId: number;
+    parentId: number | null;
+    order: CommentOrder;
+    page: number;
+    limit: number;
+}
+export type CommentPage = {
+    comments: Comment[];
+    total: number;
+    page: number;
+    limit: number;
+}
+export type CommentRepository = {
+    create(commentData: CommentData): Promise<Comment>;
+    readById(id: number): Promise<Comment | null>;
+    readByPost(query: CommentQuery): Promise<CommentPage>;
+    update(id: number, commentData: CommentUpdateData): Promise<Comment>;
+}
\ No newline at end of file
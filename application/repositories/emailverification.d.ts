@@ -0,0 +1,11 @@
+import { EmailVerificationToken } from "../../domain/entities/emailverification";
+
+export type EmailVerificationRepository = {
+    create(userId: number, tokenHash: string, expiresAt: Date): Promise<EmailVerificationToken>;
+    readByHash(tokenHash: string): Promise<EmailVerificationToken | null>;
+    readCreatedSince(userId: number, since: Date): Promise<EmailVerificationToken[]>;
+    // Devuelve false si el token ya estaba usado (otra petición se adelantó)
+    markUsed(id: number): Promise<boolean>;
+    // Marca como usados los tokens pendientes del usuario
+    invalidateAllByUser(userId: number): Promise<void>;
+}
\ No newline at end of file
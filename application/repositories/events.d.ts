@@ -0,0 +1,11 @@
+import { LiveEvent, LiveEventType } from "../../domain/entities/event";
+
+export type EventListener = (event: LiveEvent) => void
+
+export type EventBus = {
+    publish(type: LiveEventType, data: unknown): LiveEvent;
+    // Devuelve la función para cancelar la suscripción
+    subscribe(listener: EventListener): () => void;
+    // Eventos posteriores a `lastEventId`, null si ya no se conservan todos
+    readSince(lastEventId: number): LiveEvent[] | null;
+}
@@ -0,0 +1,13 @@
+export type StoredFile = {
+    body: Buffer;
+    contentType: string;
+}
+
+// Almacenamiento de ficheros por clave (disco local, S3...). Las claves no contienen `/`
+export type FileStorage = {
+    put(key: string, body: Buffer, contentType: string): Promise<void>;
+    // null si no existe
+    get(key: string): Promise<StoredFile | null>;
+    // Borrar una clave que no existe no es un error
+    delete(key: string): Promise<void>;
+}
@@ -0,0 +1,20 @@
+import { Follow, FollowUser } from "../../domain/entities/follow";
+
+// El cursor es el id del Follow, las listas van de la relación más reciente a la más antigua
+export type FollowListQuery = {
+    limit: number;
+    cursor?: number;
+}
+export type FollowUserPage = {
+    users: FollowUser[];
+    nextCursor: number | null;
+}
+export type FollowRepository = {
+    create(followerId: number, followingId: number): Promise<Follow>;
+    read(followerId: number, followingId: number): Promise<Follow | null>;
+    delete(followerId: number, followingId: number): Promise<Follow>;
+    countFollowers(userId: number): Promise<number>;
+    countFollowing(userId: number): Promise<number>;
+    readFollowers(userId: number, query: FollowListQuery): Promise<FollowUserPage>;
+    readFollowing(userId: number, query: FollowListQuery): Promise<FollowUserPage>;
+}
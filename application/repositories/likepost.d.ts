@@ -1,5 +1,11 @@
-import { LikePost } from "domain/entities/likepost"
+import { LikePost } from "../../domain/entities/likepost"
 
+// Idempotentes: dar like dos veces o quitar un like que no existe no fallan, también con peticiones simultáneas
 export type LikePostRepository = {
-    create: (postId: number, userId: number) => Promise<LikePost>
+    // null si el usuario ya había dado like al post
+    create: (postId: number, userId: number) => Promise<LikePost | null>
+    readByUserAndPost: (postId: number, userId: number) => Promise<LikePost | null>
+    // false si no había like que borrar
+    delete: (postId: number, userId: number) => Promise<boolean>
+    countByPost: (postId: number) => Promise<number>
 }
\ No newline at end of file
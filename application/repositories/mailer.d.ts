@@ -0,0 +1,8 @@
+export type MailMessage = {
+    to: string;
+    subject: string;
+    text: string;
+}
+export type Mailer = {
+    send(message: MailMessage): Promise<void>;
+}
\ No newline at end of file
@@ -0,0 +1,24 @@
+import { Notification } from "../../domain/entities/notification";
+
+export type NotificationData = Pick<Notification, 'userId' | 'type' | 'actorId' | 'postId' | 'commentId'>
+export type NotificationGroup = Omit<NotificationData, 'actorId'>
+// De la actualizada más recientemente a la más antigua, el cursor es el id
+export type NotificationQuery = {
+    userId: number;
+    unreadOnly: boolean;
+    limit: number;
+    cursor?: number;
+}
+export type NotificationRepository = {
+    create(data: NotificationData): Promise<Notification>;
+    readById(id: number): Promise<Notification | null>;
+    // Notificación sin leer con el mismo destinatario, tipo, post y comentario
+    readUnreadGroup(group: NotificationGroup): Promise<Notification | null>;
+    // Suma un actor al grupo: último actor, count + 1 y updatedAt actual. Null si el actor ya estaba en el grupo
+    addToGroup(id: number, actorId: number): Promise<Notification | null>;
+    readByUser(query: NotificationQuery): Promise<{ notifications: Notification[]; nextCursor: number | null }>;
+    countUnread(userId: number): Promise<number>;
+    markRead(id: number): Promise<Notification>;
+    // Devuelve cuántas notificaciones se han marcado
+    markAllRead(userId: number): Promise<number>;
+}
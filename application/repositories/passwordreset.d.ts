@@ -0,0 +1,9 @@
+import { PasswordResetToken } from "../../domain/entities/passwordreset";
+
+export type PasswordResetRepository = {
+    create(userId: number, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken>;
+    readByHash(tokenHash: string): Promise<PasswordResetToken | null>;
+    // Devuelve false si el token ya estaba usado (otra petición se adelantó)
+    markUsed(id: number): Promise<boolean>;
+    invalidateAllByUser(userId: number): Promise<void>;
+}
\ No newline at end of file
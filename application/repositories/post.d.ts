@@ -1,12 +1,43 @@
-import { Post } from "../../domain/entities/post";
+import { Post, PostStatus } from "../../domain/entities/post";
+import { PostRevisionData } from "./postrevision";
 
-export type PostData = Omit<Post, 'id' | 'likes' | 'deleted' | 'authorId' | 'date' >
-export type PostUpdateData = Partial<Omit<Post, 'id' | 'likes'>>
+export type PostData = Omit<Post, 'id' | 'likes' | 'likesCount' | 'deleted' | 'hidden' | 'authorId' | 'date' >
+export type PostUpdateData = Partial<Omit<Post, 'id' | 'likes' | 'likesCount'>>
+export type PostOrder = 'fecha-desc' | 'nombre-asc' | 'nombre-desc' | 'popularidad-asc' | 'popularidad-desc'
+// Los posts ocultos por denuncias no aparecen en los listados, solo en la cola de moderación
+export type PostQuery = {
+    // Estados incluidos, por defecto solo los publicados
+    statuses?: PostStatus[];
+    // Solo posts programados para esta fecha o antes
+    publishBefore?: Date;
+    // Solo posts de este autor
+    authorId?: number;
+    order: PostOrder;
+    search?: string;
+    // Posts con alguna (`any`, por defecto) o con todas (`all`) las etiquetas
+    tags?: string[];
+    tagMatch?: 'any' | 'all';
+    // Solo posts de los autores que sigue este usuario
+    followedBy?: number;
+    // Solo estos posts
+    ids?: number[];
+    // Sin posts eliminados ni de autores baneados
+    onlyVisible?: boolean;
+    limit: number;
+    cursor?: number;
+}
+export type PostPage = {
+    posts: Post[];
+    nextCursor: number | null;
+}
 export type PostRepository = {
     create(postData: PostData, userId: number): Promise<Post>;
     readAll(): Promise<Post[]>;
+    readPage(query: PostQuery): Promise<PostPage>;
     readById(id: number): Promise<Post|null>;
     delete(id: number): Promise<Post>;
     update(id: number, postData: PostUpdateData): Promise<Post>;
+    // Guarda la versión anterior y la edición juntas: o se escriben las dos o ninguna
+    updateWithRevision(id: number, postData: PostUpdateData, revisionData: PostRevisionData): Promise<Post>;
 
 }
\ No newline at end of file
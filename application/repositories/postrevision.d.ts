@@ -0,0 +1,10 @@
+import { PostRevision } from "../../domain/entities/postrevision";
+
+export type PostRevisionData = Pick<PostRevision, 'title' | 'content' | 'editorId'>
+export type PostRevisionRepository = {
+    // Asigna el siguiente número de versión del post
+    create(postId: number, revisionData: PostRevisionData): Promise<PostRevision>;
+    // Ordenadas de la más antigua a la más reciente
+    readByPost(postId: number): Promise<PostRevision[]>;
+    readByRev(postId: number, rev: number): Promise<PostRevision | null>;
+}
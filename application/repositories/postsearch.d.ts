@@ -0,0 +1,16 @@
+import { Post } from "../../domain/entities/post";
+
+export type PostSearchQuery = {
+    text: string;
+    limit: number;
+    offset: number;
+}
+export type PostSearchResult = {
+    post: Post;
+    rank: number;
+    titleHighlight: string;
+    contentSnippet: string;
+}
+export type PostSearchRepository = {
+    search(query: PostSearchQuery): Promise<PostSearchResult[]>;
+}
\ No newline at end of file
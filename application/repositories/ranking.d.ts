@@ -0,0 +1,18 @@
+import { LikeBucket, TrendingWindow } from "../../domain/entities/ranking";
+
+// Solo el id del post y sus likes del periodo agrupados por antigüedad, nunca las filas de los posts:
+// los datos se pueden guardar en caché y la visibilidad se comprueba al leer los posts
+export type PostLikes = {
+    postId: number;
+    likes: LikeBucket[];
+}
+export type RankingData = {
+    posts: PostLikes[];
+    // Total de usuarios, la audiencia de cada post en la puntuación de Wilson
+    users: number;
+}
+export type RankingRepository = {
+    // Posts no eliminados, no ocultos y de autores sin suspender. Con un periodo limitado solo los que tienen likes
+    // en él, con `all` todos, también los que no tienen ningún like
+    read(window: TrendingWindow): Promise<RankingData>;
+}
@@ -0,0 +1,10 @@
+import { RateLimitCounter } from "../../domain/entities/ratelimit";
+
+export type RateLimitStore = {
+    // Suma un intento al contador de `key` y lo devuelve. Si la ventana ha caducado empieza una nueva con count 1,
+    // pero un bloqueo aún vigente se mantiene
+    hit(key: string, windowMs: number): Promise<RateLimitCounter>;
+    read(key: string): Promise<RateLimitCounter | null>;
+    lock(key: string, until: Date): Promise<void>;
+    reset(key: string): Promise<void>;
+}
@@ -0,0 +1,24 @@
+import { Report, ReportStatus, ReportTargetType } from "../../domain/entities/report";
+
+export type ReportData = Pick<Report, 'reporterId' | 'targetType' | 'targetId' | 'reason' | 'details'>
+// Cola de moderación: de la más antigua a la más reciente
+export type ReportQuery = {
+    status?: ReportStatus;
+    targetType?: ReportTargetType;
+    limit: number;
+    cursor?: number;
+}
+export type ReportPage = {
+    reports: Report[];
+    nextCursor: number | null;
+}
+export type ReportRepository = {
+    create(data: ReportData): Promise<Report>;
+    readById(id: number): Promise<Report | null>;
+    readPage(query: ReportQuery): Promise<ReportPage>;
+    // Denuncia abierta del usuario sobre el objetivo, null si no hay ninguna
+    readOpenByReporter(reporterId: number, targetType: ReportTargetType, targetId: number): Promise<Report | null>;
+    countOpen(targetType: ReportTargetType, targetId: number): Promise<number>;
+    // Cierra todas las denuncias abiertas del objetivo y devuelve cuántas eran
+    resolveOpen(targetType: ReportTargetType, targetId: number, status: Exclude<ReportStatus, 'open'>, resolvedById: number): Promise<number>;
+}
@@ -0,0 +1,13 @@
+import { RefreshToken, Session } from "../../domain/entities/session";
+
+export type RefreshTokenWithSession = RefreshToken & { session: Session }
+export type SessionRepository = {
+    create(userId: number): Promise<Session>;
+    readById(id: string): Promise<Session | null>;
+    revoke(id: string): Promise<void>;
+    revokeAllByUser(userId: number): Promise<void>;
+    createRefreshToken(sessionId: string, tokenHash: string, expiresAt: Date): Promise<RefreshToken>;
+    readRefreshTokenByHash(tokenHash: string): Promise<RefreshTokenWithSession | null>;
+    // Devuelve false si el token ya estaba usado (otra petición se adelantó)
+    markRefreshTokenUsed(id: number): Promise<boolean>;
+}
\ No newline at end of file
@@ -0,0 +1,12 @@
+import { DailyActivity, UserStats } from "../../domain/entities/stats";
+
+// Consultas agregadas: nunca se cargan los usuarios, posts o likes enteros.
+// Los días son fechas UTC `YYYY-MM-DD` y los rangos incluyen `from` y `to`
+export type StatsRepository = {
+    countUsers(): Promise<number>;
+    // null si el usuario no existe
+    readUserStats(userId: number): Promise<UserStats | null>;
+    // Solo los días con actividad
+    readDailyActivity(from: string, to: string): Promise<DailyActivity[]>;
+    countActiveUsers(from: string, to: string): Promise<number>;
+}
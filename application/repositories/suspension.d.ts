@@ -0,0 +1,11 @@
+import { Suspension } from "../../domain/entities/suspension";
+
+export type SuspensionData = Pick<Suspension, 'userId' | 'issuedById' | 'reason' | 'startsAt' | 'endsAt'>
+export type SuspensionRepository = {
+    create(data: SuspensionData): Promise<Suspension>;
+    // Suspensión vigente en `now`, null si no hay ninguna
+    readActive(userId: number, now: Date): Promise<Suspension | null>;
+    // Historial completo, de la más reciente a la más antigua
+    readByUser(userId: number): Promise<Suspension[]>;
+    lift(id: number, liftedById: number): Promise<Suspension>;
+}
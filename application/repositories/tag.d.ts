@@ -0,0 +1,7 @@
+import { TagCount } from "../../domain/entities/tag";
+
+export type TagRepository = {
+    // Etiquetas usadas en posts no eliminados (publicados desde `since` si se indica),
+    // de la más usada a la menos usada y por nombre en caso de empate
+    readCounts(since?: Date): Promise<TagCount[]>;
+}
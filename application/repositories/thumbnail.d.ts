@@ -0,0 +1,9 @@
+export type Thumbnail = {
+    body: Buffer;
+    contentType: string;
+}
+
+export type ThumbnailGenerator = {
+    // Reduce la imagen para que su lado mayor no pase de `size` píxeles
+    generate(image: Buffer, size: number): Promise<Thumbnail>;
+}
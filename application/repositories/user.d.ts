@@ -1,9 +1,12 @@
-import { User } from '../entities/User';
+import { PublicUser, User } from '../../domain/entities/user';
+
+// `banned` depende de las suspensiones, no se puede cambiar directamente
+export type UserUpdateData = Partial<Omit<User, 'id' | 'banned' | 'createdAt'>>
 
 export type UserRepository = {
   create(userData: {email:string, name?: string, password:string}): Promise<User>;
   readById(id: number): Promise<User | null>;
   readByEmail(email: string): Promise<User | null>;
-  readAll(): Promise<User[]>
-  update(id: number, userData: Partial<User>): Promise<User>;
+  readAll(): Promise<PublicUser[]>
+  update(id: number, userData: UserUpdateData): Promise<User>;
 }
\ No newline at end of file
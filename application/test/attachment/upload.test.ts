@@ -0,0 +1,214 @@
+import { Post } from "../../../domain/entities/post";
+import { Attachment } from "../../../domain/entities/attachment";
+import { UnauthorizedError, ValidationError } from "../../../domain/errors/main";
+import { AttachmentRepository } from "../../repositories/attachment";
+import { AuditLogRepository } from "../../repositories/audit";
+import { FileStorage } from "../../repositories/filestorage";
+import { PostRepository } from "../../repositories/post";
+import { ThumbnailGenerator } from "../../repositories/thumbnail";
+import { HardDeletePostAndFiles, ReadVisibleFile, ReadVisiblePostAttachments, UploadAttachment } from "../../usecases/comp/attachment";
+
+// Mocks de los repositorios
+const mockPostRepository = (): jest.Mocked<PostRepository> => ({
+  create: jest.fn(),
+  readAll: jest.fn(),
+  readPage: jest.fn(),
+  update: jest.fn(),
+  updateWithRevision: jest.fn(),
+  delete: jest.fn(),
+  readById: jest.fn(),
+});
+
+const mockAttachmentRepository = (): jest.Mocked<AttachmentRepository> => ({
+  create: jest.fn(),
+  readByPost: jest.fn(),
+  countByPost: jest.fn(),
+  readByKey: jest.fn(),
+});
+
+const mockAuditLogRepository = (): jest.Mocked<AuditLogRepository> => ({
+  append: jest.fn(),
+  read: jest.fn(),
+});
+
+const mockFileStorage = (): jest.Mocked<FileStorage> => ({
+  put: jest.fn(),
+  get: jest.fn(),
+  delete: jest.fn(),
+});
+
+const mockThumbnailGenerator = (): jest.Mocked<ThumbnailGenerator> => ({
+  generate: jest.fn(),
+});
+
+const post: Post = { id: 1, title: 'Post', content: 'Content', deleted: false, authorId: 2, date: new Date(), authorName: 'Author Name' };
+const author = { id: 2, role: 'USER' };
+// Cabecera de un PNG, basta para detectar el tipo
+const png = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.alloc(100)]);
+const thumbnail = { body: Buffer.from('thumb'), contentType: 'image/webp' };
+
+const setup = () => {
+  const postRepository = mockPostRepository();
+  const attachmentRepository = mockAttachmentRepository();
+  const fileStorage = mockFileStorage();
+  const thumbnailGenerator = mockThumbnailGenerator();
+  postRepository.readById.mockResolvedValue(post);
+  attachmentRepository.countByPost.mockResolvedValue(0);
+  attachmentRepository.create.mockImplementation(async (data) => ({ ...data, id: 1, createdAt: new Date() }));
+  thumbnailGenerator.generate.mockResolvedValue(thumbnail);
+  const upload = new UploadAttachment(postRepository, attachmentRepository, fileStorage, thumbnailGenerator);
+  return { postRepository, attachmentRepository, fileStorage, thumbnailGenerator, upload };
+};
+
+describe('UploadAttachment UseCase', () => {
+  it('should store the image and its thumbnail and create the attachment', async () => {
+    const { attachmentRepository, fileStorage, thumbnailGenerator, upload } = setup();
+
+    const result = await upload.execute(1, { body: png, filename: 'foto.png' }, author, 1024);
+
+    expect(thumbnailGenerator.generate).toHaveBeenCalledWith(png, 320);
+    expect(result).toMatchObject({ postId: 1, filename: 'foto.png', mimeType: 'image/png', size: png.length });
+    expect(result.key).toMatch(/^[0-9a-f-]{36}\.png$/);
+    expect(result.thumbnailKey).toBe(result.key.replace('.png', '.thumb.webp'));
+    expect(fileStorage.put).toHaveBeenCalledWith(result.key, png, 'image/png');
+    expect(fileStorage.put).toHaveBeenCalledWith(result.thumbnailKey, thumbnail.body, 'image/webp');
+    expect(attachmentRepository.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep the image without a thumbnail when it cannot be generated', async () => {
+    const { fileStorage, thumbnailGenerator, upload } = setup();
+    thumbnailGenerator.generate.mockRejectedValue(new Error('corrupt image'));
+
+    const result = await upload.execute(1, { body: png, filename: 'foto.png' }, author, 1024);
+
+    expect(result.thumbnailKey).toBeNull();
+    expect(fileStorage.put).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject files that are too large or are not images', async () => {
+    const { attachmentRepository, fileStorage, upload } = setup();
+
+    await expect(upload.execute(1, { body: png, filename: 'foto.png' }, author, 10)).rejects.toMatchObject({ code: 'FILE_TOO_LARGE' });
+    await expect(upload.execute(1, { body: Buffer.from('<svg></svg>'), filename: 'foto.png' }, author, 1024))
+      .rejects.toMatchObject({ code: 'UNSUPPORTED_FILE_TYPE' });
+    expect(fileStorage.put).not.toHaveBeenCalled();
+    expect(attachmentRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('should limit the number of attachments of a post', async () => {
+    const { attachmentRepository, fileStorage, upload } = setup();
+    attachmentRepository.countByPost.mockResolvedValue(10);
+
+    await expect(upload.execute(1, { body: png, filename: 'foto.png' }, author, 1024)).rejects.toThrow(ValidationError);
+    expect(fileStorage.put).not.toHaveBeenCalled();
+  });
+
+  it('should only let the author attach files to a post that exists', async () => {
+    const { postRepository, fileStorage, upload } = setup();
+
+    await expect(upload.execute(1, { body: png, filename: 'foto.png' }, { id: 3, role: 'USER' }, 1024)).rejects.toThrow(UnauthorizedError);
+    postRepository.readById.mockResolvedValue({ ...post, deleted: true });
+    await expect(upload.execute(1, { body: png, filename: 'foto.png' }, author, 1024)).rejects.toMatchObject({ code: 'POST_NOT_FOUND' });
+    expect(fileStorage.put).not.toHaveBeenCalled();
+  });
+
+  it('should delete the stored files when the attachment cannot be created', async () => {
+    const { attachmentRepository, fileStorage, upload } = setup();
+    attachmentRepository.create.mockRejectedValue(new Error('db down'));
+
+    await expect(upload.execute(1, { body: png, filename: 'foto.png' }, author, 1024)).rejects.toThrow('db down');
+    expect(fileStorage.delete).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('ReadVisiblePostAttachments UseCase', () => {
+  it('should hide the attachments of unpublished, hidden and deleted posts from other users', async () => {
+    const postRepository = mockPostRepository();
+    const attachmentRepository = mockAttachmentRepository();
+    attachmentRepository.readByPost.mockResolvedValue([]);
+    const readAttachments = new ReadVisiblePostAttachments(postRepository, attachmentRepository);
+
+    for (const hiddenPost of [{ ...post, status: 'draft' as const }, { ...post, hidden: true }, { ...post, deleted: true }]) {
+      postRepository.readById.mockResolvedValue(hiddenPost);
+      await expect(readAttachments.execute(1, { id: 3, role: 'USER' })).rejects.toMatchObject({ code: 'POST_NOT_FOUND' });
+      await expect(readAttachments.execute(1, author)).resolves.toEqual([]);
+      await expect(readAttachments.execute(1, { id: 3, role: 'MODERATOR' })).resolves.toEqual([]);
+    }
+    postRepository.readById.mockResolvedValue(post);
+    await expect(readAttachments.execute(1, { id: 3, role: 'USER' })).resolves.toEqual([]);
+    expect(attachmentRepository.readByPost).toHaveBeenCalledTimes(7);
+  });
+});
+
+describe('ReadVisibleFile UseCase', () => {
+  const key = '0b7e1c52-3d4a-4f7e-9a51-2c9f0d6e8b13.thumb.webp';
+  const attachment: Attachment = { id: 1, postId: 1, key: '0b7e1c52-3d4a-4f7e-9a51-2c9f0d6e8b13.png', thumbnailKey: key, filename: 'a.png', mimeType: 'image/png', size: 10, createdAt: new Date() };
+
+  it('should serve the files of visible posts to anyone and the rest only to their author and moderators', async () => {
+    const postRepository = mockPostRepository();
+    const attachmentRepository = mockAttachmentRepository();
+    const fileStorage = mockFileStorage();
+    attachmentRepository.readByKey.mockResolvedValue(attachment);
+    fileStorage.get.mockResolvedValue(thumbnail);
+    const readFile = new ReadVisibleFile(postRepository, attachmentRepository, fileStorage);
+
+    postRepository.readById.mockResolvedValue(post);
+    await expect(readFile.execute(key, null)).resolves.toEqual(thumbnail);
+    for (const hiddenPost of [{ ...post, status: 'draft' as const }, { ...post, hidden: true }, { ...post, deleted: true }]) {
+      postRepository.readById.mockResolvedValue(hiddenPost);
+      await expect(readFile.execute(key, null)).rejects.toMatchObject({ code: 'FILE_NOT_FOUND' });
+      await expect(readFile.execute(key, { id: 3, role: 'USER' })).rejects.toMatchObject({ code: 'FILE_NOT_FOUND' });
+      await expect(readFile.execute(key, author)).resolves.toEqual(thumbnail);
+      await expect(readFile.execute(key, { id: 3, role: 'MODERATOR' })).resolves.toEqual(thumbnail);
+    }
+    expect(attachmentRepository.readByKey).toHaveBeenCalledWith(key);
+    expect(fileStorage.get).toHaveBeenCalledTimes(7);
+  });
+
+  it('should not serve files without an attachment', async () => {
+    const postRepository = mockPostRepository();
+    const attachmentRepository = mockAttachmentRepository();
+    const fileStorage = mockFileStorage();
+    attachmentRepository.readByKey.mockResolvedValue(null);
+
+    await expect(new ReadVisibleFile(postRepository, attachmentRepository, fileStorage).execute(key, author)).rejects.toMatchObject({ code: 'FILE_NOT_FOUND' });
+    expect(fileStorage.get).not.toHaveBeenCalled();
+  });
+});
+
+describe('HardDeletePostAndFiles UseCase', () => {
+  const attachments: Attachment[] = [
+    { id: 1, postId: 1, key: 'a.png', thumbnailKey: 'a.thumb.webp', filename: 'a.png', mimeType: 'image/png', size: 10, createdAt: new Date() },
+    { id: 2, postId: 1, key: 'b.gif', thumbnailKey: null, filename: 'b.gif', mimeType: 'image/gif', size: 10, createdAt: new Date() },
+  ];
+
+  it('should delete the post and then its files', async () => {
+    const postRepository = mockPostRepository();
+    const attachmentRepository = mockAttachmentRepository();
+    const fileStorage = mockFileStorage();
+    postRepository.readById.mockResolvedValue(post);
+    postRepository.delete.mockResolvedValue(post);
+    attachmentRepository.readByPost.mockResolvedValue(attachments);
+    fileStorage.delete.mockRejectedValueOnce(new Error('disk error'));
+
+    const hardDelete = new HardDeletePostAndFiles(postRepository, mockAuditLogRepository(), attachmentRepository, fileStorage);
+    const result = await hardDelete.execute(1, { id: 9, role: 'ADMIN' });
+
+    expect(result).toEqual(post);
+    expect(postRepository.delete).toHaveBeenCalledWith(1);
+    expect(fileStorage.delete.mock.calls.map(([key]) => key)).toEqual(['a.png', 'a.thumb.webp', 'b.gif']);
+  });
+
+  it('should keep the files when the post cannot be deleted', async () => {
+    const postRepository = mockPostRepository();
+    const attachmentRepository = mockAttachmentRepository();
+    const fileStorage = mockFileStorage();
+    postRepository.readById.mockResolvedValue(post);
+    attachmentRepository.readByPost.mockResolvedValue(attachments);
+
+    const hardDelete = new HardDeletePostAndFiles(postRepository, mockAuditLogRepository(), attachmentRepository, fileStorage);
+
+    await expect(hardDelete.execute(1, { id: 2, role: 'USER' })).rejects.toThrow(UnauthorizedError);
+    expect(fileStorage.delete).not.toHaveBeenCalled();
+  });
+});
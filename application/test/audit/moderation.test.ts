@@ -0,0 +1,127 @@
+import { Post } from "../../../domain/entities/post";
+import { PostRepository } from "../../repositories/post";
+import { AuditLogRepository } from "../../repositories/audit";
+import { PostRevisionRepository } from "../../repositories/postrevision";
+import { HardDeletePostAndAudit, RestorePostRevisionAndAudit, SoftDeletePostAndAudit } from "../../usecases/comp/audit";
+
+// Mocks de los repositorios
+const mockPostRepository = (): jest.Mocked<PostRepository> => ({
+  create: jest.fn(),
+  readAll: jest.fn(),
+  readPage: jest.fn(),
+  update: jest.fn(),
+  updateWithRevision: jest.fn(),
+  delete: jest.fn(),
+  readById: jest.fn(),
+});
+const mockAuditLogRepository = (): jest.Mocked<AuditLogRepository> => ({
+  append: jest.fn(),
+  read: jest.fn(),
+});
+const mockPostRevisionRepository = (): jest.Mocked<PostRevisionRepository> => ({
+  create: jest.fn(),
+  readByPost: jest.fn(),
+  readByRev: jest.fn(),
+});
+
+const post: Post = { id: 1, title: 'Post', content: 'Content', deleted: false, authorId: 1, date: new Date(), authorName: 'Author Name', likes: [] };
+const { likes, ...snapshot } = post;
+
+describe('SoftDeletePostAndAudit UseCase', () => {
+  it('should record a moderator deleting a post of another user', async () => {
+    const postRepository = mockPostRepository();
+    const auditLogRepository = mockAuditLogRepository();
+    postRepository.readById.mockResolvedValue(post);
+    postRepository.update.mockResolvedValue({ ...post, deleted: true });
+
+    const softDelete = new SoftDeletePostAndAudit(postRepository, auditLogRepository);
+    await softDelete.execute(1, { id: 3, role: 'MODERATOR', ip: '10.0.0.1' });
+
+    expect(auditLogRepository.append).toHaveBeenCalledWith({
+      actorId: 3, action: 'post.softDelete', targetType: 'post', targetId: 1,
+      before: snapshot, after: { ...snapshot, deleted: true }, ip: '10.0.0.1',
+    });
+  });
+
+  it('should record restoring a post as post.restore', async () => {
+    const postRepository = mockPostRepository();
+    const auditLogRepository = mockAuditLogRepository();
+    postRepository.readById.mockResolvedValue({ ...post, deleted: true });
+    postRepository.update.mockResolvedValue(post);
+
+    const softDelete = new SoftDeletePostAndAudit(postRepository, auditLogRepository);
+    await softDelete.execute(1, { id: 3, role: 'ADMIN' });
+
+    expect(auditLogRepository.append).toHaveBeenCalledWith(expect.objectContaining({ action: 'post.restore', ip: null }));
+  });
+
+  it('should not record the author deleting their own post', async () => {
+    const postRepository = mockPostRepository();
+    const auditLogRepository = mockAuditLogRepository();
+    postRepository.readById.mockResolvedValue(post);
+    postRepository.update.mockResolvedValue({ ...post, deleted: true });
+
+    const softDelete = new SoftDeletePostAndAudit(postRepository, auditLogRepository);
+    await softDelete.execute(1, { id: 1, role: 'USER' });
+
+    expect(auditLogRepository.append).not.toHaveBeenCalled();
+  });
+});
+
+describe('HardDeletePostAndAudit UseCase', () => {
+  it('should record the deleted post', async () => {
+    const postRepository = mockPostRepository();
+    const auditLogRepository = mockAuditLogRepository();
+    postRepository.readById.mockResolvedValue(post);
+    postRepository.delete.mockResolvedValue(post);
+
+    const hardDelete = new HardDeletePostAndAudit(postRepository, auditLogRepository);
+    await hardDelete.execute(1, { id: 3, role: 'ADMIN' });
+
+    expect(auditLogRepository.append).toHaveBeenCalledWith({
+      actorId: 3, action: 'post.hardDelete', targetType: 'post', targetId: 1, before: snapshot, after: null, ip: null,
+    });
+  });
+
+  it('should not record anything when the actor is not allowed', async () => {
+    const postRepository = mockPostRepository();
+    const auditLogRepository = mockAuditLogRepository();
+
+    const hardDelete = new HardDeletePostAndAudit(postRepository, auditLogRepository);
+
+    await expect(hardDelete.execute(1, { id: 3, role: 'MODERATOR' })).rejects.toThrow('user not authorized for hardDelete');
+    expect(auditLogRepository.append).not.toHaveBeenCalled();
+  });
+});
+
+describe('RestorePostRevisionAndAudit UseCase', () => {
+  const setup = () => {
+    const postRepository = mockPostRepository();
+    const postRevisionRepository = mockPostRevisionRepository();
+    const auditLogRepository = mockAuditLogRepository();
+    postRepository.readById.mockResolvedValue(post);
+    postRevisionRepository.readByRev.mockResolvedValue({ id: 1, postId: 1, rev: 1, title: 'Original', content: 'Contenido', editorId: 1, createdAt: new Date() });
+    postRepository.updateWithRevision.mockImplementation(async (id, data) => ({ ...post, ...data }));
+    const restore = new RestorePostRevisionAndAudit(postRepository, postRevisionRepository, auditLogRepository);
+    return { auditLogRepository, restore };
+  };
+
+  it('should record an admin restoring a revision of another user', async () => {
+    const { auditLogRepository, restore } = setup();
+
+    await restore.execute(1, 1, { id: 3, role: 'ADMIN', ip: '10.0.0.1' });
+
+    expect(auditLogRepository.append).toHaveBeenCalledWith({
+      actorId: 3, action: 'post.revisionRestore', targetType: 'post', targetId: 1,
+      before: snapshot, after: expect.objectContaining({ title: 'Original', content: 'Contenido' }), ip: '10.0.0.1',
+    });
+  });
+
+  it('should not record the author restoring their own post', async () => {
+    const { auditLogRepository, restore } = setup();
+
+    await restore.execute(1, 1, { id: 1, role: 'USER' });
+
+    expect(auditLogRepository.append).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,28 @@
+import { AuditLogEntry } from "../../../domain/entities/audit";
+import { AuditLogRepository } from "../../repositories/audit";
+import { ReadAuditLog } from "../../usecases/atomic/audit";
+
+// Mock del repositorio
+const mockAuditLogRepository = (): jest.Mocked<AuditLogRepository> => ({
+  append: jest.fn(),
+  read: jest.fn(),
+});
+
+const entry: AuditLogEntry = {
+  id: 1, actorId: 1, action: 'user.ban', targetType: 'user', targetId: 2,
+  before: { banned: false }, after: { banned: true }, ip: '10.0.0.1', createdAt: new Date(),
+};
+
+describe('ReadAuditLog UseCase', () => {
+  it('should return the page of entries matching the filters', async () => {
+    const auditLogRepository = mockAuditLogRepository();
+    auditLogRepository.read.mockResolvedValue({ entries: [entry], nextCursor: null });
+
+    const read = new ReadAuditLog(auditLogRepository);
+    const query = { actorId: 1, action: 'user.ban' as const, from: new Date('2025-01-01'), limit: 20 };
+    const result = await read.execute(query);
+
+    expect(auditLogRepository.read).toHaveBeenCalledWith(query);
+    expect(result).toEqual({ entries: [entry], nextCursor: null });
+  });
+});
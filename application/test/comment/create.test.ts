@@ -0,0 +1,51 @@
+import { Comment } from "../../../domain/entities/comment";
+import { CommentRepository } from "../../repositories/comment";
+import { CreateComment } from "../../usecases/atomic/comment";
+
+// Mock del repositorio
+const mockCommentRepository = (): jest.Mocked<CommentRepository> => ({
+  create: jest.fn(),
+  readById: jest.fn(),
+  readByPost: jest.fn(),
+  update: jest.fn(),
+});
+
+const comment: Comment = { id: 1, content: 'Comentario', deleted: false, authorId: 1, postId: 1, parentId: null, date: new Date(), editedAt: null };
+
+describe('CreateComment UseCase', () => {
+  it('should create a top level comment and return it', async () => {
+    const commentRepository = mockCommentRepository();
+    commentRepository.create.mockResolvedValue(comment);
+
+    const createComment = new CreateComment(commentRepository);
+    const commentData = { content: 'Comentario', postId: 1, authorId: 1, parentId: null };
+    const result = await createComment.execute(commentData);
+
+    expect(commentRepository.readById).not.toHaveBeenCalled();
+    expect(commentRepository.create).toHaveBeenCalledWith(commentData);
+    expect(result).toEqual(comment);
+  });
+
+  it('should create a reply when the parent belongs to the same post', async () => {
+    const commentRepository = mockCommentRepository();
+    const reply: Comment = { ...comment, id: 2, parentId: 1 };
+    commentRepository.readById.mockResolvedValue(comment);
+    commentRepository.create.mockResolvedValue(reply);
+
+    const createComment = new CreateComment(commentRepository);
+    const result = await createComment.execute({ content: 'Respuesta', postId: 1, authorId: 2, parentId: 1 });
+
+    expect(commentRepository.readById).toHaveBeenCalledWith(1);
+    expect(result).toEqual(reply);
+  });
+
+  it('should throw an error if the parent comment is from another post', async () => {
+    const commentRepository = mockCommentRepository();
+    commentRepository.readById.mockResolvedValue({ ...comment, postId: 2 });
+
+    const createComment = new CreateComment(commentRepository);
+
+    await expect(createComment.execute({ content: 'Respuesta', postId: 1, authorId: 2, parentId: 1 })).rejects.toThrow('Parent comment not found');
+    expect(commentRepository.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,49 @@
+import { Comment } from "../../../domain/entities/comment";
+import { CommentRepository } from "../../repositories/comment";
+import { SoftDeleteComment } from "../../usecases/atomic/comment";
+
+// Mock del repositorio
+const mockCommentRepository = (): jest.Mocked<CommentRepository> => ({
+  create: jest.fn(),
+  readById: jest.fn(),
+  readByPost: jest.fn(),
+  update: jest.fn(),
+});
+
+describe('SoftDeleteComment UseCase', () => {
+  it('should mark the comment as deleted', async () => {
+    const commentRepository = mockCommentRepository();
+
+    const existingComment: Comment = { id: 1, content: 'Comentario', deleted: false, authorId: 1, postId: 1, parentId: null, date: new Date(), editedAt: null };
+    commentRepository.readById.mockResolvedValue(existingComment);
+    commentRepository.update.mockResolvedValue({ ...existingComment, deleted: true });
+
+    const softDeleteComment = new SoftDeleteComment(commentRepository);
+    const result = await softDeleteComment.execute(1, { id: 1, role: 'USER' });
+
+    expect(commentRepository.update).toHaveBeenCalledWith(1, { deleted: true });
+    expect(result.deleted).toBe(true);
+  });
+
+  it('should let a moderator delete a comment of another user', async () => {
+    const commentRepository = mockCommentRepository();
+    const existingComment: Comment = { id: 1, content: 'Comentario', deleted: false, authorId: 1, postId: 1, parentId: null, date: new Date(), editedAt: null };
+    commentRepository.readById.mockResolvedValue(existingComment);
+    commentRepository.update.mockResolvedValue({ ...existingComment, deleted: true });
+
+    const softDeleteComment = new SoftDeleteComment(commentRepository);
+    await softDeleteComment.execute(1, { id: 5, role: 'MODERATOR' });
+
+    expect(commentRepository.update).toHaveBeenCalledWith(1, { deleted: true });
+  });
+
+  it('should not let a regular user delete a comment of another user', async () => {
+    const commentRepository = mockCommentRepository();
+    commentRepository.readById.mockResolvedValue({ id: 1, content: 'Comentario', deleted: false, authorId: 1, postId: 1, parentId: null, date: new Date(), editedAt: null });
+
+    const softDeleteComment = new SoftDeleteComment(commentRepository);
+
+    await expect(softDeleteComment.execute(1, { id: 5, role: 'USER' })).rejects.toThrow('user not authorized to delete comment');
+    expect(commentRepository.update).not.toHaveBeenCalled();
+  });
+});
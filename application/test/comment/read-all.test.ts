@@ -0,0 +1,77 @@
+import { Comment } from "../../../domain/entities/comment";
+import { Post } from "../../../domain/entities/post";
+import { CommentRepository } from "../../repositories/comment";
+import { PostRepository } from "../../repositories/post";
+import { ReadCommentsByPost } from "../../usecases/atomic/comment";
+import { ReadVisiblePostComments } from "../../usecases/comp/comment";
+
+// Mock del repositorio
+const mockCommentRepository = (): jest.Mocked<CommentRepository> => ({
+  create: jest.fn(),
+  readById: jest.fn(),
+  readByPost: jest.fn(),
+  update: jest.fn(),
+});
+const mockPostRepository = (): jest.Mocked<PostRepository> => ({
+  create: jest.fn(),
+  readAll: jest.fn(),
+  readPage: jest.fn(),
+  update: jest.fn(),
+  updateWithRevision: jest.fn(),
+  delete: jest.fn(),
+  readById: jest.fn(),
+});
+
+describe('ReadCommentsByPost UseCase', () => {
+  it('should return a page of comments of a post', async () => {
+    const commentRepository = mockCommentRepository();
+
+    const comments: Comment[] = [
+      { id: 2, content: 'Comentario 2', deleted: false, authorId: 1, postId: 1, parentId: null, date: new Date(), editedAt: null },
+      { id: 1, content: 'Comentario 1', deleted: false, authorId: 2, postId: 1, parentId: null, date: new Date(), editedAt: null },
+    ];
+    const page = { comments, total: 2, page: 1, limit: 20 };
+    commentRepository.readByPost.mockResolvedValue(page);
+
+    const readComments = new ReadCommentsByPost(commentRepository);
+    const query = { postId: 1, parentId: null, order: 'newest' as const, page: 1, limit: 20 };
+    const result = await readComments.execute(query);
+
+    expect(commentRepository.readByPost).toHaveBeenCalledWith(query);
+    expect(result).toEqual(page);
+  });
+});
+
+describe('ReadVisiblePostComments UseCase', () => {
+  const post: Post = { id: 1, title: 'Post', content: 'Contenido', deleted: false, authorId: 1, date: new Date(), authorName: 'Autor' };
+  const page = { comments: [], total: 0, page: 1, limit: 20 };
+  const query = { postId: 1, parentId: null, order: 'newest' as const, page: 1, limit: 20 };
+
+  it('should hide the comments of unpublished, hidden and deleted posts from other users', async () => {
+    const postRepository = mockPostRepository();
+    const commentRepository = mockCommentRepository();
+    commentRepository.readByPost.mockResolvedValue(page);
+    const readComments = new ReadVisiblePostComments(postRepository, commentRepository);
+
+    for (const hiddenPost of [{ ...post, status: 'draft' as const }, { ...post, hidden: true }, { ...post, deleted: true }]) {
+      postRepository.readById.mockResolvedValue(hiddenPost);
+      await expect(readComments.execute(query, { id: 3, role: 'USER' })).rejects.toMatchObject({ code: 'POST_NOT_FOUND' });
+      await expect(readComments.execute(query, { id: 1, role: 'USER' })).resolves.toEqual(page);
+      await expect(readComments.execute(query, { id: 3, role: 'MODERATOR' })).resolves.toEqual(page);
+    }
+    postRepository.readById.mockResolvedValue(post);
+    await expect(readComments.execute(query, { id: 3, role: 'USER' })).resolves.toEqual(page);
+    expect(commentRepository.readByPost).toHaveBeenCalledTimes(7);
+  });
+
+  it('should throw an error if the post does not exist', async () => {
+    const postRepository = mockPostRepository();
+    const commentRepository = mockCommentRepository();
+    postRepository.readById.mockResolvedValue(null);
+
+    const readComments = new ReadVisiblePostComments(postRepository, commentRepository);
+
+    await expect(readComments.execute(query, { id: 1, role: 'USER' })).rejects.toMatchObject({ code: 'POST_NOT_FOUND' });
+    expect(commentRepository.readByPost).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,47 @@
+import { Comment } from "../../../domain/entities/comment";
+import { CommentRepository } from "../../repositories/comment";
+import { UpdateComment } from "../../usecases/atomic/comment";
+
+// Mock del repositorio
+const mockCommentRepository = (): jest.Mocked<CommentRepository> => ({
+  create: jest.fn(),
+  readById: jest.fn(),
+  readByPost: jest.fn(),
+  update: jest.fn(),
+});
+
+describe('UpdateComment UseCase', () => {
+  it('should update the content and mark the comment as edited', async () => {
+    const commentRepository = mockCommentRepository();
+
+    const existingComment: Comment = { id: 1, content: 'Antes', deleted: false, authorId: 1, postId: 1, parentId: null, date: new Date(), editedAt: null };
+    const updatedComment: Comment = { ...existingComment, content: 'Después', editedAt: new Date() };
+    commentRepository.readById.mockResolvedValue(existingComment);
+    commentRepository.update.mockResolvedValue(updatedComment);
+
+    const updateComment = new UpdateComment(commentRepository);
+    const result = await updateComment.execute(1, 'Después', { id: 1, role: 'USER' });
+
+    expect(commentRepository.update).toHaveBeenCalledWith(1, { content: 'Después', editedAt: expect.any(Date) });
+    expect(result).toEqual(updatedComment);
+  });
+
+  it('should throw an error if the comment does not exist', async () => {
+    const commentRepository = mockCommentRepository();
+    commentRepository.readById.mockResolvedValue(null);
+
+    const updateComment = new UpdateComment(commentRepository);
+
+    await expect(updateComment.execute(999, 'Contenido', { id: 1, role: 'USER' })).rejects.toThrow('Comment not found');
+  });
+
+  it('should not let an admin edit a comment of another user', async () => {
+    const commentRepository = mockCommentRepository();
+    commentRepository.readById.mockResolvedValue({ id: 1, content: 'Antes', deleted: false, authorId: 1, postId: 1, parentId: null, date: new Date(), editedAt: null });
+
+    const updateComment = new UpdateComment(commentRepository);
+
+    await expect(updateComment.execute(1, 'Después', { id: 2, role: 'ADMIN' })).rejects.toThrow('user not authorized to edit comment');
+    expect(commentRepository.update).not.toHaveBeenCalled();
+  });
+});
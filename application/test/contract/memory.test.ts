@@ -0,0 +1,38 @@
+import { MemoryDb } from "../../../infrastructure/connectors/memory-db";
+import { InMemoryUserRepository } from "../../../infrastructure/repositories/memory-user";
+import { InMemoryPostRepository } from "../../../infrastructure/repositories/memory-post";
+import { InMemoryLikePostRepository } from "../../../infrastructure/repositories/memory-likepost";
+import { InMemoryRateLimitStore } from "../../../infrastructure/repositories/memory-ratelimit";
+import { InMemoryTagRepository } from "../../../infrastructure/repositories/memory-tag";
+import { InMemoryFollowRepository } from "../../../infrastructure/repositories/memory-follow";
+import { InMemoryNotificationRepository } from "../../../infrastructure/repositories/memory-notification";
+import { InMemoryAuditLogRepository } from "../../../infrastructure/repositories/memory-audit";
+import { InMemorySuspensionRepository } from "../../../infrastructure/repositories/memory-suspension";
+import { InMemoryReportRepository } from "../../../infrastructure/repositories/memory-report";
+import { InMemoryRankingRepository } from "../../../infrastructure/repositories/memory-ranking";
+import { InMemoryStatsRepository } from "../../../infrastructure/repositories/memory-stats";
+import { InMemoryAttachmentRepository } from "../../../infrastructure/repositories/memory-attachment";
+import { InMemoryPostSearchRepository } from "../../../infrastructure/repositories/memory-postsearch";
+import { InMemoryPostRevisionRepository } from "../../../infrastructure/repositories/memory-postrevision";
+import { repositoryContract } from "./repositories";
+
+repositoryContract('In-memory', async () => {
+  const db = new MemoryDb();
+  return {
+    users: new InMemoryUserRepository(db),
+    posts: new InMemoryPostRepository(db),
+    likes: new InMemoryLikePostRepository(db),
+    rateLimits: new InMemoryRateLimitStore(db),
+    tags: new InMemoryTagRepository(db),
+    follows: new InMemoryFollowRepository(db),
+    notifications: new InMemoryNotificationRepository(db),
+    auditLog: new InMemoryAuditLogRepository(db),
+    suspensions: new InMemorySuspensionRepository(db),
+    reports: new InMemoryReportRepository(db),
+    ranking: new InMemoryRankingRepository(db),
+    stats: new InMemoryStatsRepository(db),
+    attachments: new InMemoryAttachmentRepository(db),
+    search: new InMemoryPostSearchRepository(db),
+    revisions: new InMemoryPostRevisionRepository(db),
+  };
+});
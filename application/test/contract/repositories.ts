@@ -0,0 +1,635 @@
+import { UserRepository } from "../../repositories/user";
+import { PostQuery, PostRepository } from "../../repositories/post";
+import { LikePostRepository } from "../../repositories/likepost";
+import { RateLimitStore } from "../../repositories/ratelimit";
+import { TagRepository } from "../../repositories/tag";
+import { FollowRepository } from "../../repositories/follow";
+import { NotificationRepository } from "../../repositories/notification";
+import { AuditLogRepository } from "../../repositories/audit";
+import { SuspensionRepository } from "../../repositories/suspension";
+import { ReportRepository } from "../../repositories/report";
+import { RankingRepository } from "../../repositories/ranking";
+import { StatsRepository } from "../../repositories/stats";
+import { AttachmentRepository } from "../../repositories/attachment";
+import { PostSearchRepository } from "../../repositories/postsearch";
+import { PostRevisionRepository } from "../../repositories/postrevision";
+
+export type ContractAdapters = {
+  users: UserRepository;
+  posts: PostRepository;
+  likes: LikePostRepository;
+  rateLimits: RateLimitStore;
+  tags: TagRepository;
+  follows: FollowRepository;
+  notifications: NotificationRepository;
+  auditLog: AuditLogRepository;
+  suspensions: SuspensionRepository;
+  reports: ReportRepository;
+  ranking: RankingRepository;
+  stats: StatsRepository;
+  attachments: AttachmentRepository;
+  search: PostSearchRepository;
+  revisions: PostRevisionRepository;
+}
+
+/**
+ * Suite de contrato común a todos los adaptadores de persistencia.
+ * `setup` se llama antes de cada test y debe devolver repositorios sobre una base de datos vacía.
+ */
+export const repositoryContract = (name: string, setup: () => Promise<ContractAdapters>) => {
+  describe(`${name} repositories contract`, () => {
+    let repos: ContractAdapters;
+
+    beforeEach(async () => {
+      repos = await setup();
+    });
+
+    const createUser = (email = 'user@example.com') =>
+      repos.users.create({ email, password: 'hash', name: 'User' });
+
+    const createPost = (authorId: number, title = 'Post', tags?: string[]) =>
+      repos.posts.create({ title, content: `Contenido de ${title}`, authorName: 'User', tags }, authorId);
+
+    describe('UserRepository', () => {
+      it('should create users with the default role and state', async () => {
+        const user = await createUser();
+
+        expect(user).toMatchObject({ email: 'user@example.com', name: 'User', role: 'USER', banned: false, emailVerified: false });
+        expect(await repos.users.readById(user.id)).toMatchObject({ id: user.id, email: 'user@example.com' });
+        expect(await repos.users.readByEmail('user@example.com')).toMatchObject({ id: user.id });
+      });
+
+      it('should return null for unknown users', async () => {
+        expect(await repos.users.readById(999)).toBeNull();
+        expect(await repos.users.readByEmail('nobody@example.com')).toBeNull();
+      });
+
+      it('should reject a duplicated email', async () => {
+        await createUser();
+
+        await expect(createUser()).rejects.toThrow();
+      });
+
+      it('should update only the given fields', async () => {
+        const user = await createUser();
+
+        const updated = await repos.users.update(user.id, { name: 'Nuevo', role: 'ADMIN' });
+
+        expect(updated).toMatchObject({ id: user.id, email: 'user@example.com', name: 'Nuevo', role: 'ADMIN', banned: false });
+        expect((await repos.users.readAll()).map((u: { id: number }) => u.id)).toEqual([user.id]);
+      });
+
+      it('should list the users without their password', async () => {
+        const user = await createUser();
+        await repos.suspensions.create({ userId: user.id, issuedById: user.id, reason: 'Spam', startsAt: new Date(), endsAt: null });
+
+        const users = await repos.users.readAll();
+
+        expect(users).toEqual([expect.objectContaining({ id: user.id, email: 'user@example.com', name: 'User', role: 'USER', banned: true })]);
+        expect(users[0]).not.toHaveProperty('password');
+      });
+
+      it('should reject updating an unknown user', async () => {
+        await expect(repos.users.update(999, { name: 'Nadie' })).rejects.toThrow();
+      });
+    });
+
+    describe('PostRepository', () => {
+      it('should create, read and update posts', async () => {
+        const user = await createUser();
+        const post = await createPost(user.id);
+
+        expect(post).toMatchObject({ title: 'Post', authorId: user.id, authorName: 'User', deleted: false });
+        expect(await repos.posts.readById(post.id)).toMatchObject({ id: post.id, likes: [] });
+
+        const updated = await repos.posts.update(post.id, { deleted: true });
+        expect(updated).toMatchObject({ id: post.id, title: 'Post', deleted: true });
+      });
+
+      it('should list only published posts unless other statuses are requested', async () => {
+        const user = await createUser();
+        const published = await createPost(user.id, 'Publicado');
+        const draft = await repos.posts.create({ title: 'Borrador', content: null, authorName: 'User', status: 'draft', publishAt: null }, user.id);
+        const due = await repos.posts.create({ title: 'Vencido', content: null, authorName: 'User', status: 'scheduled', publishAt: new Date(Date.now() - 60_000) }, user.id);
+        const future = await repos.posts.create({ title: 'Futuro', content: null, authorName: 'User', status: 'scheduled', publishAt: new Date(Date.now() + 60_000) }, user.id);
+
+        expect(published).toMatchObject({ status: 'published', publishAt: null });
+        expect(draft).toMatchObject({ status: 'draft', publishAt: null });
+        const ids = async (query: Partial<PostQuery>) =>
+          (await repos.posts.readPage({ order: 'fecha-desc', limit: 10, ...query })).posts.map((post) => post.id);
+        expect(await ids({})).toEqual([published.id]);
+        expect(await ids({ authorId: user.id, statuses: ['draft', 'scheduled'] })).toEqual([future.id, due.id, draft.id]);
+        expect(await ids({ statuses: ['scheduled'], publishBefore: new Date() })).toEqual([due.id]);
+        expect(await ids({ authorId: 999, statuses: ['draft', 'scheduled'] })).toEqual([]);
+      });
+
+      it('should reject a post from an unknown author', async () => {
+        await expect(createPost(999)).rejects.toThrow();
+      });
+
+      it('should delete the likes of a deleted post', async () => {
+        const user = await createUser();
+        const post = await createPost(user.id);
+        await repos.likes.create(post.id, user.id);
+
+        await repos.posts.delete(post.id);
+
+        expect(await repos.posts.readById(post.id)).toBeNull();
+        expect(await repos.likes.countByPost(post.id)).toBe(0);
+        expect(await repos.likes.readByUserAndPost(post.id, user.id)).toBeNull();
+      });
+
+      it('should reject deleting an unknown post', async () => {
+        await expect(repos.posts.delete(999)).rejects.toThrow();
+      });
+
+      it('should order pages by popularity with the likes count', async () => {
+        const author = await createUser();
+        const fan = await createUser('fan@example.com');
+        const quiet = await createPost(author.id, 'Quiet');
+        const popular = await createPost(author.id, 'Popular');
+        await repos.likes.create(popular.id, author.id);
+        await repos.likes.create(popular.id, fan.id);
+
+        const page = await repos.posts.readPage({ order: 'popularidad-desc', limit: 10 });
+
+        expect(page.posts.map((post) => [post.id, post.likesCount])).toEqual([[popular.id, 2], [quiet.id, 0]]);
+        expect(page.nextCursor).toBeNull();
+      });
+
+      it('should walk every post with the cursor exactly once', async () => {
+        const user = await createUser();
+        const titles = ['b', 'a', 'd', 'c', 'e'];
+        for (const title of titles) await createPost(user.id, title);
+
+        const seen: string[] = [];
+        let cursor: number | undefined;
+        do {
+          const page = await repos.posts.readPage({ order: 'nombre-asc', limit: 2, cursor });
+          seen.push(...page.posts.map((post) => post.title));
+          cursor = page.nextCursor ?? undefined;
+        } while (cursor !== undefined);
+
+        expect(seen).toEqual(['a', 'b', 'c', 'd', 'e']);
+      });
+
+      it('should filter pages by title or content', async () => {
+        const user = await createUser();
+        await createPost(user.id, 'Recetas de cocina');
+        await createPost(user.id, 'Viajes');
+
+        const page = await repos.posts.readPage({ order: 'fecha-desc', search: 'cocina', limit: 10 });
+
+        expect(page.posts.map((post) => post.title)).toEqual(['Recetas de cocina']);
+      });
+
+      it('should create, replace and filter by tags', async () => {
+        const user = await createUser();
+        const pasta = await createPost(user.id, 'Pasta', ['cocina', 'italia']);
+        await createPost(user.id, 'Roma', ['italia', 'viajes']);
+        await createPost(user.id, 'Sin etiquetas');
+
+        expect(pasta.tags?.sort()).toEqual(['cocina', 'italia']);
+        const titles = async (tags: string[], tagMatch?: 'any' | 'all') =>
+          (await repos.posts.readPage({ order: 'nombre-asc', tags, tagMatch, limit: 10 })).posts.map((post) => post.title);
+        expect(await titles(['cocina', 'viajes'])).toEqual(['Pasta', 'Roma']);
+        expect(await titles(['italia', 'viajes'], 'all')).toEqual(['Roma']);
+
+        const updated = await repos.posts.update(pasta.id, { tags: ['recetas'] });
+
+        expect(updated.tags).toEqual(['recetas']);
+        expect((await repos.posts.readById(pasta.id))?.tags).toEqual(['recetas']);
+        expect(await titles(['cocina'])).toEqual([]);
+      });
+
+      it('should read only the requested posts', async () => {
+        const user = await createUser();
+        const first = await createPost(user.id, 'Uno');
+        await createPost(user.id, 'Dos');
+        const third = await createPost(user.id, 'Tres');
+
+        const page = await repos.posts.readPage({ order: 'nombre-asc', ids: [first.id, third.id], limit: 10 });
+
+        expect(page.posts.map((post) => post.title)).toEqual(['Tres', 'Uno']);
+      });
+
+      it('should save the revision and the edit together', async () => {
+        const user = await createUser();
+        const post = await createPost(user.id, 'Original');
+
+        const updated = await repos.posts.updateWithRevision(post.id, { title: 'Editado' }, { title: post.title, content: post.content, editorId: user.id });
+        await repos.posts.updateWithRevision(post.id, { title: 'Otra vez' }, { title: updated.title, content: updated.content, editorId: null });
+
+        expect(updated.title).toBe('Editado');
+        expect((await repos.revisions.readByPost(post.id)).map(({ rev, title }) => ({ rev, title }))).toEqual([
+          { rev: 1, title: 'Original' },
+          { rev: 2, title: 'Editado' },
+        ]);
+      });
+
+      it('should not save the revision when the edit fails', async () => {
+        const user = await createUser();
+        const post = await createPost(user.id);
+
+        await expect(repos.posts.updateWithRevision(post.id + 1, { title: 'Editado' }, { title: post.title, content: post.content, editorId: user.id }))
+          .rejects.toThrow();
+
+        expect(await repos.revisions.readByPost(post.id + 1)).toEqual([]);
+        expect((await repos.posts.readById(post.id))?.title).toBe('Post');
+      });
+    });
+
+    describe('FollowRepository', () => {
+      it('should create, find, count and delete follows', async () => {
+        const user = await createUser();
+        const other = await createUser('other@example.com');
+
+        const follow = await repos.follows.create(user.id, other.id);
+
+        expect(follow).toMatchObject({ followerId: user.id, followingId: other.id });
+        expect(await repos.follows.read(user.id, other.id)).toMatchObject({ id: follow.id });
+        expect(await repos.follows.read(other.id, user.id)).toBeNull();
+        expect(await repos.follows.countFollowers(other.id)).toBe(1);
+        expect(await repos.follows.countFollowing(user.id)).toBe(1);
+        await expect(repos.follows.create(user.id, other.id)).rejects.toThrow();
+
+        await repos.follows.delete(user.id, other.id);
+
+        expect(await repos.follows.countFollowers(other.id)).toBe(0);
+        await expect(repos.follows.delete(user.id, other.id)).rejects.toThrow();
+      });
+
+      it('should page followers and followed users from the newest follow', async () => {
+        const star = await createUser('star@example.com');
+        const fans = [await createUser('a@example.com'), await createUser('b@example.com'), await createUser('c@example.com')];
+        for (const fan of fans) await repos.follows.create(fan.id, star.id);
+
+        const first = await repos.follows.readFollowers(star.id, { limit: 2 });
+        const second = await repos.follows.readFollowers(star.id, { limit: 2, cursor: first.nextCursor ?? undefined });
+
+        expect(first.users.map((user) => user.id)).toEqual([fans[2].id, fans[1].id]);
+        expect(first.users[0]).toMatchObject({ name: 'User', followedAt: expect.any(Date) });
+        expect(second).toMatchObject({ users: [expect.objectContaining({ id: fans[0].id })], nextCursor: null });
+        expect((await repos.follows.readFollowing(fans[0].id, { limit: 10 })).users.map((user) => user.id)).toEqual([star.id]);
+      });
+
+      it('should read a feed with the visible posts of the followed authors', async () => {
+        const reader = await createUser();
+        const followed = await createUser('followed@example.com');
+        const banned = await createUser('banned@example.com');
+        const stranger = await createUser('stranger@example.com');
+        await repos.follows.create(reader.id, followed.id);
+        await repos.follows.create(reader.id, banned.id);
+        const older = await createPost(followed.id, 'Antiguo');
+        const deleted = await createPost(followed.id, 'Eliminado');
+        await repos.posts.update(deleted.id, { deleted: true });
+        await createPost(banned.id, 'Baneado');
+        await repos.suspensions.create({ userId: banned.id, issuedById: null, reason: 'Spam', startsAt: new Date(), endsAt: null });
+        await createPost(stranger.id, 'Desconocido');
+        const newer = await createPost(followed.id, 'Reciente');
+
+        const page = await repos.posts.readPage({ order: 'fecha-desc', followedBy: reader.id, onlyVisible: true, limit: 10 });
+
+        expect(page.posts.map((post) => post.id)).toEqual([newer.id, older.id]);
+      });
+    });
+
+    describe('NotificationRepository', () => {
+      it('should group, page and mark notifications as read', async () => {
+        const author = await createUser();
+        const fan = await createUser('fan@example.com');
+        const post = await createPost(author.id);
+        const like = { userId: author.id, type: 'like' as const, postId: post.id, commentId: null };
+
+        const created = await repos.notifications.create({ ...like, actorId: fan.id });
+        expect(created).toMatchObject({ ...like, actorId: fan.id, actorName: 'User', count: 1, read: false });
+        expect(await repos.notifications.readUnreadGroup(like)).toMatchObject({ id: created.id });
+        expect(await repos.notifications.readUnreadGroup({ ...like, type: 'comment' })).toBeNull();
+
+        const grouped = await repos.notifications.addToGroup(created.id, author.id);
+        expect(grouped).toMatchObject({ id: created.id, actorId: author.id, count: 2 });
+        // Los usuarios se cuentan una sola vez aunque repitan, también el primero
+        expect(await repos.notifications.addToGroup(created.id, fan.id)).toBeNull();
+        expect(await repos.notifications.addToGroup(created.id, author.id)).toBeNull();
+        expect(await repos.notifications.readById(created.id)).toMatchObject({ actorId: author.id, count: 2 });
+
+        const follow = await repos.notifications.create({ userId: author.id, type: 'follow', actorId: fan.id, postId: null, commentId: null });
+        const page = await repos.notifications.readByUser({ userId: author.id, unreadOnly: false, limit: 1 });
+        expect(page.notifications.map((n) => n.id)).toEqual([follow.id]);
+        expect(await repos.notifications.countUnread(author.id)).toBe(2);
+
+        expect(await repos.notifications.markRead(follow.id)).toMatchObject({ read: true });
+        expect((await repos.notifications.readByUser({ userId: author.id, unreadOnly: true, limit: 10 })).notifications.map((n) => n.id))
+          .toEqual([created.id]);
+        expect(await repos.notifications.markAllRead(author.id)).toBe(1);
+        expect(await repos.notifications.countUnread(author.id)).toBe(0);
+        expect(await repos.notifications.readUnreadGroup(like)).toBeNull();
+      });
+    });
+
+    describe('SuspensionRepository', () => {
+      const day = 24 * 60 * 60 * 1000;
+
+      it('should ban the user only while a suspension is active', async () => {
+        const admin = await createUser('admin@example.com');
+        const user = await createUser();
+        const expired = await repos.suspensions.create({
+          userId: user.id, issuedById: admin.id, reason: 'Antigua', startsAt: new Date(Date.now() - 2 * day), endsAt: new Date(Date.now() - day),
+        });
+        expect(await repos.suspensions.readActive(user.id, new Date())).toBeNull();
+        expect((await repos.users.readById(user.id))?.banned).toBe(false);
+
+        const active = await repos.suspensions.create({ userId: user.id, issuedById: admin.id, reason: 'Spam', startsAt: new Date(), endsAt: new Date(Date.now() + day) });
+        expect(active).toMatchObject({ userId: user.id, issuedById: admin.id, reason: 'Spam', liftedAt: null, liftedById: null });
+        expect(await repos.suspensions.readActive(user.id, new Date())).toMatchObject({ id: active.id });
+        expect(await repos.suspensions.readActive(user.id, new Date(Date.now() + 2 * day))).toBeNull();
+        expect((await repos.users.readByEmail('user@example.com'))?.banned).toBe(true);
+
+        const lifted = await repos.suspensions.lift(active.id, admin.id);
+        expect(lifted).toMatchObject({ id: active.id, liftedById: admin.id, liftedAt: expect.any(Date) });
+        expect(await repos.suspensions.readActive(user.id, new Date())).toBeNull();
+        expect((await repos.users.readById(user.id))?.banned).toBe(false);
+        expect((await repos.suspensions.readByUser(user.id)).map((suspension) => suspension.id)).toEqual([active.id, expired.id]);
+      });
+    });
+
+    describe('ReportRepository', () => {
+      it('should queue reports oldest first and resolve every open report of the target', async () => {
+        const author = await createUser();
+        const reporters = [await createUser('a@example.com'), await createUser('b@example.com')];
+        const moderator = await createUser('moderator@example.com');
+        const post = await createPost(author.id);
+        const first = await repos.reports.create({ reporterId: reporters[0].id, targetType: 'post', targetId: post.id, reason: 'spam', details: 'Enlaces' });
+        expect(first).toMatchObject({ targetType: 'post', targetId: post.id, reason: 'spam', details: 'Enlaces', status: 'open', resolvedById: null, resolvedAt: null });
+        const second = await repos.reports.create({ reporterId: reporters[1].id, targetType: 'post', targetId: post.id, reason: 'hate', details: null });
+        const user = await repos.reports.create({ reporterId: reporters[0].id, targetType: 'user', targetId: author.id, reason: 'harassment', details: null });
+
+        expect(await repos.reports.readOpenByReporter(reporters[0].id, 'post', post.id)).toMatchObject({ id: first.id });
+        expect(await repos.reports.readOpenByReporter(moderator.id, 'post', post.id)).toBeNull();
+        expect(await repos.reports.countOpen('post', post.id)).toBe(2);
+        const page = await repos.reports.readPage({ status: 'open', limit: 2 });
+        expect(page.reports.map((report) => report.id)).toEqual([first.id, second.id]);
+        expect(await repos.reports.readPage({ status: 'open', limit: 2, cursor: page.nextCursor as number })).toMatchObject({ reports: [{ id: user.id }], nextCursor: null });
+        expect((await repos.reports.readPage({ targetType: 'user', limit: 10 })).reports).toEqual([expect.objectContaining({ id: user.id, targetType: 'user', targetId: author.id })]);
+
+        expect(await repos.reports.resolveOpen('post', post.id, 'actioned', moderator.id)).toBe(2);
+        expect(await repos.reports.readById(second.id)).toMatchObject({ status: 'actioned', resolvedById: moderator.id, resolvedAt: expect.any(Date) });
+        expect(await repos.reports.countOpen('post', post.id)).toBe(0);
+        expect((await repos.reports.readPage({ status: 'open', limit: 10 })).reports.map((report) => report.id)).toEqual([user.id]);
+      });
+
+      it('should keep hidden posts out of the listings and drop the reports with the post', async () => {
+        const author = await createUser();
+        const reporter = await createUser('reporter@example.com');
+        const hidden = await createPost(author.id, 'Oculto');
+        const visible = await createPost(author.id, 'Visible');
+        const report = await repos.reports.create({ reporterId: reporter.id, targetType: 'post', targetId: hidden.id, reason: 'spam', details: null });
+
+        expect(await repos.posts.update(hidden.id, { hidden: true })).toMatchObject({ hidden: true });
+        expect((await repos.posts.readPage({ order: 'fecha-desc', limit: 10 })).posts.map((post) => post.id)).toEqual([visible.id]);
+
+        await repos.posts.delete(hidden.id);
+        expect(await repos.reports.readById(report.id)).toBeNull();
+      });
+    });
+
+    describe('RankingRepository', () => {
+      it('should read the visible posts with the likes of the window', async () => {
+        const author = await createUser();
+        const fan = await createUser('fan@example.com');
+        const banned = await createUser('banned@example.com');
+        const post = await createPost(author.id, 'Post', ['noticias']);
+        const unliked = await createPost(author.id, 'Sin likes');
+        const deleted = await createPost(author.id, 'Eliminado');
+        await repos.posts.update(deleted.id, { deleted: true });
+        await createPost(banned.id, 'Baneado');
+        await repos.suspensions.create({ userId: banned.id, issuedById: null, reason: 'Spam', startsAt: new Date(), endsAt: null });
+        await repos.likes.create(post.id, fan.id);
+        await repos.likes.create(post.id, author.id);
+
+        const { posts, users } = await repos.ranking.read('24h');
+
+        expect(users).toBe(3);
+        // Los dos likes de la última hora van en el mismo grupo
+        expect(posts).toEqual([{ postId: post.id, likes: [{ likedAt: expect.any(Date), likes: 2 }] }]);
+        expect(Math.abs(posts[0].likes[0].likedAt.getTime() - Date.now())).toBeLessThan(60_000);
+        expect((await repos.ranking.read('all')).posts.map(({ postId }) => postId).sort()).toEqual([post.id, unliked.id].sort());
+      });
+    });
+
+    describe('StatsRepository', () => {
+      it('should aggregate the stats of a user', async () => {
+        const author = await createUser();
+        const fan = await createUser('fan@example.com');
+        const popular = await createPost(author.id, 'Popular');
+        const other = await createPost(author.id, 'Otro');
+        const deleted = await createPost(author.id, 'Eliminado');
+        await repos.posts.update(deleted.id, { deleted: true });
+        await repos.likes.create(popular.id, fan.id);
+        await repos.likes.create(popular.id, author.id);
+        await repos.likes.create(other.id, fan.id);
+        await repos.likes.create(deleted.id, fan.id);
+
+        expect(await repos.stats.readUserStats(author.id)).toEqual({
+          userId: author.id,
+          posts: 2,
+          likesGiven: 1,
+          likesReceived: 3,
+          mostLikedPost: { id: popular.id, title: 'Popular', likes: 2 },
+        });
+        expect(await repos.stats.readUserStats(fan.id)).toEqual({ userId: fan.id, posts: 0, likesGiven: 3, likesReceived: 0, mostLikedPost: null });
+        expect(await repos.stats.readUserStats(999)).toBeNull();
+      });
+
+      it('should count users and the daily activity of a range', async () => {
+        const author = await createUser();
+        const fan = await createUser('fan@example.com');
+        await createUser('lurker@example.com');
+        const post = await createPost(author.id);
+        await repos.likes.create(post.id, fan.id);
+        const today = new Date().toISOString().slice(0, 10);
+
+        expect(await repos.stats.countUsers()).toBe(3);
+        expect(await repos.stats.readDailyActivity(today, today)).toEqual([{ date: today, signups: 3, posts: 1, likes: 1, activeUsers: 2 }]);
+        expect(await repos.stats.countActiveUsers(today, today)).toBe(2);
+        expect(await repos.stats.readDailyActivity('2000-01-01', '2000-01-31')).toEqual([]);
+        expect(await repos.stats.countActiveUsers('2000-01-01', '2000-01-31')).toBe(0);
+      });
+    });
+
+    describe('PostSearchRepository', () => {
+      it('should escape the user text of the highlights and only add the marks', async () => {
+        const author = await createUser();
+        const post = await repos.posts.create({
+          title: '<script>alert("xss")</script> Recetas', content: 'Las mejores recetas & <img src=x onerror=alert(1)>', authorName: 'User',
+        }, author.id);
+
+        const [result] = await repos.search.search({ text: 'recetas', limit: 10, offset: 0 });
+
+        expect(result.post.id).toBe(post.id);
+        expect(result.titleHighlight).toBe('&lt;script&gt;alert(&quot;xss&quot;)&lt;/script&gt; <mark>Recetas</mark>');
+        expect(result.contentSnippet).toBe('Las mejores <mark>recetas</mark> &amp; &lt;img src=x onerror=alert(1)&gt;');
+      });
+    });
+
+    describe('AttachmentRepository', () => {
+      const attachment = (postId: number, key: string) =>
+        ({ postId, key, thumbnailKey: null, filename: 'foto.png', mimeType: 'image/png', size: 10 });
+
+      it('should create attachments and read them by post, oldest first', async () => {
+        const author = await createUser();
+        const post = await createPost(author.id);
+        const other = await createPost(author.id, 'Otro');
+        const first = await repos.attachments.create({ ...attachment(post.id, 'a.png'), thumbnailKey: 'a.thumb.webp' });
+        const second = await repos.attachments.create(attachment(post.id, 'b.png'));
+        await repos.attachments.create(attachment(other.id, 'c.png'));
+
+        expect(first).toMatchObject({ postId: post.id, key: 'a.png', thumbnailKey: 'a.thumb.webp', filename: 'foto.png', mimeType: 'image/png', size: 10 });
+        expect(first.createdAt).toBeInstanceOf(Date);
+        expect((await repos.attachments.readByPost(post.id)).map((a) => a.id)).toEqual([first.id, second.id]);
+        expect(await repos.attachments.countByPost(post.id)).toBe(2);
+        expect(await repos.attachments.countByPost(999)).toBe(0);
+        await expect(repos.attachments.create(attachment(other.id, 'a.png'))).rejects.toThrow();
+      });
+
+      it('should read an attachment by the key of the file or of its thumbnail', async () => {
+        const author = await createUser();
+        const post = await createPost(author.id);
+        const created = await repos.attachments.create({ ...attachment(post.id, 'a.png'), thumbnailKey: 'a.thumb.webp' });
+
+        expect(await repos.attachments.readByKey('a.png')).toMatchObject({ id: created.id });
+        expect(await repos.attachments.readByKey('a.thumb.webp')).toMatchObject({ id: created.id });
+        expect(await repos.attachments.readByKey('b.png')).toBeNull();
+      });
+
+      it('should delete the attachments with their post', async () => {
+        const author = await createUser();
+        const post = await createPost(author.id);
+        await repos.attachments.create(attachment(post.id, 'a.png'));
+
+        await repos.posts.delete(post.id);
+
+        expect(await repos.attachments.readByPost(post.id)).toEqual([]);
+      });
+    });
+
+    describe('AuditLogRepository', () => {
+      it('should append entries and read them filtered, newest first', async () => {
+        const snapshot = { id: 2, banned: false, date: new Date('2025-01-01T00:00:00.000Z') };
+        const ban = await repos.auditLog.append({
+          actorId: 1, action: 'user.ban', targetType: 'user', targetId: 2, before: snapshot, after: { ...snapshot, banned: true }, ip: '10.0.0.1',
+        });
+        // Las instantáneas se guardan como JSON, las fechas vuelven como texto
+        expect(ban).toMatchObject({ actorId: 1, action: 'user.ban', before: { id: 2, banned: false, date: '2025-01-01T00:00:00.000Z' }, ip: '10.0.0.1' });
+        const unban = await repos.auditLog.append({ actorId: 1, action: 'user.unban', targetType: 'user', targetId: 2, before: null, after: null, ip: null });
+        const hardDelete = await repos.auditLog.append({ actorId: 3, action: 'post.hardDelete', targetType: 'post', targetId: 2, before: null, after: null, ip: null });
+
+        const ids = async (query: Omit<Parameters<AuditLogRepository['read']>[0], 'limit'>) =>
+          (await repos.auditLog.read({ limit: 10, ...query })).entries.map((entry) => entry.id);
+        expect(await ids({})).toEqual([hardDelete.id, unban.id, ban.id]);
+        expect(await ids({ actorId: 1 })).toEqual([unban.id, ban.id]);
+        expect(await ids({ action: 'user.ban' })).toEqual([ban.id]);
+        expect(await ids({ targetType: 'user', targetId: 2 })).toEqual([unban.id, ban.id]);
+        expect(await ids({ from: new Date(Date.now() + 60_000) })).toEqual([]);
+        expect(await ids({ to: new Date(Date.now() + 60_000) })).toHaveLength(3);
+
+        const page = await repos.auditLog.read({ limit: 2 });
+        expect(page.nextCursor).toBe(unban.id);
+        expect((await repos.auditLog.read({ limit: 2, cursor: page.nextCursor! })).entries.map((entry) => entry.id)).toEqual([ban.id]);
+      });
+    });
+
+    describe('TagRepository', () => {
+      it('should count the posts of each tag, skipping deleted and old posts', async () => {
+        const user = await createUser();
+        await createPost(user.id, 'A', ['cocina', 'viajes']);
+        await createPost(user.id, 'B', ['viajes']);
+        const deleted = await createPost(user.id, 'C', ['cocina', 'cine']);
+        await repos.posts.update(deleted.id, { deleted: true });
+
+        expect(await repos.tags.readCounts()).toEqual([{ name: 'viajes', count: 2 }, { name: 'cocina', count: 1 }]);
+        expect(await repos.tags.readCounts(new Date(Date.now() + 60_000))).toEqual([]);
+      });
+    });
+
+    describe('LikePostRepository', () => {
+      it('should create, find, count and delete likes', async () => {
+        const user = await createUser();
+        const post = await createPost(user.id);
+
+        const like = await repos.likes.create(post.id, user.id);
+
+        expect(like).toMatchObject({ postId: post.id, userId: user.id });
+        expect(await repos.likes.readByUserAndPost(post.id, user.id)).toMatchObject({ id: like!.id });
+        expect(await repos.likes.countByPost(post.id)).toBe(1);
+
+        expect(await repos.likes.delete(post.id, user.id)).toBe(true);
+
+        expect(await repos.likes.readByUserAndPost(post.id, user.id)).toBeNull();
+        expect(await repos.likes.countByPost(post.id)).toBe(0);
+      });
+
+      it('should allow a single like per user and post, also with concurrent requests', async () => {
+        const user = await createUser();
+        const post = await createPost(user.id);
+
+        const likes = await Promise.all([repos.likes.create(post.id, user.id), repos.likes.create(post.id, user.id)]);
+
+        expect(likes.filter((like) => like !== null)).toHaveLength(1);
+        expect(await repos.likes.create(post.id, user.id)).toBeNull();
+        expect(await repos.likes.countByPost(post.id)).toBe(1);
+      });
+
+      it('should delete a like once, also with concurrent requests', async () => {
+        const user = await createUser();
+        const post = await createPost(user.id);
+        await repos.likes.create(post.id, user.id);
+
+        const deleted = await Promise.all([repos.likes.delete(post.id, user.id), repos.likes.delete(post.id, user.id)]);
+
+        expect(deleted.sort()).toEqual([false, true]);
+        expect(await repos.likes.delete(post.id, user.id)).toBe(false);
+        expect(await repos.likes.countByPost(post.id)).toBe(0);
+      });
+
+      it('should reject likes on unknown posts', async () => {
+        const user = await createUser();
+
+        await expect(repos.likes.create(999, user.id)).rejects.toThrow();
+      });
+    });
+
+    describe('RateLimitStore', () => {
+      it('should count hits inside the window', async () => {
+        const first = await repos.rateLimits.hit('key', 60_000);
+        const second = await repos.rateLimits.hit('key', 60_000);
+
+        expect(first).toMatchObject({ key: 'key', count: 1, lockedUntil: null });
+        expect(second.count).toBe(2);
+        expect(second.resetAt.getTime()).toBe(first.resetAt.getTime());
+        expect((await repos.rateLimits.hit('other', 60_000)).count).toBe(1);
+      });
+
+      it('should start a new window once the previous one expired, keeping the lock', async () => {
+        const lockedUntil = new Date(Date.now() + 60_000);
+        await repos.rateLimits.hit('key', 1);
+        await repos.rateLimits.lock('key', lockedUntil);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+
+        const counter = await repos.rateLimits.hit('key', 60_000);
+
+        expect(counter.count).toBe(1);
+        expect(counter.lockedUntil?.getTime()).toBe(lockedUntil.getTime());
+      });
+
+      it('should reset a counter', async () => {
+        await repos.rateLimits.hit('key', 60_000);
+
+        await repos.rateLimits.reset('key');
+
+        expect(await repos.rateLimits.read('key')).toBeNull();
+        await expect(repos.rateLimits.reset('missing')).resolves.toBeUndefined();
+      });
+    });
+  });
+};
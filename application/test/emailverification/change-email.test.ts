@@ -0,0 +1,58 @@
+import { User } from "../../../domain/entities/user";
+import { EmailVerificationRepository } from "../../repositories/emailverification";
+import { UserRepository } from "../../repositories/user";
+import { UpdateUserEmail } from "../../usecases/comp/user";
+
+// Mocks de los repositorios
+const mockUserRepository = (): jest.Mocked<UserRepository> => ({
+  create: jest.fn(),
+  readById: jest.fn(),
+  readByEmail: jest.fn(),
+  readAll: jest.fn(),
+  update: jest.fn(),
+});
+const mockEmailVerificationRepository = (): jest.Mocked<EmailVerificationRepository> => ({
+  create: jest.fn(),
+  readByHash: jest.fn(),
+  readCreatedSince: jest.fn(),
+  markUsed: jest.fn(),
+  invalidateAllByUser: jest.fn(),
+});
+
+const user: User = { id: 1, email: 'user@example.com', password: 'hash', name: 'User', role: 'USER', banned: false, emailVerified: true };
+
+describe('UpdateUserEmail UseCase', () => {
+  it('should unverify the user and invalidate the pending links when the email changes', async () => {
+    const userRepository = mockUserRepository();
+    const emailVerificationRepository = mockEmailVerificationRepository();
+    userRepository.readById.mockResolvedValue(user);
+    userRepository.update.mockResolvedValue({ ...user, email: 'new@example.com', emailVerified: false });
+
+    const result = await new UpdateUserEmail(userRepository, emailVerificationRepository).execute(1, { email: 'new@example.com' });
+
+    expect(userRepository.update).toHaveBeenCalledWith(1, { email: 'new@example.com', emailVerified: false });
+    expect(emailVerificationRepository.invalidateAllByUser).toHaveBeenCalledWith(1);
+    expect(result.emailChanged).toBe(true);
+  });
+
+  it('should keep the verification when the email does not change', async () => {
+    const userRepository = mockUserRepository();
+    const emailVerificationRepository = mockEmailVerificationRepository();
+    userRepository.readById.mockResolvedValue(user);
+    userRepository.update.mockResolvedValue({ ...user, name: 'Otro' });
+
+    const result = await new UpdateUserEmail(userRepository, emailVerificationRepository).execute(1, { name: 'Otro', email: 'user@example.com' });
+
+    expect(userRepository.update).toHaveBeenCalledWith(1, { name: 'Otro', email: 'user@example.com' });
+    expect(emailVerificationRepository.invalidateAllByUser).not.toHaveBeenCalled();
+    expect(result.emailChanged).toBe(false);
+  });
+
+  it('should throw USER_NOT_FOUND for an unknown user', async () => {
+    const userRepository = mockUserRepository();
+    userRepository.readById.mockResolvedValue(null);
+
+    await expect(new UpdateUserEmail(userRepository, mockEmailVerificationRepository()).execute(9, { email: 'new@example.com' }))
+      .rejects.toMatchObject({ code: 'USER_NOT_FOUND' });
+  });
+});
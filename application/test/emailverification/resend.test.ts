@@ -0,0 +1,74 @@
+import { User } from "../../../domain/entities/user";
+import { EmailVerificationToken } from "../../../domain/entities/emailverification";
+import { EmailVerificationRepository } from "../../repositories/emailverification";
+import { Mailer } from "../../repositories/mailer";
+import { UserRepository } from "../../repositories/user";
+import { ResendEmailVerification } from "../../usecases/comp/user";
+
+// Mocks de los repositorios
+const mockUserRepository = (): jest.Mocked<UserRepository> => ({
+  create: jest.fn(),
+  readById: jest.fn(),
+  readByEmail: jest.fn(),
+  readAll: jest.fn(),
+  update: jest.fn(),
+});
+const mockEmailVerificationRepository = (): jest.Mocked<EmailVerificationRepository> => ({
+  create: jest.fn(),
+  readByHash: jest.fn(),
+  readCreatedSince: jest.fn(),
+  markUsed: jest.fn(),
+  invalidateAllByUser: jest.fn(),
+});
+const mockMailer = (): jest.Mocked<Mailer> => ({
+  send: jest.fn(),
+});
+
+const user: User = { id: 1, email: 'user@example.com', password: 'hash', name: 'User', role: 'USER', banned: false, emailVerified: false };
+const sentToken = (minutesAgo: number): EmailVerificationToken => ({
+  id: minutesAgo, tokenHash: `hash-${minutesAgo}`, userId: 1, expiresAt: new Date(), usedAt: null, createdAt: new Date(Date.now() - minutesAgo * 60_000),
+});
+
+describe('ResendEmailVerification UseCase', () => {
+  it('should send a new verification email while under the limit', async () => {
+    const userRepository = mockUserRepository();
+    const emailVerificationRepository = mockEmailVerificationRepository();
+    const mailer = mockMailer();
+    userRepository.readByEmail.mockResolvedValue(user);
+    emailVerificationRepository.readCreatedSince.mockResolvedValue([sentToken(30)]);
+
+    const expiresAt = new Date(Date.now() + 60_000);
+    const resend = new ResendEmailVerification(userRepository, emailVerificationRepository, mailer);
+    await resend.execute('user@example.com', 'token-hash', expiresAt, 'http://localhost:3000/verify-email?token=abc');
+
+    expect(emailVerificationRepository.create).toHaveBeenCalledWith(1, 'token-hash', expiresAt);
+    expect(mailer.send).toHaveBeenCalledWith(expect.objectContaining({ to: 'user@example.com' }));
+  });
+
+  it('should silently skip the email once the account reached the limit', async () => {
+    const userRepository = mockUserRepository();
+    const emailVerificationRepository = mockEmailVerificationRepository();
+    const mailer = mockMailer();
+    userRepository.readByEmail.mockResolvedValue(user);
+    emailVerificationRepository.readCreatedSince.mockResolvedValue([sentToken(50), sentToken(20), sentToken(5)]);
+
+    const resend = new ResendEmailVerification(userRepository, emailVerificationRepository, mailer);
+    await resend.execute('user@example.com', 'token-hash', new Date(), 'link');
+
+    expect(emailVerificationRepository.create).not.toHaveBeenCalled();
+    expect(mailer.send).not.toHaveBeenCalled();
+  });
+
+  it('should not send anything to an already verified user', async () => {
+    const userRepository = mockUserRepository();
+    const emailVerificationRepository = mockEmailVerificationRepository();
+    const mailer = mockMailer();
+    userRepository.readByEmail.mockResolvedValue({ ...user, emailVerified: true });
+
+    const resend = new ResendEmailVerification(userRepository, emailVerificationRepository, mailer);
+    await resend.execute('user@example.com', 'token-hash', new Date(), 'link');
+
+    expect(emailVerificationRepository.create).not.toHaveBeenCalled();
+    expect(mailer.send).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,55 @@
+import { User } from "../../../domain/entities/user";
+import { EmailVerificationToken } from "../../../domain/entities/emailverification";
+import { EmailVerificationRepository } from "../../repositories/emailverification";
+import { UserRepository } from "../../repositories/user";
+import { VerifyEmail } from "../../usecases/comp/user";
+
+// Mocks de los repositorios
+const mockUserRepository = (): jest.Mocked<UserRepository> => ({
+  create: jest.fn(),
+  readById: jest.fn(),
+  readByEmail: jest.fn(),
+  readAll: jest.fn(),
+  update: jest.fn(),
+});
+const mockEmailVerificationRepository = (): jest.Mocked<EmailVerificationRepository> => ({
+  create: jest.fn(),
+  readByHash: jest.fn(),
+  readCreatedSince: jest.fn(),
+  markUsed: jest.fn(),
+  invalidateAllByUser: jest.fn(),
+});
+
+const user: User = { id: 1, email: 'user@example.com', password: 'hash', name: 'User', role: 'USER', banned: false, emailVerified: false };
+const verificationToken = (overrides: Partial<EmailVerificationToken> = {}): EmailVerificationToken => ({
+  id: 3, tokenHash: 'token-hash', userId: 1, expiresAt: new Date(Date.now() + 60_000), usedAt: null, createdAt: new Date(), ...overrides,
+});
+
+describe('VerifyEmail UseCase', () => {
+  it('should mark the token as used and the email as verified', async () => {
+    const userRepository = mockUserRepository();
+    const emailVerificationRepository = mockEmailVerificationRepository();
+    emailVerificationRepository.readByHash.mockResolvedValue(verificationToken());
+    emailVerificationRepository.markUsed.mockResolvedValue(true);
+    userRepository.readById.mockResolvedValue(user);
+    userRepository.update.mockResolvedValue({ ...user, emailVerified: true });
+
+    const verifyEmail = new VerifyEmail(userRepository, emailVerificationRepository);
+    const result = await verifyEmail.execute('token-hash');
+
+    expect(emailVerificationRepository.markUsed).toHaveBeenCalledWith(3);
+    expect(userRepository.update).toHaveBeenCalledWith(1, { emailVerified: true });
+    expect(result.emailVerified).toBe(true);
+  });
+
+  it('should reject an expired token', async () => {
+    const userRepository = mockUserRepository();
+    const emailVerificationRepository = mockEmailVerificationRepository();
+    emailVerificationRepository.readByHash.mockResolvedValue(verificationToken({ expiresAt: new Date(Date.now() - 1000) }));
+
+    const verifyEmail = new VerifyEmail(userRepository, emailVerificationRepository);
+
+    await expect(verifyEmail.execute('token-hash')).rejects.toThrow('Invalid or expired verification token');
+    expect(userRepository.update).not.toHaveBeenCalled();
+  });
+});
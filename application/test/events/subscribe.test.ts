@@ -0,0 +1,52 @@
+import { LiveEvent } from "../../../domain/entities/event";
+import { EventBus } from "../../repositories/events";
+import { SubscribeEvents } from "../../usecases/atomic/events";
+
+// Mock del bus de eventos
+const mockEventBus = (): jest.Mocked<EventBus> => ({
+  publish: jest.fn(),
+  subscribe: jest.fn(),
+  readSince: jest.fn(),
+});
+
+const event: LiveEvent = { id: 5, type: 'like.created', data: { postId: 1, userId: 2, likes: 3 }, createdAt: new Date() };
+
+describe('SubscribeEvents UseCase', () => {
+  it('should subscribe without replaying anything on the first connection', () => {
+    const eventBus = mockEventBus();
+    const unsubscribe = jest.fn();
+    eventBus.subscribe.mockReturnValue(unsubscribe);
+    const listener = jest.fn();
+
+    const subscribe = new SubscribeEvents(eventBus);
+    const result = subscribe.execute(listener);
+
+    expect(eventBus.readSince).not.toHaveBeenCalled();
+    expect(eventBus.subscribe).toHaveBeenCalledWith(listener);
+    expect(result).toEqual({ missed: [], unsubscribe });
+  });
+
+  it('should return the events missed since the last event id', () => {
+    const eventBus = mockEventBus();
+    eventBus.readSince.mockReturnValue([event]);
+    eventBus.subscribe.mockReturnValue(jest.fn());
+
+    const subscribe = new SubscribeEvents(eventBus);
+    const result = subscribe.execute(jest.fn(), 4);
+
+    expect(eventBus.readSince).toHaveBeenCalledWith(4);
+    expect(result.missed).toEqual([event]);
+  });
+
+  it('should return null when the missed events are no longer available', () => {
+    const eventBus = mockEventBus();
+    eventBus.readSince.mockReturnValue(null);
+    eventBus.subscribe.mockReturnValue(jest.fn());
+
+    const subscribe = new SubscribeEvents(eventBus);
+    const result = subscribe.execute(jest.fn(), 1);
+
+    expect(result.missed).toBeNull();
+    expect(eventBus.subscribe).toHaveBeenCalled();
+  });
+});
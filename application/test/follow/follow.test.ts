@@ -0,0 +1,93 @@
+import { User } from "../../../domain/entities/user";
+import { FindDbError, ValidationError } from "../../../domain/errors/main";
+import { FollowRepository } from "../../repositories/follow";
+import { NotificationRepository } from "../../repositories/notification";
+import { UserRepository } from "../../repositories/user";
+import { FollowUser } from "../../usecases/comp/follow";
+
+// Mocks de los repositorios
+const mockUserRepository = (): jest.Mocked<UserRepository> => ({
+  create: jest.fn(),
+  readById: jest.fn(),
+  readByEmail: jest.fn(),
+  readAll: jest.fn(),
+  update: jest.fn(),
+});
+const mockFollowRepository = (): jest.Mocked<FollowRepository> => ({
+  create: jest.fn(),
+  read: jest.fn(),
+  delete: jest.fn(),
+  countFollowers: jest.fn(),
+  countFollowing: jest.fn(),
+  readFollowers: jest.fn(),
+  readFollowing: jest.fn(),
+});
+const mockNotificationRepository = (): jest.Mocked<NotificationRepository> => ({
+  create: jest.fn(),
+  readById: jest.fn(),
+  readUnreadGroup: jest.fn(),
+  addToGroup: jest.fn(),
+  readByUser: jest.fn(),
+  countUnread: jest.fn(),
+  markRead: jest.fn(),
+  markAllRead: jest.fn(),
+});
+
+const target: User = { id: 2, email: 'user@example.com', password: 'hash', name: 'User', role: 'USER', banned: false, emailVerified: true };
+
+describe('FollowUser UseCase', () => {
+  it('should follow the user, notify them and return the followers count', async () => {
+    const userRepository = mockUserRepository();
+    const followRepository = mockFollowRepository();
+    const notificationRepository = mockNotificationRepository();
+    userRepository.readById.mockResolvedValue(target);
+    followRepository.read.mockResolvedValue(null);
+    followRepository.countFollowers.mockResolvedValue(1);
+
+    const follow = new FollowUser(userRepository, followRepository, notificationRepository);
+    const result = await follow.execute(1, 2);
+
+    expect(followRepository.create).toHaveBeenCalledWith(1, 2);
+    expect(notificationRepository.create).toHaveBeenCalledWith({ userId: 2, type: 'follow', actorId: 1, postId: null, commentId: null });
+    expect(result).toEqual({ userId: 2, following: true, followers: 1 });
+  });
+
+  it('should not follow twice the same user', async () => {
+    const userRepository = mockUserRepository();
+    const followRepository = mockFollowRepository();
+    const notificationRepository = mockNotificationRepository();
+    userRepository.readById.mockResolvedValue(target);
+    followRepository.read.mockResolvedValue({ id: 1, followerId: 1, followingId: 2, createdAt: new Date() });
+    followRepository.countFollowers.mockResolvedValue(1);
+
+    const follow = new FollowUser(userRepository, followRepository, notificationRepository);
+    const result = await follow.execute(1, 2);
+
+    expect(followRepository.create).not.toHaveBeenCalled();
+    expect(notificationRepository.create).not.toHaveBeenCalled();
+    expect(result).toEqual({ userId: 2, following: true, followers: 1 });
+  });
+
+  it('should reject following yourself', async () => {
+    const userRepository = mockUserRepository();
+    const followRepository = mockFollowRepository();
+    const notificationRepository = mockNotificationRepository();
+
+    const follow = new FollowUser(userRepository, followRepository, notificationRepository);
+
+    await expect(follow.execute(1, 1)).rejects.toBeInstanceOf(ValidationError);
+    expect(followRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('should throw FindDbError if the user does not exist', async () => {
+    const userRepository = mockUserRepository();
+    const followRepository = mockFollowRepository();
+    const notificationRepository = mockNotificationRepository();
+    userRepository.readById.mockResolvedValue(null);
+
+    const follow = new FollowUser(userRepository, followRepository, notificationRepository);
+
+    await expect(follow.execute(1, 2)).rejects.toBeInstanceOf(FindDbError);
+    expect(followRepository.create).not.toHaveBeenCalled();
+  });
+});
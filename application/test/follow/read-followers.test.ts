@@ -0,0 +1,66 @@
+import { User } from "../../../domain/entities/user";
+import { FindDbError } from "../../../domain/errors/main";
+import { FollowRepository } from "../../repositories/follow";
+import { UserRepository } from "../../repositories/user";
+import { ReadFollowers, ReadFollowing } from "../../usecases/comp/follow";
+
+// Mocks de los repositorios
+const mockUserRepository = (): jest.Mocked<UserRepository> => ({
+  create: jest.fn(),
+  readById: jest.fn(),
+  readByEmail: jest.fn(),
+  readAll: jest.fn(),
+  update: jest.fn(),
+});
+const mockFollowRepository = (): jest.Mocked<FollowRepository> => ({
+  create: jest.fn(),
+  read: jest.fn(),
+  delete: jest.fn(),
+  countFollowers: jest.fn(),
+  countFollowing: jest.fn(),
+  readFollowers: jest.fn(),
+  readFollowing: jest.fn(),
+});
+
+const user: User = { id: 2, email: 'user@example.com', password: 'hash', name: 'User', role: 'USER', banned: false, emailVerified: true };
+const followedAt = new Date();
+
+describe('ReadFollowers and ReadFollowing UseCases', () => {
+  it('should return a page of followers with the total count', async () => {
+    const userRepository = mockUserRepository();
+    const followRepository = mockFollowRepository();
+    userRepository.readById.mockResolvedValue(user);
+    followRepository.readFollowers.mockResolvedValue({ users: [{ id: 3, name: 'Fan', followedAt }], nextCursor: 7 });
+    followRepository.countFollowers.mockResolvedValue(4);
+
+    const readFollowers = new ReadFollowers(userRepository, followRepository);
+    const result = await readFollowers.execute(2, { limit: 1 });
+
+    expect(followRepository.readFollowers).toHaveBeenCalledWith(2, { limit: 1 });
+    expect(result).toEqual({ count: 4, users: [{ id: 3, name: 'Fan', followedAt }], nextCursor: 7 });
+  });
+
+  it('should return a page of followed users with the total count', async () => {
+    const userRepository = mockUserRepository();
+    const followRepository = mockFollowRepository();
+    userRepository.readById.mockResolvedValue(user);
+    followRepository.readFollowing.mockResolvedValue({ users: [], nextCursor: null });
+    followRepository.countFollowing.mockResolvedValue(0);
+
+    const readFollowing = new ReadFollowing(userRepository, followRepository);
+    const result = await readFollowing.execute(2, { limit: 20, cursor: 5 });
+
+    expect(followRepository.readFollowing).toHaveBeenCalledWith(2, { limit: 20, cursor: 5 });
+    expect(result).toEqual({ count: 0, users: [], nextCursor: null });
+  });
+
+  it('should throw FindDbError if the user does not exist', async () => {
+    const userRepository = mockUserRepository();
+    const followRepository = mockFollowRepository();
+    userRepository.readById.mockResolvedValue(null);
+
+    const readFollowers = new ReadFollowers(userRepository, followRepository);
+
+    await expect(readFollowers.execute(2, { limit: 20 })).rejects.toBeInstanceOf(FindDbError);
+  });
+});
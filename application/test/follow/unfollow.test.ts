@@ -0,0 +1,39 @@
+import { FollowRepository } from "../../repositories/follow";
+import { UnfollowUser } from "../../usecases/atomic/follow";
+
+// Mock del repositorio
+const mockFollowRepository = (): jest.Mocked<FollowRepository> => ({
+  create: jest.fn(),
+  read: jest.fn(),
+  delete: jest.fn(),
+  countFollowers: jest.fn(),
+  countFollowing: jest.fn(),
+  readFollowers: jest.fn(),
+  readFollowing: jest.fn(),
+});
+
+describe('UnfollowUser UseCase', () => {
+  it('should unfollow the user and return the followers count', async () => {
+    const followRepository = mockFollowRepository();
+    followRepository.read.mockResolvedValue({ id: 1, followerId: 1, followingId: 2, createdAt: new Date() });
+    followRepository.countFollowers.mockResolvedValue(0);
+
+    const unfollow = new UnfollowUser(followRepository);
+    const result = await unfollow.execute(1, 2);
+
+    expect(followRepository.delete).toHaveBeenCalledWith(1, 2);
+    expect(result).toEqual({ userId: 2, following: false, followers: 0 });
+  });
+
+  it('should do nothing if the user was not followed', async () => {
+    const followRepository = mockFollowRepository();
+    followRepository.read.mockResolvedValue(null);
+    followRepository.countFollowers.mockResolvedValue(3);
+
+    const unfollow = new UnfollowUser(followRepository);
+    const result = await unfollow.execute(1, 2);
+
+    expect(followRepository.delete).not.toHaveBeenCalled();
+    expect(result).toEqual({ userId: 2, following: false, followers: 3 });
+  });
+});
@@ -8,6 +8,9 @@ import { CreateLikePost } from "../../usecases/atomic/likepost";
 // Mock del repositorio
 const mockLikePostRepository = (): jest.Mocked<LikePostRepository> => ({
     create: jest.fn(),
+    readByUserAndPost: jest.fn(),
+    delete: jest.fn(),
+    countByPost: jest.fn(),
 });
 
 describe('CreateLikePost UseCase', () => {
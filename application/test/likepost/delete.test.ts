@@ -0,0 +1,35 @@
+import { LikePostRepository } from "../../repositories/likepost";
+import { DeleteLikePost } from "../../usecases/atomic/likepost";
+
+// Mock del repositorio
+const mockLikePostRepository = (): jest.Mocked<LikePostRepository> => ({
+    create: jest.fn(),
+    readByUserAndPost: jest.fn(),
+    delete: jest.fn(),
+    countByPost: jest.fn(),
+});
+
+describe('DeleteLikePost UseCase', () => {
+    it('should delete an existing like and return the state', async () => {
+        const likePostRepository = mockLikePostRepository();
+        likePostRepository.delete.mockResolvedValue(true);
+        likePostRepository.countByPost.mockResolvedValue(2);
+
+        const deleteLikePost = new DeleteLikePost(likePostRepository);
+        const result = await deleteLikePost.execute(1, 2);
+
+        expect(likePostRepository.delete).toHaveBeenCalledWith(1, 2);
+        expect(result).toEqual({ postId: 1, liked: false, likes: 2 });
+    });
+
+    it('should return the current state when the like does not exist', async () => {
+        const likePostRepository = mockLikePostRepository();
+        likePostRepository.delete.mockResolvedValue(false);
+        likePostRepository.countByPost.mockResolvedValue(3);
+
+        const deleteLikePost = new DeleteLikePost(likePostRepository);
+        const result = await deleteLikePost.execute(1, 2);
+
+        expect(result).toEqual({ postId: 1, liked: false, likes: 3 });
+    });
+});
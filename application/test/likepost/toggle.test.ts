@@ -0,0 +1,55 @@
+import { LikePost } from "../../../domain/entities/likepost";
+import { LikePostRepository } from "../../repositories/likepost";
+import { ToggleLikePost } from "../../usecases/atomic/likepost";
+
+// Mock del repositorio
+const mockLikePostRepository = (): jest.Mocked<LikePostRepository> => ({
+    create: jest.fn(),
+    readByUserAndPost: jest.fn(),
+    delete: jest.fn(),
+    countByPost: jest.fn(),
+});
+
+const existingLike: LikePost = {id:1, userId:2, postId:1, createdAt:new Date()};
+
+describe('ToggleLikePost UseCase', () => {
+    it('should create the like when it does not exist and return the state', async () => {
+        const likePostRepository = mockLikePostRepository();
+        likePostRepository.readByUserAndPost.mockResolvedValue(null);
+        likePostRepository.create.mockResolvedValue(existingLike);
+        likePostRepository.countByPost.mockResolvedValue(1);
+
+        const toggleLikePost = new ToggleLikePost(likePostRepository);
+        const result = await toggleLikePost.execute(1, 2);
+
+        expect(likePostRepository.create).toHaveBeenCalledWith(1, 2);
+        expect(result).toEqual({ postId: 1, liked: true, likes: 1, changed: true });
+    });
+
+    it('should delete the like when it already exists and return the state', async () => {
+        const likePostRepository = mockLikePostRepository();
+        likePostRepository.readByUserAndPost.mockResolvedValue(existingLike);
+        likePostRepository.delete.mockResolvedValue(true);
+        likePostRepository.countByPost.mockResolvedValue(0);
+
+        const toggleLikePost = new ToggleLikePost(likePostRepository);
+        const result = await toggleLikePost.execute(1, 2);
+
+        expect(likePostRepository.delete).toHaveBeenCalledWith(1, 2);
+        expect(result).toEqual({ postId: 1, liked: false, likes: 0, changed: true });
+    });
+
+    it('should be idempotent when the wanted state is already set', async () => {
+        const likePostRepository = mockLikePostRepository();
+        likePostRepository.create.mockResolvedValue(null);
+        likePostRepository.delete.mockResolvedValue(false);
+        likePostRepository.countByPost.mockResolvedValue(3);
+
+        const toggleLikePost = new ToggleLikePost(likePostRepository);
+
+        // Con el estado indicado no se lee el like actual, el repositorio ignora el like repetido o el que falta
+        expect(await toggleLikePost.execute(1, 2, true)).toEqual({ postId: 1, liked: true, likes: 3, changed: false });
+        expect(await toggleLikePost.execute(1, 2, false)).toEqual({ postId: 1, liked: false, likes: 3, changed: false });
+        expect(likePostRepository.readByUserAndPost).not.toHaveBeenCalled();
+    });
+});
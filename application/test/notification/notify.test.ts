@@ -0,0 +1,77 @@
+import { Notification } from "../../../domain/entities/notification";
+import { NotificationRepository } from "../../repositories/notification";
+import { NotifyUser } from "../../usecases/atomic/notification";
+
+// Mock del repositorio
+const mockNotificationRepository = (): jest.Mocked<NotificationRepository> => ({
+  create: jest.fn(),
+  readById: jest.fn(),
+  readUnreadGroup: jest.fn(),
+  addToGroup: jest.fn(),
+  readByUser: jest.fn(),
+  countUnread: jest.fn(),
+  markRead: jest.fn(),
+  markAllRead: jest.fn(),
+});
+
+const group: Notification = {
+  id: 1, userId: 1, type: 'like', actorId: 2, actorName: 'Ana', postId: 7, commentId: null,
+  count: 1, read: false, createdAt: new Date(), updatedAt: new Date(),
+};
+
+describe('NotifyUser UseCase', () => {
+  it('should create a notification when there is no unread group', async () => {
+    const notificationRepository = mockNotificationRepository();
+    notificationRepository.readUnreadGroup.mockResolvedValue(null);
+
+    const notify = new NotifyUser(notificationRepository);
+    await notify.execute({ userId: 1, type: 'like', actorId: 2, postId: 7, commentId: null });
+
+    expect(notificationRepository.readUnreadGroup).toHaveBeenCalledWith({ userId: 1, type: 'like', postId: 7, commentId: null });
+    expect(notificationRepository.create).toHaveBeenCalledWith({ userId: 1, type: 'like', actorId: 2, postId: 7, commentId: null });
+  });
+
+  it('should collapse the event into the unread group of the same post', async () => {
+    const notificationRepository = mockNotificationRepository();
+    notificationRepository.readUnreadGroup.mockResolvedValue(group);
+
+    const notify = new NotifyUser(notificationRepository);
+    await notify.execute({ userId: 1, type: 'like', actorId: 3, postId: 7, commentId: null });
+
+    expect(notificationRepository.addToGroup).toHaveBeenCalledWith(1, 3);
+    expect(notificationRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('should leave the group to the repository when the same actor repeats the action', async () => {
+    const notificationRepository = mockNotificationRepository();
+    notificationRepository.readUnreadGroup.mockResolvedValue(group);
+    notificationRepository.addToGroup.mockResolvedValue(null);
+
+    const notify = new NotifyUser(notificationRepository);
+    const result = await notify.execute({ userId: 1, type: 'like', actorId: 2, postId: 7, commentId: null });
+
+    expect(result).toBeNull();
+    expect(notificationRepository.addToGroup).toHaveBeenCalledWith(1, 2);
+    expect(notificationRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('should never collapse mentions', async () => {
+    const notificationRepository = mockNotificationRepository();
+
+    const notify = new NotifyUser(notificationRepository);
+    await notify.execute({ userId: 1, type: 'mention', actorId: 2, postId: 7, commentId: 4 });
+
+    expect(notificationRepository.readUnreadGroup).not.toHaveBeenCalled();
+    expect(notificationRepository.create).toHaveBeenCalledWith({ userId: 1, type: 'mention', actorId: 2, postId: 7, commentId: 4 });
+  });
+
+  it('should not notify users about their own actions', async () => {
+    const notificationRepository = mockNotificationRepository();
+
+    const notify = new NotifyUser(notificationRepository);
+    const result = await notify.execute({ userId: 1, type: 'comment', actorId: 1, postId: 7, commentId: null });
+
+    expect(result).toBeNull();
+    expect(notificationRepository.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,223 @@
+import { Comment } from "../../../domain/entities/comment";
+import { Post } from "../../../domain/entities/post";
+import { User } from "../../../domain/entities/user";
+import { CommentRepository } from "../../repositories/comment";
+import { LikePostRepository } from "../../repositories/likepost";
+import { NotificationRepository } from "../../repositories/notification";
+import { PostRepository } from "../../repositories/post";
+import { PostRevisionRepository } from "../../repositories/postrevision";
+import { UserRepository } from "../../repositories/user";
+import { CreateCommentAndNotify, CreatePostAndNotify, EditPostAndChangeStatus, PublishDuePostsAndNotify, ToggleLikePostAndNotify } from "../../usecases/comp/notification";
+
+// Mocks de los repositorios
+const mockPostRepository = (): jest.Mocked<PostRepository> => ({
+  create: jest.fn(),
+  readAll: jest.fn(),
+  readPage: jest.fn(),
+  update: jest.fn(),
+  updateWithRevision: jest.fn(),
+  delete: jest.fn(),
+  readById: jest.fn(),
+});
+const mockLikePostRepository = (): jest.Mocked<LikePostRepository> => ({
+  create: jest.fn(),
+  readByUserAndPost: jest.fn(),
+  delete: jest.fn(),
+  countByPost: jest.fn(),
+});
+const mockCommentRepository = (): jest.Mocked<CommentRepository> => ({
+  create: jest.fn(),
+  readById: jest.fn(),
+  readByPost: jest.fn(),
+  update: jest.fn(),
+});
+const mockPostRevisionRepository = (): jest.Mocked<PostRevisionRepository> => ({
+  create: jest.fn(),
+  readByPost: jest.fn(),
+  readByRev: jest.fn(),
+});
+const mockUserRepository = (): jest.Mocked<UserRepository> => ({
+  create: jest.fn(),
+  readById: jest.fn(),
+  readByEmail: jest.fn(),
+  readAll: jest.fn(),
+  update: jest.fn(),
+});
+const mockNotificationRepository = (): jest.Mocked<NotificationRepository> => ({
+  create: jest.fn(),
+  readById: jest.fn(),
+  readUnreadGroup: jest.fn(),
+  addToGroup: jest.fn(),
+  readByUser: jest.fn(),
+  countUnread: jest.fn(),
+  markRead: jest.fn(),
+  markAllRead: jest.fn(),
+});
+
+const post: Post = { id: 7, title: 'Post', content: 'Contenido', deleted: false, authorId: 1, date: new Date(), authorName: 'Autor' };
+const user: User = { id: 3, email: 'ana@example.com', password: 'hash', name: 'Ana', role: 'USER', banned: false, emailVerified: true };
+const comment = (data: Partial<Comment>): Comment => ({
+  id: 10, content: 'Comentario', deleted: false, authorId: 2, postId: 7, parentId: null, date: new Date(), editedAt: null, ...data,
+});
+
+describe('ToggleLikePostAndNotify UseCase', () => {
+  it('should notify the author only when a new like is created', async () => {
+    const likePostRepository = mockLikePostRepository();
+    const postRepository = mockPostRepository();
+    const notificationRepository = mockNotificationRepository();
+    postRepository.readById.mockResolvedValue(post);
+    likePostRepository.create.mockResolvedValue({ id: 1, postId: 7, userId: 2, createdAt: new Date() });
+    likePostRepository.countByPost.mockResolvedValue(1);
+    notificationRepository.readUnreadGroup.mockResolvedValue(null);
+
+    const like = new ToggleLikePostAndNotify(likePostRepository, postRepository, notificationRepository);
+    const state = await like.execute(7, 2, true);
+
+    expect(state).toEqual({ postId: 7, liked: true, likes: 1 });
+    expect(notificationRepository.create).toHaveBeenCalledWith({ userId: 1, type: 'like', actorId: 2, postId: 7, commentId: null });
+  });
+
+  it('should not notify when the post was already liked', async () => {
+    const likePostRepository = mockLikePostRepository();
+    const postRepository = mockPostRepository();
+    const notificationRepository = mockNotificationRepository();
+    postRepository.readById.mockResolvedValue(post);
+    likePostRepository.create.mockResolvedValue(null);
+    likePostRepository.countByPost.mockResolvedValue(1);
+
+    const like = new ToggleLikePostAndNotify(likePostRepository, postRepository, notificationRepository);
+    await like.execute(7, 2, true);
+
+    expect(notificationRepository.create).not.toHaveBeenCalled();
+    expect(notificationRepository.addToGroup).not.toHaveBeenCalled();
+  });
+
+  it('should reject likes on deleted, hidden and unpublished posts', async () => {
+    const likePostRepository = mockLikePostRepository();
+    const postRepository = mockPostRepository();
+    const notificationRepository = mockNotificationRepository();
+    const like = new ToggleLikePostAndNotify(likePostRepository, postRepository, notificationRepository);
+
+    for (const unavailable of [{ ...post, deleted: true }, { ...post, hidden: true }, { ...post, status: 'draft' as const }, { ...post, status: 'scheduled' as const }]) {
+      postRepository.readById.mockResolvedValue(unavailable);
+      await expect(like.execute(7, 2, true)).rejects.toMatchObject({ code: 'POST_NOT_FOUND' });
+    }
+    expect(likePostRepository.create).not.toHaveBeenCalled();
+    expect(notificationRepository.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('CreateCommentAndNotify UseCase', () => {
+  it('should notify the author of the replied comment and the mentioned users', async () => {
+    const commentRepository = mockCommentRepository();
+    const postRepository = mockPostRepository();
+    const userRepository = mockUserRepository();
+    const notificationRepository = mockNotificationRepository();
+    postRepository.readById.mockResolvedValue(post);
+    commentRepository.readById.mockResolvedValue(comment({ id: 5, authorId: 1 }));
+    commentRepository.create.mockResolvedValue(comment({ parentId: 5, content: 'Mira esto @[Ana](3)' }));
+    userRepository.readById.mockResolvedValue(user);
+    notificationRepository.readUnreadGroup.mockResolvedValue(null);
+
+    const create = new CreateCommentAndNotify(commentRepository, postRepository, userRepository, notificationRepository);
+    await create.execute({ content: 'Mira esto @[Ana](3)', postId: 7, authorId: 2, parentId: 5 });
+
+    // El autor del post ya recibe la respuesta, no también el comentario
+    expect(notificationRepository.create.mock.calls.map(([data]) => data)).toEqual([
+      { userId: 1, type: 'reply', actorId: 2, postId: 7, commentId: 5 },
+      { userId: 3, type: 'mention', actorId: 2, postId: 7, commentId: 10 },
+    ]);
+  });
+
+  it('should reject comments on deleted, hidden and unpublished posts', async () => {
+    const commentRepository = mockCommentRepository();
+    const postRepository = mockPostRepository();
+    const notificationRepository = mockNotificationRepository();
+    const create = new CreateCommentAndNotify(commentRepository, postRepository, mockUserRepository(), notificationRepository);
+
+    for (const unavailable of [{ ...post, deleted: true }, { ...post, hidden: true }, { ...post, status: 'draft' as const }, { ...post, status: 'scheduled' as const }]) {
+      postRepository.readById.mockResolvedValue(unavailable);
+      await expect(create.execute({ content: 'Hola', postId: 7, authorId: 2, parentId: null })).rejects.toMatchObject({ code: 'POST_NOT_FOUND' });
+    }
+    expect(commentRepository.create).not.toHaveBeenCalled();
+    expect(notificationRepository.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('CreatePostAndNotify UseCase', () => {
+  it('should notify only the mentioned users that exist', async () => {
+    const postRepository = mockPostRepository();
+    const userRepository = mockUserRepository();
+    const notificationRepository = mockNotificationRepository();
+    postRepository.create.mockResolvedValue({ ...post, authorId: 2, content: 'Hola @[Ana](3) y @[Nadie](99)' });
+    userRepository.readById.mockImplementation(async (id) => (id === 3 ? user : null));
+
+    const create = new CreatePostAndNotify(postRepository, userRepository, notificationRepository);
+    await create.execute({ title: 'Post', content: 'Hola @[Ana](3) y @[Nadie](99)', authorName: 'Autor' }, 2);
+
+    expect(notificationRepository.create).toHaveBeenCalledTimes(1);
+    expect(notificationRepository.create).toHaveBeenCalledWith({ userId: 3, type: 'mention', actorId: 2, postId: 7, commentId: null });
+  });
+
+  it('should not notify the mentions of a draft', async () => {
+    const postRepository = mockPostRepository();
+    const userRepository = mockUserRepository();
+    const notificationRepository = mockNotificationRepository();
+    postRepository.create.mockResolvedValue({ ...post, authorId: 2, content: 'Hola @[Ana](3)', status: 'draft' });
+
+    const create = new CreatePostAndNotify(postRepository, userRepository, notificationRepository);
+    await create.execute({ title: 'Post', content: 'Hola @[Ana](3)', authorName: 'Autor', status: 'draft' }, 2);
+
+    expect(notificationRepository.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('EditPostAndChangeStatus UseCase', () => {
+  it('should publish the edited draft and notify its mentions', async () => {
+    const postRepository = mockPostRepository();
+    const userRepository = mockUserRepository();
+    const notificationRepository = mockNotificationRepository();
+    const draft: Post = { ...post, authorId: 2, status: 'draft' };
+    postRepository.readById.mockResolvedValue(draft);
+    postRepository.updateWithRevision.mockImplementation(async (id, data) => ({ ...draft, ...data }));
+    postRepository.update.mockImplementation(async (id, data) => ({ ...draft, content: 'Hola @[Ana](3)', ...data }));
+    userRepository.readById.mockResolvedValue(user);
+    notificationRepository.readUnreadGroup.mockResolvedValue(null);
+
+    const edit = new EditPostAndChangeStatus(postRepository, mockPostRevisionRepository(), userRepository, notificationRepository);
+    const result = await edit.execute(7, { content: 'Hola @[Ana](3)' }, { status: 'published' }, { id: 2, role: 'USER' });
+
+    expect(result).toMatchObject({ content: 'Hola @[Ana](3)', status: 'published' });
+    expect(notificationRepository.create).toHaveBeenCalledWith({ userId: 3, type: 'mention', actorId: 2, postId: 7, commentId: null });
+  });
+
+  it('should not save the edit when the status change is not valid', async () => {
+    const postRepository = mockPostRepository();
+    const postRevisionRepository = mockPostRevisionRepository();
+    const edit = new EditPostAndChangeStatus(postRepository, postRevisionRepository, mockUserRepository(), mockNotificationRepository());
+    const author = { id: 1, role: 'USER' };
+
+    postRepository.readById.mockResolvedValue({ ...post, status: 'draft' });
+    await expect(edit.execute(7, { title: 'Nuevo' }, { status: 'scheduled', publishAt: null }, author)).rejects.toMatchObject({ code: 'INVALID_PUBLISH_AT' });
+    postRepository.readById.mockResolvedValue(post);
+    await expect(edit.execute(7, { title: 'Nuevo' }, { status: 'draft' }, author)).rejects.toMatchObject({ code: 'POST_ALREADY_PUBLISHED' });
+    expect(postRepository.updateWithRevision).not.toHaveBeenCalled();
+    expect(postRepository.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('PublishDuePostsAndNotify UseCase', () => {
+  it('should notify the mentions of the published posts', async () => {
+    const postRepository = mockPostRepository();
+    const userRepository = mockUserRepository();
+    const notificationRepository = mockNotificationRepository();
+    const scheduled: Post = { ...post, authorId: 2, content: 'Hola @[Ana](3)', status: 'scheduled', publishAt: new Date() };
+    postRepository.readPage.mockResolvedValue({ posts: [scheduled], nextCursor: null });
+    postRepository.update.mockResolvedValue({ ...scheduled, status: 'published', publishAt: null });
+    userRepository.readById.mockResolvedValue(user);
+
+    await new PublishDuePostsAndNotify(postRepository, userRepository, notificationRepository).execute();
+
+    expect(notificationRepository.create).toHaveBeenCalledWith({ userId: 3, type: 'mention', actorId: 2, postId: 7, commentId: null });
+  });
+});
@@ -0,0 +1,76 @@
+import { Notification } from "../../../domain/entities/notification";
+import { FindDbError } from "../../../domain/errors/main";
+import { NotificationRepository } from "../../repositories/notification";
+import { MarkAllNotificationsRead, MarkNotificationRead, ReadNotifications } from "../../usecases/atomic/notification";
+
+// Mock del repositorio
+const mockNotificationRepository = (): jest.Mocked<NotificationRepository> => ({
+  create: jest.fn(),
+  readById: jest.fn(),
+  readUnreadGroup: jest.fn(),
+  addToGroup: jest.fn(),
+  readByUser: jest.fn(),
+  countUnread: jest.fn(),
+  markRead: jest.fn(),
+  markAllRead: jest.fn(),
+});
+
+const notification: Notification = {
+  id: 1, userId: 1, type: 'like', actorId: 2, actorName: 'Ana', postId: 7, commentId: null,
+  count: 13, read: false, createdAt: new Date(), updatedAt: new Date(),
+};
+
+describe('ReadNotifications UseCase', () => {
+  it('should return a page of notifications with their message and the unread count', async () => {
+    const notificationRepository = mockNotificationRepository();
+    notificationRepository.readByUser.mockResolvedValue({ notifications: [notification], nextCursor: null });
+    notificationRepository.countUnread.mockResolvedValue(1);
+
+    const read = new ReadNotifications(notificationRepository);
+    const query = { userId: 1, unreadOnly: false, limit: 20 };
+    const result = await read.execute(query);
+
+    expect(notificationRepository.readByUser).toHaveBeenCalledWith(query);
+    expect(result).toEqual({
+      notifications: [{ ...notification, message: 'Ana y 12 más han dado me gusta a tu post' }],
+      unreadCount: 1,
+      nextCursor: null,
+    });
+  });
+});
+
+describe('MarkNotificationRead UseCase', () => {
+  it('should mark a notification of the user as read', async () => {
+    const notificationRepository = mockNotificationRepository();
+    notificationRepository.readById.mockResolvedValue(notification);
+    notificationRepository.markRead.mockResolvedValue({ ...notification, read: true });
+
+    const mark = new MarkNotificationRead(notificationRepository);
+    const result = await mark.execute(1, 1);
+
+    expect(notificationRepository.markRead).toHaveBeenCalledWith(1);
+    expect(result.read).toBe(true);
+  });
+
+  it('should throw FindDbError for the notification of another user', async () => {
+    const notificationRepository = mockNotificationRepository();
+    notificationRepository.readById.mockResolvedValue(notification);
+
+    const mark = new MarkNotificationRead(notificationRepository);
+
+    await expect(mark.execute(1, 2)).rejects.toBeInstanceOf(FindDbError);
+    expect(notificationRepository.markRead).not.toHaveBeenCalled();
+  });
+});
+
+describe('MarkAllNotificationsRead UseCase', () => {
+  it('should mark every notification of the user as read', async () => {
+    const notificationRepository = mockNotificationRepository();
+    notificationRepository.markAllRead.mockResolvedValue(3);
+
+    const markAll = new MarkAllNotificationsRead(notificationRepository);
+
+    expect(await markAll.execute(1)).toEqual({ updated: 3 });
+    expect(notificationRepository.markAllRead).toHaveBeenCalledWith(1);
+  });
+});
@@ -0,0 +1,58 @@
+import { User } from "../../../domain/entities/user";
+import { Mailer } from "../../repositories/mailer";
+import { PasswordResetRepository } from "../../repositories/passwordreset";
+import { UserRepository } from "../../repositories/user";
+import { RequestPasswordReset } from "../../usecases/comp/user";
+
+// Mocks de los repositorios
+const mockUserRepository = (): jest.Mocked<UserRepository> => ({
+  create: jest.fn(),
+  readById: jest.fn(),
+  readByEmail: jest.fn(),
+  readAll: jest.fn(),
+  update: jest.fn(),
+});
+const mockPasswordResetRepository = (): jest.Mocked<PasswordResetRepository> => ({
+  create: jest.fn(),
+  readByHash: jest.fn(),
+  markUsed: jest.fn(),
+  invalidateAllByUser: jest.fn(),
+});
+const mockMailer = (): jest.Mocked<Mailer> => ({
+  send: jest.fn(),
+});
+
+describe('RequestPasswordReset UseCase', () => {
+  it('should store the hashed token and send the reset link by email', async () => {
+    const userRepository = mockUserRepository();
+    const passwordResetRepository = mockPasswordResetRepository();
+    const mailer = mockMailer();
+
+    const user: User = { id: 1, email: 'user@example.com', password: 'hash', name: 'User', role: 'USER', banned: false, emailVerified: true };
+    userRepository.readByEmail.mockResolvedValue(user);
+
+    const expiresAt = new Date(Date.now() + 3600_000);
+    const requestPasswordReset = new RequestPasswordReset(userRepository, passwordResetRepository, mailer);
+    await requestPasswordReset.execute('user@example.com', 'token-hash', expiresAt, 'http://localhost/reset-password?token=abc');
+
+    expect(passwordResetRepository.invalidateAllByUser).toHaveBeenCalledWith(1);
+    expect(passwordResetRepository.create).toHaveBeenCalledWith(1, 'token-hash', expiresAt);
+    expect(mailer.send).toHaveBeenCalledWith(expect.objectContaining({
+      to: 'user@example.com',
+      text: expect.stringContaining('http://localhost/reset-password?token=abc'),
+    }));
+  });
+
+  it('should do nothing when the email does not belong to any user', async () => {
+    const userRepository = mockUserRepository();
+    const passwordResetRepository = mockPasswordResetRepository();
+    const mailer = mockMailer();
+    userRepository.readByEmail.mockResolvedValue(null);
+
+    const requestPasswordReset = new RequestPasswordReset(userRepository, passwordResetRepository, mailer);
+    await requestPasswordReset.execute('nobody@example.com', 'token-hash', new Date(), 'link');
+
+    expect(passwordResetRepository.create).not.toHaveBeenCalled();
+    expect(mailer.send).not.toHaveBeenCalled();
+  });
+});
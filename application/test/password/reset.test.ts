@@ -0,0 +1,78 @@
+import { User } from "../../../domain/entities/user";
+import { PasswordResetToken } from "../../../domain/entities/passwordreset";
+import { PasswordResetRepository } from "../../repositories/passwordreset";
+import { SessionRepository } from "../../repositories/session";
+import { UserRepository } from "../../repositories/user";
+import { ResetPassword } from "../../usecases/comp/user";
+
+// Mocks de los repositorios
+const mockUserRepository = (): jest.Mocked<UserRepository> => ({
+  create: jest.fn(),
+  readById: jest.fn(),
+  readByEmail: jest.fn(),
+  readAll: jest.fn(),
+  update: jest.fn(),
+});
+const mockPasswordResetRepository = (): jest.Mocked<PasswordResetRepository> => ({
+  create: jest.fn(),
+  readByHash: jest.fn(),
+  markUsed: jest.fn(),
+  invalidateAllByUser: jest.fn(),
+});
+const mockSessionRepository = (): jest.Mocked<SessionRepository> => ({
+  create: jest.fn(),
+  readById: jest.fn(),
+  revoke: jest.fn(),
+  revokeAllByUser: jest.fn(),
+  createRefreshToken: jest.fn(),
+  readRefreshTokenByHash: jest.fn(),
+  markRefreshTokenUsed: jest.fn(),
+});
+
+const user: User = { id: 1, email: 'user@example.com', password: 'old-hash', name: 'User', role: 'USER', banned: false, emailVerified: true };
+const resetToken = (overrides: Partial<PasswordResetToken> = {}): PasswordResetToken => ({
+  id: 7, tokenHash: 'token-hash', userId: 1, expiresAt: new Date(Date.now() + 60_000), usedAt: null, createdAt: new Date(), ...overrides,
+});
+
+describe('ResetPassword UseCase', () => {
+  it('should update the password and revoke every session of the user', async () => {
+    const userRepository = mockUserRepository();
+    const passwordResetRepository = mockPasswordResetRepository();
+    const sessionRepository = mockSessionRepository();
+    passwordResetRepository.readByHash.mockResolvedValue(resetToken());
+    passwordResetRepository.markUsed.mockResolvedValue(true);
+    userRepository.readById.mockResolvedValue(user);
+    userRepository.update.mockResolvedValue({ ...user, password: 'new-hash' });
+
+    const resetPassword = new ResetPassword(userRepository, passwordResetRepository, sessionRepository);
+    await resetPassword.execute('token-hash', 'new-hash');
+
+    expect(passwordResetRepository.markUsed).toHaveBeenCalledWith(7);
+    expect(userRepository.update).toHaveBeenCalledWith(1, { password: 'new-hash' });
+    expect(sessionRepository.revokeAllByUser).toHaveBeenCalledWith(1);
+  });
+
+  it('should reject a token that was already used', async () => {
+    const userRepository = mockUserRepository();
+    const passwordResetRepository = mockPasswordResetRepository();
+    const sessionRepository = mockSessionRepository();
+    passwordResetRepository.readByHash.mockResolvedValue(resetToken({ usedAt: new Date() }));
+
+    const resetPassword = new ResetPassword(userRepository, passwordResetRepository, sessionRepository);
+
+    await expect(resetPassword.execute('token-hash', 'new-hash')).rejects.toThrow('Invalid or expired reset token');
+    expect(userRepository.update).not.toHaveBeenCalled();
+  });
+
+  it('should reject an expired token', async () => {
+    const userRepository = mockUserRepository();
+    const passwordResetRepository = mockPasswordResetRepository();
+    const sessionRepository = mockSessionRepository();
+    passwordResetRepository.readByHash.mockResolvedValue(resetToken({ expiresAt: new Date(Date.now() - 1000) }));
+
+    const resetPassword = new ResetPassword(userRepository, passwordResetRepository, sessionRepository);
+
+    await expect(resetPassword.execute('token-hash', 'new-hash')).rejects.toThrow('Invalid or expired reset token');
+    expect(passwordResetRepository.markUsed).not.toHaveBeenCalled();
+  });
+});
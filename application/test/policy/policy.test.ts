@@ -0,0 +1,30 @@
+import { can, canModify, outranks } from "../../usecases/policy";
+
+describe('Policy helpers', () => {
+  it('should map each role to its permissions', () => {
+    expect(can({ id: 1, role: 'USER' }, 'post.delete.any')).toBe(false);
+    expect(can({ id: 1, role: 'MODERATOR' }, 'post.delete.any')).toBe(true);
+    expect(can({ id: 1, role: 'MODERATOR' }, 'user.ban')).toBe(true);
+    expect(can({ id: 1, role: 'MODERATOR' }, 'post.hardDelete')).toBe(false);
+    expect(can({ id: 1, role: 'ADMIN' }, 'post.hardDelete')).toBe(true);
+  });
+
+  it('should deny every permission to unknown roles', () => {
+    expect(can({ id: 1, role: 'SUPERUSER' }, 'user.ban')).toBe(false);
+    expect(can({ id: 1, role: 'toString' }, 'user.ban')).toBe(false);
+    expect(can({ id: 1, role: 'constructor' }, 'user.ban')).toBe(false);
+  });
+
+  it('should let owners modify their resources without any permission', () => {
+    expect(canModify({ id: 1, role: 'USER' }, 1)).toBe(true);
+    expect(canModify({ id: 2, role: 'USER' }, 1, 'post.delete.any')).toBe(false);
+    expect(canModify({ id: 2, role: 'MODERATOR' }, 1, 'post.delete.any')).toBe(true);
+  });
+
+  it('should not let a role act on a higher role', () => {
+    expect(outranks({ id: 1, role: 'MODERATOR' }, 'USER')).toBe(true);
+    expect(outranks({ id: 1, role: 'MODERATOR' }, 'MODERATOR')).toBe(true);
+    expect(outranks({ id: 1, role: 'MODERATOR' }, 'ADMIN')).toBe(false);
+    expect(outranks({ id: 1, role: 'ADMIN' }, 'ADMIN')).toBe(true);
+  });
+});
@@ -1,13 +1,16 @@
 // test/post/CreatePost.test.ts
 import { Post } from "../../../domain/entities/post";
 import { PostRepository } from "../../repositories/post";
+import { ValidationError } from "../../../domain/errors/main";
 import { CreatePost } from "../../usecases/atomic/post";
 
 // Mock del repositorio
 const mockPostRepository = (): jest.Mocked<PostRepository> => ({
   create: jest.fn(),
   readAll: jest.fn(),
+  readPage: jest.fn(),
   update: jest.fn(),
+  updateWithRevision: jest.fn(),
   delete: jest.fn(),
   readById: jest.fn(),
 });
@@ -24,7 +27,40 @@ describe('CreatePost UseCase', () => {
     const createPost = new CreatePost(postRepository);
     const result = await createPost.execute(postData, 1);
 
-    expect(postRepository.create).toHaveBeenCalledWith(postData, 1);
+    expect(postRepository.create).toHaveBeenCalledWith({ ...postData, tags: [], status: 'published', publishAt: null }, 1);
     expect(result).toEqual(newPost);
   });
+
+  it('should add the hashtags of the content to the given tags', async () => {
+    const postRepository = mockPostRepository();
+
+    const postData = { title: 'Receta', content: 'Pasta #Cocina #italiana, ver https://example.com/#cocina', authorName: 'Author Name', tags: ['#Recetas', 'cocina'] };
+
+    const createPost = new CreatePost(postRepository);
+    await createPost.execute(postData, 1);
+
+    expect(postRepository.create).toHaveBeenCalledWith({ ...postData, tags: ['recetas', 'cocina', 'italiana'], status: 'published', publishAt: null }, 1);
+  });
+
+  it('should schedule the post when it has a future publishAt', async () => {
+    const postRepository = mockPostRepository();
+    const now = new Date('2025-02-01T10:00:00Z');
+    const publishAt = new Date('2025-02-02T09:00:00Z');
+
+    await new CreatePost(postRepository).execute({ title: 'Post', content: null, authorName: 'Author Name', publishAt }, 1, now);
+    await new CreatePost(postRepository).execute({ title: 'Post', content: null, authorName: 'Author Name', status: 'draft', publishAt }, 1, now);
+
+    expect(postRepository.create).toHaveBeenNthCalledWith(1, expect.objectContaining({ status: 'scheduled', publishAt }), 1);
+    expect(postRepository.create).toHaveBeenNthCalledWith(2, expect.objectContaining({ status: 'draft', publishAt: null }), 1);
+  });
+
+  it('should reject a scheduled post without a future publishAt', async () => {
+    const postRepository = mockPostRepository();
+    const now = new Date('2025-02-01T10:00:00Z');
+    const createPost = new CreatePost(postRepository);
+
+    await expect(createPost.execute({ title: 'Post', content: null, authorName: 'Author Name', status: 'scheduled' }, 1, now)).rejects.toThrow(ValidationError);
+    await expect(createPost.execute({ title: 'Post', content: null, authorName: 'Author Name', publishAt: new Date('2025-01-31T10:00:00Z') }, 1, now)).rejects.toThrow(ValidationError);
+    expect(postRepository.create).not.toHaveBeenCalled();
+  });
 });
@@ -6,7 +6,9 @@ import { DeletePost } from "../../usecases/atomic/post";
 const mockPostRepository = (): jest.Mocked<PostRepository> => ({
   create: jest.fn(),
   readAll: jest.fn(),
+  readPage: jest.fn(),
   update: jest.fn(),
+  updateWithRevision: jest.fn(),
   delete: jest.fn(),
   readById: jest.fn(),
 });
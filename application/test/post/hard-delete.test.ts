@@ -0,0 +1,41 @@
+import { Post } from "../../../domain/entities/post";
+import { PostRepository } from "../../repositories/post";
+import { HardDeletePost } from "../../usecases/atomic/post";
+
+// Mock del repositorio
+const mockPostRepository = (): jest.Mocked<PostRepository> => ({
+  create: jest.fn(),
+  readAll: jest.fn(),
+  readPage: jest.fn(),
+  update: jest.fn(),
+  updateWithRevision: jest.fn(),
+  delete: jest.fn(),
+  readById: jest.fn(),
+});
+
+const post: Post = { id: 1, title: 'Post', content: 'Content', deleted: false, authorId: 1, date: new Date(), authorName: 'Author Name' };
+
+describe('HardDeletePost UseCase', () => {
+  it('should let an admin delete a post permanently', async () => {
+    const postRepository = mockPostRepository();
+    postRepository.readById.mockResolvedValue(post);
+    postRepository.delete.mockResolvedValue(post);
+
+    const hardDeletePost = new HardDeletePost(postRepository);
+    const result = await hardDeletePost.execute(1, { id: 9, role: 'ADMIN' });
+
+    expect(postRepository.delete).toHaveBeenCalledWith(1);
+    expect(result).toEqual(post);
+  });
+
+  it('should not let a moderator nor the author delete a post permanently', async () => {
+    const postRepository = mockPostRepository();
+    postRepository.readById.mockResolvedValue(post);
+
+    const hardDeletePost = new HardDeletePost(postRepository);
+
+    await expect(hardDeletePost.execute(1, { id: 9, role: 'MODERATOR' })).rejects.toThrow('user not authorized for hardDelete');
+    await expect(hardDeletePost.execute(1, { id: 1, role: 'USER' })).rejects.toThrow('user not authorized for hardDelete');
+    expect(postRepository.delete).not.toHaveBeenCalled();
+  });
+});
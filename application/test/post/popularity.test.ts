@@ -1,93 +1,78 @@
-import { PostsPopularity } from '../../usecases/comp/post';
+import { ReadPostsPopularity } from '../../usecases/atomic/ranking';
+import { ReadVisiblePostsPopularity } from '../../usecases/comp/ranking';
+import { RankingRepository } from '../../repositories/ranking';
 import { PostRepository } from '../../repositories/post';
-import { UserRepository } from '../../repositories/user';
 import { Post } from '../../../domain/entities/post';
-import { User } from '../../../domain/entities/user'; // Asumimos que existe una entidad User
+import { DEFAULT_RANKING } from '../../../domain/entities/ranking';
 
-describe('PostsPopularity', () => {
-  let postsPopularity: PostsPopularity;
-  let mockPostRepository: jest.Mocked<PostRepository>;
-  let mockUserRepository: jest.Mocked<UserRepository>;
+const HOUR = 60 * 60 * 1000;
+
+describe('ReadPostsPopularity', () => {
+  let postsPopularity: ReadPostsPopularity;
+  let mockRankingRepository: jest.Mocked<RankingRepository>;
 
   beforeEach(() => {
-    mockPostRepository = {
-      readAll: jest.fn(),
-    } as any;
-    mockUserRepository = {
-      readAll: jest.fn(),
-    } as any;
-    postsPopularity = new PostsPopularity(mockPostRepository, mockUserRepository);
+    mockRankingRepository = {
+      read: jest.fn(),
+    };
+    postsPopularity = new ReadPostsPopularity(mockRankingRepository);
   });
 
-  it('debe calcular correctamente la popularidad de los posts', async () => {
-    const mockPosts: Post[] = [
-      {
-        id: 1,
-        title: 'Post 1',
-        content: 'Contenido 1',
-        deleted: false,
-        authorId: 1,
-        date: new Date(),
-        authorName: 'Autor 1',
-        likes: [{id: 2, userId: 2, postId: 1, createdAt: new Date()}, {id: 3, userId: 3, postId: 1, createdAt: new Date()}],
-      },
-      {
-        id: 2,
-        title: 'Post 2',
-        content: 'Contenido 2',
-        deleted: false,
-        authorId: 2,
-        date: new Date(),
-        authorName: 'Autor 2',
-        likes: [{id: 1, userId: 1, postId: 2, createdAt: new Date()}],
-      },
-    ];
+  it('debe devolver los likes y la puntuación con decaimiento de cada post', async () => {
+    const now = new Date();
+    mockRankingRepository.read.mockResolvedValue({
+      posts: [
+        { postId: 1, likes: [{ likedAt: now, likes: 1 }, { likedAt: new Date(now.getTime() - 10 * HOUR), likes: 1 }] },
+        { postId: 2, likes: [{ likedAt: now, likes: 1 }] },
+      ],
+      users: 3,
+    });
 
-    const mockUsers: User[] = [
-      { id: 1, name: 'Usuario 1', email: 'usuario1@example.com', password: 'password', role: 'user', banned: false   },
-      { id: 2, name: 'Usuario 2', email: 'usuario2@example.com', password: 'password', role: 'user', banned: false },
-      { id: 3, name: 'Usuario 3', email: 'usuario3@example.com', password: 'password', role: 'user', banned: false },
-    ];
+    const result = await postsPopularity.execute(DEFAULT_RANKING, now);
 
-    mockPostRepository.readAll.mockResolvedValue(mockPosts);
-    mockUserRepository.readAll.mockResolvedValue(mockUsers);
+    expect(mockRankingRepository.read).toHaveBeenCalledWith('all');
+    // 1 / (0 + 2)^1.8 + 1 / (10 + 2)^1.8
+    expect(result[0]).toEqual({ id: 1, likes: 2, score: expect.closeTo(1 / Math.pow(2, 1.8) + 1 / Math.pow(12, 1.8), 10) });
+    expect(result[1]).toEqual({ id: 2, likes: 1, score: expect.closeTo(1 / Math.pow(2, 1.8), 10) });
+  });
 
-    const result = await postsPopularity.execute();
+  it('debe contar cada like de un grupo', async () => {
+    const now = new Date();
+    mockRankingRepository.read.mockResolvedValue({ posts: [{ postId: 1, likes: [{ likedAt: now, likes: 3 }] }], users: 4 });
 
-    expect(result).toEqual([
-      { id: 1, popularity: 1 }, // 2 likes / (3 usuarios totales - 1) = 1
-      { id: 2, popularity: 0.5 }, // 1 like / (3 usuarios totales - 1) = 0.5
-    ]);
+    const result = await postsPopularity.execute(DEFAULT_RANKING, now);
 
-    expect(mockPostRepository.readAll).toHaveBeenCalledTimes(1);
-    expect(mockUserRepository.readAll).toHaveBeenCalledTimes(1);
+    expect(result).toEqual([{ id: 1, likes: 3, score: expect.closeTo(3 / Math.pow(2, 1.8), 10) }]);
   });
 
-  it('debe manejar posts sin likes', async () => {
-    const mockPosts: Post[] = [
-      {
-        id: 1,
-        title: 'Post sin likes',
-        content: 'Contenido',
-        deleted: false,
-        authorId: 1,
-        date: new Date(),
-        authorName: 'Autor 1',
-      },
-    ];
+  it('debe manejar posts sin likes y un único usuario', async () => {
+    mockRankingRepository.read.mockResolvedValue({ posts: [{ postId: 1, likes: [] }], users: 1 });
 
-    const mockUsers: User[] = [
-      { id: 1, name: 'Usuario 1', email: 'usuario1@example.com', password: 'password', role: 'user', banned: false },
-    { id: 2, name: 'Usuario 2', email: 'usuario2@example.com', password: 'password', role: 'user', banned: false },
-    ];
+    const result = await postsPopularity.execute(DEFAULT_RANKING);
 
-    mockPostRepository.readAll.mockResolvedValue(mockPosts);
-    mockUserRepository.readAll.mockResolvedValue(mockUsers);
+    expect(result).toEqual([{ id: 1, likes: 0, score: 0 }]);
+  });
+});
+
+describe('ReadVisiblePostsPopularity', () => {
+  it('debe omitir los posts que ya no son visibles aunque el ranking esté en caché', async () => {
+    const rankingRepository: jest.Mocked<RankingRepository> = { read: jest.fn() };
+    const postRepository: jest.Mocked<PostRepository> = {
+      create: jest.fn(),
+      readAll: jest.fn(),
+      readPage: jest.fn(),
+      update: jest.fn(),
+      updateWithRevision: jest.fn(),
+      delete: jest.fn(),
+      readById: jest.fn(),
+    };
+    const post = (id: number): Post => ({ id, title: `Post ${id}`, content: 'Contenido', deleted: false, authorId: 1, date: new Date(), authorName: 'Autor' });
+    rankingRepository.read.mockResolvedValue({ posts: [{ postId: 1, likes: [] }, { postId: 2, likes: [] }], users: 2 });
+    postRepository.readPage.mockResolvedValue({ posts: [post(2)], nextCursor: null });
 
-    const result = await postsPopularity.execute();
+    const result = await new ReadVisiblePostsPopularity(rankingRepository, postRepository).execute(DEFAULT_RANKING);
 
-    expect(result).toEqual([
-      { id: 1, popularity: 0 },
-    ]);
+    expect(postRepository.readPage).toHaveBeenCalledWith(expect.objectContaining({ ids: [1, 2], onlyVisible: true, limit: 2 }));
+    expect(result).toEqual([{ id: 2, likes: 0, score: 0 }]);
   });
 });
@@ -0,0 +1,103 @@
+import { Post } from "../../../domain/entities/post";
+import { ConflictError, UnauthorizedError } from "../../../domain/errors/main";
+import { PostRepository } from "../../repositories/post";
+import { ChangePostStatus, PublishDuePosts, ReadDrafts } from "../../usecases/atomic/post";
+
+// Mock del repositorio
+const mockPostRepository = (): jest.Mocked<PostRepository> => ({
+  create: jest.fn(),
+  readAll: jest.fn(),
+  readPage: jest.fn(),
+  update: jest.fn(),
+  updateWithRevision: jest.fn(),
+  delete: jest.fn(),
+  readById: jest.fn(),
+});
+
+const now = new Date('2025-02-01T10:00:00Z');
+const draft: Post = { id: 1, title: 'Post', content: 'Content', deleted: false, status: 'draft', publishAt: null, authorId: 2, date: new Date('2025-01-30T10:00:00Z'), authorName: 'Author Name' };
+const author = { id: 2, role: 'USER' };
+
+describe('ChangePostStatus UseCase', () => {
+  it('should publish a draft with the current date', async () => {
+    const postRepository = mockPostRepository();
+    postRepository.readById.mockResolvedValue(draft);
+    postRepository.update.mockResolvedValue({ ...draft, status: 'published', date: now });
+
+    const result = await new ChangePostStatus(postRepository).execute(1, { status: 'published' }, author, now);
+
+    expect(postRepository.update).toHaveBeenCalledWith(1, { status: 'published', publishAt: null, date: now });
+    expect(result.status).toBe('published');
+  });
+
+  it('should schedule a draft', async () => {
+    const postRepository = mockPostRepository();
+    const publishAt = new Date('2025-02-03T08:00:00Z');
+    postRepository.readById.mockResolvedValue(draft);
+
+    await new ChangePostStatus(postRepository).execute(1, { publishAt }, author, now);
+
+    expect(postRepository.update).toHaveBeenCalledWith(1, { status: 'scheduled', publishAt });
+  });
+
+  it('should not unpublish a published post', async () => {
+    const postRepository = mockPostRepository();
+    const published = { ...draft, status: 'published' as const };
+    postRepository.readById.mockResolvedValue(published);
+    const changePostStatus = new ChangePostStatus(postRepository);
+
+    await expect(changePostStatus.execute(1, { status: 'draft' }, author, now)).rejects.toThrow(ConflictError);
+    await expect(changePostStatus.execute(1, { status: 'published' }, author, now)).resolves.toEqual(published);
+    expect(postRepository.update).not.toHaveBeenCalled();
+  });
+
+  it('should throw if the user is not the author', async () => {
+    const postRepository = mockPostRepository();
+    postRepository.readById.mockResolvedValue(draft);
+
+    await expect(new ChangePostStatus(postRepository).execute(1, { status: 'published' }, { id: 3, role: 'ADMIN' }, now)).rejects.toThrow(UnauthorizedError);
+    expect(postRepository.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('PublishDuePosts UseCase', () => {
+  it('should publish the due posts with their publishAt as date', async () => {
+    const postRepository = mockPostRepository();
+    const publishAt = new Date('2025-02-01T09:00:00Z');
+    const scheduled = { ...draft, status: 'scheduled' as const, publishAt };
+    postRepository.readPage.mockResolvedValueOnce({ posts: [scheduled], nextCursor: null });
+    postRepository.update.mockResolvedValue({ ...scheduled, status: 'published', publishAt: null, date: publishAt });
+
+    const result = await new PublishDuePosts(postRepository).execute(now);
+
+    expect(postRepository.readPage).toHaveBeenCalledWith(expect.objectContaining({ statuses: ['scheduled'], publishBefore: now }));
+    expect(postRepository.update).toHaveBeenCalledWith(1, { status: 'published', publishAt: null, date: publishAt });
+    expect(result).toHaveLength(1);
+  });
+
+  it('should keep reading while there are full batches', async () => {
+    const postRepository = mockPostRepository();
+    const scheduled = { ...draft, status: 'scheduled' as const, publishAt: now };
+    postRepository.readPage
+      .mockResolvedValueOnce({ posts: [scheduled, { ...scheduled, id: 2 }], nextCursor: 2 })
+      .mockResolvedValueOnce({ posts: [{ ...scheduled, id: 3 }], nextCursor: null });
+    postRepository.update.mockResolvedValue(scheduled);
+
+    await new PublishDuePosts(postRepository).execute(now, 2);
+
+    expect(postRepository.readPage).toHaveBeenCalledTimes(2);
+    expect(postRepository.update).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('ReadDrafts UseCase', () => {
+  it('should read the drafts and scheduled posts of the user', async () => {
+    const postRepository = mockPostRepository();
+    postRepository.readPage.mockResolvedValue({ posts: [draft], nextCursor: null });
+
+    const result = await new ReadDrafts(postRepository).execute(2, 20);
+
+    expect(postRepository.readPage).toHaveBeenCalledWith({ order: 'fecha-desc', authorId: 2, statuses: ['draft', 'scheduled'], onlyVisible: true, limit: 20, cursor: undefined });
+    expect(result.posts).toEqual([draft]);
+  });
+});
@@ -0,0 +1,31 @@
+import { Post } from "../../../domain/entities/post";
+import { PostRepository } from "../../repositories/post";
+import { ReadFeed } from "../../usecases/atomic/post";
+
+// Mock del repositorio
+const mockPostRepository = (): jest.Mocked<PostRepository> => ({
+  create: jest.fn(),
+  readAll: jest.fn(),
+  readPage: jest.fn(),
+  update: jest.fn(),
+  updateWithRevision: jest.fn(),
+  delete: jest.fn(),
+  readById: jest.fn(),
+});
+
+describe('ReadFeed UseCase', () => {
+  it('should read the newest visible posts of the followed authors', async () => {
+    const postRepository = mockPostRepository();
+
+    const mockPosts: Post[] = [
+      { id: 5, title: 'Post 5', content: 'Content 5', deleted: false, authorId: 2, date: new Date(), authorName: 'Followed' },
+    ];
+    postRepository.readPage.mockResolvedValue({ posts: mockPosts, nextCursor: null });
+
+    const readFeed = new ReadFeed(postRepository);
+    const result = await readFeed.execute(1, 20, 9);
+
+    expect(postRepository.readPage).toHaveBeenCalledWith({ order: 'fecha-desc', followedBy: 1, onlyVisible: true, limit: 20, cursor: 9 });
+    expect(result).toEqual({ posts: mockPosts, nextCursor: null });
+  });
+});
@@ -0,0 +1,33 @@
+import { Post } from "../../../domain/entities/post";
+import { PostRepository } from "../../repositories/post";
+import { ReadPostsPage } from "../../usecases/atomic/post";
+
+// Mock del repositorio
+const mockPostRepository = (): jest.Mocked<PostRepository> => ({
+  create: jest.fn(),
+  readAll: jest.fn(),
+  readPage: jest.fn(),
+  update: jest.fn(),
+  updateWithRevision: jest.fn(),
+  delete: jest.fn(),
+  readById: jest.fn(),
+});
+
+describe('ReadPostsPage UseCase', () => {
+  it('should return a page of posts with the next cursor', async () => {
+    const postRepository = mockPostRepository();
+
+    const mockPosts: Post[] = [
+      { id: 3, title: 'Post 3', content: 'Content 3', deleted: false, authorId: 1 , date: new Date(), authorName: 'Author Name', likesCount: 4},
+      { id: 2, title: 'Post 2', content: 'Content 2', deleted: false, authorId: 1 , date: new Date(), authorName: 'Author Name', likesCount: 1},
+    ];
+    postRepository.readPage.mockResolvedValue({ posts: mockPosts, nextCursor: 2 });
+
+    const readPostsPage = new ReadPostsPage(postRepository);
+    const query = { order: 'popularidad-desc' as const, search: 'post', limit: 2 };
+    const result = await readPostsPage.execute(query);
+
+    expect(postRepository.readPage).toHaveBeenCalledWith(query);
+    expect(result).toEqual({ posts: mockPosts, nextCursor: 2 });
+  });
+});
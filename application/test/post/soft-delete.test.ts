@@ -0,0 +1,51 @@
+import { Post } from "../../../domain/entities/post";
+import { PostRepository } from "../../repositories/post";
+import { SoftDeletePost } from "../../usecases/atomic/post";
+
+// Mock del repositorio
+const mockPostRepository = (): jest.Mocked<PostRepository> => ({
+  create: jest.fn(),
+  readAll: jest.fn(),
+  readPage: jest.fn(),
+  update: jest.fn(),
+  updateWithRevision: jest.fn(),
+  delete: jest.fn(),
+  readById: jest.fn(),
+});
+
+const post: Post = { id: 1, title: 'Post', content: 'Content', deleted: false, authorId: 1, date: new Date(), authorName: 'Author Name' };
+
+describe('SoftDeletePost UseCase', () => {
+  it('should let the author toggle the deleted state', async () => {
+    const postRepository = mockPostRepository();
+    postRepository.readById.mockResolvedValue(post);
+    postRepository.update.mockResolvedValue({ ...post, deleted: true });
+
+    const softDeletePost = new SoftDeletePost(postRepository);
+    const result = await softDeletePost.execute(1, { id: 1, role: 'USER' });
+
+    expect(postRepository.update).toHaveBeenCalledWith(1, { deleted: true });
+    expect(result.deleted).toBe(true);
+  });
+
+  it('should let a moderator delete a post of another user', async () => {
+    const postRepository = mockPostRepository();
+    postRepository.readById.mockResolvedValue(post);
+    postRepository.update.mockResolvedValue({ ...post, deleted: true });
+
+    const softDeletePost = new SoftDeletePost(postRepository);
+    await softDeletePost.execute(1, { id: 3, role: 'MODERATOR' });
+
+    expect(postRepository.update).toHaveBeenCalledWith(1, { deleted: true });
+  });
+
+  it('should not let a regular user delete a post of another user', async () => {
+    const postRepository = mockPostRepository();
+    postRepository.readById.mockResolvedValue(post);
+
+    const softDeletePost = new SoftDeletePost(postRepository);
+
+    await expect(softDeletePost.execute(1, { id: 3, role: 'USER' })).rejects.toThrow('user not authorized for softDelete');
+    expect(postRepository.update).not.toHaveBeenCalled();
+  });
+});
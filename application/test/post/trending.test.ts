@@ -0,0 +1,107 @@
+import { RankPosts } from '../../usecases/atomic/ranking';
+import { ReadTrendingPosts } from '../../usecases/comp/ranking';
+import { RankingRepository } from '../../repositories/ranking';
+import { PostRepository } from '../../repositories/post';
+import { Post } from '../../../domain/entities/post';
+import { DEFAULT_RANKING, likeBucket, wilsonScore } from '../../../domain/entities/ranking';
+
+const HOUR = 60 * 60 * 1000;
+
+// Mocks de los repositorios
+const mockRankingRepository = (): jest.Mocked<RankingRepository> => ({
+  read: jest.fn(),
+});
+const mockPostRepository = (): jest.Mocked<PostRepository> => ({
+  create: jest.fn(),
+  readAll: jest.fn(),
+  readPage: jest.fn(),
+  update: jest.fn(),
+  updateWithRevision: jest.fn(),
+  delete: jest.fn(),
+  readById: jest.fn(),
+});
+
+const post = (id: number): Post => ({ id, title: `Post ${id}`, content: 'Contenido', deleted: false, authorId: 1, date: new Date(), authorName: 'Autor', likesCount: 10 });
+
+describe('RankPosts UseCase', () => {
+  const now = new Date();
+  const ago = (hours: number) => new Date(now.getTime() - hours * HOUR);
+
+  it('should rank recent likes above a larger number of old ones', async () => {
+    const rankingRepository = mockRankingRepository();
+    rankingRepository.read.mockResolvedValue({
+      posts: [
+        { postId: 1, likes: [{ likedAt: ago(41), likes: 3 }] },
+        { postId: 2, likes: [{ likedAt: ago(0), likes: 1 }, { likedAt: ago(1), likes: 1 }] },
+        { postId: 3, likes: [] },
+      ],
+      users: 10,
+    });
+
+    const result = await new RankPosts(rankingRepository).execute('7d', DEFAULT_RANKING, now);
+
+    expect(rankingRepository.read).toHaveBeenCalledWith('7d');
+    expect(result.map((p) => [p.id, p.likes])).toEqual([[2, 2], [1, 3]]);
+    expect(result[0].score).toBeGreaterThan(result[1].score);
+  });
+
+  it('should rank by the Wilson lower bound', async () => {
+    const rankingRepository = mockRankingRepository();
+    rankingRepository.read.mockResolvedValue({
+      posts: [
+        { postId: 1, likes: [{ likedAt: ago(1), likes: 1 }] },
+        { postId: 2, likes: [{ likedAt: ago(100), likes: 3 }] },
+      ],
+      users: 5,
+    });
+
+    const result = await new RankPosts(rankingRepository).execute('all', { ...DEFAULT_RANKING, algorithm: 'wilson' }, now);
+
+    expect(result[0]).toEqual({ id: 2, likes: 3, score: wilsonScore(3, 4, 1.96) });
+  });
+
+  it('should never return NaN or Infinity', () => {
+    expect(wilsonScore(0, 0, 1.96)).toBe(0);
+    expect(wilsonScore(1, 0, 1.96)).toBeGreaterThan(0);
+    expect(wilsonScore(1, 0, 1.96)).toBeLessThan(1);
+    expect(wilsonScore(2, 4, 1.96)).toBeLessThan(0.5);
+  });
+
+  it('should group the likes by hours, then days and then weeks', () => {
+    expect(likeBucket(new Date(now.getTime() + HOUR), now)).toBe(0);
+    expect(likeBucket(ago(5.5), now)).toBe(5);
+    expect(likeBucket(ago(50), now)).toBe(48);
+    expect(likeBucket(ago(24 * 10 + 3), now)).toBe(24 * 10);
+    expect(likeBucket(ago(24 * 7 * 20 + 30), now)).toBe(24 * 7 * 20);
+  });
+});
+
+describe('ReadTrendingPosts UseCase', () => {
+  const now = new Date();
+
+  it('should skip the posts that are no longer visible, even if the ranking is cached', async () => {
+    const rankingRepository = mockRankingRepository();
+    const postRepository = mockPostRepository();
+    rankingRepository.read.mockResolvedValue({
+      posts: [1, 2, 3].map((postId) => ({ postId, likes: [{ likedAt: new Date(now.getTime() - postId * HOUR), likes: 1 }] })),
+      users: 10,
+    });
+    // El post 1 se ha eliminado después de guardar el ranking
+    postRepository.readPage.mockImplementation(async ({ ids }) => ({ posts: (ids ?? []).filter((id) => id !== 1).map(post), nextCursor: null }));
+
+    const result = await new ReadTrendingPosts(rankingRepository, postRepository).execute('7d', DEFAULT_RANKING, 2, now);
+
+    expect(result.map((p) => [p.id, p.likesCount])).toEqual([[2, 1], [3, 1]]);
+    expect(postRepository.readPage).toHaveBeenCalledWith(expect.objectContaining({ ids: [1, 2], onlyVisible: true }));
+    expect(postRepository.readPage).toHaveBeenCalledWith(expect.objectContaining({ ids: [3], onlyVisible: true }));
+  });
+
+  it('should not read posts when nothing has likes in the window', async () => {
+    const rankingRepository = mockRankingRepository();
+    const postRepository = mockPostRepository();
+    rankingRepository.read.mockResolvedValue({ posts: [], users: 1 });
+
+    await expect(new ReadTrendingPosts(rankingRepository, postRepository).execute('24h', DEFAULT_RANKING, 20, now)).resolves.toEqual([]);
+    expect(postRepository.readPage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,102 @@
+import { Post } from "../../../domain/entities/post";
+import { PostRevision } from "../../../domain/entities/postrevision";
+import { FindDbError } from "../../../domain/errors/main";
+import { PostRepository } from "../../repositories/post";
+import { PostRevisionRepository } from "../../repositories/postrevision";
+import { DiffPostRevision } from "../../usecases/comp/post";
+import { diffLines, diffWords } from "../../usecases/diff";
+
+// Mocks de los repositorios
+const mockPostRepository = (): jest.Mocked<PostRepository> => ({
+  create: jest.fn(),
+  readAll: jest.fn(),
+  readPage: jest.fn(),
+  update: jest.fn(),
+  updateWithRevision: jest.fn(),
+  delete: jest.fn(),
+  readById: jest.fn(),
+});
+const mockPostRevisionRepository = (): jest.Mocked<PostRevisionRepository> => ({
+  create: jest.fn(),
+  readByPost: jest.fn(),
+  readByRev: jest.fn(),
+});
+
+const post: Post = { id: 1, title: 'Mi post editado', content: 'uno\ndos\ntres', deleted: false, authorId: 1, date: new Date(), authorName: 'Author Name' };
+const revision = (rev: number, title: string, content: string): PostRevision =>
+  ({ id: rev, postId: 1, rev, title, content, editorId: 1, createdAt: new Date() });
+
+describe('diff helpers', () => {
+  it('should diff lines keeping the line breaks', () => {
+    expect(diffLines('uno\ndos\ntres', 'uno\n2\ntres\ncuatro')).toEqual([
+      { op: 'equal', text: 'uno\n' },
+      { op: 'delete', text: 'dos\ntres' },
+      { op: 'insert', text: '2\ntres\ncuatro' },
+    ]);
+  });
+
+  it('should diff words', () => {
+    expect(diffWords('Mi primer post', 'Mi post')).toEqual([
+      { op: 'equal', text: 'Mi ' },
+      { op: 'delete', text: 'primer ' },
+      { op: 'equal', text: 'post' },
+    ]);
+  });
+
+  it('should rebuild both texts from the chunks', () => {
+    const before = 'a\nb\nc\nd\ne\n';
+    const after = 'a\nc\nx\nd\ne\nf\n';
+    const chunks = diffLines(before, after);
+
+    expect(chunks.filter((c) => c.op !== 'insert').map((c) => c.text).join('')).toBe(before);
+    expect(chunks.filter((c) => c.op !== 'delete').map((c) => c.text).join('')).toBe(after);
+  });
+});
+
+describe('DiffPostRevision UseCase', () => {
+  it('should compare the revision with the next one', async () => {
+    const postRepository = mockPostRepository();
+    const postRevisionRepository = mockPostRevisionRepository();
+    postRepository.readById.mockResolvedValue(post);
+    postRevisionRepository.readByRev.mockImplementation(async (_, rev) =>
+      rev === 1 ? revision(1, 'Mi post', 'uno\ndos') : rev === 2 ? revision(2, 'Mi post', 'uno\ndos\ntres') : null);
+
+    const diff = new DiffPostRevision(postRepository, postRevisionRepository);
+    const result = await diff.execute(1, 1, { id: 1, role: 'USER' });
+
+    expect(result).toEqual({
+      postId: 1,
+      rev: 1,
+      toRev: 2,
+      title: [{ op: 'equal', text: 'Mi post' }],
+      content: [{ op: 'equal', text: 'uno\n' }, { op: 'delete', text: 'dos' }, { op: 'insert', text: 'dos\ntres' }],
+    });
+  });
+
+  it('should compare the last revision with the current post', async () => {
+    const postRepository = mockPostRepository();
+    const postRevisionRepository = mockPostRevisionRepository();
+    postRepository.readById.mockResolvedValue(post);
+    postRevisionRepository.readByRev.mockImplementation(async (_, rev) => rev === 1 ? revision(1, 'Mi post', 'uno\ndos\ntres') : null);
+
+    const diff = new DiffPostRevision(postRepository, postRevisionRepository);
+    const result = await diff.execute(1, 1, { id: 2, role: 'MODERATOR' });
+
+    expect(result.toRev).toBeNull();
+    expect(result.title).toEqual([{ op: 'equal', text: 'Mi post' }, { op: 'insert', text: ' editado' }]);
+    expect(result.content).toEqual([{ op: 'equal', text: 'uno\ndos\ntres' }]);
+  });
+
+  it('should throw FindDbError for an unknown revision', async () => {
+    const postRepository = mockPostRepository();
+    const postRevisionRepository = mockPostRevisionRepository();
+    postRepository.readById.mockResolvedValue(post);
+    postRevisionRepository.readByRev.mockResolvedValue(null);
+
+    const diff = new DiffPostRevision(postRepository, postRevisionRepository);
+    const result = diff.execute(1, 5, { id: 1, role: 'USER' });
+
+    await expect(result).rejects.toBeInstanceOf(FindDbError);
+    await expect(result).rejects.toMatchObject({ code: 'POST_REVISION_NOT_FOUND' });
+  });
+});
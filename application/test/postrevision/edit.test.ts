@@ -0,0 +1,101 @@
+import { Post } from "../../../domain/entities/post";
+import { FindDbError, UnauthorizedError } from "../../../domain/errors/main";
+import { PostRepository } from "../../repositories/post";
+import { PostRevisionRepository } from "../../repositories/postrevision";
+import { EditPost } from "../../usecases/comp/post";
+
+// Mocks de los repositorios
+const mockPostRepository = (): jest.Mocked<PostRepository> => ({
+  create: jest.fn(),
+  readAll: jest.fn(),
+  readPage: jest.fn(),
+  update: jest.fn(),
+  updateWithRevision: jest.fn(),
+  delete: jest.fn(),
+  readById: jest.fn(),
+});
+const mockPostRevisionRepository = (): jest.Mocked<PostRevisionRepository> => ({
+  create: jest.fn(),
+  readByPost: jest.fn(),
+  readByRev: jest.fn(),
+});
+
+const post: Post = { id: 1, title: 'Post', content: 'Content', deleted: false, authorId: 1, date: new Date(), authorName: 'Author Name', editedAt: null };
+
+describe('EditPost UseCase', () => {
+  it('should save the previous values as a revision and mark the post as edited', async () => {
+    const postRepository = mockPostRepository();
+    const postRevisionRepository = mockPostRevisionRepository();
+    postRepository.readById.mockResolvedValue(post);
+    postRepository.updateWithRevision.mockImplementation(async (id, data) => ({ ...post, ...data }));
+
+    const edit = new EditPost(postRepository, postRevisionRepository);
+    const result = await edit.execute(1, { content: 'New content' }, { id: 1, role: 'USER' });
+
+    // La versión y la edición se guardan en la misma escritura
+    expect(postRepository.updateWithRevision).toHaveBeenCalledWith(1, { title: 'Post', content: 'New content', editedAt: expect.any(Date) }, { title: 'Post', content: 'Content', editorId: 1 });
+    expect(postRepository.update).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ content: 'New content', editedAt: expect.any(Date) });
+  });
+
+  it('should not save a revision when nothing changes', async () => {
+    const postRepository = mockPostRepository();
+    const postRevisionRepository = mockPostRevisionRepository();
+    postRepository.readById.mockResolvedValue(post);
+
+    const edit = new EditPost(postRepository, postRevisionRepository);
+    const result = await edit.execute(1, { title: 'Post' }, { id: 1, role: 'USER' });
+
+    expect(result).toEqual(post);
+    expect(postRepository.updateWithRevision).not.toHaveBeenCalled();
+    expect(postRepository.update).not.toHaveBeenCalled();
+  });
+
+  it('should replace the tags without saving a revision when only the tags change', async () => {
+    const postRepository = mockPostRepository();
+    const postRevisionRepository = mockPostRevisionRepository();
+    postRepository.readById.mockResolvedValue({ ...post, tags: ['viejo'] });
+    postRepository.update.mockImplementation(async (id, data) => ({ ...post, ...data }));
+
+    const edit = new EditPost(postRepository, postRevisionRepository);
+    await edit.execute(1, { tags: ['Nuevo'] }, { id: 1, role: 'USER' });
+
+    expect(postRepository.updateWithRevision).not.toHaveBeenCalled();
+    expect(postRepository.update).toHaveBeenCalledWith(1, { tags: ['nuevo'] });
+  });
+
+  it('should keep the explicit tags and follow the hashtags when only the content changes', async () => {
+    const postRepository = mockPostRepository();
+    const postRevisionRepository = mockPostRevisionRepository();
+    postRepository.readById.mockResolvedValue({ ...post, content: 'Hola #antes', tags: ['fijo', 'antes'] });
+    postRepository.updateWithRevision.mockImplementation(async (id, data) => ({ ...post, ...data }));
+
+    const edit = new EditPost(postRepository, postRevisionRepository);
+    await edit.execute(1, { content: 'Hola #despues' }, { id: 1, role: 'USER' });
+
+    expect(postRepository.updateWithRevision).toHaveBeenCalledWith(1, {
+      title: 'Post', content: 'Hola #despues', editedAt: expect.any(Date), tags: ['fijo', 'despues'],
+    }, { title: 'Post', content: 'Hola #antes', editorId: 1 });
+  });
+
+  it('should forbid editing the post of another user, even to an admin', async () => {
+    const postRepository = mockPostRepository();
+    const postRevisionRepository = mockPostRevisionRepository();
+    postRepository.readById.mockResolvedValue(post);
+
+    const edit = new EditPost(postRepository, postRevisionRepository);
+
+    await expect(edit.execute(1, { title: 'Otro' }, { id: 2, role: 'ADMIN' })).rejects.toBeInstanceOf(UnauthorizedError);
+    expect(postRepository.updateWithRevision).not.toHaveBeenCalled();
+  });
+
+  it('should throw FindDbError if the post does not exist', async () => {
+    const postRepository = mockPostRepository();
+    const postRevisionRepository = mockPostRevisionRepository();
+    postRepository.readById.mockResolvedValue(null);
+
+    const edit = new EditPost(postRepository, postRevisionRepository);
+
+    await expect(edit.execute(999, { title: 'Otro' }, { id: 1, role: 'USER' })).rejects.toBeInstanceOf(FindDbError);
+  });
+});
@@ -0,0 +1,55 @@
+import { Post } from "../../../domain/entities/post";
+import { PostRevision } from "../../../domain/entities/postrevision";
+import { UnauthorizedError } from "../../../domain/errors/main";
+import { PostRepository } from "../../repositories/post";
+import { PostRevisionRepository } from "../../repositories/postrevision";
+import { ReadPostRevisions } from "../../usecases/comp/post";
+
+// Mocks de los repositorios
+const mockPostRepository = (): jest.Mocked<PostRepository> => ({
+  create: jest.fn(),
+  readAll: jest.fn(),
+  readPage: jest.fn(),
+  update: jest.fn(),
+  updateWithRevision: jest.fn(),
+  delete: jest.fn(),
+  readById: jest.fn(),
+});
+const mockPostRevisionRepository = (): jest.Mocked<PostRevisionRepository> => ({
+  create: jest.fn(),
+  readByPost: jest.fn(),
+  readByRev: jest.fn(),
+});
+
+const post: Post = { id: 1, title: 'Post', content: 'Content', deleted: false, authorId: 1, date: new Date(), authorName: 'Author Name' };
+const revisions: PostRevision[] = [
+  { id: 1, postId: 1, rev: 1, title: 'Post', content: 'Original', editorId: 1, createdAt: new Date() },
+];
+
+describe('ReadPostRevisions UseCase', () => {
+  it.each([
+    ['the author', { id: 1, role: 'USER' }],
+    ['a moderator', { id: 2, role: 'MODERATOR' }],
+  ])('should return the revisions to %s', async (_, actor) => {
+    const postRepository = mockPostRepository();
+    const postRevisionRepository = mockPostRevisionRepository();
+    postRepository.readById.mockResolvedValue(post);
+    postRevisionRepository.readByPost.mockResolvedValue(revisions);
+
+    const read = new ReadPostRevisions(postRepository, postRevisionRepository);
+
+    expect(await read.execute(1, actor)).toEqual(revisions);
+    expect(postRevisionRepository.readByPost).toHaveBeenCalledWith(1);
+  });
+
+  it('should forbid other users', async () => {
+    const postRepository = mockPostRepository();
+    const postRevisionRepository = mockPostRevisionRepository();
+    postRepository.readById.mockResolvedValue(post);
+
+    const read = new ReadPostRevisions(postRepository, postRevisionRepository);
+
+    await expect(read.execute(1, { id: 2, role: 'USER' })).rejects.toBeInstanceOf(UnauthorizedError);
+    expect(postRevisionRepository.readByPost).not.toHaveBeenCalled();
+  });
+});
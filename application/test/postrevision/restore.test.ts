@@ -0,0 +1,56 @@
+import { Post } from "../../../domain/entities/post";
+import { PostRevision } from "../../../domain/entities/postrevision";
+import { UnauthorizedError } from "../../../domain/errors/main";
+import { PostRepository } from "../../repositories/post";
+import { PostRevisionRepository } from "../../repositories/postrevision";
+import { RestorePostRevision } from "../../usecases/comp/post";
+
+// Mocks de los repositorios
+const mockPostRepository = (): jest.Mocked<PostRepository> => ({
+  create: jest.fn(),
+  readAll: jest.fn(),
+  readPage: jest.fn(),
+  update: jest.fn(),
+  updateWithRevision: jest.fn(),
+  delete: jest.fn(),
+  readById: jest.fn(),
+});
+const mockPostRevisionRepository = (): jest.Mocked<PostRevisionRepository> => ({
+  create: jest.fn(),
+  readByPost: jest.fn(),
+  readByRev: jest.fn(),
+});
+
+const post: Post = { id: 1, title: 'Editado', content: 'Spam', deleted: false, authorId: 1, date: new Date(), authorName: 'Author Name' };
+const revision: PostRevision = { id: 1, postId: 1, rev: 1, title: 'Original', content: 'Contenido', editorId: 1, createdAt: new Date() };
+
+describe('RestorePostRevision UseCase', () => {
+  it.each([
+    ['the author', { id: 1, role: 'USER' }],
+    ['an admin', { id: 2, role: 'ADMIN' }],
+  ])('should let %s restore a revision, saving the current values', async (_, actor) => {
+    const postRepository = mockPostRepository();
+    const postRevisionRepository = mockPostRevisionRepository();
+    postRepository.readById.mockResolvedValue(post);
+    postRevisionRepository.readByRev.mockResolvedValue(revision);
+    postRepository.updateWithRevision.mockImplementation(async (id, data) => ({ ...post, ...data }));
+
+    const restore = new RestorePostRevision(postRepository, postRevisionRepository);
+    const result = await restore.execute(1, 1, actor);
+
+    expect(postRepository.updateWithRevision).toHaveBeenCalledWith(1, expect.objectContaining({ title: 'Original', content: 'Contenido' }), { title: 'Editado', content: 'Spam', editorId: actor.id });
+    expect(result).toMatchObject({ title: 'Original', content: 'Contenido' });
+  });
+
+  it('should forbid moderators', async () => {
+    const postRepository = mockPostRepository();
+    const postRevisionRepository = mockPostRevisionRepository();
+    postRepository.readById.mockResolvedValue(post);
+    postRevisionRepository.readByRev.mockResolvedValue(revision);
+
+    const restore = new RestorePostRevision(postRepository, postRevisionRepository);
+
+    await expect(restore.execute(1, 1, { id: 2, role: 'MODERATOR' })).rejects.toBeInstanceOf(UnauthorizedError);
+    expect(postRepository.updateWithRevision).not.toHaveBeenCalled();
+  });
+});
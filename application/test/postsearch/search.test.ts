@@ -0,0 +1,39 @@
+import { PostSearchRepository, PostSearchResult } from "../../repositories/postsearch";
+import { SearchPosts } from "../../usecases/atomic/postsearch";
+
+// Mock del repositorio
+const mockPostSearchRepository = (): jest.Mocked<PostSearchRepository> => ({
+  search: jest.fn(),
+});
+
+describe('SearchPosts UseCase', () => {
+  it('should return the ranked results of the repository', async () => {
+    const postSearchRepository = mockPostSearchRepository();
+
+    const results: PostSearchResult[] = [
+      {
+        post: { id: 1, title: 'Hola mundo', content: 'Contenido', deleted: false, authorId: 1, date: new Date(), authorName: 'Author Name' },
+        rank: 2.5,
+        titleHighlight: '<mark>Hola</mark> mundo',
+        contentSnippet: 'Contenido',
+      },
+    ];
+    postSearchRepository.search.mockResolvedValue(results);
+
+    const searchPosts = new SearchPosts(postSearchRepository);
+    const result = await searchPosts.execute({ text: '  hola ', limit: 20, offset: 0 });
+
+    expect(postSearchRepository.search).toHaveBeenCalledWith({ text: 'hola', limit: 20, offset: 0 });
+    expect(result).toEqual(results);
+  });
+
+  it('should not search with an empty text', async () => {
+    const postSearchRepository = mockPostSearchRepository();
+
+    const searchPosts = new SearchPosts(postSearchRepository);
+    const result = await searchPosts.execute({ text: '   ', limit: 20, offset: 0 });
+
+    expect(postSearchRepository.search).not.toHaveBeenCalled();
+    expect(result).toEqual([]);
+  });
+});
@@ -0,0 +1,42 @@
+import { RateLimitCounter } from "../../../domain/entities/ratelimit";
+import { TooManyRequestsError } from "../../../domain/errors/main";
+import { RateLimitStore } from "../../repositories/ratelimit";
+import { ConsumeRateLimit } from "../../usecases/atomic/ratelimit";
+
+// Mock del repositorio
+const mockRateLimitStore = (): jest.Mocked<RateLimitStore> => ({
+  hit: jest.fn(),
+  read: jest.fn(),
+  lock: jest.fn(),
+  reset: jest.fn(),
+});
+
+const counter = (count: number): RateLimitCounter => ({
+  key: 'loginIp:127.0.0.1', count, resetAt: new Date(Date.now() + 30_000), lockedUntil: null,
+});
+
+describe('ConsumeRateLimit UseCase', () => {
+  const policy = { limit: 3, windowMs: 60_000 };
+
+  it('should count the request and return the counter while under the limit', async () => {
+    const rateLimitStore = mockRateLimitStore();
+    rateLimitStore.hit.mockResolvedValue(counter(3));
+
+    const consume = new ConsumeRateLimit(rateLimitStore);
+    const result = await consume.execute('loginIp:127.0.0.1', policy);
+
+    expect(rateLimitStore.hit).toHaveBeenCalledWith('loginIp:127.0.0.1', 60_000);
+    expect(result.count).toBe(3);
+  });
+
+  it('should throw TooManyRequestsError with the seconds until the window resets', async () => {
+    const rateLimitStore = mockRateLimitStore();
+    rateLimitStore.hit.mockResolvedValue(counter(4));
+
+    const consume = new ConsumeRateLimit(rateLimitStore);
+    const result = consume.execute('loginIp:127.0.0.1', policy);
+
+    await expect(result).rejects.toBeInstanceOf(TooManyRequestsError);
+    await expect(result).rejects.toMatchObject({ code: 'RATE_LIMITED', retryAfterSeconds: 30 });
+  });
+});
@@ -0,0 +1,82 @@
+import { RateLimitCounter } from "../../../domain/entities/ratelimit";
+import { TooManyRequestsError } from "../../../domain/errors/main";
+import { RateLimitStore } from "../../repositories/ratelimit";
+import { CheckLockout, ClearFailedAttempts, RegisterFailedAttempt } from "../../usecases/atomic/ratelimit";
+
+// Mock del repositorio
+const mockRateLimitStore = (): jest.Mocked<RateLimitStore> => ({
+  hit: jest.fn(),
+  read: jest.fn(),
+  lock: jest.fn(),
+  reset: jest.fn(),
+});
+
+const key = 'login-failures:user@example.com';
+const counter = (count: number, lockedUntil: Date | null = null): RateLimitCounter => ({
+  key, count, resetAt: new Date(Date.now() + 60_000), lockedUntil,
+});
+const policy = { threshold: 3, windowMs: 60_000, baseMs: 1_000, maxMs: 5_000 };
+
+describe('CheckLockout UseCase', () => {
+  it('should pass when the key is not locked or the lock expired', async () => {
+    const rateLimitStore = mockRateLimitStore();
+    rateLimitStore.read.mockResolvedValueOnce(null).mockResolvedValueOnce(counter(5, new Date(Date.now() - 1_000)));
+
+    const check = new CheckLockout(rateLimitStore);
+
+    await expect(check.execute(key)).resolves.toBeUndefined();
+    await expect(check.execute(key)).resolves.toBeUndefined();
+  });
+
+  it('should throw TooManyRequestsError while the key is locked', async () => {
+    const rateLimitStore = mockRateLimitStore();
+    rateLimitStore.read.mockResolvedValue(counter(5, new Date(Date.now() + 10_000)));
+
+    const check = new CheckLockout(rateLimitStore);
+    const result = check.execute(key);
+
+    await expect(result).rejects.toBeInstanceOf(TooManyRequestsError);
+    await expect(result).rejects.toMatchObject({ code: 'ACCOUNT_LOCKED', retryAfterSeconds: 10 });
+  });
+});
+
+describe('RegisterFailedAttempt UseCase', () => {
+  it('should not lock below the threshold', async () => {
+    const rateLimitStore = mockRateLimitStore();
+    rateLimitStore.hit.mockResolvedValue(counter(2));
+
+    const register = new RegisterFailedAttempt(rateLimitStore);
+    const lockedUntil = await register.execute(key, policy);
+
+    expect(rateLimitStore.hit).toHaveBeenCalledWith(key, 60_000);
+    expect(lockedUntil).toBeNull();
+    expect(rateLimitStore.lock).not.toHaveBeenCalled();
+  });
+
+  it('should double the lock with every failure over the threshold up to the maximum', async () => {
+    const rateLimitStore = mockRateLimitStore();
+    const register = new RegisterFailedAttempt(rateLimitStore);
+    const lockFor = async (count: number) => {
+      rateLimitStore.hit.mockResolvedValue(counter(count));
+      const lockedUntil = await register.execute(key, policy);
+      return Math.round(((lockedUntil as Date).getTime() - Date.now()) / 1000);
+    };
+
+    expect(await lockFor(3)).toBe(1);
+    expect(await lockFor(4)).toBe(2);
+    expect(await lockFor(5)).toBe(4);
+    expect(await lockFor(6)).toBe(5);
+    expect(rateLimitStore.lock).toHaveBeenCalledTimes(4);
+  });
+});
+
+describe('ClearFailedAttempts UseCase', () => {
+  it('should reset the counter', async () => {
+    const rateLimitStore = mockRateLimitStore();
+
+    const clear = new ClearFailedAttempts(rateLimitStore);
+    await clear.execute(key);
+
+    expect(rateLimitStore.reset).toHaveBeenCalledWith(key);
+  });
+});
@@ -0,0 +1,143 @@
+import { Post } from "../../../domain/entities/post";
+import { User } from "../../../domain/entities/user";
+import { Report } from "../../../domain/entities/report";
+import { PostRepository } from "../../repositories/post";
+import { UserRepository } from "../../repositories/user";
+import { ReportRepository } from "../../repositories/report";
+import { ReportPost, ReportUser } from "../../usecases/comp/report";
+
+// Mocks de los repositorios
+const mockReportRepository = (): jest.Mocked<ReportRepository> => ({
+  create: jest.fn(),
+  readById: jest.fn(),
+  readPage: jest.fn(),
+  readOpenByReporter: jest.fn(),
+  countOpen: jest.fn(),
+  resolveOpen: jest.fn(),
+});
+const mockPostRepository = (): jest.Mocked<PostRepository> => ({
+  create: jest.fn(),
+  readAll: jest.fn(),
+  readPage: jest.fn(),
+  update: jest.fn(),
+  updateWithRevision: jest.fn(),
+  delete: jest.fn(),
+  readById: jest.fn(),
+});
+const mockUserRepository = (): jest.Mocked<UserRepository> => ({
+  create: jest.fn(),
+  readById: jest.fn(),
+  readByEmail: jest.fn(),
+  readAll: jest.fn(),
+  update: jest.fn(),
+});
+
+const post: Post = { id: 1, title: 'Post', content: 'Content', deleted: false, hidden: false, authorId: 2, date: new Date(), authorName: 'Author Name', likes: [] };
+const report: Report = {
+  id: 1, reporterId: 3, targetType: 'post', targetId: 1, reason: 'spam', details: null, status: 'open', resolvedById: null, resolvedAt: null, createdAt: new Date(),
+};
+
+describe('ReportPost UseCase', () => {
+  const setup = () => {
+    const reportRepository = mockReportRepository();
+    const postRepository = mockPostRepository();
+    return { reportRepository, postRepository, reportPost: new ReportPost(reportRepository, postRepository) };
+  };
+
+  it('should create the report', async () => {
+    const { reportRepository, postRepository, reportPost } = setup();
+    postRepository.readById.mockResolvedValue(post);
+    reportRepository.readOpenByReporter.mockResolvedValue(null);
+    reportRepository.create.mockResolvedValue(report);
+    reportRepository.countOpen.mockResolvedValue(1);
+
+    const result = await reportPost.execute(1, { reason: 'spam', details: null }, 3, 5);
+
+    expect(reportRepository.create).toHaveBeenCalledWith({ reporterId: 3, targetType: 'post', targetId: 1, reason: 'spam', details: null });
+    expect(postRepository.update).not.toHaveBeenCalled();
+    expect(result).toEqual(report);
+  });
+
+  it('should hide the post when it reaches the threshold', async () => {
+    const { reportRepository, postRepository, reportPost } = setup();
+    postRepository.readById.mockResolvedValue(post);
+    reportRepository.readOpenByReporter.mockResolvedValue(null);
+    reportRepository.create.mockResolvedValue(report);
+    reportRepository.countOpen.mockResolvedValue(5);
+    postRepository.update.mockResolvedValue({ ...post, hidden: true });
+
+    await reportPost.execute(1, { reason: 'spam', details: null }, 3, 5);
+
+    expect(reportRepository.countOpen).toHaveBeenCalledWith('post', 1);
+    expect(postRepository.update).toHaveBeenCalledWith(1, { hidden: true });
+  });
+
+  it('should never hide the post without a threshold', async () => {
+    const { reportRepository, postRepository, reportPost } = setup();
+    postRepository.readById.mockResolvedValue(post);
+    reportRepository.readOpenByReporter.mockResolvedValue(null);
+    reportRepository.create.mockResolvedValue(report);
+
+    await reportPost.execute(1, { reason: 'spam', details: null }, 3, null);
+
+    expect(reportRepository.countOpen).not.toHaveBeenCalled();
+    expect(postRepository.update).not.toHaveBeenCalled();
+  });
+
+  it('should reject deleted posts', async () => {
+    const { postRepository, reportRepository, reportPost } = setup();
+    postRepository.readById.mockResolvedValue({ ...post, deleted: true });
+
+    await expect(reportPost.execute(1, { reason: 'spam', details: null }, 3, 5)).rejects.toMatchObject({ code: 'POST_NOT_FOUND' });
+    expect(reportRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('should reject reporting your own post', async () => {
+    const { postRepository, reportPost } = setup();
+    postRepository.readById.mockResolvedValue(post);
+
+    await expect(reportPost.execute(1, { reason: 'spam', details: null }, 2, 5)).rejects.toMatchObject({ code: 'CANNOT_REPORT_SELF' });
+  });
+
+  it('should reject a second open report from the same user', async () => {
+    const { postRepository, reportRepository, reportPost } = setup();
+    postRepository.readById.mockResolvedValue(post);
+    reportRepository.readOpenByReporter.mockResolvedValue(report);
+
+    await expect(reportPost.execute(1, { reason: 'spam', details: null }, 3, 5)).rejects.toMatchObject({ code: 'REPORT_ALREADY_OPEN' });
+    expect(reportRepository.readOpenByReporter).toHaveBeenCalledWith(3, 'post', 1);
+    expect(reportRepository.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('ReportUser UseCase', () => {
+  const target: User = { id: 2, email: 'user@example.com', password: 'hash', name: 'User', role: 'USER', banned: false, emailVerified: true };
+
+  it('should create the report', async () => {
+    const reportRepository = mockReportRepository();
+    const userRepository = mockUserRepository();
+    userRepository.readById.mockResolvedValue(target);
+    reportRepository.readOpenByReporter.mockResolvedValue(null);
+    reportRepository.create.mockResolvedValue({ ...report, targetType: 'user', targetId: 2, reason: 'harassment' });
+
+    await new ReportUser(reportRepository, userRepository).execute(2, { reason: 'harassment', details: 'Insultos' }, 3);
+
+    expect(reportRepository.create).toHaveBeenCalledWith({ reporterId: 3, targetType: 'user', targetId: 2, reason: 'harassment', details: 'Insultos' });
+  });
+
+  it('should reject reporting yourself', async () => {
+    const reportRepository = mockReportRepository();
+
+    await expect(new ReportUser(reportRepository, mockUserRepository()).execute(3, { reason: 'other', details: null }, 3))
+      .rejects.toMatchObject({ code: 'CANNOT_REPORT_SELF' });
+    expect(reportRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('should reject unknown users', async () => {
+    const userRepository = mockUserRepository();
+    userRepository.readById.mockResolvedValue(null);
+
+    await expect(new ReportUser(mockReportRepository(), userRepository).execute(9, { reason: 'other', details: null }, 3))
+      .rejects.toMatchObject({ code: 'USER_NOT_FOUND' });
+  });
+});
@@ -0,0 +1,163 @@
+import { Post } from "../../../domain/entities/post";
+import { User } from "../../../domain/entities/user";
+import { Report } from "../../../domain/entities/report";
+import { UnauthorizedError } from "../../../domain/errors/main";
+import { PostRepository } from "../../repositories/post";
+import { UserRepository } from "../../repositories/user";
+import { ReportRepository } from "../../repositories/report";
+import { SessionRepository } from "../../repositories/session";
+import { SuspensionRepository } from "../../repositories/suspension";
+import { AuditLogRepository } from "../../repositories/audit";
+import { ResolveReport } from "../../usecases/comp/report";
+
+// Mocks de los repositorios
+const mockReportRepository = (): jest.Mocked<ReportRepository> => ({
+  create: jest.fn(),
+  readById: jest.fn(),
+  readPage: jest.fn(),
+  readOpenByReporter: jest.fn(),
+  countOpen: jest.fn(),
+  resolveOpen: jest.fn(),
+});
+const mockPostRepository = (): jest.Mocked<PostRepository> => ({
+  create: jest.fn(),
+  readAll: jest.fn(),
+  readPage: jest.fn(),
+  update: jest.fn(),
+  updateWithRevision: jest.fn(),
+  delete: jest.fn(),
+  readById: jest.fn(),
+});
+const mockUserRepository = (): jest.Mocked<UserRepository> => ({
+  create: jest.fn(),
+  readById: jest.fn(),
+  readByEmail: jest.fn(),
+  readAll: jest.fn(),
+  update: jest.fn(),
+});
+const mockSessionRepository = (): jest.Mocked<SessionRepository> => ({
+  create: jest.fn(),
+  readById: jest.fn(),
+  revoke: jest.fn(),
+  revokeAllByUser: jest.fn(),
+  createRefreshToken: jest.fn(),
+  readRefreshTokenByHash: jest.fn(),
+  markRefreshTokenUsed: jest.fn(),
+});
+const mockSuspensionRepository = (): jest.Mocked<SuspensionRepository> => ({
+  create: jest.fn(),
+  readActive: jest.fn(),
+  readByUser: jest.fn(),
+  lift: jest.fn(),
+});
+const mockAuditLogRepository = (): jest.Mocked<AuditLogRepository> => ({
+  append: jest.fn(),
+  read: jest.fn(),
+});
+
+const post: Post = { id: 1, title: 'Post', content: 'Content', deleted: false, hidden: true, authorId: 2, date: new Date(), authorName: 'Author Name', likes: [] };
+const author: User = { id: 2, email: 'user@example.com', password: 'hash', name: 'User', role: 'USER', banned: false, emailVerified: true };
+const report: Report = {
+  id: 1, reporterId: 3, targetType: 'post', targetId: 1, reason: 'spam', details: null, status: 'open', resolvedById: null, resolvedAt: null, createdAt: new Date(),
+};
+const moderator = { id: 1, role: 'MODERATOR', ip: '10.0.0.1' };
+
+describe('ResolveReport UseCase', () => {
+  const setup = () => {
+    const repositories = {
+      report: mockReportRepository(),
+      post: mockPostRepository(),
+      user: mockUserRepository(),
+      session: mockSessionRepository(),
+      suspension: mockSuspensionRepository(),
+      auditLog: mockAuditLogRepository(),
+    };
+    const resolveReport = new ResolveReport(repositories.report, repositories.post, repositories.user, repositories.session, repositories.suspension, repositories.auditLog);
+    return { ...repositories, resolveReport };
+  };
+
+  it('should dismiss every open report of the post and unhide it', async () => {
+    const { report: reports, post: posts, auditLog, resolveReport } = setup();
+    const dismissed: Report = { ...report, status: 'dismissed', resolvedById: 1, resolvedAt: new Date() };
+    reports.readById.mockResolvedValueOnce(report).mockResolvedValueOnce(dismissed);
+    posts.readById.mockResolvedValue(post);
+    posts.update.mockResolvedValue({ ...post, hidden: false });
+
+    const result = await resolveReport.execute(1, { status: 'dismissed' }, moderator);
+
+    expect(posts.update).toHaveBeenCalledWith(1, { hidden: false });
+    expect(reports.resolveOpen).toHaveBeenCalledWith('post', 1, 'dismissed', 1);
+    expect(auditLog.append).toHaveBeenCalledWith({
+      actorId: 1, action: 'report.dismiss', targetType: 'report', targetId: 1, before: report, after: dismissed, ip: '10.0.0.1',
+    });
+    expect(result).toEqual(dismissed);
+  });
+
+  it('should delete the post and suspend the author in the same step', async () => {
+    const { report: reports, post: posts, user, suspension, session, auditLog, resolveReport } = setup();
+    reports.readById.mockResolvedValue(report);
+    posts.readById.mockResolvedValue(post);
+    posts.update.mockResolvedValue({ ...post, deleted: true });
+    user.readById.mockResolvedValue(author);
+    suspension.readActive.mockResolvedValue(null);
+
+    await resolveReport.execute(1, { status: 'actioned', deletePost: true, suspendAuthor: { reason: 'Spam', endsAt: null } }, moderator);
+
+    expect(suspension.create).toHaveBeenCalledWith(expect.objectContaining({ userId: 2, issuedById: 1, reason: 'Spam', endsAt: null }));
+    expect(session.revokeAllByUser).toHaveBeenCalledWith(2);
+    expect(posts.update).toHaveBeenCalledWith(1, { deleted: true });
+    expect(posts.update).not.toHaveBeenCalledWith(1, { hidden: false });
+    expect(reports.resolveOpen).toHaveBeenCalledWith('post', 1, 'actioned', 1);
+    expect(auditLog.append.mock.calls.map(([entry]) => entry.action)).toEqual(['user.ban', 'post.softDelete', 'report.action']);
+  });
+
+  it('should suspend the reported user', async () => {
+    const { report: reports, user, suspension, resolveReport } = setup();
+    reports.readById.mockResolvedValue({ ...report, targetType: 'user', targetId: 2 });
+    user.readById.mockResolvedValue(author);
+    suspension.readActive.mockResolvedValue(null);
+
+    await resolveReport.execute(1, { status: 'actioned', suspendAuthor: { reason: 'Acoso', endsAt: null } }, moderator);
+
+    expect(suspension.create).toHaveBeenCalledWith(expect.objectContaining({ userId: 2, reason: 'Acoso' }));
+    expect(reports.resolveOpen).toHaveBeenCalledWith('user', 2, 'actioned', 1);
+  });
+
+  it('should reject actions when dismissing', async () => {
+    const { report: reports, resolveReport } = setup();
+    reports.readById.mockResolvedValue(report);
+
+    await expect(resolveReport.execute(1, { status: 'dismissed', deletePost: true }, moderator))
+      .rejects.toMatchObject({ code: 'INVALID_REPORT_RESOLUTION' });
+    expect(reports.resolveOpen).not.toHaveBeenCalled();
+  });
+
+  it('should reject deleting a post of a user report', async () => {
+    const { report: reports, resolveReport } = setup();
+    reports.readById.mockResolvedValue({ ...report, targetType: 'user', targetId: 2 });
+
+    await expect(resolveReport.execute(1, { status: 'actioned', deletePost: true }, moderator))
+      .rejects.toMatchObject({ code: 'INVALID_REPORT_RESOLUTION' });
+  });
+
+  it('should reject reports already resolved', async () => {
+    const { report: reports, resolveReport } = setup();
+    reports.readById.mockResolvedValue({ ...report, status: 'dismissed' });
+
+    await expect(resolveReport.execute(1, { status: 'actioned' }, moderator)).rejects.toMatchObject({ code: 'REPORT_ALREADY_RESOLVED' });
+  });
+
+  it('should reject unknown reports', async () => {
+    const { report: reports, resolveReport } = setup();
+    reports.readById.mockResolvedValue(null);
+
+    await expect(resolveReport.execute(9, { status: 'dismissed' }, moderator)).rejects.toMatchObject({ code: 'REPORT_NOT_FOUND' });
+  });
+
+  it('should reject users without the report.review permission', async () => {
+    const { report: reports, resolveReport } = setup();
+
+    await expect(resolveReport.execute(1, { status: 'dismissed' }, { id: 5, role: 'USER' })).rejects.toThrow(UnauthorizedError);
+    expect(reports.readById).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,49 @@
+import { SessionRepository } from "../../repositories/session";
+import { EndSession, RevokeUserSessions } from "../../usecases/atomic/session";
+
+// Mock del repositorio
+const mockSessionRepository = (): jest.Mocked<SessionRepository> => ({
+  create: jest.fn(),
+  readById: jest.fn(),
+  revoke: jest.fn(),
+  revokeAllByUser: jest.fn(),
+  createRefreshToken: jest.fn(),
+  readRefreshTokenByHash: jest.fn(),
+  markRefreshTokenUsed: jest.fn(),
+});
+
+describe('EndSession UseCase', () => {
+  it('should revoke the session of the refresh token', async () => {
+    const sessionRepository = mockSessionRepository();
+    sessionRepository.readRefreshTokenByHash.mockResolvedValue({
+      id: 1, tokenHash: 'hash', sessionId: 'session-1', expiresAt: new Date(), usedAt: null, createdAt: new Date(),
+      session: { id: 'session-1', userId: 1, createdAt: new Date(), revokedAt: null },
+    });
+
+    const endSession = new EndSession(sessionRepository);
+    await endSession.execute('hash');
+
+    expect(sessionRepository.revoke).toHaveBeenCalledWith('session-1');
+  });
+
+  it('should do nothing with an unknown refresh token', async () => {
+    const sessionRepository = mockSessionRepository();
+    sessionRepository.readRefreshTokenByHash.mockResolvedValue(null);
+
+    const endSession = new EndSession(sessionRepository);
+    await endSession.execute('unknown');
+
+    expect(sessionRepository.revoke).not.toHaveBeenCalled();
+  });
+});
+
+describe('RevokeUserSessions UseCase', () => {
+  it('should revoke every session of the user', async () => {
+    const sessionRepository = mockSessionRepository();
+
+    const revokeUserSessions = new RevokeUserSessions(sessionRepository);
+    await revokeUserSessions.execute(3);
+
+    expect(sessionRepository.revokeAllByUser).toHaveBeenCalledWith(3);
+  });
+});
@@ -0,0 +1,74 @@
+import { RefreshTokenWithSession, SessionRepository } from "../../repositories/session";
+import { RotateRefreshToken } from "../../usecases/atomic/session";
+
+// Mock del repositorio
+const mockSessionRepository = (): jest.Mocked<SessionRepository> => ({
+  create: jest.fn(),
+  readById: jest.fn(),
+  revoke: jest.fn(),
+  revokeAllByUser: jest.fn(),
+  createRefreshToken: jest.fn(),
+  readRefreshTokenByHash: jest.fn(),
+  markRefreshTokenUsed: jest.fn(),
+});
+
+const refreshTokenWithSession = (overrides: Partial<RefreshTokenWithSession> = {}): RefreshTokenWithSession => ({
+  id: 1,
+  tokenHash: 'old-hash',
+  sessionId: 'session-1',
+  expiresAt: new Date(Date.now() + 60_000),
+  usedAt: null,
+  createdAt: new Date(),
+  session: { id: 'session-1', userId: 1, createdAt: new Date(), revokedAt: null },
+  ...overrides,
+});
+
+describe('RotateRefreshToken UseCase', () => {
+  it('should mark the token as used and create the next one in the same session', async () => {
+    const sessionRepository = mockSessionRepository();
+    const stored = refreshTokenWithSession();
+    sessionRepository.readRefreshTokenByHash.mockResolvedValue(stored);
+    sessionRepository.markRefreshTokenUsed.mockResolvedValue(true);
+
+    const rotate = new RotateRefreshToken(sessionRepository);
+    const expiresAt = new Date(Date.now() + 120_000);
+    const result = await rotate.execute('old-hash', 'new-hash', expiresAt);
+
+    expect(sessionRepository.markRefreshTokenUsed).toHaveBeenCalledWith(1);
+    expect(sessionRepository.createRefreshToken).toHaveBeenCalledWith('session-1', 'new-hash', expiresAt);
+    expect(result).toEqual(stored.session);
+  });
+
+  it('should revoke the whole session when a used token is presented again', async () => {
+    const sessionRepository = mockSessionRepository();
+    sessionRepository.readRefreshTokenByHash.mockResolvedValue(refreshTokenWithSession({ usedAt: new Date() }));
+
+    const rotate = new RotateRefreshToken(sessionRepository);
+
+    await expect(rotate.execute('old-hash', 'new-hash', new Date())).rejects.toThrow('Refresh token reuse detected');
+    expect(sessionRepository.revoke).toHaveBeenCalledWith('session-1');
+    expect(sessionRepository.createRefreshToken).not.toHaveBeenCalled();
+  });
+
+  it('should reject tokens of a revoked session', async () => {
+    const sessionRepository = mockSessionRepository();
+    const stored = refreshTokenWithSession();
+    stored.session.revokedAt = new Date();
+    sessionRepository.readRefreshTokenByHash.mockResolvedValue(stored);
+
+    const rotate = new RotateRefreshToken(sessionRepository);
+
+    await expect(rotate.execute('old-hash', 'new-hash', new Date())).rejects.toThrow('Invalid refresh token');
+    expect(sessionRepository.markRefreshTokenUsed).not.toHaveBeenCalled();
+  });
+
+  it('should reject expired tokens', async () => {
+    const sessionRepository = mockSessionRepository();
+    sessionRepository.readRefreshTokenByHash.mockResolvedValue(refreshTokenWithSession({ expiresAt: new Date(Date.now() - 1000) }));
+
+    const rotate = new RotateRefreshToken(sessionRepository);
+
+    await expect(rotate.execute('old-hash', 'new-hash', new Date())).rejects.toThrow('Refresh token expired');
+    expect(sessionRepository.createRefreshToken).not.toHaveBeenCalled();
+  });
+});
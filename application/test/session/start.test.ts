@@ -0,0 +1,33 @@
+import { RefreshToken, Session } from "../../../domain/entities/session";
+import { SessionRepository } from "../../repositories/session";
+import { StartSession } from "../../usecases/atomic/session";
+
+// Mock del repositorio
+const mockSessionRepository = (): jest.Mocked<SessionRepository> => ({
+  create: jest.fn(),
+  readById: jest.fn(),
+  revoke: jest.fn(),
+  revokeAllByUser: jest.fn(),
+  createRefreshToken: jest.fn(),
+  readRefreshTokenByHash: jest.fn(),
+  markRefreshTokenUsed: jest.fn(),
+});
+
+describe('StartSession UseCase', () => {
+  it('should create a session with its first refresh token', async () => {
+    const sessionRepository = mockSessionRepository();
+
+    const session: Session = { id: 'session-1', userId: 1, createdAt: new Date(), revokedAt: null };
+    const expiresAt = new Date(Date.now() + 1000);
+    const refreshToken: RefreshToken = { id: 1, tokenHash: 'hash', sessionId: 'session-1', expiresAt, usedAt: null, createdAt: new Date() };
+    sessionRepository.create.mockResolvedValue(session);
+    sessionRepository.createRefreshToken.mockResolvedValue(refreshToken);
+
+    const startSession = new StartSession(sessionRepository);
+    const result = await startSession.execute(1, 'hash', expiresAt);
+
+    expect(sessionRepository.create).toHaveBeenCalledWith(1);
+    expect(sessionRepository.createRefreshToken).toHaveBeenCalledWith('session-1', 'hash', expiresAt);
+    expect(result).toEqual(session);
+  });
+});
@@ -0,0 +1,101 @@
+import { StatsRepository } from "../../repositories/stats";
+import { UserStats } from "../../../domain/entities/stats";
+import { FindDbError, UnauthorizedError, ValidationError } from "../../../domain/errors/main";
+import { ReadSiteStats, ReadUserStats } from "../../usecases/atomic/stats";
+
+// Mock del repositorio
+const mockStatsRepository = (): jest.Mocked<StatsRepository> => ({
+  countUsers: jest.fn(),
+  readUserStats: jest.fn(),
+  readDailyActivity: jest.fn(),
+  countActiveUsers: jest.fn(),
+});
+
+const admin = { id: 1, role: 'ADMIN' };
+
+describe('ReadUserStats UseCase', () => {
+  it('should return the stats of the user', async () => {
+    const statsRepository = mockStatsRepository();
+    const stats: UserStats = { userId: 2, posts: 3, likesGiven: 1, likesReceived: 4, mostLikedPost: { id: 5, title: 'Post', likes: 3 } };
+    statsRepository.readUserStats.mockResolvedValue(stats);
+
+    await expect(new ReadUserStats(statsRepository).execute(2)).resolves.toEqual(stats);
+    expect(statsRepository.readUserStats).toHaveBeenCalledWith(2);
+  });
+
+  it('should throw if the user does not exist', async () => {
+    const statsRepository = mockStatsRepository();
+    statsRepository.readUserStats.mockResolvedValue(null);
+
+    await expect(new ReadUserStats(statsRepository).execute(99)).rejects.toThrow(FindDbError);
+  });
+});
+
+describe('ReadSiteStats UseCase', () => {
+  const setup = () => {
+    const statsRepository = mockStatsRepository();
+    statsRepository.countUsers.mockResolvedValue(10);
+    statsRepository.countActiveUsers.mockResolvedValue(3);
+    statsRepository.readDailyActivity.mockResolvedValue([
+      { date: '2025-02-01', signups: 2, posts: 1, likes: 4, activeUsers: 2 },
+      { date: '2025-02-03', signups: 1, posts: 2, likes: 0, activeUsers: 1 },
+    ]);
+    return { statsRepository, readSiteStats: new ReadSiteStats(statsRepository) };
+  };
+
+  it('should fill the days without activity and sum the totals', async () => {
+    const { statsRepository, readSiteStats } = setup();
+
+    const result = await readSiteStats.execute({ from: '2025-02-01', to: '2025-02-03' }, admin);
+
+    expect(statsRepository.readDailyActivity).toHaveBeenCalledWith('2025-02-01', '2025-02-03');
+    expect(result).toEqual({
+      from: '2025-02-01',
+      to: '2025-02-03',
+      totals: { users: 10, signups: 3, posts: 3, likes: 4, activeUsers: 3 },
+      series: [
+        { date: '2025-02-01', signups: 2, posts: 1, likes: 4, activeUsers: 2 },
+        { date: '2025-02-02', signups: 0, posts: 0, likes: 0, activeUsers: 0 },
+        { date: '2025-02-03', signups: 1, posts: 2, likes: 0, activeUsers: 1 },
+      ],
+    });
+  });
+
+  it('should default to the last 30 days', async () => {
+    const { statsRepository, readSiteStats } = setup();
+
+    const result = await readSiteStats.execute({ to: '2025-02-28' }, admin);
+
+    expect(result.from).toBe('2025-01-30');
+    expect(result.series).toHaveLength(30);
+    expect(statsRepository.countActiveUsers).toHaveBeenCalledWith('2025-01-30', '2025-02-28');
+  });
+
+  it('should reject inverted or too long ranges', async () => {
+    const { statsRepository, readSiteStats } = setup();
+
+    await expect(readSiteStats.execute({ from: '2025-02-03', to: '2025-02-01' }, admin)).rejects.toThrow(ValidationError);
+    await expect(readSiteStats.execute({ from: '2023-01-01', to: '2025-01-01' }, admin)).rejects.toThrow(ValidationError);
+    expect(statsRepository.readDailyActivity).not.toHaveBeenCalled();
+  });
+
+  it('should reject a huge range without generating its days', async () => {
+    const { statsRepository, readSiteStats } = setup();
+    const parse = jest.spyOn(Date, 'parse');
+
+    await expect(readSiteStats.execute({ from: '0001-01-01', to: '9999-12-31' }, admin)).rejects.toMatchObject({ code: 'INVALID_STATS_RANGE' });
+    await expect(readSiteStats.execute({ from: 'ayer', to: '2025-01-01' }, admin)).rejects.toMatchObject({ code: 'INVALID_STATS_RANGE' });
+
+    // Solo las dos fechas de cada rango, no una llamada por día
+    expect(parse).toHaveBeenCalledTimes(4);
+    expect(statsRepository.readDailyActivity).not.toHaveBeenCalled();
+    parse.mockRestore();
+  });
+
+  it('should throw if the user is not an admin', async () => {
+    const { statsRepository, readSiteStats } = setup();
+
+    await expect(readSiteStats.execute({}, { id: 2, role: 'MODERATOR' })).rejects.toThrow(UnauthorizedError);
+    expect(statsRepository.countUsers).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,75 @@
+import { User } from "../../../domain/entities/user";
+import { Suspension } from "../../../domain/entities/suspension";
+import { UserRepository } from "../../repositories/user";
+import { SuspensionRepository } from "../../repositories/suspension";
+import { AuditLogRepository } from "../../repositories/audit";
+import { LiftSuspension } from "../../usecases/comp/user";
+import { ReadActiveSuspension } from "../../usecases/atomic/suspension";
+
+// Mocks de los repositorios
+const mockUserRepository = (): jest.Mocked<UserRepository> => ({
+  create: jest.fn(),
+  readById: jest.fn(),
+  readByEmail: jest.fn(),
+  readAll: jest.fn(),
+  update: jest.fn(),
+});
+const mockSuspensionRepository = (): jest.Mocked<SuspensionRepository> => ({
+  create: jest.fn(),
+  readActive: jest.fn(),
+  readByUser: jest.fn(),
+  lift: jest.fn(),
+});
+const mockAuditLogRepository = (): jest.Mocked<AuditLogRepository> => ({
+  append: jest.fn(),
+  read: jest.fn(),
+});
+
+const target: User = { id: 2, email: 'user@example.com', password: 'hash', name: 'User', role: 'USER', banned: true, emailVerified: true };
+const suspension: Suspension = {
+  id: 1, userId: 2, issuedById: 1, reason: 'Spam', startsAt: new Date(), endsAt: null, liftedAt: null, liftedById: null, createdAt: new Date(),
+};
+
+describe('LiftSuspension UseCase', () => {
+  it('should lift the active suspension and record it', async () => {
+    const userRepository = mockUserRepository();
+    const suspensionRepository = mockSuspensionRepository();
+    const auditLogRepository = mockAuditLogRepository();
+    userRepository.readById.mockResolvedValue(target);
+    suspensionRepository.readActive.mockResolvedValue(suspension);
+    const lifted = { ...suspension, liftedAt: new Date(), liftedById: 3 };
+    suspensionRepository.lift.mockResolvedValue(lifted);
+
+    const liftSuspension = new LiftSuspension(userRepository, suspensionRepository, auditLogRepository);
+    const result = await liftSuspension.execute(2, { id: 3, role: 'ADMIN' });
+
+    expect(suspensionRepository.lift).toHaveBeenCalledWith(1, 3);
+    expect(auditLogRepository.append).toHaveBeenCalledWith(expect.objectContaining({ action: 'user.unban', targetId: 2, before: suspension, after: lifted }));
+    expect(result).toEqual(lifted);
+  });
+
+  it('should fail when the user has no active suspension', async () => {
+    const userRepository = mockUserRepository();
+    const suspensionRepository = mockSuspensionRepository();
+    const auditLogRepository = mockAuditLogRepository();
+    userRepository.readById.mockResolvedValue({ ...target, banned: false });
+    suspensionRepository.readActive.mockResolvedValue(null);
+
+    const liftSuspension = new LiftSuspension(userRepository, suspensionRepository, auditLogRepository);
+
+    await expect(liftSuspension.execute(2, { id: 3, role: 'ADMIN' })).rejects.toMatchObject({ code: 'SUSPENSION_NOT_FOUND' });
+    expect(suspensionRepository.lift).not.toHaveBeenCalled();
+  });
+});
+
+describe('ReadActiveSuspension UseCase', () => {
+  it('should look for a suspension active right now', async () => {
+    const suspensionRepository = mockSuspensionRepository();
+    suspensionRepository.readActive.mockResolvedValue(null);
+
+    const read = new ReadActiveSuspension(suspensionRepository);
+
+    expect(await read.execute(2)).toBeNull();
+    expect(suspensionRepository.readActive).toHaveBeenCalledWith(2, expect.any(Date));
+  });
+});
@@ -0,0 +1,110 @@
+import { User } from "../../../domain/entities/user";
+import { Suspension } from "../../../domain/entities/suspension";
+import { SessionRepository } from "../../repositories/session";
+import { UserRepository } from "../../repositories/user";
+import { SuspensionRepository } from "../../repositories/suspension";
+import { AuditLogRepository } from "../../repositories/audit";
+import { SuspendUser } from "../../usecases/comp/user";
+
+// Mocks de los repositorios
+const mockUserRepository = (): jest.Mocked<UserRepository> => ({
+  create: jest.fn(),
+  readById: jest.fn(),
+  readByEmail: jest.fn(),
+  readAll: jest.fn(),
+  update: jest.fn(),
+});
+const mockSessionRepository = (): jest.Mocked<SessionRepository> => ({
+  create: jest.fn(),
+  readById: jest.fn(),
+  revoke: jest.fn(),
+  revokeAllByUser: jest.fn(),
+  createRefreshToken: jest.fn(),
+  readRefreshTokenByHash: jest.fn(),
+  markRefreshTokenUsed: jest.fn(),
+});
+const mockSuspensionRepository = (): jest.Mocked<SuspensionRepository> => ({
+  create: jest.fn(),
+  readActive: jest.fn(),
+  readByUser: jest.fn(),
+  lift: jest.fn(),
+});
+const mockAuditLogRepository = (): jest.Mocked<AuditLogRepository> => ({
+  append: jest.fn(),
+  read: jest.fn(),
+});
+
+const target: User = { id: 2, email: 'user@example.com', password: 'hash', name: 'User', role: 'USER', banned: false, emailVerified: true };
+const endsAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+const suspension: Suspension = {
+  id: 1, userId: 2, issuedById: 1, reason: 'Spam', startsAt: new Date(), endsAt, liftedAt: null, liftedById: null, createdAt: new Date(),
+};
+
+describe('SuspendUser UseCase', () => {
+  const setup = () => {
+    const repositories = {
+      user: mockUserRepository(),
+      session: mockSessionRepository(),
+      suspension: mockSuspensionRepository(),
+      auditLog: mockAuditLogRepository(),
+    };
+    const suspendUser = new SuspendUser(repositories.user, repositories.session, repositories.suspension, repositories.auditLog);
+    return { ...repositories, suspendUser };
+  };
+
+  it('should suspend the user, revoke their sessions and record it', async () => {
+    const { user, session, suspension: suspensions, auditLog, suspendUser } = setup();
+    user.readById.mockResolvedValue(target);
+    suspensions.readActive.mockResolvedValue(null);
+    suspensions.create.mockResolvedValue(suspension);
+
+    const result = await suspendUser.execute(2, { reason: 'Spam', endsAt }, { id: 1, role: 'MODERATOR', ip: '10.0.0.1' });
+
+    expect(suspensions.create).toHaveBeenCalledWith({ userId: 2, issuedById: 1, reason: 'Spam', startsAt: expect.any(Date), endsAt });
+    expect(session.revokeAllByUser).toHaveBeenCalledWith(2);
+    expect(auditLog.append).toHaveBeenCalledWith({
+      actorId: 1, action: 'user.ban', targetType: 'user', targetId: 2, before: null, after: suspension, ip: '10.0.0.1',
+    });
+    expect(result).toEqual(suspension);
+  });
+
+  it('should allow permanent suspensions', async () => {
+    const { user, suspension: suspensions, suspendUser } = setup();
+    user.readById.mockResolvedValue(target);
+    suspensions.readActive.mockResolvedValue(null);
+    suspensions.create.mockResolvedValue({ ...suspension, endsAt: null });
+
+    await suspendUser.execute(2, { reason: 'Spam', endsAt: null }, { id: 1, role: 'ADMIN' });
+
+    expect(suspensions.create).toHaveBeenCalledWith(expect.objectContaining({ endsAt: null }));
+  });
+
+  it('should reject an end date in the past', async () => {
+    const { user, suspension: suspensions, suspendUser } = setup();
+    user.readById.mockResolvedValue(target);
+
+    await expect(suspendUser.execute(2, { reason: 'Spam', endsAt: new Date(Date.now() - 1000) }, { id: 1, role: 'ADMIN' }))
+      .rejects.toMatchObject({ code: 'INVALID_SUSPENSION_END' });
+    expect(suspensions.create).not.toHaveBeenCalled();
+  });
+
+  it('should not suspend a user that is already suspended', async () => {
+    const { user, suspension: suspensions, suspendUser } = setup();
+    user.readById.mockResolvedValue(target);
+    suspensions.readActive.mockResolvedValue(suspension);
+
+    await expect(suspendUser.execute(2, { reason: 'Otra vez', endsAt: null }, { id: 1, role: 'ADMIN' }))
+      .rejects.toMatchObject({ code: 'USER_ALREADY_SUSPENDED' });
+    expect(suspensions.create).not.toHaveBeenCalled();
+  });
+
+  it('should not let a moderator suspend an admin or themselves', async () => {
+    const { user, suspension: suspensions, auditLog, suspendUser } = setup();
+    user.readById.mockResolvedValue({ ...target, role: 'ADMIN' });
+
+    await expect(suspendUser.execute(2, { reason: 'Spam', endsAt: null }, { id: 1, role: 'MODERATOR' })).rejects.toThrow('user not authorized to suspend this user');
+    await expect(suspendUser.execute(1, { reason: 'Spam', endsAt: null }, { id: 1, role: 'MODERATOR' })).rejects.toMatchObject({ code: 'CANNOT_SUSPEND_SELF' });
+    expect(suspensions.create).not.toHaveBeenCalled();
+    expect(auditLog.append).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,21 @@
+import { TagRepository } from "../../repositories/tag";
+import { ReadTags } from "../../usecases/atomic/tag";
+
+// Mock del repositorio
+const mockTagRepository = (): jest.Mocked<TagRepository> => ({
+  readCounts: jest.fn(),
+});
+
+describe('ReadTags UseCase', () => {
+  it('should return every tag in use with its posts count', async () => {
+    const tagRepository = mockTagRepository();
+    const tags = [{ name: 'recetas', count: 3 }, { name: 'viajes', count: 1 }];
+    tagRepository.readCounts.mockResolvedValue(tags);
+
+    const readTags = new ReadTags(tagRepository);
+    const result = await readTags.execute();
+
+    expect(tagRepository.readCounts).toHaveBeenCalledWith();
+    expect(result).toEqual(tags);
+  });
+});
@@ -0,0 +1,27 @@
+import { TagRepository } from "../../repositories/tag";
+import { ReadTrendingTags } from "../../usecases/atomic/tag";
+
+// Mock del repositorio
+const mockTagRepository = (): jest.Mocked<TagRepository> => ({
+  readCounts: jest.fn(),
+});
+
+describe('ReadTrendingTags UseCase', () => {
+  it('should count only the posts of the last days and keep the most used tags', async () => {
+    const tagRepository = mockTagRepository();
+    tagRepository.readCounts.mockResolvedValue([
+      { name: 'recetas', count: 5 },
+      { name: 'viajes', count: 2 },
+      { name: 'cine', count: 1 },
+    ]);
+
+    const trending = new ReadTrendingTags(tagRepository);
+    const before = Date.now();
+    const result = await trending.execute(7, 2);
+
+    const since = tagRepository.readCounts.mock.calls[0][0] as Date;
+    expect(before - since.getTime()).toBeGreaterThanOrEqual(7 * 24 * 60 * 60 * 1000 - 1000);
+    expect(before - since.getTime()).toBeLessThanOrEqual(7 * 24 * 60 * 60 * 1000);
+    expect(result).toEqual([{ name: 'recetas', count: 5 }, { name: 'viajes', count: 2 }]);
+  });
+});
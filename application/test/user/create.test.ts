@@ -21,7 +21,8 @@ describe('CreateUser UseCase', () => {
       password: 'password123',
       name: 'Test User',
       role: 'USER',
-      banned: false
+      banned: false,
+      emailVerified: true
     };
     userRepository.create.mockResolvedValue(mockUser);
 
@@ -1,5 +1,5 @@
 import { UserRepository } from "../../repositories/user";
-import { User } from "../../../domain/entities/User";
+import { PublicUser } from "../../../domain/entities/user";
 import { ReadAll } from "../../usecases/atomic/user";
 
 // Mock del repositorio
@@ -15,9 +15,9 @@ describe('ReadAll UseCase', () => {
   it('should return all users', async () => {
     const userRepository = mockUserRepository();
 
-    const mockUsers: User[] = [
-      { id: 1, email: 'user1@example.com', password: 'password1', name: 'User One', role: 'USER', banned: false },
-      { id: 2, email: 'user2@example.com', password: 'password2', name: 'User Two', role: 'USER', banned: false },
+    const mockUsers: PublicUser[] = [
+      { id: 1, email: 'user1@example.com', name: 'User One', role: 'USER', banned: false, emailVerified: true },
+      { id: 2, email: 'user2@example.com', name: 'User Two', role: 'USER', banned: false, emailVerified: true },
     ];
     userRepository.readAll.mockResolvedValue(mockUsers);
 
@@ -21,7 +21,8 @@ describe('ReadByEmail UseCase', () => {
       password: 'password123',
       name: 'Test User',
       role: 'USER',
-      banned: false
+      banned: false,
+      emailVerified: true
     };
     userRepository.readByEmail.mockResolvedValue(mockUser);
 
@@ -1,4 +1,4 @@
-import { User } from "../../../domain/entities/User";
+import { User } from "../../../domain/entities/user";
 import { UserRepository } from "../../repositories/user";
 import { UpdateUser } from "../../usecases/atomic/user";
 
@@ -21,7 +21,8 @@ describe('UpdateUser UseCase', () => {
       password: 'oldPassword',
       name: 'Old Name',
       role: 'USER',
-      banned: false
+      banned: false,
+      emailVerified: true
     };
 
     const updatedUser: User = {
@@ -30,7 +31,8 @@ describe('UpdateUser UseCase', () => {
       password: 'newPassword',
       name: 'New Name',
       role: 'USER',
-      banned: false
+      banned: false,
+      emailVerified: true
     };
 
     userRepository.readById.mockResolvedValue(existingUser);
@@ -0,0 +1,30 @@
+import { AttachmentData, AttachmentRepository } from "../../repositories/attachment";
+import { Attachment } from "../../../domain/entities/attachment";
+
+abstract class UseCaseBase {
+    constructor(protected attachmentRepository: AttachmentRepository) {}
+}
+
+export class CreateAttachment extends UseCaseBase {
+    async execute(data: AttachmentData): Promise<Attachment> {
+        return this.attachmentRepository.create(data);
+    }
+}
+
+export class ReadPostAttachments extends UseCaseBase {
+    async execute(postId: number): Promise<Attachment[]> {
+        return this.attachmentRepository.readByPost(postId);
+    }
+}
+
+export class ReadAttachmentByKey extends UseCaseBase {
+    async execute(key: string): Promise<Attachment | null> {
+        return this.attachmentRepository.readByKey(key);
+    }
+}
+
+export class CountPostAttachments extends UseCaseBase {
+    async execute(postId: number): Promise<number> {
+        return this.attachmentRepository.countByPost(postId);
+    }
+}
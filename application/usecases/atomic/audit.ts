@@ -0,0 +1,19 @@
+import { AuditLogData, AuditLogPage, AuditLogQuery, AuditLogRepository } from "../../repositories/audit";
+import { AuditLogEntry } from "../../../domain/entities/audit";
+import { Actor } from "../policy";
+
+abstract class UseCaseBase {
+    constructor(protected auditLogRepository: AuditLogRepository) {}
+}
+
+export class RecordAudit extends UseCaseBase {
+    async execute(actor: Actor, entry: Omit<AuditLogData, 'actorId' | 'ip'>): Promise<AuditLogEntry> {
+        return this.auditLogRepository.append({ ...entry, actorId: actor.id, ip: actor.ip ?? null });
+    }
+}
+
+export class ReadAuditLog extends UseCaseBase {
+    async execute(query: AuditLogQuery): Promise<AuditLogPage> {
+        return this.auditLogRepository.read(query);
+    }
+}
@@ -0,0 +1,56 @@
+import { CommentData, CommentPage, CommentQuery, CommentRepository } from "../../repositories/comment";
+import { Comment } from "../../../domain/entities/comment";
+import { FindDbError } from "../../../domain/errors/main";
+import { Actor, authorize, canModify } from "../policy";
+
+abstract class UseCaseBase {
+    constructor(protected commentRepository: CommentRepository) {}
+}
+
+export class CreateComment extends UseCaseBase {
+    async execute(commentData: CommentData): Promise<Comment> {
+        if (commentData.parentId !== null) {
+            // Una respuesta solo puede colgar de un comentario existente del mismo post
+            const parent = await this.commentRepository.readById(commentData.parentId);
+            if (!parent || parent.deleted || parent.postId !== commentData.postId) {
+                throw new FindDbError('Parent comment not found in usecase', 'PARENT_COMMENT_NOT_FOUND');
+            }
+        }
+        return this.commentRepository.create(commentData);
+    }
+}
+
+export class ReadCommentById extends UseCaseBase {
+    async execute(id: number): Promise<Comment | null> {
+        return this.commentRepository.readById(id);
+    }
+}
+
+export class ReadCommentsByPost extends UseCaseBase {
+    async execute(query: CommentQuery): Promise<CommentPage> {
+        return this.commentRepository.readByPost(query);
+    }
+}
+
+export class UpdateComment extends UseCaseBase {
+    async execute(id: number, content: string, actor: Actor): Promise<Comment> {
+        const existingComment = await this.commentRepository.readById(id);
+        if (!existingComment || existingComment.deleted) {
+            throw new FindDbError('Comment not found in usecase', 'COMMENT_NOT_FOUND');
+        }
+        // Solo el autor puede editar, ni siquiera un administrador
+        authorize(canModify(actor, existingComment.authorId), 'user not authorized to edit comment');
+        return this.commentRepository.update(id, { content, editedAt: new Date() });
+    }
+}
+
+export class SoftDeleteComment extends UseCaseBase {
+    async execute(id: number, actor: Actor): Promise<Comment> {
+        const existingComment = await this.commentRepository.readById(id);
+        if (!existingComment) {
+            throw new FindDbError('Comment not found in usecase', 'COMMENT_NOT_FOUND');
+        }
+        authorize(canModify(actor, existingComment.authorId, 'comment.delete.any'), 'user not authorized to delete comment');
+        return this.commentRepository.update(id, { deleted: true });
+    }
+}
@@ -0,0 +1,21 @@
+import { LiveEvent } from "../../../domain/entities/event";
+import { EventBus, EventListener } from "../../repositories/events";
+
+abstract class UseCaseBase {
+    constructor(protected eventBus: EventBus) {}
+}
+
+export type EventSubscription = {
+    // Eventos perdidos desde `lastEventId`, null si hay un hueco y el cliente debe recargar
+    missed: LiveEvent[] | null;
+    unsubscribe: () => void;
+}
+
+export class SubscribeEvents extends UseCaseBase {
+    execute(listener: EventListener, lastEventId?: number): EventSubscription {
+        // Leer y suscribirse en el mismo tick: no se puede colar ningún evento entre medias
+        const missed = lastEventId === undefined ? [] : this.eventBus.readSince(lastEventId);
+        const unsubscribe = this.eventBus.subscribe(listener);
+        return { missed, unsubscribe };
+    }
+}
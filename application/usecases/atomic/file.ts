@@ -0,0 +1,32 @@
+import { FileStorage, StoredFile } from "../../repositories/filestorage";
+import { FILE_KEY_PATTERN } from "../../../domain/entities/attachment";
+import { NotFoundError } from "../../../domain/errors/main";
+
+abstract class UseCaseBase {
+    constructor(protected fileStorage: FileStorage) {}
+}
+
+export class ReadFile extends UseCaseBase {
+    async execute(key: string): Promise<StoredFile> {
+        // Solo claves generadas por la aplicación, nunca rutas
+        const file = FILE_KEY_PATTERN.test(key) ? await this.fileStorage.get(key) : null;
+        if (!file) {
+            throw new NotFoundError('File not found', 'FILE_NOT_FOUND');
+        }
+        return file;
+    }
+}
+
+export class StoreFile extends UseCaseBase {
+    async execute(key: string, body: Buffer, contentType: string): Promise<void> {
+        await this.fileStorage.put(key, body, contentType);
+    }
+}
+
+// Intenta borrar todas aunque alguna falle, devuelve las claves que no se han podido borrar
+export class DeleteFiles extends UseCaseBase {
+    async execute(keys: string[]): Promise<string[]> {
+        const results = await Promise.allSettled(keys.map((key) => this.fileStorage.delete(key)));
+        return keys.filter((_, i) => results[i].status === 'rejected');
+    }
+}
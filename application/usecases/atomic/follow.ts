@@ -0,0 +1,17 @@
+import { FollowState } from "../../../domain/entities/follow";
+import { FollowRepository } from "../../repositories/follow";
+
+abstract class UseCaseBase {
+    constructor(protected followRepository: FollowRepository) {}
+}
+
+// Idempotente: dejar de seguir a alguien a quien no se sigue no es un error
+export class UnfollowUser extends UseCaseBase {
+    async execute(followerId: number, followingId: number): Promise<FollowState> {
+        if (await this.followRepository.read(followerId, followingId)) {
+            await this.followRepository.delete(followerId, followingId);
+        }
+        const followers = await this.followRepository.countFollowers(followingId);
+        return { userId: followingId, following: false, followers };
+    }
+}
@@ -1,11 +1,31 @@
-import { LikePost } from "../../../domain/entities/likepost";
+import { LikePost, LikePostState, LikePostToggle } from "../../../domain/entities/likepost";
 import { LikePostRepository } from "../../repositories/likepost";
 
 abstract class UseCaseBase {
     constructor(protected likePostRepository: LikePostRepository){}
 }
 export class CreateLikePost extends UseCaseBase {
-    async execute(postId: number, userId: number): Promise<LikePost> {
+    async execute(postId: number, userId: number): Promise<LikePost | null> {
         return await this.likePostRepository.create(postId, userId);
     }
-}
\ No newline at end of file
+}
+// Quitar un like que no existe no es un error, se devuelve el estado actual
+export class DeleteLikePost extends UseCaseBase {
+    async execute(postId: number, userId: number): Promise<LikePostState> {
+        await this.likePostRepository.delete(postId, userId);
+        const likes = await this.likePostRepository.countByPost(postId);
+        return { postId, liked: false, likes };
+    }
+}
+// Si no se indica `liked` se invierte el estado actual, si se indica se fuerza ese estado (idempotente).
+// El repositorio decide si ha habido cambio, así dos peticiones simultáneas no fallan por leer el mismo estado
+export class ToggleLikePost extends UseCaseBase {
+    async execute(postId: number, userId: number, liked?: boolean): Promise<LikePostToggle> {
+        const wanted = liked ?? !(await this.likePostRepository.readByUserAndPost(postId, userId));
+        const changed = wanted
+            ? (await this.likePostRepository.create(postId, userId)) !== null
+            : await this.likePostRepository.delete(postId, userId);
+        const likes = await this.likePostRepository.countByPost(postId);
+        return { postId, liked: wanted, likes, changed };
+    }
+}
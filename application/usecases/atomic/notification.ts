@@ -0,0 +1,51 @@
+import { COLLAPSIBLE_NOTIFICATIONS, Notification, NotificationPage, notificationMessage } from "../../../domain/entities/notification";
+import { FindDbError } from "../../../domain/errors/main";
+import { NotificationData, NotificationQuery, NotificationRepository } from "../../repositories/notification";
+
+abstract class UseCaseBase {
+    constructor(protected notificationRepository: NotificationRepository) {}
+}
+
+// Devuelve null si no hay nada que notificar (acciones sobre lo propio o el mismo actor repitiendo)
+export class NotifyUser extends UseCaseBase {
+    async execute(data: NotificationData): Promise<Notification | null> {
+        if (data.userId === data.actorId) return null;
+        if (COLLAPSIBLE_NOTIFICATIONS.includes(data.type)) {
+            const { actorId, ...group } = data;
+            const existing = await this.notificationRepository.readUnreadGroup(group);
+            // Quitar y volver a dar like no cuenta como otro usuario más, aunque entre medias haya actuado otro
+            if (existing) return this.notificationRepository.addToGroup(existing.id, actorId);
+        }
+        return this.notificationRepository.create(data);
+    }
+}
+
+export class ReadNotifications extends UseCaseBase {
+    async execute(query: NotificationQuery): Promise<NotificationPage> {
+        const { notifications, nextCursor } = await this.notificationRepository.readByUser(query);
+        const unreadCount = await this.notificationRepository.countUnread(query.userId);
+        return {
+            notifications: notifications.map((notification) => ({ ...notification, message: notificationMessage(notification) })),
+            unreadCount,
+            nextCursor,
+        };
+    }
+}
+
+export class MarkNotificationRead extends UseCaseBase {
+    async execute(id: number, userId: number): Promise<Notification> {
+        const notification = await this.notificationRepository.readById(id);
+        // Las notificaciones de otro usuario se tratan como inexistentes
+        if (!notification || notification.userId !== userId) {
+            throw new FindDbError('Notification not found in usecase', 'NOTIFICATION_NOT_FOUND');
+        }
+        if (notification.read) return notification;
+        return this.notificationRepository.markRead(id);
+    }
+}
+
+export class MarkAllNotificationsRead extends UseCaseBase {
+    async execute(userId: number): Promise<{ updated: number }> {
+        return { updated: await this.notificationRepository.markAllRead(userId) };
+    }
+}
@@ -1,5 +1,8 @@
-import { PostData, PostRepository, PostUpdateData } from "../../../application/repositories/post";
-import { Post } from "../../../domain/entities/post";
+import { PostData, PostPage, PostQuery, PostRepository, PostUpdateData } from "../../../application/repositories/post";
+import { isPublished, Post, PostStatus } from "../../../domain/entities/post";
+import { mergeTags, parseHashtags } from "../../../domain/entities/tag";
+import { ConflictError, FindDbError, ValidationError } from "../../../domain/errors/main";
+import { Actor, authorize, can, canModify, canSeePost } from "../policy";
 
 // ⚠️🖊️ Se ha de manejar correctamente el uso de post.deleted ya que los test nos lo requiere y solo seria necesario en el update
 // 🧠❓ Tambien hemos de pensar que hacer con los update, ya que es buena practica comprobar que x existe antes de hacer update, por lo tanto quizas nos interesa devolver ese x para segun que cuestiones del backend o frontend
@@ -8,9 +11,63 @@ abstract class UseCaseBase {
     constructor(protected postRepository: PostRepository) {}
 }
 
+export type PostPublication = {
+    status?: PostStatus;
+    publishAt?: Date | null;
+}
+
+// Sin estado, con `publishAt` el post se programa y sin ella se publica. `publishAt` solo se guarda en los programados
+const publication = ({ status, publishAt }: PostPublication, now: Date): { status: PostStatus; publishAt: Date | null } => {
+    const target = status ?? (publishAt ? 'scheduled' : 'published');
+    if (target === 'scheduled' && (!publishAt || publishAt <= now)) {
+        throw new ValidationError('Invalid publishAt', [{ field: 'publishAt', location: 'body', message: 'Un post programado necesita una fecha de publicación futura' }], 'INVALID_PUBLISH_AT');
+    }
+    return { status: target, publishAt: target === 'scheduled' ? publishAt! : null };
+}
+
+// Cambios que aplica `postPublication` al post, null si ya está publicado y se pide publicarlo. Lanza si el cambio no es válido,
+// sin guardar nada, así se puede comprobar antes de otros cambios de la misma petición
+export const publicationChange = (post: Post, postPublication: PostPublication, now: Date): PostUpdateData | null => {
+    const data = publication(postPublication, now);
+    if (isPublished(post)) {
+        if (data.status === 'published') return null;
+        throw new ConflictError('Post already published', 'POST_ALREADY_PUBLISHED');
+    }
+    return { ...data, ...(data.status === 'published' && { date: now }) };
+}
+
 export class CreatePost extends UseCaseBase {
-    async execute(postData: PostData, userId: number): Promise<Post> {
-        return this.postRepository.create(postData, userId);
+    async execute(postData: PostData, userId: number, now: Date = new Date()): Promise<Post> {
+        const tags = mergeTags(postData.tags ?? [], parseHashtags(postData.content));
+        return this.postRepository.create({ ...postData, tags, ...publication(postData, now) }, userId);
+    }
+}
+
+// Solo el autor, y solo mientras el post no está publicado: publicarlo pone la fecha de publicación
+export class ChangePostStatus extends UseCaseBase {
+    async execute(id: number, postPublication: PostPublication, actor: Actor, now: Date = new Date()): Promise<Post> {
+        const post = await this.postRepository.readById(id);
+        if (!post) {
+            throw new FindDbError('Post not found in usecase', 'POST_NOT_FOUND');
+        }
+        authorize(canModify(actor, post.authorId), 'user not authorized to publish post');
+        const data = publicationChange(post, postPublication, now);
+        return data ? this.postRepository.update(id, data) : post;
+    }
+}
+
+// Publica los posts programados que ya han llegado a su fecha, con esa fecha como la de publicación
+export class PublishDuePosts extends UseCaseBase {
+    async execute(now: Date = new Date(), batchSize = 100): Promise<Post[]> {
+        const published: Post[] = [];
+        // Los publicados dejan de cumplir el filtro, cada vuelta lee la primera página de los que quedan
+        for (;;) {
+            const { posts } = await this.postRepository.readPage({ order: 'fecha-desc', statuses: ['scheduled'], publishBefore: now, limit: batchSize });
+            for (const post of posts) {
+                published.push(await this.postRepository.update(post.id, { status: 'published', publishAt: null, date: post.publishAt ?? now }));
+            }
+            if (posts.length < batchSize) return published;
+        }
     }
 }
 
@@ -19,17 +76,44 @@ export class ReadAllPosts extends UseCaseBase {
         return this.postRepository.readAll();
     }
 }
+export class ReadPostsPage extends UseCaseBase {
+    async execute(query: PostQuery): Promise<PostPage> {
+        return this.postRepository.readPage(query);
+    }
+}
+// Posts visibles de los autores que sigue el usuario, del más reciente al más antiguo
+export class ReadFeed extends UseCaseBase {
+    async execute(userId: number, limit: number, cursor?: number): Promise<PostPage> {
+        return this.postRepository.readPage({ order: 'fecha-desc', followedBy: userId, onlyVisible: true, limit, cursor });
+    }
+}
+// Borradores y posts programados del usuario, del más reciente al más antiguo
+export class ReadDrafts extends UseCaseBase {
+    async execute(userId: number, limit: number, cursor?: number): Promise<PostPage> {
+        return this.postRepository.readPage({ order: 'fecha-desc', authorId: userId, statuses: ['draft', 'scheduled'], onlyVisible: true, limit, cursor });
+    }
+}
 export class ReadById extends UseCaseBase {
     async execute(id: number): Promise<Post|null> {
         return this.postRepository.readById(id);
     }
 }
+// Los posts eliminados, ocultos o sin publicar solo los ven su autor y los moderadores
+export class ReadVisiblePost extends UseCaseBase {
+    async execute(id: number, actor: Actor): Promise<Post> {
+        const post = await this.postRepository.readById(id);
+        if (!post || !canSeePost(actor, post)) {
+            throw new FindDbError('Post not found in usecase', 'POST_NOT_FOUND');
+        }
+        return post;
+    }
+}
 
 export class UpdatePost extends UseCaseBase {
     async execute(id: number, postData: PostUpdateData): Promise<Post> {
         const updatedPost = await this.postRepository.update(id, postData);
         if (!updatedPost) {
-            throw new Error('Post not found'); // Manejo del error
+            throw new FindDbError('Post not found', 'POST_NOT_FOUND'); // Manejo del error
         }
         return updatedPost;
     }
@@ -41,3 +125,26 @@ export class DeletePost extends UseCaseBase {
         await this.postRepository.delete(id);
     }
 }
+
+export class SoftDeletePost extends UseCaseBase {
+    // Alterna el estado: elimina el post o lo restablece si ya estaba eliminado
+    async execute(id: number, actor: Actor): Promise<Post> {
+        const post = await this.postRepository.readById(id);
+        if (!post) {
+            throw new FindDbError('Post not found in usecase', 'POST_NOT_FOUND');
+        }
+        authorize(canModify(actor, post.authorId, 'post.delete.any'), 'user not authorized for softDelete');
+        return this.postRepository.update(id, { deleted: !post.deleted });
+    }
+}
+
+export class HardDeletePost extends UseCaseBase {
+    async execute(id: number, actor: Actor): Promise<Post> {
+        authorize(can(actor, 'post.hardDelete'), 'user not authorized for hardDelete');
+        const post = await this.postRepository.readById(id);
+        if (!post) {
+            throw new FindDbError('Post not found in usecase', 'POST_NOT_FOUND');
+        }
+        return this.postRepository.delete(id);
+    }
+}
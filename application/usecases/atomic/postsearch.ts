@@ -0,0 +1,13 @@
+import { PostSearchQuery, PostSearchRepository, PostSearchResult } from "../../repositories/postsearch";
+
+abstract class UseCaseBase {
+    constructor(protected postSearchRepository: PostSearchRepository) {}
+}
+
+export class SearchPosts extends UseCaseBase {
+    async execute(query: PostSearchQuery): Promise<PostSearchResult[]> {
+        const text = query.text.trim();
+        if (!text) return [];
+        return this.postSearchRepository.search({ ...query, text });
+    }
+}
\ No newline at end of file
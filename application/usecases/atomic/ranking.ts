@@ -0,0 +1,34 @@
+import { RankingRepository } from "../../repositories/ranking";
+import { countLikes, decayScore, RankingConfig, TrendingWindow, wilsonScore } from "../../../domain/entities/ranking";
+
+// `likes` son los likes del periodo
+export type PostPopularity = { id: number; likes: number; score: number }
+
+abstract class UseCaseBase {
+    constructor(protected rankingRepository: RankingRepository) {}
+}
+
+// Posts con likes en el periodo, de mayor a menor puntuación según el algoritmo configurado
+export class RankPosts extends UseCaseBase {
+    async execute(window: TrendingWindow, config: RankingConfig, now: Date = new Date()): Promise<PostPopularity[]> {
+        const { posts, users } = await this.rankingRepository.read(window);
+        return posts
+            .map(({ postId, likes }) => ({ id: postId, likes: countLikes(likes), buckets: likes }))
+            .filter(({ likes }) => likes > 0)
+            .map(({ id, likes, buckets }) => ({
+                id,
+                likes,
+                // El autor no forma parte de la audiencia de su propio post
+                score: config.algorithm === 'wilson' ? wilsonScore(likes, users - 1, config.confidence) : decayScore(buckets, now, config),
+            }))
+            .sort((a, b) => b.score - a.score || b.id - a.id);
+    }
+}
+
+// Likes totales y puntuación con decaimiento de todos los posts
+export class ReadPostsPopularity extends UseCaseBase {
+    async execute(config: RankingConfig, now: Date = new Date()): Promise<PostPopularity[]> {
+        const { posts } = await this.rankingRepository.read('all');
+        return posts.map(({ postId, likes }) => ({ id: postId, likes: countLikes(likes), score: decayScore(likes, now, config) }));
+    }
+}
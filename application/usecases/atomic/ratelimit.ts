@@ -0,0 +1,47 @@
+import { RateLimitStore } from "../../repositories/ratelimit";
+import { LockoutPolicy, RateLimitCounter, RateLimitPolicy } from "../../../domain/entities/ratelimit";
+import { TooManyRequestsError } from "../../../domain/errors/main";
+
+const secondsUntil = (date: Date): number => Math.max(Math.ceil((date.getTime() - Date.now()) / 1000), 1)
+
+abstract class UseCaseBase {
+    constructor(protected rateLimitStore: RateLimitStore) {}
+}
+
+// Cuenta la petición y la rechaza si supera el límite de la ventana actual
+export class ConsumeRateLimit extends UseCaseBase {
+    async execute(key: string, policy: RateLimitPolicy): Promise<RateLimitCounter> {
+        const counter = await this.rateLimitStore.hit(key, policy.windowMs);
+        if (counter.count > policy.limit) {
+            throw new TooManyRequestsError('Too many requests', secondsUntil(counter.resetAt), 'RATE_LIMITED');
+        }
+        return counter;
+    }
+}
+
+export class CheckLockout extends UseCaseBase {
+    async execute(key: string): Promise<void> {
+        const counter = await this.rateLimitStore.read(key);
+        if (counter?.lockedUntil && counter.lockedUntil.getTime() > Date.now()) {
+            throw new TooManyRequestsError('Too many failed attempts, temporarily locked', secondsUntil(counter.lockedUntil), 'ACCOUNT_LOCKED');
+        }
+    }
+}
+
+// Registra un intento fallido y, a partir del umbral, bloquea la clave con una duración que crece de forma exponencial
+export class RegisterFailedAttempt extends UseCaseBase {
+    async execute(key: string, policy: LockoutPolicy): Promise<Date | null> {
+        const counter = await this.rateLimitStore.hit(key, policy.windowMs);
+        if (counter.count < policy.threshold) return null;
+        const lockMs = Math.min(policy.baseMs * 2 ** (counter.count - policy.threshold), policy.maxMs);
+        const lockedUntil = new Date(Date.now() + lockMs);
+        await this.rateLimitStore.lock(key, lockedUntil);
+        return lockedUntil;
+    }
+}
+
+export class ClearFailedAttempts extends UseCaseBase {
+    async execute(key: string): Promise<void> {
+        await this.rateLimitStore.reset(key);
+    }
+}
@@ -0,0 +1,20 @@
+import { ReportPage, ReportQuery, ReportRepository } from "../../repositories/report";
+import { Report } from "../../../domain/entities/report";
+import { Actor, authorize, can } from "../policy";
+
+abstract class UseCaseBase {
+    constructor(protected reportRepository: ReportRepository) {}
+}
+
+export class ReadReports extends UseCaseBase {
+    async execute(query: ReportQuery, actor: Actor): Promise<ReportPage> {
+        authorize(can(actor, 'report.review'), 'user not authorized to review reports');
+        return this.reportRepository.readPage(query);
+    }
+}
+
+export class ReadReportById extends UseCaseBase {
+    async execute(id: number): Promise<Report | null> {
+        return this.reportRepository.readById(id);
+    }
+}
@@ -0,0 +1,58 @@
+import { SessionRepository } from "../../repositories/session";
+import { Session } from "../../../domain/entities/session";
+import { UnauthenticatedError } from "../../../domain/errors/main";
+
+// Los refresh tokens llegan ya hasheados, el valor en claro nunca pasa de la capa de interfaz
+
+abstract class UseCaseBase {
+    constructor(protected sessionRepository: SessionRepository) {}
+}
+
+export class StartSession extends UseCaseBase {
+    async execute(userId: number, tokenHash: string, expiresAt: Date): Promise<Session> {
+        const session = await this.sessionRepository.create(userId);
+        await this.sessionRepository.createRefreshToken(session.id, tokenHash, expiresAt);
+        return session;
+    }
+}
+
+export class RotateRefreshToken extends UseCaseBase {
+    async execute(tokenHash: string, newTokenHash: string, newExpiresAt: Date): Promise<Session> {
+        const refreshToken = await this.sessionRepository.readRefreshTokenByHash(tokenHash);
+        if (!refreshToken || refreshToken.session.revokedAt) {
+            throw new UnauthenticatedError('Invalid refresh token', 'INVALID_REFRESH_TOKEN');
+        }
+        if (refreshToken.expiresAt.getTime() <= Date.now()) {
+            throw new UnauthenticatedError('Refresh token expired', 'REFRESH_TOKEN_EXPIRED');
+        }
+        // Reutilizar un token ya rotado indica que ha sido robado: se revoca toda la sesión
+        if (refreshToken.usedAt || !(await this.sessionRepository.markRefreshTokenUsed(refreshToken.id))) {
+            await this.sessionRepository.revoke(refreshToken.sessionId);
+            throw new UnauthenticatedError('Refresh token reuse detected', 'REFRESH_TOKEN_REUSED');
+        }
+        await this.sessionRepository.createRefreshToken(refreshToken.sessionId, newTokenHash, newExpiresAt);
+        return refreshToken.session;
+    }
+}
+
+export class EndSession extends UseCaseBase {
+    async execute(tokenHash: string): Promise<void> {
+        const refreshToken = await this.sessionRepository.readRefreshTokenByHash(tokenHash);
+        if (!refreshToken) return;
+        await this.sessionRepository.revoke(refreshToken.sessionId);
+    }
+}
+
+export class RevokeUserSessions extends UseCaseBase {
+    async execute(userId: number): Promise<void> {
+        await this.sessionRepository.revokeAllByUser(userId);
+    }
+}
+
+export class ReadActiveSession extends UseCaseBase {
+    async execute(id: string): Promise<Session | null> {
+        const session = await this.sessionRepository.readById(id);
+        if (!session || session.revokedAt) return null;
+        return session;
+    }
+}
\ No newline at end of file
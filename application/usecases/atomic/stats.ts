@@ -0,0 +1,52 @@
+import { StatsRepository } from "../../repositories/stats";
+import { addDays, countDays, DEFAULT_STATS_DAYS, eachDay, MAX_STATS_DAYS, SiteStats, toDay, UserStats } from "../../../domain/entities/stats";
+import { FindDbError, ValidationError } from "../../../domain/errors/main";
+import { Actor, authorize, can } from "../policy";
+
+abstract class UseCaseBase {
+    constructor(protected statsRepository: StatsRepository) {}
+}
+
+export class CountUsers extends UseCaseBase {
+    async execute(): Promise<number> {
+        return this.statsRepository.countUsers();
+    }
+}
+
+export class ReadUserStats extends UseCaseBase {
+    async execute(userId: number): Promise<UserStats> {
+        const stats = await this.statsRepository.readUserStats(userId);
+        if (!stats) {
+            throw new FindDbError('User not found in usecase', 'USER_NOT_FOUND');
+        }
+        return stats;
+    }
+}
+
+// Sin rango, los últimos DEFAULT_STATS_DAYS días hasta hoy
+export class ReadSiteStats extends UseCaseBase {
+    async execute(range: { from?: string; to?: string }, actor: Actor): Promise<SiteStats> {
+        authorize(can(actor, 'stats.read'), 'user not authorized to read site stats');
+        const to = range.to ?? toDay(new Date());
+        const from = range.from ?? addDays(to, 1 - DEFAULT_STATS_DAYS);
+        // El rango se valida antes de generar los días, un rango enorme no llega a reservar memoria
+        const span = countDays(from, to);
+        if (!(span >= 1 && span <= MAX_STATS_DAYS)) {
+            throw new ValidationError('Invalid stats range', [{ field: 'from', location: 'query', message: `El rango debe tener entre 1 y ${MAX_STATS_DAYS} días` }], 'INVALID_STATS_RANGE');
+        }
+        const days = eachDay(from, to);
+        const [users, activity, activeUsers] = await Promise.all([
+            this.statsRepository.countUsers(),
+            this.statsRepository.readDailyActivity(from, to),
+            this.statsRepository.countActiveUsers(from, to),
+        ]);
+        const series = days.map((date) => activity.find((day) => day.date === date) ?? { date, signups: 0, posts: 0, likes: 0, activeUsers: 0 });
+        const sum = (key: 'signups' | 'posts' | 'likes') => series.reduce((total, day) => total + day[key], 0);
+        return {
+            from,
+            to,
+            totals: { users, signups: sum('signups'), posts: sum('posts'), likes: sum('likes'), activeUsers },
+            series,
+        };
+    }
+}
@@ -0,0 +1,19 @@
+import { SuspensionRepository } from "../../repositories/suspension";
+import { Suspension } from "../../../domain/entities/suspension";
+
+abstract class UseCaseBase {
+    constructor(protected suspensionRepository: SuspensionRepository) {}
+}
+
+// Las suspensiones caducadas no cuentan: se levantan solas sin que nadie las toque
+export class ReadActiveSuspension extends UseCaseBase {
+    async execute(userId: number): Promise<Suspension | null> {
+        return this.suspensionRepository.readActive(userId, new Date());
+    }
+}
+
+export class ReadSuspensions extends UseCaseBase {
+    async execute(userId: number): Promise<Suspension[]> {
+        return this.suspensionRepository.readByUser(userId);
+    }
+}
@@ -0,0 +1,21 @@
+import { TagRepository } from "../../repositories/tag";
+import { TagCount } from "../../../domain/entities/tag";
+
+abstract class UseCaseBase {
+    constructor(protected tagRepository: TagRepository) {}
+}
+
+export class ReadTags extends UseCaseBase {
+    async execute(): Promise<TagCount[]> {
+        return this.tagRepository.readCounts();
+    }
+}
+
+// Las etiquetas más usadas en los posts de los últimos `days` días
+export class ReadTrendingTags extends UseCaseBase {
+    async execute(days: number, limit: number): Promise<TagCount[]> {
+        const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+        const tags = await this.tagRepository.readCounts(since);
+        return tags.slice(0, limit);
+    }
+}
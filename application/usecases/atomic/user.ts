@@ -1,5 +1,5 @@
-import { UserRepository } from "../../../application/repositories/user";
-import { User } from "../../../domain/entities/user";
+import { UserRepository, UserUpdateData } from "../../../application/repositories/user";
+import { PublicUser, User } from "../../../domain/entities/user";
 import { FindDbError } from "../../../domain/errors/main";
 
 
@@ -22,15 +22,15 @@ export class ReadByEmail extends UseCaseBase {
     }
 }
 export class ReadAll extends UseCaseBase {
-    async execute(): Promise<User[]> {
+    async execute(): Promise<PublicUser[]> {
         return this.userRepository.readAll()
     }
 }
 export class UpdateUser extends UseCaseBase {
-    async execute(id: number, userData: Partial<User>): Promise<User> {
+    async execute(id: number, userData: UserUpdateData): Promise<User> {
         const existingUser = await this.userRepository.readById(id);
         if (!existingUser) {
-            throw new FindDbError('User not found in usecase'); // Manejo del error
+            throw new FindDbError('User not found in usecase', 'USER_NOT_FOUND'); // Manejo del error
         }
         return this.userRepository.update(id, userData);
     }
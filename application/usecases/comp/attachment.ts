@@ -0,0 +1,110 @@
+import { randomUUID } from "crypto";
+import { AttachmentRepository } from "../../repositories/attachment";
+import { AuditLogRepository } from "../../repositories/audit";
+import { FileStorage, StoredFile } from "../../repositories/filestorage";
+import { PostRepository } from "../../repositories/post";
+import { ThumbnailGenerator } from "../../repositories/thumbnail";
+import { CountPostAttachments, CreateAttachment, ReadAttachmentByKey, ReadPostAttachments } from "../atomic/attachment";
+import { DeleteFiles, ReadFile, StoreFile } from "../atomic/file";
+import { ReadById as ReadPostById, ReadVisiblePost } from "../atomic/post";
+import { HardDeletePostAndAudit } from "./audit";
+import { Attachment, ATTACHMENT_TYPES, detectImageType, MAX_ATTACHMENTS_PER_POST, THUMBNAIL_SIZE } from "../../../domain/entities/attachment";
+import { Post } from "../../../domain/entities/post";
+import { FindDbError, NotFoundError, ValidationError } from "../../../domain/errors/main";
+import { Actor, authorize, canModify, canSeePost } from "../policy";
+
+export type UploadedFile = {
+    body: Buffer;
+    filename: string;
+}
+
+const fileError = (message: string, code: string) =>
+    new ValidationError(message, [{ field: 'file', location: 'body', message }], code)
+
+// Solo el autor del post. El tipo se comprueba con el contenido del fichero, no con el que indica el cliente
+export class UploadAttachment {
+    constructor(
+        protected postRepository: PostRepository,
+        protected attachmentRepository: AttachmentRepository,
+        protected fileStorage: FileStorage,
+        protected thumbnailGenerator: ThumbnailGenerator,
+    ) {}
+    async execute(postId: number, file: UploadedFile, actor: Actor, maxBytes: number): Promise<Attachment> {
+        const post = await new ReadPostById(this.postRepository).execute(postId);
+        if (!post || post.deleted) {
+            throw new FindDbError('Post not found in usecase', 'POST_NOT_FOUND');
+        }
+        authorize(canModify(actor, post.authorId), 'user not authorized to attach files to post');
+        if (file.body.length > maxBytes) {
+            throw fileError(`El fichero no puede ocupar más de ${maxBytes} bytes`, 'FILE_TOO_LARGE');
+        }
+        const mimeType = detectImageType(file.body);
+        if (!mimeType) {
+            throw fileError(`Solo se aceptan imágenes ${Object.values(ATTACHMENT_TYPES).join(', ')}`, 'UNSUPPORTED_FILE_TYPE');
+        }
+        if (await new CountPostAttachments(this.attachmentRepository).execute(postId) >= MAX_ATTACHMENTS_PER_POST) {
+            throw fileError(`Un post no puede tener más de ${MAX_ATTACHMENTS_PER_POST} adjuntos`, 'TOO_MANY_ATTACHMENTS');
+        }
+        const id = randomUUID();
+        const key = `${id}.${ATTACHMENT_TYPES[mimeType]}`;
+        const storeFile = new StoreFile(this.fileStorage);
+        await storeFile.execute(key, file.body, mimeType);
+        let thumbnailKey: string | null = null;
+        try {
+            // Sin miniatura si la imagen no se puede procesar (p.ej. está corrupta), el original se guarda igual
+            const thumbnail = await this.thumbnailGenerator.generate(file.body, THUMBNAIL_SIZE).catch(() => null);
+            if (thumbnail) {
+                thumbnailKey = `${id}.thumb.${ATTACHMENT_TYPES[thumbnail.contentType]}`;
+                await storeFile.execute(thumbnailKey, thumbnail.body, thumbnail.contentType);
+            }
+            return await new CreateAttachment(this.attachmentRepository).execute({
+                postId, key, thumbnailKey, filename: file.filename, mimeType, size: file.body.length,
+            });
+        } catch (error) {
+            // Sin el registro nadie podría encontrar ni borrar los ficheros
+            await new DeleteFiles(this.fileStorage).execute(thumbnailKey ? [key, thumbnailKey] : [key]);
+            throw error;
+        }
+    }
+}
+
+// Los adjuntos de posts eliminados, ocultos o sin publicar solo los ven su autor y los moderadores
+export class ReadVisiblePostAttachments {
+    constructor(protected postRepository: PostRepository, protected attachmentRepository: AttachmentRepository) {}
+    async execute(postId: number, actor: Actor): Promise<Attachment[]> {
+        await new ReadVisiblePost(this.postRepository).execute(postId, actor);
+        return new ReadPostAttachments(this.attachmentRepository).execute(postId);
+    }
+}
+
+// Fichero original o miniatura de un adjunto, con la misma visibilidad que su post. Sin actor (sin token) solo los de posts visibles.
+// Los de posts que el usuario no puede ver responden como si no existieran
+export class ReadVisibleFile {
+    constructor(protected postRepository: PostRepository, protected attachmentRepository: AttachmentRepository, protected fileStorage: FileStorage) {}
+    async execute(key: string, actor: Actor | null): Promise<StoredFile> {
+        const attachment = await new ReadAttachmentByKey(this.attachmentRepository).execute(key);
+        const post = attachment && await new ReadPostById(this.postRepository).execute(attachment.postId);
+        if (!post || !canSeePost(actor, post)) {
+            throw new NotFoundError('File not found', 'FILE_NOT_FOUND');
+        }
+        return new ReadFile(this.fileStorage).execute(key);
+    }
+}
+
+// Los registros de los adjuntos se borran en cascada con el post, los ficheros se borran después
+export class HardDeletePostAndFiles {
+    constructor(
+        protected postRepository: PostRepository,
+        protected auditLogRepository: AuditLogRepository,
+        protected attachmentRepository: AttachmentRepository,
+        protected fileStorage: FileStorage,
+    ) {}
+    async execute(id: number, actor: Actor): Promise<Post> {
+        const attachments = await new ReadPostAttachments(this.attachmentRepository).execute(id);
+        const post = await new HardDeletePostAndAudit(this.postRepository, this.auditLogRepository).execute(id, actor);
+        // El post ya no existe: un fichero que no se pueda borrar se queda huérfano, no hace fallar la petición
+        await new DeleteFiles(this.fileStorage).execute(attachments.flatMap((attachment) =>
+            attachment.thumbnailKey ? [attachment.key, attachment.thumbnailKey] : [attachment.key]));
+        return post;
+    }
+}
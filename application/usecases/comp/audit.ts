@@ -0,0 +1,64 @@
+import { AuditLogRepository } from "../../repositories/audit";
+import { PostRepository } from "../../repositories/post";
+import { PostRevisionRepository } from "../../repositories/postrevision";
+import { HardDeletePost, ReadById as ReadPostById, SoftDeletePost } from "../atomic/post";
+import { RecordAudit } from "../atomic/audit";
+import { RestorePostRevision } from "./post";
+import { Post } from "../../../domain/entities/post";
+import { postSnapshot } from "../../../domain/entities/audit";
+import { Actor } from "../policy";
+
+// Las suspensiones se registran en SuspendUser y LiftSuspension, aquí las acciones sobre posts
+
+export class SoftDeletePostAndAudit {
+    constructor(protected postRepository: PostRepository, protected auditLogRepository: AuditLogRepository) {}
+    // Solo se registra cuando se modera el post de otro usuario, no cuando el autor borra el suyo
+    async execute(id: number, actor: Actor): Promise<Post> {
+        const before = await new ReadPostById(this.postRepository).execute(id);
+        const post = await new SoftDeletePost(this.postRepository).execute(id, actor);
+        if (before && before.authorId !== actor.id) {
+            await new RecordAudit(this.auditLogRepository).execute(actor, {
+                action: post.deleted ? 'post.softDelete' : 'post.restore',
+                targetType: 'post',
+                targetId: id,
+                before: postSnapshot(before),
+                after: postSnapshot(post),
+            });
+        }
+        return post;
+    }
+}
+
+export class HardDeletePostAndAudit {
+    constructor(protected postRepository: PostRepository, protected auditLogRepository: AuditLogRepository) {}
+    async execute(id: number, actor: Actor): Promise<Post> {
+        const post = await new HardDeletePost(this.postRepository).execute(id, actor);
+        await new RecordAudit(this.auditLogRepository).execute(actor, {
+            action: 'post.hardDelete',
+            targetType: 'post',
+            targetId: id,
+            before: postSnapshot(post),
+            after: null,
+        });
+        return post;
+    }
+}
+
+export class RestorePostRevisionAndAudit {
+    constructor(protected postRepository: PostRepository, protected postRevisionRepository: PostRevisionRepository, protected auditLogRepository: AuditLogRepository) {}
+    // Como el soft delete: solo se registra cuando se restaura una versión del post de otro usuario
+    async execute(id: number, rev: number, actor: Actor): Promise<Post> {
+        const before = await new ReadPostById(this.postRepository).execute(id);
+        const post = await new RestorePostRevision(this.postRepository, this.postRevisionRepository).execute(id, rev, actor);
+        if (before && before.authorId !== actor.id) {
+            await new RecordAudit(this.auditLogRepository).execute(actor, {
+                action: 'post.revisionRestore',
+                targetType: 'post',
+                targetId: id,
+                before: postSnapshot(before),
+                after: postSnapshot(post),
+            });
+        }
+        return post;
+    }
+}
@@ -0,0 +1,14 @@
+import { CommentPage, CommentQuery, CommentRepository } from "../../repositories/comment";
+import { PostRepository } from "../../repositories/post";
+import { ReadCommentsByPost } from "../atomic/comment";
+import { ReadVisiblePost } from "../atomic/post";
+import { Actor } from "../policy";
+
+// Como los adjuntos: los comentarios de posts eliminados, ocultos o sin publicar solo los ven su autor y los moderadores
+export class ReadVisiblePostComments {
+    constructor(protected postRepository: PostRepository, protected commentRepository: CommentRepository) {}
+    async execute(query: CommentQuery, actor: Actor): Promise<CommentPage> {
+        await new ReadVisiblePost(this.postRepository).execute(query.postId, actor);
+        return new ReadCommentsByPost(this.commentRepository).execute(query);
+    }
+}
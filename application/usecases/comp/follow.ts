@@ -0,0 +1,53 @@
+import { FollowRepository, FollowListQuery } from "../../repositories/follow";
+import { NotificationRepository } from "../../repositories/notification";
+import { UserRepository } from "../../repositories/user";
+import { ReadById } from "../atomic/user";
+import { NotifyUser } from "../atomic/notification";
+import { FollowPage, FollowState } from "../../../domain/entities/follow";
+import { FindDbError, ValidationError } from "../../../domain/errors/main";
+
+abstract class FollowUseCaseBase {
+    constructor(protected userRepository: UserRepository, protected followRepository: FollowRepository) {}
+
+    protected async ensureUser(userId: number): Promise<void> {
+        const user = await new ReadById(this.userRepository).execute(userId);
+        if (!user) {
+            throw new FindDbError('User not found in usecase', 'USER_NOT_FOUND');
+        }
+    }
+}
+
+// Idempotente: seguir otra vez a un usuario ya seguido no es un error
+export class FollowUser extends FollowUseCaseBase {
+    constructor(userRepository: UserRepository, followRepository: FollowRepository, protected notificationRepository: NotificationRepository) {
+        super(userRepository, followRepository);
+    }
+    async execute(followerId: number, followingId: number): Promise<FollowState> {
+        if (followerId === followingId) {
+            throw new ValidationError('Users cannot follow themselves', [], 'CANNOT_FOLLOW_SELF');
+        }
+        await this.ensureUser(followingId);
+        if (!(await this.followRepository.read(followerId, followingId))) {
+            await this.followRepository.create(followerId, followingId);
+            await new NotifyUser(this.notificationRepository).execute({ userId: followingId, type: 'follow', actorId: followerId, postId: null, commentId: null });
+        }
+        const followers = await this.followRepository.countFollowers(followingId);
+        return { userId: followingId, following: true, followers };
+    }
+}
+
+export class ReadFollowers extends FollowUseCaseBase {
+    async execute(userId: number, query: FollowListQuery): Promise<FollowPage> {
+        await this.ensureUser(userId);
+        const page = await this.followRepository.readFollowers(userId, query);
+        return { count: await this.followRepository.countFollowers(userId), ...page };
+    }
+}
+
+export class ReadFollowing extends FollowUseCaseBase {
+    async execute(userId: number, query: FollowListQuery): Promise<FollowPage> {
+        await this.ensureUser(userId);
+        const page = await this.followRepository.readFollowing(userId, query);
+        return { count: await this.followRepository.countFollowing(userId), ...page };
+    }
+}
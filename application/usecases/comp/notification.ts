@@ -0,0 +1,141 @@
+import { CommentData, CommentRepository } from "../../repositories/comment";
+import { LikePostRepository } from "../../repositories/likepost";
+import { NotificationRepository } from "../../repositories/notification";
+import { PostData, PostRepository, PostUpdateData } from "../../repositories/post";
+import { PostRevisionRepository } from "../../repositories/postrevision";
+import { UserRepository } from "../../repositories/user";
+import { CreateComment, ReadCommentById } from "../atomic/comment";
+import { ToggleLikePost } from "../atomic/likepost";
+import { NotifyUser } from "../atomic/notification";
+import { ChangePostStatus, CreatePost, PostPublication, publicationChange, PublishDuePosts, ReadById as ReadPostById } from "../atomic/post";
+import { ReadById as ReadUserById } from "../atomic/user";
+import { Comment } from "../../../domain/entities/comment";
+import { LikePostState } from "../../../domain/entities/likepost";
+import { parseMentions } from "../../../domain/entities/notification";
+import { isPublished, Post } from "../../../domain/entities/post";
+import { FindDbError } from "../../../domain/errors/main";
+import { Actor, authorize, canModify } from "../policy";
+import { EditPost } from "./post";
+
+// Casos de uso que además de su acción avisan a los usuarios afectados
+
+export class NotifyMentions {
+    constructor(protected userRepository: UserRepository, protected notificationRepository: NotificationRepository) {}
+    // `skip`: usuarios que ya han recibido otra notificación por la misma acción
+    async execute(text: string | null, actorId: number, postId: number, commentId: number | null, skip: number[] = []): Promise<void> {
+        for (const userId of parseMentions(text)) {
+            if (skip.includes(userId)) continue;
+            // Las menciones a usuarios que no existen se quedan como texto
+            if (!(await new ReadUserById(this.userRepository).execute(userId))) continue;
+            await new NotifyUser(this.notificationRepository).execute({ userId, type: 'mention', actorId, postId, commentId });
+        }
+    }
+}
+
+export class CreatePostAndNotify {
+    constructor(protected postRepository: PostRepository, protected userRepository: UserRepository, protected notificationRepository: NotificationRepository) {}
+    async execute(postData: PostData, userId: number): Promise<Post> {
+        const post = await new CreatePost(this.postRepository).execute(postData, userId);
+        // Las menciones de los borradores y programados se avisan al publicarlos
+        if (isPublished(post)) {
+            await new NotifyMentions(this.userRepository, this.notificationRepository).execute(post.content, userId, post.id, null);
+        }
+        return post;
+    }
+}
+
+export class ChangePostStatusAndNotify {
+    constructor(protected postRepository: PostRepository, protected userRepository: UserRepository, protected notificationRepository: NotificationRepository) {}
+    async execute(id: number, publication: PostPublication, actor: Actor): Promise<Post> {
+        const before = await new ReadPostById(this.postRepository).execute(id);
+        const post = await new ChangePostStatus(this.postRepository).execute(id, publication, actor);
+        if (before && !isPublished(before) && isPublished(post)) {
+            await new NotifyMentions(this.userRepository, this.notificationRepository).execute(post.content, post.authorId, post.id, null);
+        }
+        return post;
+    }
+}
+
+// Edición y cambio de estado en la misma petición: el estado se comprueba antes de guardar la edición, así un estado
+// o una fecha de publicación no válidos no dejan el post a medio actualizar
+export class EditPostAndChangeStatus {
+    constructor(
+        protected postRepository: PostRepository,
+        protected postRevisionRepository: PostRevisionRepository,
+        protected userRepository: UserRepository,
+        protected notificationRepository: NotificationRepository,
+    ) {}
+    async execute(id: number, postData: Pick<PostUpdateData, 'title' | 'content' | 'tags'>, publication: PostPublication | null, actor: Actor): Promise<Post> {
+        if (publication) {
+            const before = await new ReadPostById(this.postRepository).execute(id);
+            if (!before) throw new FindDbError('Post not found in usecase', 'POST_NOT_FOUND');
+            authorize(canModify(actor, before.authorId), 'user not authorized to edit post');
+            publicationChange(before, publication, new Date());
+        }
+        const post = await new EditPost(this.postRepository, this.postRevisionRepository).execute(id, postData, actor);
+        if (!publication) return post;
+        return new ChangePostStatusAndNotify(this.postRepository, this.userRepository, this.notificationRepository).execute(post.id, publication, actor);
+    }
+}
+
+export class PublishDuePostsAndNotify {
+    constructor(protected postRepository: PostRepository, protected userRepository: UserRepository, protected notificationRepository: NotificationRepository) {}
+    async execute(now: Date = new Date()): Promise<Post[]> {
+        const posts = await new PublishDuePosts(this.postRepository).execute(now);
+        const notifyMentions = new NotifyMentions(this.userRepository, this.notificationRepository);
+        for (const post of posts) {
+            await notifyMentions.execute(post.content, post.authorId, post.id, null);
+        }
+        return posts;
+    }
+}
+
+export class ToggleLikePostAndNotify {
+    constructor(protected likePostRepository: LikePostRepository, protected postRepository: PostRepository, protected notificationRepository: NotificationRepository) {}
+    async execute(postId: number, userId: number, liked?: boolean): Promise<LikePostState> {
+        const post = await new ReadPostById(this.postRepository).execute(postId);
+        // Como los comentarios: los posts eliminados, ocultos por denuncias o sin publicar no se pueden votar
+        if (!post || post.deleted || post.hidden || !isPublished(post)) {
+            throw new FindDbError('Post not found in usecase', 'POST_NOT_FOUND');
+        }
+        const { changed, ...state } = await new ToggleLikePost(this.likePostRepository).execute(postId, userId, liked);
+        if (state.liked && changed) {
+            await new NotifyUser(this.notificationRepository).execute({ userId: post.authorId, type: 'like', actorId: userId, postId, commentId: null });
+        }
+        return state;
+    }
+}
+
+export class CreateCommentAndNotify {
+    constructor(
+        protected commentRepository: CommentRepository,
+        protected postRepository: PostRepository,
+        protected userRepository: UserRepository,
+        protected notificationRepository: NotificationRepository,
+    ) {}
+    async execute(commentData: CommentData): Promise<Comment> {
+        const post = await new ReadPostById(this.postRepository).execute(commentData.postId);
+        // Como los likes: los posts eliminados, ocultos por denuncias o sin publicar no se pueden comentar
+        if (!post || post.deleted || post.hidden || !isPublished(post)) {
+            throw new FindDbError('Post not found in usecase', 'POST_NOT_FOUND');
+        }
+        const comment = await new CreateComment(this.commentRepository).execute(commentData);
+        const notify = new NotifyUser(this.notificationRepository);
+        const notified: number[] = [];
+        if (comment.parentId !== null) {
+            // CreateComment ya ha comprobado que el padre existe
+            const parent = await new ReadCommentById(this.commentRepository).execute(comment.parentId);
+            if (parent) {
+                await notify.execute({ userId: parent.authorId, type: 'reply', actorId: comment.authorId, postId: post.id, commentId: parent.id });
+                notified.push(parent.authorId);
+            }
+        }
+        if (!notified.includes(post.authorId)) {
+            await notify.execute({ userId: post.authorId, type: 'comment', actorId: comment.authorId, postId: post.id, commentId: null });
+            notified.push(post.authorId);
+        }
+        await new NotifyMentions(this.userRepository, this.notificationRepository)
+            .execute(comment.content, comment.authorId, post.id, comment.id, notified);
+        return comment;
+    }
+}
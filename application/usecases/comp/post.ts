@@ -1,19 +1,83 @@
-import { PostRepository } from "../../repositories/post";
-import { UserRepository } from "../../repositories/user";
+import { PostRepository, PostUpdateData } from "../../repositories/post";
+import { PostRevisionRepository } from "../../repositories/postrevision";
+import { Post } from "../../../domain/entities/post";
+import { PostRevision, PostRevisionDiff } from "../../../domain/entities/postrevision";
+import { mergeTags, parseHashtags } from "../../../domain/entities/tag";
+import { FindDbError } from "../../../domain/errors/main";
+import { Actor, authorize, canModify } from "../policy";
+import { diffLines, diffWords } from "../diff";
 
-abstract class UserUseCaseBase {
-    constructor(protected postRepository: PostRepository, protected userRepository: UserRepository) {}
+abstract class RevisionUseCaseBase {
+    constructor(protected postRepository: PostRepository, protected postRevisionRepository: PostRevisionRepository) {}
+
+    protected async readPost(id: number): Promise<Post> {
+        const post = await this.postRepository.readById(id);
+        if (!post) throw new FindDbError('Post not found', 'POST_NOT_FOUND');
+        return post;
+    }
+
+    // Guarda el título y el contenido actuales como una nueva versión antes de sobrescribirlos
+    protected async replaceContent(post: Post, postData: Pick<PostUpdateData, 'title' | 'content' | 'tags'>, editor: Actor): Promise<Post> {
+        const title = postData.title ?? post.title;
+        const content = postData.content !== undefined ? postData.content : post.content;
+        const contentChanged = title !== post.title || content !== post.content;
+        // Las etiquetas explícitas sustituyen a las actuales, las de los #hashtags siguen al contenido
+        const oldHashtags = parseHashtags(post.content);
+        const currentTags = post.tags ?? [];
+        const tags = mergeTags(postData.tags ?? currentTags.filter((tag) => !oldHashtags.includes(tag)), parseHashtags(content));
+        const tagsChanged = tags.length !== currentTags.length || tags.some((tag) => !currentTags.includes(tag));
+        if (!contentChanged && !tagsChanged) return post;
+        const changes: PostUpdateData = {
+            ...(contentChanged && { title, content, editedAt: new Date() }),
+            ...(tagsChanged && { tags }),
+        };
+        if (!contentChanged) return this.postRepository.update(post.id, changes);
+        return this.postRepository.updateWithRevision(post.id, changes, { title: post.title, content: post.content, editorId: editor.id });
+    }
+}
+
+// Solo el autor puede editar su post
+export class EditPost extends RevisionUseCaseBase {
+    async execute(id: number, postData: Pick<PostUpdateData, 'title' | 'content' | 'tags'>, actor: Actor): Promise<Post> {
+        const post = await this.readPost(id);
+        authorize(canModify(actor, post.authorId), 'user not authorized to edit post');
+        return this.replaceContent(post, postData, actor);
+    }
 }
-export class PostsPopularity extends UserUseCaseBase {
-    async execute(): Promise<{id: number, popularity: number}[]> {
-        const posts = await this.postRepository.readAll();
-        const users = await this.userRepository.readAll();
-        return posts.map((post) => {
-            const likes = post.likes?.length || 0;
-            const totalUsers = users.length;
-            const popularity = likes / (totalUsers-1)
-            if(popularity >= 0) return { id: post.id, popularity };
-            return { id: post.id, popularity: 0 };
-        });
+
+export class ReadPostRevisions extends RevisionUseCaseBase {
+    async execute(id: number, actor: Actor): Promise<PostRevision[]> {
+        const post = await this.readPost(id);
+        authorize(canModify(actor, post.authorId, 'post.revisions.read.any'), 'user not authorized to read post revisions');
+        return this.postRevisionRepository.readByPost(id);
+    }
+}
+
+export class DiffPostRevision extends RevisionUseCaseBase {
+    async execute(id: number, rev: number, actor: Actor): Promise<PostRevisionDiff> {
+        const post = await this.readPost(id);
+        authorize(canModify(actor, post.authorId, 'post.revisions.read.any'), 'user not authorized to read post revisions');
+        const from = await this.postRevisionRepository.readByRev(id, rev);
+        if (!from) throw new FindDbError('Post revision not found', 'POST_REVISION_NOT_FOUND');
+        const next = await this.postRevisionRepository.readByRev(id, rev + 1);
+        const to = next ?? post;
+        return {
+            postId: id,
+            rev,
+            toRev: next ? next.rev : null,
+            title: diffWords(from.title, to.title),
+            content: diffLines(from.content ?? '', to.content ?? ''),
+        };
+    }
+}
+
+// Restaurar también es una edición: la versión actual queda guardada en el historial
+export class RestorePostRevision extends RevisionUseCaseBase {
+    async execute(id: number, rev: number, actor: Actor): Promise<Post> {
+        const post = await this.readPost(id);
+        authorize(canModify(actor, post.authorId, 'post.revisions.restore.any'), 'user not authorized to restore post revisions');
+        const revision = await this.postRevisionRepository.readByRev(id, rev);
+        if (!revision) throw new FindDbError('Post revision not found', 'POST_REVISION_NOT_FOUND');
+        return this.replaceContent(post, { title: revision.title, content: revision.content }, actor);
     }
 }
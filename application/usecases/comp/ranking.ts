@@ -0,0 +1,42 @@
+import { Post } from "../../../domain/entities/post";
+import { RankingConfig, TrendingWindow } from "../../../domain/entities/ranking";
+import { PostRepository } from "../../repositories/post";
+import { RankingRepository } from "../../repositories/ranking";
+import { PostPopularity, RankPosts, ReadPostsPopularity } from "../atomic/ranking";
+
+// `likesCount` son los likes del periodo
+export type TrendingPost = Post & { score: number }
+
+// Los datos del ranking pueden venir de la caché: la visibilidad de los posts se comprueba siempre al leerlos
+const readVisible = async (postRepository: PostRepository, ids: number[]): Promise<Map<number, Post>> => {
+    if (!ids.length) return new Map();
+    const { posts } = await postRepository.readPage({ ids, onlyVisible: true, order: 'fecha-desc', limit: ids.length });
+    return new Map(posts.map((post) => [post.id, post]));
+}
+
+export class ReadTrendingPosts {
+    constructor(protected rankingRepository: RankingRepository, protected postRepository: PostRepository) {}
+    async execute(window: TrendingWindow, config: RankingConfig, limit: number, now: Date = new Date()): Promise<TrendingPost[]> {
+        const ranked = await new RankPosts(this.rankingRepository).execute(window, config, now);
+        const trending: TrendingPost[] = [];
+        // Se leen los posts de `limit` en `limit` hasta completar la lista con los que siguen visibles
+        for (let start = 0; start < ranked.length && trending.length < limit; start += limit) {
+            const batch = ranked.slice(start, start + limit);
+            const visible = await readVisible(this.postRepository, batch.map(({ id }) => id));
+            for (const { id, likes, score } of batch) {
+                const post = visible.get(id);
+                if (post && trending.length < limit) trending.push({ ...post, likesCount: likes, score });
+            }
+        }
+        return trending;
+    }
+}
+
+export class ReadVisiblePostsPopularity {
+    constructor(protected rankingRepository: RankingRepository, protected postRepository: PostRepository) {}
+    async execute(config: RankingConfig, now: Date = new Date()): Promise<PostPopularity[]> {
+        const popularity = await new ReadPostsPopularity(this.rankingRepository).execute(config, now);
+        const visible = await readVisible(this.postRepository, popularity.map(({ id }) => id));
+        return popularity.filter(({ id }) => visible.has(id));
+    }
+}
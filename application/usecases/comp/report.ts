@@ -0,0 +1,122 @@
+import { AuditLogRepository } from "../../repositories/audit";
+import { PostRepository } from "../../repositories/post";
+import { ReportRepository } from "../../repositories/report";
+import { SessionRepository } from "../../repositories/session";
+import { SuspensionRepository } from "../../repositories/suspension";
+import { UserRepository } from "../../repositories/user";
+import { ReadById as ReadPostById, UpdatePost } from "../atomic/post";
+import { ReadById as ReadUserById } from "../atomic/user";
+import { ReadReportById } from "../atomic/report";
+import { RecordAudit } from "../atomic/audit";
+import { SoftDeletePostAndAudit } from "./audit";
+import { SuspendUser, SuspensionInput } from "./user";
+import { isPublished } from "../../../domain/entities/post";
+import { Report, ReportStatus, ReportTargetType } from "../../../domain/entities/report";
+import { ConflictError, FindDbError, ValidationError } from "../../../domain/errors/main";
+import { Actor, authorize, can } from "../policy";
+
+export type ReportInput = Pick<Report, 'reason' | 'details'>
+
+// Con `actioned` se puede eliminar el post o suspender al autor en el mismo paso
+export type ReportResolution = {
+    status: Exclude<ReportStatus, 'open'>;
+    deletePost?: boolean;
+    suspendAuthor?: SuspensionInput;
+}
+
+// Un usuario solo puede tener una denuncia abierta sobre cada objetivo
+const checkNotReported = async (reportRepository: ReportRepository, reporterId: number, targetType: ReportTargetType, targetId: number) => {
+    if (await reportRepository.readOpenByReporter(reporterId, targetType, targetId)) {
+        throw new ConflictError('Already reported', 'REPORT_ALREADY_OPEN');
+    }
+}
+
+export class ReportPost {
+    constructor(protected reportRepository: ReportRepository, protected postRepository: PostRepository) {}
+    // Con `hideThreshold` denuncias abiertas el post se oculta hasta que un moderador las revise, null para no ocultarlo nunca
+    async execute(postId: number, { reason, details }: ReportInput, reporterId: number, hideThreshold: number | null): Promise<Report> {
+        const post = await new ReadPostById(this.postRepository).execute(postId);
+        if (!post || post.deleted || !isPublished(post)) {
+            throw new FindDbError('Post not found in usecase', 'POST_NOT_FOUND');
+        }
+        if (post.authorId === reporterId) {
+            throw new ValidationError('Cannot report your own post', [], 'CANNOT_REPORT_SELF');
+        }
+        await checkNotReported(this.reportRepository, reporterId, 'post', postId);
+        const report = await this.reportRepository.create({ reporterId, targetType: 'post', targetId: postId, reason, details });
+        if (hideThreshold !== null && !post.hidden && await this.reportRepository.countOpen('post', postId) >= hideThreshold) {
+            await new UpdatePost(this.postRepository).execute(postId, { hidden: true });
+        }
+        return report;
+    }
+}
+
+export class ReportUser {
+    constructor(protected reportRepository: ReportRepository, protected userRepository: UserRepository) {}
+    async execute(userId: number, { reason, details }: ReportInput, reporterId: number): Promise<Report> {
+        if (userId === reporterId) {
+            throw new ValidationError('Cannot report yourself', [], 'CANNOT_REPORT_SELF');
+        }
+        if (!(await new ReadUserById(this.userRepository).execute(userId))) {
+            throw new FindDbError('User not found in usecase', 'USER_NOT_FOUND');
+        }
+        await checkNotReported(this.reportRepository, reporterId, 'user', userId);
+        return this.reportRepository.create({ reporterId, targetType: 'user', targetId: userId, reason, details });
+    }
+}
+
+export class ResolveReport {
+    constructor(
+        protected reportRepository: ReportRepository,
+        protected postRepository: PostRepository,
+        protected userRepository: UserRepository,
+        protected sessionRepository: SessionRepository,
+        protected suspensionRepository: SuspensionRepository,
+        protected auditLogRepository: AuditLogRepository,
+    ) {}
+    // Cierra todas las denuncias abiertas del objetivo de la denuncia `id`.
+    // Las medidas se registran en la auditoría por separado (suspensión y eliminación del post)
+    async execute(id: number, resolution: ReportResolution, actor: Actor): Promise<Report> {
+        authorize(can(actor, 'report.review'), 'user not authorized to review reports');
+        const report = await new ReadReportById(this.reportRepository).execute(id);
+        if (!report) {
+            throw new FindDbError('Report not found in usecase', 'REPORT_NOT_FOUND');
+        }
+        if (report.status !== 'open') {
+            throw new ConflictError('Report already resolved', 'REPORT_ALREADY_RESOLVED');
+        }
+        const { status, deletePost, suspendAuthor } = resolution;
+        if (status === 'dismissed' && (deletePost || suspendAuthor)) {
+            throw new ValidationError('A dismissed report cannot take actions', [{ field: 'status', location: 'body', message: 'Una denuncia descartada no puede eliminar ni suspender' }], 'INVALID_REPORT_RESOLUTION');
+        }
+        if (deletePost && report.targetType !== 'post') {
+            throw new ValidationError('Only reported posts can be deleted', [{ field: 'deletePost', location: 'body', message: 'Solo se pueden eliminar posts denunciados' }], 'INVALID_REPORT_RESOLUTION');
+        }
+        const post = report.targetType === 'post' ? await new ReadPostById(this.postRepository).execute(report.targetId) : null;
+        if (report.targetType === 'post' && !post) {
+            throw new FindDbError('Post not found in usecase', 'POST_NOT_FOUND');
+        }
+        if (suspendAuthor) {
+            const authorId = post ? post.authorId : report.targetId;
+            await new SuspendUser(this.userRepository, this.sessionRepository, this.suspensionRepository, this.auditLogRepository)
+                .execute(authorId, suspendAuthor, actor);
+        }
+        if (post && deletePost && !post.deleted) {
+            await new SoftDeletePostAndAudit(this.postRepository, this.auditLogRepository).execute(post.id, actor);
+        }
+        // Revisado el post deja de estar oculto: si incumple las normas se elimina con `deletePost` y se queda oculto
+        if (post?.hidden && !deletePost) {
+            await new UpdatePost(this.postRepository).execute(post.id, { hidden: false });
+        }
+        await this.reportRepository.resolveOpen(report.targetType, report.targetId, status, actor.id);
+        const resolved = (await new ReadReportById(this.reportRepository).execute(id)) as Report;
+        await new RecordAudit(this.auditLogRepository).execute(actor, {
+            action: status === 'dismissed' ? 'report.dismiss' : 'report.action',
+            targetType: 'report',
+            targetId: id,
+            before: report,
+            after: resolved,
+        });
+        return resolved;
+    }
+}
@@ -0,0 +1,181 @@
+import { EmailVerificationRepository } from "../../repositories/emailverification";
+import { Mailer } from "../../repositories/mailer";
+import { PasswordResetRepository } from "../../repositories/passwordreset";
+import { SessionRepository } from "../../repositories/session";
+import { UserRepository, UserUpdateData } from "../../repositories/user";
+import { AuditLogRepository } from "../../repositories/audit";
+import { SuspensionRepository } from "../../repositories/suspension";
+import { ReadByEmail, ReadById, UpdateUser } from "../atomic/user";
+import { RevokeUserSessions } from "../atomic/session";
+import { RecordAudit } from "../atomic/audit";
+import { ReadActiveSuspension } from "../atomic/suspension";
+import { User } from "../../../domain/entities/user";
+import { Suspension } from "../../../domain/entities/suspension";
+import { ConflictError, FindDbError, ValidationError } from "../../../domain/errors/main";
+import { Actor, authorize, can, outranks } from "../policy";
+
+// Los tokens de reseteo y verificación llegan ya hasheados, el valor en claro solo viaja dentro del enlace del email
+
+export class RequestPasswordReset {
+    constructor(protected userRepository: UserRepository, protected passwordResetRepository: PasswordResetRepository, protected mailer: Mailer) {}
+    async execute(email: string, tokenHash: string, expiresAt: Date, resetLink: string): Promise<void> {
+        const user = await new ReadByEmail(this.userRepository).execute(email);
+        // No se indica si el email existe para no permitir enumerar cuentas
+        if (!user) return;
+        await this.passwordResetRepository.invalidateAllByUser(user.id);
+        await this.passwordResetRepository.create(user.id, tokenHash, expiresAt);
+        await this.mailer.send({
+            to: user.email,
+            subject: 'Restablecer contraseña',
+            text: `Hola ${user.name ?? ''},\n\nPara restablecer tu contraseña abre el siguiente enlace antes de ${expiresAt.toISOString()}:\n\n${resetLink}\n\nSi no lo has solicitado puedes ignorar este mensaje.`
+        });
+    }
+}
+
+export class ResetPassword {
+    constructor(protected userRepository: UserRepository, protected passwordResetRepository: PasswordResetRepository, protected sessionRepository: SessionRepository) {}
+    async execute(tokenHash: string, hashedPassword: string): Promise<void> {
+        const resetToken = await this.passwordResetRepository.readByHash(tokenHash);
+        if (!resetToken || resetToken.usedAt || resetToken.expiresAt.getTime() <= Date.now()) {
+            throw new ValidationError('Invalid or expired reset token', [], 'INVALID_RESET_TOKEN');
+        }
+        if (!(await this.passwordResetRepository.markUsed(resetToken.id))) {
+            throw new ValidationError('Invalid or expired reset token', [], 'INVALID_RESET_TOKEN');
+        }
+        await new UpdateUser(this.userRepository).execute(resetToken.userId, { password: hashedPassword });
+        // Cualquier sesión abierta con la contraseña anterior deja de ser válida
+        await new RevokeUserSessions(this.sessionRepository).execute(resetToken.userId);
+    }
+}
+
+const VERIFICATION_RESEND_LIMIT = 3
+const VERIFICATION_RESEND_WINDOW_MS = 60 * 60 * 1000
+
+export class SendEmailVerification {
+    constructor(protected emailVerificationRepository: EmailVerificationRepository, protected mailer: Mailer) {}
+    async execute(user: User, tokenHash: string, expiresAt: Date, verificationLink: string): Promise<void> {
+        await this.emailVerificationRepository.create(user.id, tokenHash, expiresAt);
+        await this.mailer.send({
+            to: user.email,
+            subject: 'Verifica tu email',
+            text: `Hola ${user.name ?? ''},\n\nPara verificar tu email abre el siguiente enlace antes de ${expiresAt.toISOString()}:\n\n${verificationLink}`
+        });
+    }
+}
+
+export class ResendEmailVerification {
+    constructor(protected userRepository: UserRepository, protected emailVerificationRepository: EmailVerificationRepository, protected mailer: Mailer) {}
+    async execute(email: string, tokenHash: string, expiresAt: Date, verificationLink: string): Promise<void> {
+        const user = await new ReadByEmail(this.userRepository).execute(email);
+        // No se indica si el email existe o ya está verificado para no permitir enumerar cuentas:
+        // el 429 lo da el límite por dirección de la ruta, que se aplica exista o no la cuenta
+        if (!user || user.emailVerified) return;
+        const since = new Date(Date.now() - VERIFICATION_RESEND_WINDOW_MS);
+        const recentTokens = await this.emailVerificationRepository.readCreatedSince(user.id, since);
+        // Tope por cuenta que sobrevive a reinicios, tampoco se indica
+        if (recentTokens.length >= VERIFICATION_RESEND_LIMIT) return;
+        await new SendEmailVerification(this.emailVerificationRepository, this.mailer).execute(user, tokenHash, expiresAt, verificationLink);
+    }
+}
+
+// Un email nuevo tiene que volver a verificarse: los enlaces enviados a la dirección anterior dejan de servir
+export class UpdateUserEmail {
+    constructor(protected userRepository: UserRepository, protected emailVerificationRepository: EmailVerificationRepository) {}
+    async execute(id: number, userData: UserUpdateData): Promise<{ user: User, emailChanged: boolean }> {
+        const existingUser = await new ReadById(this.userRepository).execute(id);
+        if (!existingUser) {
+            throw new FindDbError('User not found in usecase', 'USER_NOT_FOUND');
+        }
+        const emailChanged = userData.email !== undefined && userData.email !== existingUser.email;
+        if (emailChanged) {
+            await this.emailVerificationRepository.invalidateAllByUser(id);
+        }
+        const user = await new UpdateUser(this.userRepository).execute(id, emailChanged ? { ...userData, emailVerified: false } : userData);
+        return { user, emailChanged };
+    }
+}
+
+export class VerifyEmail {
+    constructor(protected userRepository: UserRepository, protected emailVerificationRepository: EmailVerificationRepository) {}
+    async execute(tokenHash: string): Promise<User> {
+        const verificationToken = await this.emailVerificationRepository.readByHash(tokenHash);
+        if (!verificationToken || verificationToken.usedAt || verificationToken.expiresAt.getTime() <= Date.now()) {
+            throw new ValidationError('Invalid or expired verification token', [], 'INVALID_VERIFICATION_TOKEN');
+        }
+        if (!(await this.emailVerificationRepository.markUsed(verificationToken.id))) {
+            throw new ValidationError('Invalid or expired verification token', [], 'INVALID_VERIFICATION_TOKEN');
+        }
+        return new UpdateUser(this.userRepository).execute(verificationToken.userId, { emailVerified: true });
+    }
+}
+
+// Sin `endsAt` la suspensión es permanente
+export type SuspensionInput = Pick<Suspension, 'reason' | 'endsAt'>
+
+abstract class SuspensionUseCaseBase {
+    constructor(protected userRepository: UserRepository, protected suspensionRepository: SuspensionRepository, protected auditLogRepository: AuditLogRepository) {}
+    // Solo se puede suspender a usuarios del mismo rango o inferior
+    protected async readTarget(targetId: number, actor: Actor): Promise<User> {
+        const target = await new ReadById(this.userRepository).execute(targetId);
+        if (!target) {
+            throw new FindDbError('User not found in usecase', 'USER_NOT_FOUND');
+        }
+        authorize(can(actor, 'user.ban') && outranks(actor, target.role), 'user not authorized to suspend this user');
+        return target;
+    }
+}
+
+export class SuspendUser extends SuspensionUseCaseBase {
+    constructor(
+        userRepository: UserRepository,
+        protected sessionRepository: SessionRepository,
+        suspensionRepository: SuspensionRepository,
+        auditLogRepository: AuditLogRepository,
+    ) {
+        super(userRepository, suspensionRepository, auditLogRepository);
+    }
+    async execute(targetId: number, { reason, endsAt }: SuspensionInput, actor: Actor): Promise<Suspension> {
+        if (targetId === actor.id) {
+            throw new ValidationError('Cannot suspend yourself', [], 'CANNOT_SUSPEND_SELF');
+        }
+        await this.readTarget(targetId, actor);
+        const startsAt = new Date();
+        if (endsAt && endsAt <= startsAt) {
+            throw new ValidationError('Suspension end must be in the future', [{ field: 'endsAt', location: 'body', message: 'endsAt debe ser una fecha futura' }], 'INVALID_SUSPENSION_END');
+        }
+        // Para cambiar la duración hay que levantar la suspensión vigente y crear otra
+        if (await new ReadActiveSuspension(this.suspensionRepository).execute(targetId)) {
+            throw new ConflictError('User already suspended', 'USER_ALREADY_SUSPENDED');
+        }
+        const suspension = await this.suspensionRepository.create({ userId: targetId, issuedById: actor.id, reason, startsAt, endsAt });
+        // Un usuario suspendido pierde todas sus sesiones abiertas
+        await new RevokeUserSessions(this.sessionRepository).execute(targetId);
+        await new RecordAudit(this.auditLogRepository).execute(actor, {
+            action: 'user.ban',
+            targetType: 'user',
+            targetId,
+            before: null,
+            after: suspension,
+        });
+        return suspension;
+    }
+}
+
+export class LiftSuspension extends SuspensionUseCaseBase {
+    async execute(targetId: number, actor: Actor): Promise<Suspension> {
+        await this.readTarget(targetId, actor);
+        const active = await new ReadActiveSuspension(this.suspensionRepository).execute(targetId);
+        if (!active) {
+            throw new FindDbError('User has no active suspension', 'SUSPENSION_NOT_FOUND');
+        }
+        const lifted = await this.suspensionRepository.lift(active.id, actor.id);
+        await new RecordAudit(this.auditLogRepository).execute(actor, {
+            action: 'user.unban',
+            targetType: 'user',
+            targetId,
+            before: active,
+            after: lifted,
+        });
+        return lifted;
+    }
+}
@@ -0,0 +1,59 @@
+import { DiffChunk } from "../../domain/entities/postrevision";
+
+// Por encima de este tamaño de tabla no se busca el diff mínimo, se devuelve todo borrado e insertado
+const MAX_CELLS = 4_000_000
+
+const push = (chunks: DiffChunk[], op: DiffChunk['op'], text: string) => {
+    const last = chunks[chunks.length - 1];
+    if (last?.op === op) last.text += text;
+    else if (text) chunks.push({ op, text });
+}
+
+/**
+ * Diff de dos listas de tokens por la subsecuencia común más larga.
+ * Los tokens consecutivos con la misma operación se unen en un solo fragmento.
+ */
+export const diffTokens = (a: string[], b: string[]): DiffChunk[] => {
+    const chunks: DiffChunk[] = [];
+    // Prefijo y sufijo comunes fuera de la tabla, en una edición suele ser casi todo el texto
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+    let endA = a.length, endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+    push(chunks, 'equal', a.slice(0, start).join(''));
+
+    const n = endA - start, m = endB - start;
+    if (n * m > MAX_CELLS) {
+        push(chunks, 'delete', a.slice(start, endA).join(''));
+        push(chunks, 'insert', b.slice(start, endB).join(''));
+    } else {
+        // lcs[i * (m + 1) + j] = longitud de la subsecuencia común de a[i..] y b[j..]
+        const lcs = new Uint32Array((n + 1) * (m + 1));
+        for (let i = n - 1; i >= 0; i--) {
+            for (let j = m - 1; j >= 0; j--) {
+                lcs[i * (m + 1) + j] = a[start + i] === b[start + j]
+                    ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+                    : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+            }
+        }
+        let i = 0, j = 0;
+        while (i < n || j < m) {
+            if (i < n && j < m && a[start + i] === b[start + j]) {
+                push(chunks, 'equal', a[start + i]); i++; j++;
+            } else if (j === m || (i < n && lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])) {
+                push(chunks, 'delete', a[start + i]); i++;
+            } else {
+                push(chunks, 'insert', b[start + j]); j++;
+            }
+        }
+    }
+    push(chunks, 'equal', a.slice(endA).join(''));
+    return chunks;
+}
+
+// Cada línea conserva su salto de línea para que unir los fragmentos reproduzca el texto
+export const diffLines = (a: string, b: string): DiffChunk[] =>
+    diffTokens(a.split(/(?<=\n)/), b.split(/(?<=\n)/))
+
+export const diffWords = (a: string, b: string): DiffChunk[] =>
+    diffTokens(a.split(/(\s+)/).filter(Boolean), b.split(/(\s+)/).filter(Boolean))
@@ -0,0 +1,28 @@
+import { hasPermission, isRole, Permission, ROLE_RANK } from "../../domain/entities/role";
+import { isPublished, Post } from "../../domain/entities/post";
+import { UnauthorizedError } from "../../domain/errors/main";
+
+// Usuario que ejecuta la acción (el del JWT)
+export type Actor = {
+    id: number;
+    role: string;
+    // IP de la petición, solo para el registro de auditoría
+    ip?: string;
+}
+
+export const can = (actor: Actor, permission: Permission): boolean => hasPermission(actor.role, permission)
+
+// El propietario siempre puede, el resto solo si su rol tiene el permiso `anyPermission`
+export const canModify = (actor: Actor, ownerId: number, anyPermission?: Permission): boolean =>
+    actor.id === ownerId || (anyPermission !== undefined && can(actor, anyPermission))
+
+export const outranks = (actor: Actor, targetRole: string): boolean =>
+    isRole(actor.role) && (!isRole(targetRole) || ROLE_RANK[actor.role] >= ROLE_RANK[targetRole])
+
+export const authorize = (allowed: boolean, message: string): void => {
+    if (!allowed) throw new UnauthorizedError(message)
+}
+
+// Los posts eliminados, ocultos o sin publicar solo los ven su autor y los moderadores. Sin actor, solo los visibles
+export const canSeePost = (actor: Actor | null, post: Post): boolean =>
+    (!post.deleted && !post.hidden && isPublished(post)) || (actor !== null && canModify(actor, post.authorId, 'report.review'))
@@ -0,0 +1,14 @@
+import express, { Application } from "express";
+import { setupRoutes } from "./interface/routes/main";
+import { AppDeps } from "./interface/config/deps";
+
+/**
+ * Crea la aplicación Express con los repositorios, el mailer y la configuración recibidos.
+ * No abre ningún puerto, así los tests pueden montar una aplicación por caso con su propia base de datos.
+ */
+export const createApp = (deps: AppDeps): Application => {
+  const app = express();
+  app.set('trust proxy', deps.config.trustProxy);
+  setupRoutes(app, deps);
+  return app;
+};
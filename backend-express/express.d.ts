@@ -14,4 +14,5 @@ interface CustomJwtPayload extends JwtPayload, UserJWT {}
 type UserJWT = {
     id: number;
     role: string;
+    sid: string;
 };
\ No newline at end of file
@@ -1,13 +1,12 @@
-import express from "express";
-// import swaggerUi from "swagger-ui-express";
-import { setupRoutes } from "./interface/routes/main";
-// import { swaggerDocs } from "./interface/config/swagger";
+import { createApp } from "./app";
+import { defaultDeps } from "./interface/config/deps";
+import { startPostScheduler } from "./interface/scheduler/posts";
 
 
-const app = express();
-
-setupRoutes(app);
+const deps = defaultDeps();
+const app = createApp(deps);
+startPostScheduler(deps.repositories, deps.config.postSchedulerMs);
 
 app.listen(3000, () => {
   console.log("Server is running on http://localhost:3000");
-});
\ No newline at end of file
+});
@@ -0,0 +1,170 @@
+import dotenv from "dotenv"
+import { Mailer } from "../../../application/repositories/mailer";
+import { EventBus } from "../../../application/repositories/events";
+import { FileStorage } from "../../../application/repositories/filestorage";
+import { ThumbnailGenerator } from "../../../application/repositories/thumbnail";
+import { SetEnvError } from "../../../domain/errors/main";
+import { LockoutPolicy, RateLimitPolicy } from "../../../domain/entities/ratelimit";
+import { DEFAULT_RANKING, RANKING_ALGORITHMS, RankingAlgorithm, RankingConfig } from "../../../domain/entities/ranking";
+import { FileOutboxMailer } from "../../../infrastructure/mailers/file-outbox";
+import { InMemoryEventBus } from "../../../infrastructure/events/memory-bus";
+import { LocalFileStorage } from "../../../infrastructure/storage/local-storage";
+import { SharpThumbnailGenerator } from "../../../infrastructure/images/sharp-thumbnails";
+import { createRepositories, Repositories, withEvents, withRankingCache } from "./repositories";
+
+dotenv.config()
+
+export type RateLimitName = 'loginIp' | 'loginEmail' | 'signupIp' | 'signupEmail' | 'passwordResetIp' | 'passwordResetEmail' | 'verificationEmail' | 'posts' | 'comments' | 'likes' | 'follows' | 'reports' | 'uploads'
+
+export type RateLimitConfig = {
+    // Los límites que no aparecen están desactivados
+    limits: Partial<Record<RateLimitName, RateLimitPolicy>>;
+    // Bloqueo progresivo de una cuenta (por email) tras varios logins fallidos, null para desactivarlo
+    loginLockout: LockoutPolicy | null;
+}
+
+export type AppConfig = {
+    jwtSecret: string;
+    // Frontend, para los enlaces de restablecer contraseña
+    appUrl: string;
+    // Esta API, para los enlaces de verificación de email
+    apiUrl: string;
+    // Con false los usuarios sin verificar también pueden escribir
+    emailVerificationRequired: boolean;
+    rateLimits: RateLimitConfig;
+    // Denuncias abiertas con las que un post se oculta hasta que lo revise un moderador, null para no ocultarlos
+    reportHideThreshold: number | null;
+    // Algoritmo y parámetros de GET /posts/trending y /popularity
+    ranking: RankingConfig;
+    // Tiempo que se reutilizan los datos del ranking, 0 para no guardarlos
+    rankingCacheMs: number;
+    // Cada cuánto se publican los posts programados que han llegado a su fecha, 0 para no hacerlo
+    postSchedulerMs: number;
+    // Tamaño máximo de cada imagen adjunta
+    maxUploadBytes: number;
+    // Valor de `trust proxy` de Express, necesario detrás de un proxy para limitar por la IP real del cliente
+    trustProxy: boolean | number | string;
+}
+
+// Todo lo que necesita `createApp`: los controladores no crean adaptadores por su cuenta
+export type AppDeps = {
+    repositories: Repositories;
+    mailer: Mailer;
+    // Eventos en directo de GET /events, los repositorios tienen que publicar en este mismo bus
+    events: EventBus;
+    // Ficheros adjuntos de los posts y sus miniaturas
+    fileStorage: FileStorage;
+    thumbnails: ThumbnailGenerator;
+    config: AppConfig;
+}
+
+// Variable de entorno y valor por defecto de cada límite, con el formato `<peticiones>/<segundos>` (`off` lo desactiva)
+const RATE_LIMIT_ENV: Record<RateLimitName, [string, string]> = {
+    loginIp: ['RATE_LIMIT_LOGIN_IP', '20/900'],
+    loginEmail: ['RATE_LIMIT_LOGIN_EMAIL', '10/900'],
+    signupIp: ['RATE_LIMIT_SIGNUP_IP', '5/3600'],
+    signupEmail: ['RATE_LIMIT_SIGNUP_EMAIL', '3/3600'],
+    passwordResetIp: ['RATE_LIMIT_PASSWORD_RESET_IP', '5/3600'],
+    passwordResetEmail: ['RATE_LIMIT_PASSWORD_RESET_EMAIL', '3/3600'],
+    verificationEmail: ['RATE_LIMIT_VERIFICATION_EMAIL', '3/3600'],
+    posts: ['RATE_LIMIT_POSTS', '10/60'],
+    comments: ['RATE_LIMIT_COMMENTS', '20/60'],
+    likes: ['RATE_LIMIT_LIKES', '60/60'],
+    follows: ['RATE_LIMIT_FOLLOWS', '30/60'],
+    reports: ['RATE_LIMIT_REPORTS', '10/3600'],
+    uploads: ['RATE_LIMIT_UPLOADS', '30/3600'],
+}
+// Los fallos de login se cuentan durante 24 horas
+const LOGIN_FAILURES_WINDOW_MS = 24 * 60 * 60 * 1000
+
+const parseNumbers = (name: string, value: string, parts: number): number[] | null => {
+    if (value === 'off') return null;
+    const numbers = value.split('/').map(Number);
+    if (numbers.length !== parts || numbers.some((n) => !Number.isInteger(n) || n < 0)) {
+        throw new SetEnvError(`${name} must be ${parts === 2 ? '<requests>/<seconds>' : '<failures>/<base seconds>/<max seconds>'} or off`);
+    }
+    return numbers.some((n) => n === 0) ? null : numbers;
+}
+
+export const loadRateLimits = (env: NodeJS.ProcessEnv = process.env): RateLimitConfig => {
+    const limits: RateLimitConfig['limits'] = {};
+    for (const [name, [variable, fallback]] of Object.entries(RATE_LIMIT_ENV) as [RateLimitName, [string, string]][]) {
+        const numbers = parseNumbers(variable, env[variable] ?? fallback, 2);
+        if (numbers) limits[name] = { limit: numbers[0], windowMs: numbers[1] * 1000 };
+    }
+    // `<fallos>/<segundos de bloqueo>/<segundos máximos>`: con el valor por defecto el 5º fallo bloquea 1 minuto, el 6º 2...
+    const lockout = parseNumbers('LOGIN_LOCKOUT', env.LOGIN_LOCKOUT ?? '5/60/3600', 3);
+    return {
+        limits,
+        loginLockout: lockout && { threshold: lockout[0], windowMs: LOGIN_FAILURES_WINDOW_MS, baseMs: lockout[1] * 1000, maxMs: lockout[2] * 1000 },
+    };
+}
+
+// Número de denuncias o `off` (también 0) para desactivarlo
+const parseReportHideThreshold = (value: string = '5'): number | null => {
+    if (value === 'off') return null;
+    const threshold = Number(value);
+    if (!Number.isInteger(threshold) || threshold < 0) throw new SetEnvError('REPORT_HIDE_THRESHOLD must be a number of reports or off');
+    return threshold || null;
+}
+
+const parseNumber = (name: string, value: string | undefined, fallback: number): number => {
+    if (value === undefined) return fallback;
+    const number = Number(value);
+    if (value.trim() === '' || !Number.isFinite(number) || number < 0) throw new SetEnvError(`${name} must be a non-negative number`);
+    return number;
+}
+
+export const loadRanking = (env: NodeJS.ProcessEnv = process.env): RankingConfig => {
+    const algorithm = env.RANKING_ALGORITHM ?? DEFAULT_RANKING.algorithm;
+    if (!RANKING_ALGORITHMS.includes(algorithm as RankingAlgorithm)) {
+        throw new SetEnvError(`RANKING_ALGORITHM must be ${RANKING_ALGORITHMS.join(' or ')}`);
+    }
+    return {
+        algorithm: algorithm as RankingAlgorithm,
+        gravity: parseNumber('RANKING_GRAVITY', env.RANKING_GRAVITY, DEFAULT_RANKING.gravity),
+        offsetHours: parseNumber('RANKING_OFFSET_HOURS', env.RANKING_OFFSET_HOURS, DEFAULT_RANKING.offsetHours),
+        confidence: parseNumber('RANKING_CONFIDENCE', env.RANKING_CONFIDENCE, DEFAULT_RANKING.confidence),
+    };
+}
+
+const parseTrustProxy = (value?: string): boolean | number | string => {
+    if (!value || value === 'false') return false;
+    if (value === 'true') return true;
+    return /^\d+$/.test(value) ? Number(value) : value;
+}
+
+export const loadConfig = (env: NodeJS.ProcessEnv = process.env): AppConfig => {
+    if (!env.JWT_SECRET) throw new SetEnvError("JWT_SECRET not set in environment variables");
+    return {
+        jwtSecret: env.JWT_SECRET,
+        appUrl: env.APP_URL ?? 'http://localhost:4321',
+        apiUrl: env.API_URL ?? 'http://localhost:3000',
+        emailVerificationRequired: env.EMAIL_VERIFICATION_REQUIRED !== 'false',
+        rateLimits: loadRateLimits(env),
+        reportHideThreshold: parseReportHideThreshold(env.REPORT_HIDE_THRESHOLD),
+        ranking: loadRanking(env),
+        rankingCacheMs: parseNumber('RANKING_CACHE_SECONDS', env.RANKING_CACHE_SECONDS, 60) * 1000,
+        postSchedulerMs: parseNumber('POST_SCHEDULER_SECONDS', env.POST_SCHEDULER_SECONDS, 30) * 1000,
+        maxUploadBytes: parseNumber('UPLOAD_MAX_BYTES', env.UPLOAD_MAX_BYTES, 5 * 1024 * 1024),
+        trustProxy: parseTrustProxy(env.TRUST_PROXY),
+    };
+}
+
+export const defaultDeps = (): AppDeps => {
+    // En memoria: con varias instancias cada una solo ve los eventos de sus propias peticiones
+    const events = new InMemoryEventBus();
+    const config = loadConfig();
+    const repositories = createRepositories(
+        process.env.REPOSITORY_DRIVER === 'memory' ? 'memory' : 'prisma',
+        process.env.RATE_LIMIT_STORE === 'prisma' ? 'prisma' : 'memory',
+    );
+    return {
+        repositories: withEvents(withRankingCache(repositories, config.rankingCacheMs), events),
+        mailer: new FileOutboxMailer(),
+        events,
+        fileStorage: new LocalFileStorage(),
+        thumbnails: new SharpThumbnailGenerator(),
+        config,
+    };
+}
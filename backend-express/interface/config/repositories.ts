@@ -0,0 +1,150 @@
+import { UserRepository } from "../../../application/repositories/user";
+import { PostRepository } from "../../../application/repositories/post";
+import { PostRevisionRepository } from "../../../application/repositories/postrevision";
+import { LikePostRepository } from "../../../application/repositories/likepost";
+import { CommentRepository } from "../../../application/repositories/comment";
+import { SessionRepository } from "../../../application/repositories/session";
+import { PasswordResetRepository } from "../../../application/repositories/passwordreset";
+import { EmailVerificationRepository } from "../../../application/repositories/emailverification";
+import { PostSearchRepository } from "../../../application/repositories/postsearch";
+import { RateLimitStore } from "../../../application/repositories/ratelimit";
+import { TagRepository } from "../../../application/repositories/tag";
+import { FollowRepository } from "../../../application/repositories/follow";
+import { NotificationRepository } from "../../../application/repositories/notification";
+import { AuditLogRepository } from "../../../application/repositories/audit";
+import { SuspensionRepository } from "../../../application/repositories/suspension";
+import { ReportRepository } from "../../../application/repositories/report";
+import { RankingRepository } from "../../../application/repositories/ranking";
+import { StatsRepository } from "../../../application/repositories/stats";
+import { AttachmentRepository } from "../../../application/repositories/attachment";
+import { PrismaUserRepository } from "../../../infrastructure/repositories/prisma-user";
+import { PrismaPostRepository } from "../../../infrastructure/repositories/prisma-post";
+import { PrismaPostRevisionRepository } from "../../../infrastructure/repositories/prisma-postrevision";
+import { PrismaLikePostRepository } from "../../../infrastructure/repositories/prisma-likepost";
+import { PrismaCommentRepository } from "../../../infrastructure/repositories/prisma-comment";
+import { PrismaSessionRepository } from "../../../infrastructure/repositories/prisma-session";
+import { PrismaPasswordResetRepository } from "../../../infrastructure/repositories/prisma-passwordreset";
+import { PrismaEmailVerificationRepository } from "../../../infrastructure/repositories/prisma-emailverification";
+import { PrismaPostSearchRepository } from "../../../infrastructure/repositories/prisma-postsearch";
+import { PrismaRateLimitStore } from "../../../infrastructure/repositories/prisma-ratelimit";
+import { PrismaTagRepository } from "../../../infrastructure/repositories/prisma-tag";
+import { PrismaFollowRepository } from "../../../infrastructure/repositories/prisma-follow";
+import { PrismaNotificationRepository } from "../../../infrastructure/repositories/prisma-notification";
+import { PrismaAuditLogRepository } from "../../../infrastructure/repositories/prisma-audit";
+import { PrismaSuspensionRepository } from "../../../infrastructure/repositories/prisma-suspension";
+import { PrismaReportRepository } from "../../../infrastructure/repositories/prisma-report";
+import { PrismaRankingRepository } from "../../../infrastructure/repositories/prisma-ranking";
+import { PrismaStatsRepository } from "../../../infrastructure/repositories/prisma-stats";
+import { PrismaAttachmentRepository } from "../../../infrastructure/repositories/prisma-attachment";
+import { EventBus } from "../../../application/repositories/events";
+import { PublishingLikePostRepository, PublishingPostRepository } from "../../../infrastructure/events/publishing-repositories";
+import { MemoryDb } from "../../../infrastructure/connectors/memory-db";
+import { InMemoryUserRepository } from "../../../infrastructure/repositories/memory-user";
+import { InMemoryPostRepository } from "../../../infrastructure/repositories/memory-post";
+import { InMemoryPostRevisionRepository } from "../../../infrastructure/repositories/memory-postrevision";
+import { InMemoryLikePostRepository } from "../../../infrastructure/repositories/memory-likepost";
+import { InMemoryCommentRepository } from "../../../infrastructure/repositories/memory-comment";
+import { InMemorySessionRepository } from "../../../infrastructure/repositories/memory-session";
+import { InMemoryPasswordResetRepository } from "../../../infrastructure/repositories/memory-passwordreset";
+import { InMemoryEmailVerificationRepository } from "../../../infrastructure/repositories/memory-emailverification";
+import { InMemoryPostSearchRepository } from "../../../infrastructure/repositories/memory-postsearch";
+import { InMemoryRateLimitStore } from "../../../infrastructure/repositories/memory-ratelimit";
+import { InMemoryTagRepository } from "../../../infrastructure/repositories/memory-tag";
+import { InMemoryFollowRepository } from "../../../infrastructure/repositories/memory-follow";
+import { InMemoryNotificationRepository } from "../../../infrastructure/repositories/memory-notification";
+import { InMemoryAuditLogRepository } from "../../../infrastructure/repositories/memory-audit";
+import { InMemorySuspensionRepository } from "../../../infrastructure/repositories/memory-suspension";
+import { InMemoryReportRepository } from "../../../infrastructure/repositories/memory-report";
+import { InMemoryRankingRepository } from "../../../infrastructure/repositories/memory-ranking";
+import { InMemoryStatsRepository } from "../../../infrastructure/repositories/memory-stats";
+import { InMemoryAttachmentRepository } from "../../../infrastructure/repositories/memory-attachment";
+import { CachedRankingRepository } from "../../../infrastructure/cache/cached-ranking";
+
+export type Repositories = {
+    user: UserRepository;
+    post: PostRepository;
+    postRevision: PostRevisionRepository;
+    likePost: LikePostRepository;
+    comment: CommentRepository;
+    session: SessionRepository;
+    passwordReset: PasswordResetRepository;
+    emailVerification: EmailVerificationRepository;
+    postSearch: PostSearchRepository;
+    rateLimit: RateLimitStore;
+    tag: TagRepository;
+    follow: FollowRepository;
+    notification: NotificationRepository;
+    auditLog: AuditLogRepository;
+    suspension: SuspensionRepository;
+    report: ReportRepository;
+    ranking: RankingRepository;
+    stats: StatsRepository;
+    attachment: AttachmentRepository;
+}
+
+export type RepositoryDriver = 'prisma' | 'memory'
+
+const prismaRepositories = (rateLimitStore: RepositoryDriver): Repositories => ({
+    user: new PrismaUserRepository(),
+    post: new PrismaPostRepository(),
+    postRevision: new PrismaPostRevisionRepository(),
+    likePost: new PrismaLikePostRepository(),
+    comment: new PrismaCommentRepository(),
+    session: new PrismaSessionRepository(),
+    passwordReset: new PrismaPasswordResetRepository(),
+    emailVerification: new PrismaEmailVerificationRepository(),
+    postSearch: new PrismaPostSearchRepository(),
+    // Los contadores en memoria no sobreviven a un reinicio ni se comparten entre instancias, pero no cargan la base de datos
+    rateLimit: rateLimitStore === 'prisma' ? new PrismaRateLimitStore() : new InMemoryRateLimitStore(new MemoryDb()),
+    tag: new PrismaTagRepository(),
+    follow: new PrismaFollowRepository(),
+    notification: new PrismaNotificationRepository(),
+    auditLog: new PrismaAuditLogRepository(),
+    suspension: new PrismaSuspensionRepository(),
+    report: new PrismaReportRepository(),
+    ranking: new PrismaRankingRepository(),
+    stats: new PrismaStatsRepository(),
+    attachment: new PrismaAttachmentRepository(),
+})
+
+// Todos comparten la misma MemoryDb, los datos se pierden al reiniciar el servidor
+const memoryRepositories = (db: MemoryDb = new MemoryDb()): Repositories => ({
+    user: new InMemoryUserRepository(db),
+    post: new InMemoryPostRepository(db),
+    postRevision: new InMemoryPostRevisionRepository(db),
+    likePost: new InMemoryLikePostRepository(db),
+    comment: new InMemoryCommentRepository(db),
+    session: new InMemorySessionRepository(db),
+    passwordReset: new InMemoryPasswordResetRepository(db),
+    emailVerification: new InMemoryEmailVerificationRepository(db),
+    postSearch: new InMemoryPostSearchRepository(db),
+    rateLimit: new InMemoryRateLimitStore(db),
+    tag: new InMemoryTagRepository(db),
+    follow: new InMemoryFollowRepository(db),
+    notification: new InMemoryNotificationRepository(db),
+    auditLog: new InMemoryAuditLogRepository(db),
+    suspension: new InMemorySuspensionRepository(db),
+    report: new InMemoryReportRepository(db),
+    ranking: new InMemoryRankingRepository(db),
+    stats: new InMemoryStatsRepository(db),
+    attachment: new InMemoryAttachmentRepository(db),
+})
+
+/**
+ * Adaptadores de persistencia según el driver (`REPOSITORY_DRIVER`):
+ * `prisma` (por defecto, SQLite de DATABASE_URL) o `memory` (sin base de datos, para demos).
+ * Con `prisma` los contadores del rate limiting van en memoria salvo que `rateLimitStore` (`RATE_LIMIT_STORE`) sea `prisma`.
+ */
+export const createRepositories = (driver: RepositoryDriver = 'prisma', rateLimitStore: RepositoryDriver = 'memory'): Repositories =>
+    driver === 'memory' ? memoryRepositories() : prismaRepositories(rateLimitStore)
+
+// Los cambios de posts y likes se publican en el bus para el endpoint de eventos en directo
+export const withEvents = (repositories: Repositories, events: EventBus): Repositories => ({
+    ...repositories,
+    post: new PublishingPostRepository(repositories.post, events),
+    likePost: new PublishingLikePostRepository(repositories.likePost, events),
+})
+
+// Los datos del ranking se reutilizan durante `ttlMs` en lugar de leerlos en cada petición
+export const withRankingCache = (repositories: Repositories, ttlMs: number): Repositories =>
+    ttlMs > 0 ? { ...repositories, ranking: new CachedRankingRepository(repositories.ranking, ttlMs) } : repositories
@@ -1,4 +1,6 @@
 import swaggerJSDoc from "swagger-jsdoc";
+import { bodySchemas } from "../validators/schemas";
+import { toOpenApiSchema } from "../validators/validate";
 // import path from "path";
 
 // Opciones para Swagger JSDoc
@@ -31,9 +33,11 @@ const swaggerOptions = {
                     bearerFormat: 'JWT', // Opcional, pero recomendado
                 },
             },
+            // Cuerpos de petición generados a partir de los esquemas de validación
+            schemas: Object.fromEntries(Object.entries(bodySchemas).map(([name, schema]) => [name, toOpenApiSchema(schema)])),
         },
     },
-    apis: ["./interface/routes/*.ts", "./interface/controllers/*.ts"]
+    apis: ["./interface/routes/*.ts", "./interface/controllers/*.ts", "./interface/validators/*.ts"]
 };
 
 
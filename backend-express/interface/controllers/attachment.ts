@@ -0,0 +1,218 @@
+import { NextFunction, Request, Response } from "express";
+import multer from "multer";
+import { AppDeps } from "../config/deps";
+import { UnauthenticatedError, ValidationError } from "../../../domain/errors/main";
+import { ReadVisibleFile, ReadVisiblePostAttachments, UploadAttachment } from "../../../application/usecases/comp/attachment";
+
+// Los ficheros no cambian nunca, pero su post se puede ocultar o eliminar: solo caché del navegador y durante poco tiempo
+const FILE_CACHE_CONTROL = 'private, max-age=300'
+
+const fileError = (message: string, code = 'VALIDATION_FAILED') =>
+    new ValidationError(message, [{ field: 'file', location: 'body', message }], code)
+
+/**
+ * Middleware que lee en memoria el fichero del campo `file` de un formulario multipart (`req.file`).
+ * Corta la subida en cuanto pasa de `maxUploadBytes`, sin esperar a recibirla entera.
+ */
+export const uploadFile = ({ config }: AppDeps) => {
+    const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: config.maxUploadBytes, files: 1 } }).single('file');
+    return (req: Request, res: Response, next: NextFunction) => upload(req, res, (error: unknown) => {
+        if (error instanceof multer.MulterError) {
+            return next(error.code === 'LIMIT_FILE_SIZE'
+                ? fileError(`El fichero no puede ocupar más de ${config.maxUploadBytes} bytes`, 'FILE_TOO_LARGE')
+                : fileError('Se espera un único fichero en el campo file'));
+        }
+        next(error);
+    });
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Attachment:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         postId:
+ *           type: integer
+ *         key:
+ *           type: string
+ *           description: Clave del fichero, se descarga en `GET /files/{key}`.
+ *         thumbnailKey:
+ *           type: string
+ *           nullable: true
+ *           description: Clave de la miniatura en WebP, null si no se ha podido generar.
+ *         filename:
+ *           type: string
+ *           description: Nombre original del fichero subido.
+ *         mimeType:
+ *           type: string
+ *           enum: [image/jpeg, image/png, image/gif, image/webp]
+ *           description: Tipo detectado a partir del contenido del fichero.
+ *         size:
+ *           type: integer
+ *           description: Tamaño en bytes.
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *       example:
+ *         id: 1
+ *         postId: 7
+ *         key: "0b7e1c52-3d4a-4f7e-9a51-2c9f0d6e8b13.jpg"
+ *         thumbnailKey: "0b7e1c52-3d4a-4f7e-9a51-2c9f0d6e8b13.thumb.webp"
+ *         filename: "playa.jpg"
+ *         mimeType: image/jpeg
+ *         size: 482113
+ *         createdAt: "2025-02-16T10:00:00.000Z"
+ */
+export class AttachmentController {
+    constructor(private readonly deps: AppDeps) {
+        this.upload = this.upload.bind(this);
+        this.readAll = this.readAll.bind(this);
+        this.file = this.file.bind(this);
+    }
+    /**
+     * @swagger
+     * /posts/{id}/attachments:
+     *   post:
+     *     summary: 🖼️ Adjuntar una imagen
+     *     description: Solo el autor del post. Se aceptan JPEG, PNG, GIF y WebP (según su contenido) hasta `UPLOAD_MAX_BYTES` (5 MB por defecto) y como mucho 10 por post. Se genera una miniatura de 320 px.
+     *     tags: [Attachments]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: path
+     *         name: id
+     *         required: true
+     *         schema:
+     *           type: integer
+     *     requestBody:
+     *       required: true
+     *       content:
+     *         multipart/form-data:
+     *           schema:
+     *             type: object
+     *             required: [file]
+     *             properties:
+     *               file:
+     *                 type: string
+     *                 format: binary
+     *     responses:
+     *       201:
+     *         description: El adjunto creado.
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Attachment'
+     *       400:
+     *         $ref: '#/components/responses/ValidationError'
+     *       401:
+     *         $ref: '#/components/responses/AuthError'
+     *       403:
+     *         $ref: '#/components/responses/BannedUserError'
+     *       404:
+     *         description: Post no encontrado o eliminado.
+     *       429:
+     *         $ref: '#/components/responses/TooManyRequests'
+     */
+    async upload(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            if (!req.user) throw new UnauthenticatedError("user not set in jwt")
+            if (!req.file) throw fileError('El fichero es obligatorio')
+            const u = new UploadAttachment(this.deps.repositories.post, this.deps.repositories.attachment, this.deps.fileStorage, this.deps.thumbnails)
+            const attachment = await u.execute(parseInt(req.params.id), {
+                body: req.file.buffer,
+                filename: req.file.originalname.slice(0, 255),
+            }, req.user, this.deps.config.maxUploadBytes)
+            res.status(201).json(attachment)
+        } catch (error) {
+            next(error)
+        }
+    }
+    /**
+     * @swagger
+     * /posts/{id}/attachments:
+     *   get:
+     *     summary: Adjuntos de un post
+     *     description: Del más antiguo al más reciente. Los de posts eliminados, ocultos, borradores o programados solo los ven su autor y los moderadores.
+     *     tags: [Attachments]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: path
+     *         name: id
+     *         required: true
+     *         schema:
+     *           type: integer
+     *     responses:
+     *       200:
+     *         description: Los adjuntos del post.
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: array
+     *               items:
+     *                 $ref: '#/components/schemas/Attachment'
+     *       400:
+     *         $ref: '#/components/responses/ValidationError'
+     *       401:
+     *         $ref: '#/components/responses/AuthError'
+     *       404:
+     *         description: Post no encontrado.
+     */
+    async readAll(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            if (!req.user) throw new UnauthenticatedError("user not set in jwt")
+            const r = new ReadVisiblePostAttachments(this.deps.repositories.post, this.deps.repositories.attachment)
+            res.status(200).json(await r.execute(parseInt(req.params.id), req.user))
+        } catch (error) {
+            next(error)
+        }
+    }
+    /**
+     * @swagger
+     * /files/{key}:
+     *   get:
+     *     summary: Descargar un fichero
+     *     description: Imagen adjunta o miniatura. Sin autenticación para poder usarla en `<img src>`; las claves no se pueden adivinar. <br/> Los ficheros de posts eliminados, ocultos, borradores o programados solo los descargan su autor y los moderadores, con el token en el encabezado o en `?access_token=`.
+     *     tags: [Attachments]
+     *     parameters:
+     *       - in: path
+     *         name: key
+     *         required: true
+     *         schema:
+     *           type: string
+     *       - in: query
+     *         name: access_token
+     *         schema:
+     *           type: string
+     *         description: JWT de acceso, alternativa a la cabecera Authorization
+     *     responses:
+     *       200:
+     *         description: El contenido del fichero.
+     *         content:
+     *           image/*:
+     *             schema:
+     *               type: string
+     *               format: binary
+     *       401:
+     *         $ref: '#/components/responses/AuthError'
+     *       404:
+     *         description: Fichero no encontrado o de un post que el usuario no puede ver.
+     */
+    async file(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const r = new ReadVisibleFile(this.deps.repositories.post, this.deps.repositories.attachment, this.deps.fileStorage)
+            const file = await r.execute(req.params.key, req.user ?? null)
+            res.status(200).set({
+                'Content-Type': file.contentType,
+                'Cache-Control': FILE_CACHE_CONTROL,
+                'X-Content-Type-Options': 'nosniff',
+            }).send(file.body)
+        } catch (error) {
+            next(error)
+        }
+    }
+}
@@ -0,0 +1,153 @@
+import { NextFunction, Request, Response } from "express";
+import { AppDeps } from "../config/deps";
+import { AuditAction, AuditTargetType } from "../../../domain/entities/audit";
+import { ReadAuditLog } from "../../../application/usecases/atomic/audit";
+
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 100
+
+const optionalInt = (value: unknown) => value ? parseInt(value as string) : undefined
+const optionalDate = (value: unknown) => value ? new Date(value as string) : undefined
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AuditLogEntry:
+ *       type: object
+ *       description: Acción de administración o moderación. Las entradas no se modifican ni se borran.
+ *       properties:
+ *         id:
+ *           type: integer
+ *         actorId:
+ *           type: integer
+ *           description: Usuario que ha realizado la acción.
+ *         action:
+ *           type: string
+ *           enum: [user.ban, user.unban, post.softDelete, post.restore, post.hardDelete, post.revisionRestore, report.dismiss, report.action]
+ *         targetType:
+ *           type: string
+ *           enum: [user, post, report]
+ *         targetId:
+ *           type: integer
+ *         before:
+ *           type: object
+ *           nullable: true
+ *           description: Estado del objetivo antes de la acción (los usuarios sin contraseña).
+ *         after:
+ *           type: object
+ *           nullable: true
+ *           description: Estado del objetivo después de la acción, null si se ha borrado.
+ *         ip:
+ *           type: string
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *       example:
+ *         id: 1
+ *         actorId: 1
+ *         action: user.ban
+ *         targetType: user
+ *         targetId: 2
+ *         before: { id: 2, email: "user@example.com", name: "User", role: "USER", banned: false, emailVerified: true }
+ *         after: { id: 2, email: "user@example.com", name: "User", role: "USER", banned: true, emailVerified: true }
+ *         ip: "203.0.113.7"
+ *         createdAt: "2025-01-12T10:00:00.000Z"
+ */
+export class AuditController {
+    constructor(private readonly deps: AppDeps) {
+        this.readAll = this.readAll.bind(this);
+    }
+    /**
+     * @swagger
+     * /admins/audit:
+     *   get:
+     *     summary: 🕵️ Registro de auditoría
+     *     description: Acciones de administración y moderación, de la más reciente a la más antigua. Requiere el permiso `audit.read` (administradores).
+     *     tags: [Audit]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: query
+     *         name: actorId
+     *         schema:
+     *           type: integer
+     *       - in: query
+     *         name: action
+     *         schema:
+     *           type: string
+     *           enum: [user.ban, user.unban, post.softDelete, post.restore, post.hardDelete, post.revisionRestore, report.dismiss, report.action]
+     *       - in: query
+     *         name: targetType
+     *         schema:
+     *           type: string
+     *           enum: [user, post, report]
+     *       - in: query
+     *         name: targetId
+     *         schema:
+     *           type: integer
+     *       - in: query
+     *         name: from
+     *         schema:
+     *           type: string
+     *           format: date-time
+     *         description: Desde esta fecha, incluida
+     *       - in: query
+     *         name: to
+     *         schema:
+     *           type: string
+     *           format: date-time
+     *         description: Hasta esta fecha, incluida
+     *       - in: query
+     *         name: limit
+     *         schema:
+     *           type: integer
+     *           default: 20
+     *           maximum: 100
+     *       - in: query
+     *         name: cursor
+     *         schema:
+     *           type: integer
+     *         description: Valor de `nextCursor` devuelto por la página anterior
+     *     responses:
+     *       200:
+     *         description: Una página del registro.
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 entries:
+     *                   type: array
+     *                   items:
+     *                     $ref: '#/components/schemas/AuditLogEntry'
+     *                 nextCursor:
+     *                   type: integer
+     *                   nullable: true
+     *       400:
+     *         $ref: '#/components/responses/ValidationError'
+     *       401:
+     *         $ref: '#/components/responses/AuthError'
+     *       403:
+     *         $ref: '#/components/responses/BannedUserError'
+     */
+    async readAll(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const limit = Math.min(Math.max(parseInt(req.query.limit as string) || DEFAULT_LIMIT, 1), MAX_LIMIT)
+            const r = new ReadAuditLog(this.deps.repositories.auditLog)
+            res.status(200).json(await r.execute({
+                actorId: optionalInt(req.query.actorId),
+                action: req.query.action as AuditAction | undefined,
+                targetType: req.query.targetType as AuditTargetType | undefined,
+                targetId: optionalInt(req.query.targetId),
+                from: optionalDate(req.query.from),
+                to: optionalDate(req.query.to),
+                limit,
+                cursor: optionalInt(req.query.cursor),
+            }))
+        } catch (error) {
+            next(error)
+        }
+    }
+}
@@ -1,58 +1,62 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
-import dotenv from "dotenv"
-import { SetEnvError, UnauthorizedError } from '../../../domain/errors/main';
+import { SuspendedUserError, UnauthenticatedError, UnauthorizedError } from '../../../domain/errors/main';
 import { CustomJwtPayload } from '../../express';
-import { userRepository } from './user';
+import { AppDeps } from '../config/deps';
+import { ReadActiveSession } from '../../../application/usecases/atomic/session';
+import { ReadActiveSuspension } from '../../../application/usecases/atomic/suspension';
+import { can } from '../../../application/usecases/policy';
+import { Permission } from '../../../domain/entities/role';
 
-dotenv.config()
-
-const secretKey = process.env.JWT_SECRET;
 /**
  * @swagger
  * components:
  *   responses:
  *     AuthError:
- *       description: Sin autorización. Token no valido o no provisto
+ *       description: Sin autorización. Token no valido, no provisto o sesión revocada
  *       content:
- *         application/json:
+ *         application/problem+json:
  *           schema:
- *             type: object
- *             properties:
- *               message:
- *                 type: string
- *                 description: Mensaje de error por no autorización. Token no valido o no provisto
- *             example:
- *               message: Sin autorización. Token no provisto
+ *             $ref: '#/components/schemas/Problem'
+ *           example:
+ *             type: /problems/unauthenticated
+ *             title: Sin autorización
+ *             status: 401
+ *             detail: "Sin autorización: Token no provisto"
+ *             instance: /posts
+ *             code: TOKEN_MISSING
  *     BannedUserError:
- *       description: Prohibido. Usuario baneado.
+ *       description: Prohibido. Usuario suspendido (con el motivo y la fecha de fin), sin permiso o con el email sin verificar.
  *       content:
- *         application/json:
+ *         application/problem+json:
  *           schema:
- *             type: object
- *             properties:
- *               message:
- *                 type: string
- *             example:
- *               message: Prohibido. Usuario baneado.
+ *             $ref: '#/components/schemas/Problem'
+ *           example:
+ *             type: /problems/forbidden
+ *             title: Prohibido
+ *             status: 403
+ *             detail: Prohibido. Usuario suspendido
+ *             instance: /posts
+ *             code: USER_SUSPENDED
+ *             suspension:
+ *               reason: Spam en los comentarios
+ *               endsAt: "2025-01-26T10:00:00.000Z"
  */
 
 /**
  * Middleware para autenticar JWT en las rutas.
- * Este middleware verifica el token en el encabezado de autorización y
- * asegura que el usuario no esté baneado.
+ * Este middleware verifica el token en el encabezado de autorización,
+ * que la sesión del token no haya sido revocada y que el usuario no tenga una suspensión vigente.
  * 
- * @param {Request} req - La solicitud HTTP.
- * @param {Response} res - La respuesta HTTP.
- * @param {NextFunction} next - La función de siguiente middleware.
+ * @param {AppDeps} deps - Repositorios y configuración de la aplicación.
  * 
- * @returns {Promise<void>}
+ * @returns {RequestHandler}
  * 
 
  * @throws {AuthError} Si el token es inválido o no provisto.
- * @throws {BannedUserError} Si el usuario está baneado.
+ * @throws {BannedUserError} Si el usuario está suspendido.
  */
-export const authenticateJWT = async(req: Request, res: Response, next: NextFunction) => {
+export const authenticateJWT = ({ repositories, config }: AppDeps) => async(req: Request, res: Response, next: NextFunction) => {
     // Mostrar información de la solicitud para depurar
     // console.log("Authorization Header:", req.headers['authorization']);
     // console.log("Request Body Before JWT Auth:", req.body);
@@ -61,39 +65,86 @@ export const authenticateJWT = async(req: Request, res: Response, next: NextFunc
     const token = req.headers['authorization']?.split(' ')[1];
 
     if (!token) {
-        console.error("No token provided");
-        return res.status(401).json({ message: 'Sin autorización: Token no provisto' });
-    }
-
-    if (!secretKey) {
-        throw new SetEnvError("JWT_SECRET not set in environment variables");
+        return next(new UnauthenticatedError('Sin autorización: Token no provisto', 'TOKEN_MISSING'));
     }
 
+    let decoded: CustomJwtPayload;
     try {
         // Verificar el token y extraer el payload
-        const decoded = jwt.verify(token, secretKey) as CustomJwtPayload;
-        // console.log("JWT Verified, user:", user);
+        decoded = jwt.verify(token, config.jwtSecret) as CustomJwtPayload;
+    } catch (err) {
+        return next(new UnauthenticatedError('Sin autorización. Token invalido', 'TOKEN_INVALID'));
+    }
 
+    try {
         // Almacenar el usuario en la solicitud
         req.user = decoded;
-        const user = await userRepository.readById(decoded.id);
-        if(!user)throw new UnauthorizedError("User not found")
-        if(user.banned){
-            res.status(403).json({ message: 'Prohibido. Usuario baneado' });
-            throw new UnauthorizedError("User is banned")
+        const session = decoded.sid ? await new ReadActiveSession(repositories.session).execute(decoded.sid) : null;
+        if(!session || session.userId !== decoded.id) throw new UnauthenticatedError("Session revoked or not found", 'SESSION_REVOKED')
+        const user = await repositories.user.readById(decoded.id);
+        if(!user)throw new UnauthenticatedError("User not found", 'TOKEN_INVALID')
+        // El rol se toma de la base de datos para que un cambio de rol tenga efecto inmediato
+        req.user = { ...decoded, role: user.role };
+        if(user.banned) {
+            // Las suspensiones caducadas ya no cuentan, no hace falta levantarlas
+            const suspension = await new ReadActiveSuspension(repositories.suspension).execute(user.id);
+            if (suspension) throw new SuspendedUserError('Prohibido. Usuario suspendido', suspension.reason, suspension.endsAt)
         }
 
         // Pasar al siguiente middleware o controlador
         next();
     } catch (err) {
-        console.error("Token verification failed:", err);
-        return res.status(401).json({ message: 'Sin autorización. Token invalido' });
+        next(err);
     }
 };
 
-export const authorizeAdmin = (req: Request, res: Response, next: NextFunction) => {
-    if (!req.user || req.user.role !== 'ADMIN') {
-        return res.status(403).json({ message: 'Prohibido: Acceso de administrador requerido' });
+/**
+ * Middleware para las rutas que abre el navegador sin poder añadir cabeceras, como `EventSource`.
+ * Si no hay encabezado de autorización toma el JWT de `?access_token=` para que lo compruebe `authenticateJWT`.
+ */
+export const tokenFromQuery = (req: Request, res: Response, next: NextFunction) => {
+    const token = req.query.access_token;
+    if (!req.headers['authorization'] && typeof token === 'string') {
+        req.headers['authorization'] = `Bearer ${token}`;
+    }
+    next();
+};
+
+/**
+ * Middleware para las rutas públicas que muestran más a un usuario autenticado, como `GET /files/:key`.
+ * Sin token sigue sin usuario; con token lo comprueba `authenticateJWT` y un token no válido se rechaza igual.
+ */
+export const authenticateOptionalJWT = (deps: AppDeps) => {
+    const authenticate = authenticateJWT(deps);
+    return (req: Request, res: Response, next: NextFunction) => req.headers['authorization'] ? authenticate(req, res, next) : next();
+};
+
+/**
+ * Middleware que exige que el rol del usuario autenticado tenga el permiso indicado.
+ * Las reglas de propiedad (autor del post, del comentario...) las resuelven los casos de uso.
+ *
+ * @param {Permission} permission - Permiso requerido, ver `ROLE_PERMISSIONS`.
+ */
+export const requirePermission = (permission: Permission) => (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user || !can(req.user, permission)) {
+        return next(new UnauthorizedError('Prohibido: Permiso requerido', 'PERMISSION_REQUIRED'));
     }
     next();
 };
+
+/**
+ * Middleware para las rutas de escritura (posts, likes y comentarios).
+ * Los usuarios sin el email verificado pueden iniciar sesión y leer,
+ * pero no crear contenido hasta que verifiquen su email.
+ * Con `config.emailVerificationRequired` a false (EMAIL_VERIFICATION_REQUIRED=false) no se comprueba.
+ */
+export const requireVerifiedEmail = ({ repositories, config }: AppDeps) => async (req: Request, res: Response, next: NextFunction) => {
+    if (!config.emailVerificationRequired) return next();
+    try {
+        const user = req.user ? await repositories.user.readById(req.user.id) : null;
+        if (!user?.emailVerified) throw new UnauthorizedError('Prohibido. Email no verificado', 'EMAIL_NOT_VERIFIED');
+        next();
+    } catch (err) {
+        next(err);
+    }
+};
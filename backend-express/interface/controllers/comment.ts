@@ -0,0 +1,303 @@
+import { NextFunction, Request, Response } from "express";
+import { AppDeps } from "../config/deps";
+import { NotFoundError, UnauthenticatedError } from "../../../domain/errors/main";
+import { Comment } from "../../../domain/entities/comment";
+import { ReadCommentById, SoftDeleteComment, UpdateComment } from "../../../application/usecases/atomic/comment";
+import { ReadVisiblePostComments } from "../../../application/usecases/comp/comment";
+import { CreateCommentAndNotify } from "../../../application/usecases/comp/notification";
+import { CommentOrder } from "../../../application/repositories/comment";
+
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 100
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Comment:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         content:
+ *           type: string
+ *         deleted:
+ *           type: boolean
+ *         authorId:
+ *           type: integer
+ *         postId:
+ *           type: integer
+ *         parentId:
+ *           type: integer
+ *           nullable: true
+ *           description: ID del comentario al que responde, `null` si es un comentario de primer nivel.
+ *         date:
+ *           type: string
+ *           format: date-time
+ *         editedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *       example:
+ *         id: 1
+ *         content: "Muy buen post"
+ *         deleted: false
+ *         authorId: 2
+ *         postId: 1
+ *         parentId: null
+ *         date: "2024-11-03T10:15:00.000Z"
+ *         editedAt: null
+ */
+export class CommentController {
+    constructor(private readonly deps: AppDeps) {
+        this.create = this.create.bind(this);
+        this.readAll = this.readAll.bind(this);
+        this.readComment = this.readComment.bind(this);
+        this.update = this.update.bind(this);
+        this.delete = this.delete.bind(this);
+    }
+/**
+ * @swagger
+ * /posts/{id}/comments:
+ *   post:
+ *     summary: 💬 Comentar un post
+ *     description: <h4>Crear un comentario en un post.</h4><br/> Si se envía `parentId` el comentario será una respuesta a ese comentario. <br/> Se notifica al autor del post (o del comentario respondido) y a los usuarios mencionados con `@[Nombre](id)`.
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         description: ID del post a comentar.
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateCommentInput'
+ *           example:
+ *             content: "Muy buen post"
+ *     responses:
+ *       201:
+ *         description: El comentario creado.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Comment'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/AuthError'
+ *       403:
+ *          $ref: '#/components/responses/BannedUserError'
+ *       404:
+ *         description: Post o comentario padre no encontrado.
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+    async create(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            if (!req.user) throw new UnauthenticatedError("user not set in jwt")
+            const postId = parseInt(req.params.id)
+            const { content, parentId } = req.body
+            const c = new CreateCommentAndNotify(this.deps.repositories.comment, this.deps.repositories.post, this.deps.repositories.user, this.deps.repositories.notification)
+            const comment = await c.execute({
+                content,
+                postId,
+                authorId: req.user.id,
+                parentId: parentId !== undefined && parentId !== null ? parseInt(parentId) : null
+            })
+            res.status(201).json(comment)
+        } catch (error) {
+            next(error)
+        }
+    }
+/**
+ * @swagger
+ * /posts/{id}/comments:
+ *   get:
+ *     summary: 💬 Comentarios de un post
+ *     description: <h4>Listar los comentarios de un post de forma paginada.</h4><br/> Por defecto devuelve los comentarios de primer nivel, si se indica `parentId` devuelve las respuestas a ese comentario. <br/> Los comentarios de un post eliminado, oculto por denuncias o sin publicar solo los ven su autor y los moderadores.
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - name: parentId
+ *         in: query
+ *         description: ID del comentario del que se quieren obtener las respuestas.
+ *         schema:
+ *           type: integer
+ *       - name: order
+ *         in: query
+ *         schema:
+ *           type: string
+ *           enum: [newest, oldest]
+ *           default: newest
+ *       - name: page
+ *         in: query
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - name: limit
+ *         in: query
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Una página de comentarios.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 comments:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Comment'
+ *                 total:
+ *                   type: integer
+ *                 page:
+ *                   type: integer
+ *                 limit:
+ *                   type: integer
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/AuthError'
+ *       403:
+ *          $ref: '#/components/responses/BannedUserError'
+ *       404:
+ *         description: Post no encontrado.
+ */
+    async readAll(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            if (!req.user) throw new UnauthenticatedError("user not set in jwt")
+            const postId = parseInt(req.params.id)
+            const order: CommentOrder = req.query.order === 'oldest' ? 'oldest' : 'newest'
+            const page = Math.max(parseInt(req.query.page as string) || 1, 1)
+            const limit = Math.min(Math.max(parseInt(req.query.limit as string) || DEFAULT_LIMIT, 1), MAX_LIMIT)
+            const parentId = req.query.parentId ? parseInt(req.query.parentId as string) : null
+            const r = new ReadVisiblePostComments(this.deps.repositories.post, this.deps.repositories.comment)
+            const comments = await r.execute({ postId, parentId, order, page, limit }, req.user)
+            res.status(200).json(comments)
+        } catch (error) {
+            next(error)
+        }
+    }
+/**
+ * @swagger
+ * /posts/{id}/comments/{commentId}:
+ *   put:
+ *     summary: 🖊️ Editar comentario
+ *     description: Solo el autor del comentario puede editarlo.
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - name: commentId
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UpdateCommentInput'
+ *     responses:
+ *       200:
+ *         description: El comentario editado.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Comment'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         description: Prohibido. No es el autor del comentario.
+ *       404:
+ *         description: Comentario no encontrado.
+ */
+    async update(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            if (!req.user) throw new UnauthenticatedError("user not set in jwt")
+            const comment = await this.readComment(req)
+            const u = new UpdateComment(this.deps.repositories.comment)
+            const updatedComment = await u.execute(comment.id, req.body.content, req.user)
+            res.status(200).json(updatedComment)
+        } catch (error) {
+            next(error)
+        }
+    }
+/**
+ * @swagger
+ * /posts/{id}/comments/{commentId}:
+ *   delete:
+ *     summary: 🗑️ Eliminar comentario
+ *     description: Elimina (soft delete) un comentario. Solo el autor del comentario o un usuario con el permiso `comment.delete.any` (moderadores y administradores) pueden eliminarlo.
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - name: commentId
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: El comentario eliminado.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Comment'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         description: Prohibido. No es el autor del comentario ni tiene el permiso `comment.delete.any`.
+ *       404:
+ *         description: Comentario no encontrado.
+ */
+    async delete(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            if (!req.user) throw new UnauthenticatedError("user not set in jwt")
+            const comment = await this.readComment(req)
+            const d = new SoftDeleteComment(this.deps.repositories.comment)
+            const deletedComment = await d.execute(comment.id, req.user)
+            res.status(200).json(deletedComment)
+        } catch (error) {
+            next(error)
+        }
+    }
+
+    // Devuelve el comentario de la ruta si existe y pertenece al post, si no lanza NotFoundError
+    private readComment = async (req: Request): Promise<Comment> => {
+        const r = new ReadCommentById(this.deps.repositories.comment)
+        const comment = await r.execute(parseInt(req.params.commentId))
+        if (!comment || comment.deleted || comment.postId !== parseInt(req.params.id)) {
+            throw new NotFoundError("Comment not found", "COMMENT_NOT_FOUND")
+        }
+        return comment
+    }
+}
\ No newline at end of file
@@ -0,0 +1,163 @@
+import { NextFunction, Request, Response } from "express";
+import { STATUS_CODES } from "http";
+import { ErrorKind, FieldError, isDomainError, SuspendedUserError } from "../../../domain/errors/main";
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Problem:
+ *       type: object
+ *       description: Error en formato RFC 7807 (`application/problem+json`).
+ *       properties:
+ *         type:
+ *           type: string
+ *           description: URI que identifica el tipo de error.
+ *         title:
+ *           type: string
+ *         status:
+ *           type: integer
+ *         detail:
+ *           type: string
+ *         instance:
+ *           type: string
+ *           description: Ruta de la petición que produjo el error.
+ *         code:
+ *           type: string
+ *           description: Código estable del error, p.ej. `POST_NOT_FOUND`.
+ *         errors:
+ *           type: array
+ *           description: Errores por campo, solo en los errores de validación.
+ *           items:
+ *             type: object
+ *             properties:
+ *               field:
+ *                 type: string
+ *               location:
+ *                 type: string
+ *               message:
+ *                 type: string
+ *         suspension:
+ *           type: object
+ *           description: Solo cuando el usuario está suspendido (`USER_SUSPENDED`).
+ *           properties:
+ *             reason:
+ *               type: string
+ *             endsAt:
+ *               type: string
+ *               format: date-time
+ *               nullable: true
+ *               description: null si la suspensión es permanente.
+ *       example:
+ *         type: /problems/not-found
+ *         title: Recurso no encontrado
+ *         status: 404
+ *         detail: Post not found in usecase
+ *         instance: /posts/99
+ *         code: POST_NOT_FOUND
+ */
+
+type Problem = {
+    type: string
+    title: string
+    status: number
+    detail: string
+    instance: string
+    code: string
+    errors?: FieldError[]
+    suspension?: { reason: string, endsAt: Date | null }
+}
+
+const PROBLEMS: Record<ErrorKind, { status: number, title: string }> = {
+    validation: { status: 400, title: 'Datos de entrada inválidos' },
+    unauthenticated: { status: 401, title: 'Sin autorización' },
+    forbidden: { status: 403, title: 'Prohibido' },
+    not_found: { status: 404, title: 'Recurso no encontrado' },
+    conflict: { status: 409, title: 'Conflicto con el estado actual del recurso' },
+    rate_limited: { status: 429, title: 'Demasiadas solicitudes' },
+    internal: { status: 500, title: 'Error interno del servidor' },
+}
+
+// Errores conocidos de Prisma: no se importa el cliente para no depender de su instancia concreta
+const PRISMA_ERRORS: Record<string, { kind: ErrorKind, code: string, detail: string }> = {
+    P2002: { kind: 'conflict', code: 'UNIQUE_CONSTRAINT', detail: 'Ya existe un recurso con esos datos' },
+    P2025: { kind: 'not_found', code: 'NOT_FOUND', detail: 'El recurso no existe' },
+}
+
+const prismaErrorCode = (error: unknown): string | undefined => {
+    if (error instanceof Error && error.name === 'PrismaClientKnownRequestError') {
+        const code = (error as Error & { code?: unknown }).code
+        return typeof code === 'string' ? code : undefined
+    }
+}
+
+// Errores 4xx de Express y de sus middlewares (p.ej. el JSON mal formado de `express.json()`), llevan `status` y `type`
+type HttpError = Error & { status?: unknown, statusCode?: unknown, type?: unknown }
+
+const HTTP_ERRORS: Record<number, { title: string, code: string }> = {
+    400: { title: 'Petición incorrecta', code: 'BAD_REQUEST' },
+    413: { title: 'Petición demasiado grande', code: 'PAYLOAD_TOO_LARGE' },
+    415: { title: 'Tipo de contenido no soportado', code: 'UNSUPPORTED_MEDIA_TYPE' },
+}
+
+const httpErrorStatus = (error: unknown): number | undefined => {
+    if (!(error instanceof Error)) return
+    const { status, statusCode } = error as HttpError
+    const code = typeof status === 'number' ? status : statusCode
+    return typeof code === 'number' && code >= 400 && code < 500 ? code : undefined
+}
+
+const problem = (kind: ErrorKind, req: Request, code: string, detail: string): Problem => ({
+    type: `/problems/${kind.replace('_', '-')}`,
+    title: PROBLEMS[kind].title,
+    status: PROBLEMS[kind].status,
+    detail,
+    instance: req.originalUrl,
+    code,
+})
+
+export const toProblem = (error: unknown, req: Request): Problem => {
+    if (isDomainError(error)) {
+        const p = problem(error.kind, req, error.code, error.message)
+        if (error.kind === 'validation' && 'fields' in error && Array.isArray(error.fields) && error.fields.length) {
+            p.errors = error.fields
+        }
+        if (error instanceof SuspendedUserError) {
+            p.suspension = { reason: error.reason, endsAt: error.endsAt }
+        }
+        return p
+    }
+    const prismaCode = prismaErrorCode(error)
+    const prismaError = prismaCode ? PRISMA_ERRORS[prismaCode] : undefined
+    if (prismaError) return problem(prismaError.kind, req, prismaError.code, prismaError.detail)
+    const status = httpErrorStatus(error)
+    if (status) {
+        if ((error as HttpError).type === 'entity.parse.failed') {
+            return problem('validation', req, 'MALFORMED_BODY', 'El cuerpo de la petición no es JSON válido')
+        }
+        const name = STATUS_CODES[status] ?? 'Client Error'
+        return {
+            type: `/problems/${name.toLowerCase().replace(/[^a-z]+/g, '-')}`,
+            title: HTTP_ERRORS[status]?.title ?? name,
+            status,
+            detail: (error as Error).message,
+            instance: req.originalUrl,
+            code: HTTP_ERRORS[status]?.code ?? name.toUpperCase().replace(/[^A-Z]+/g, '_'),
+        }
+    }
+    return problem('internal', req, 'INTERNAL_ERROR', 'Error interno del servidor')
+}
+
+/**
+ * Middleware de errores global: traduce los errores de dominio, de Prisma y los 4xx de Express a respuestas
+ * `application/problem+json`. Los controladores solo lanzan el error (o llaman a `next(error)`).
+ */
+export const errorHandler = (err: unknown, req: Request, res: Response, next: NextFunction) => {
+    const body = toProblem(err, req)
+    if (body.status >= 500) console.error(err instanceof Error ? err.stack : err)
+    if (res.headersSent) return next(err)
+    if (err instanceof Error && 'retryAfterSeconds' in err) {
+        res.set('Retry-After', String(err.retryAfterSeconds))
+    }
+    res.status(body.status).type('application/problem+json').json(body)
+}
@@ -0,0 +1,103 @@
+import { NextFunction, Request, Response } from "express";
+import { AppDeps } from "../config/deps";
+import { CustomJwtPayload } from "../../express";
+import { LiveEvent } from "../../../domain/entities/event";
+import { SubscribeEvents } from "../../../application/usecases/atomic/events";
+
+// Comentario periódico para que los proxies no cierren la conexión por inactividad
+const HEARTBEAT_MS = 25_000
+// Espera que sugiere al navegador antes de reconectar
+const RETRY_MS = 3_000
+
+const format = ({ id, type, data }: LiveEvent) =>
+    `id: ${id}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     LiveEvents:
+ *       type: string
+ *       description: |
+ *         Flujo `text/event-stream`. Cada evento tiene `id`, `event` y `data` (JSON):
+ *         - `post.created` y `post.updated`: el post, sin la lista de likes.
+ *         - `post.deleted`: `{ id, authorId, hard }`, `hard` es false en un soft delete.
+ *         - `like.created`: `{ postId, userId, likes }` con el total de likes del post.
+ *         - `stream.reset`: se han perdido eventos desde `Last-Event-ID`, hay que recargar los datos.
+ *       example: "id: 42\nevent: like.created\ndata: {\"postId\":7,\"userId\":3,\"likes\":12}\n\n"
+ */
+export class EventsController {
+    constructor(private readonly deps: AppDeps) {
+        this.stream = this.stream.bind(this);
+    }
+    /**
+     * @swagger
+     * /events:
+     *   get:
+     *     summary: 📡 Eventos en directo
+     *     description: |
+     *       Server-Sent Events con los cambios de posts y likes. Como `EventSource` no permite cabeceras,
+     *       el JWT también se acepta en `?access_token=`. Al reconectar el navegador envía `Last-Event-ID`
+     *       y se reenvían los eventos perdidos. La conexión se cierra al caducar el token.
+     *     tags: [Events]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: header
+     *         name: Last-Event-ID
+     *         schema:
+     *           type: integer
+     *         description: Último evento recibido antes de perder la conexión
+     *       - in: query
+     *         name: access_token
+     *         schema:
+     *           type: string
+     *         description: JWT de acceso, alternativa a la cabecera Authorization
+     *     responses:
+     *       200:
+     *         description: Flujo de eventos.
+     *         content:
+     *           text/event-stream:
+     *             schema:
+     *               $ref: '#/components/schemas/LiveEvents'
+     *       401:
+     *         $ref: '#/components/responses/AuthError'
+     *       403:
+     *         $ref: '#/components/responses/BannedUserError'
+     */
+    async stream(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const header = req.get('Last-Event-ID');
+            const lastEventId = header && /^\d+$/.test(header) ? parseInt(header) : undefined;
+            res.writeHead(200, {
+                'Content-Type': 'text/event-stream',
+                'Cache-Control': 'no-cache',
+                'Connection': 'keep-alive',
+                // Evita que nginx acumule los eventos en su buffer
+                'X-Accel-Buffering': 'no',
+            });
+            res.write(`retry: ${RETRY_MS}\n\n`);
+
+            const s = new SubscribeEvents(this.deps.events)
+            const { missed, unsubscribe } = s.execute((event) => res.write(format(event)), lastEventId);
+            if (missed === null) {
+                // El id vacío borra el Last-Event-ID del navegador, así la siguiente reconexión no vuelve a pedir el hueco
+                res.write('id: \nevent: stream.reset\ndata: {}\n\n');
+            } else {
+                missed.forEach((event) => res.write(format(event)));
+            }
+
+            const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+            // El cliente reconecta con un token nuevo, así no sigue recibiendo eventos una sesión revocada
+            const exp = (req.user as CustomJwtPayload | undefined)?.exp;
+            const expiry = exp ? setTimeout(() => res.end(), Math.max(exp * 1000 - Date.now(), 0)) : undefined;
+            req.on('close', () => {
+                clearInterval(heartbeat);
+                clearTimeout(expiry);
+                unsubscribe();
+            });
+        } catch (error) {
+            next(error)
+        }
+    }
+}
@@ -0,0 +1,255 @@
+import { NextFunction, Request, Response } from "express";
+import { AppDeps } from "../config/deps";
+import { UnauthenticatedError } from "../../../domain/errors/main";
+import { UnfollowUser } from "../../../application/usecases/atomic/follow";
+import { FollowUser, ReadFollowers, ReadFollowing } from "../../../application/usecases/comp/follow";
+import { FollowListQuery } from "../../../application/repositories/follow";
+
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 100
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     FollowState:
+ *       type: object
+ *       properties:
+ *         userId:
+ *           type: integer
+ *           description: Usuario seguido o dejado de seguir.
+ *         following:
+ *           type: boolean
+ *           description: Indica si el usuario que hace la petición lo sigue.
+ *         followers:
+ *           type: integer
+ *           description: Total de seguidores actuales del usuario.
+ *       example:
+ *         userId: 2
+ *         following: true
+ *         followers: 5
+ *     FollowPage:
+ *       type: object
+ *       properties:
+ *         count:
+ *           type: integer
+ *           description: Total de usuarios de la lista, no solo los de la página.
+ *         users:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               id:
+ *                 type: integer
+ *               name:
+ *                 type: string
+ *                 nullable: true
+ *               followedAt:
+ *                 type: string
+ *                 format: date-time
+ *         nextCursor:
+ *           type: integer
+ *           nullable: true
+ *           description: Cursor para pedir la siguiente página, `null` si no hay más usuarios.
+ *       example:
+ *         count: 1
+ *         users:
+ *           - id: 3
+ *             name: "John Doe"
+ *             followedAt: "2024-12-29T10:00:00.000Z"
+ *         nextCursor: null
+ */
+export class FollowController {
+    constructor(private readonly deps: AppDeps) {
+        this.follow = this.follow.bind(this);
+        this.unfollow = this.unfollow.bind(this);
+        this.followers = this.followers.bind(this);
+        this.following = this.following.bind(this);
+    }
+    /**
+     * @swagger
+     * /users/{id}/follow:
+     *   post:
+     *     summary: ➕ Seguir a un usuario
+     *     description: Sus posts aparecerán en `GET /feed` y recibirá una notificación. Si ya se le seguía simplemente se devuelve el estado actual.
+     *     tags: [Follows]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - name: id
+     *         in: path
+     *         required: true
+     *         schema:
+     *           type: integer
+     *     responses:
+     *       200:
+     *         description: Estado actual de la relación y total de seguidores del usuario.
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/FollowState'
+     *       400:
+     *         $ref: '#/components/responses/ValidationError'
+     *       401:
+     *         $ref: '#/components/responses/AuthError'
+     *       403:
+     *         $ref: '#/components/responses/BannedUserError'
+     *       404:
+     *         description: Usuario no encontrado.
+     *       429:
+     *         $ref: '#/components/responses/TooManyRequests'
+     */
+    async follow(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            if (!req.user) throw new UnauthenticatedError("user not set in jwt")
+            const f = new FollowUser(this.deps.repositories.user, this.deps.repositories.follow, this.deps.repositories.notification)
+            res.status(200).json(await f.execute(req.user.id, parseInt(req.params.id)))
+        } catch (error) {
+            next(error)
+        }
+    }
+    /**
+     * @swagger
+     * /users/{id}/follow:
+     *   delete:
+     *     summary: ➖ Dejar de seguir a un usuario
+     *     description: Si no se le seguía simplemente se devuelve el estado actual.
+     *     tags: [Follows]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - name: id
+     *         in: path
+     *         required: true
+     *         schema:
+     *           type: integer
+     *     responses:
+     *       200:
+     *         description: Estado actual de la relación y total de seguidores del usuario.
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/FollowState'
+     *       400:
+     *         $ref: '#/components/responses/ValidationError'
+     *       401:
+     *         $ref: '#/components/responses/AuthError'
+     *       403:
+     *         $ref: '#/components/responses/BannedUserError'
+     */
+    async unfollow(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            if (!req.user) throw new UnauthenticatedError("user not set in jwt")
+            const u = new UnfollowUser(this.deps.repositories.follow)
+            res.status(200).json(await u.execute(req.user.id, parseInt(req.params.id)))
+        } catch (error) {
+            next(error)
+        }
+    }
+    /**
+     * @swagger
+     * /users/{id}/followers:
+     *   get:
+     *     summary: 👥 Seguidores de un usuario
+     *     description: Del seguidor más reciente al más antiguo, con el total de seguidores.
+     *     tags: [Follows]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - name: id
+     *         in: path
+     *         required: true
+     *         schema:
+     *           type: integer
+     *       - in: query
+     *         name: limit
+     *         schema:
+     *           type: integer
+     *           default: 20
+     *           maximum: 100
+     *       - in: query
+     *         name: cursor
+     *         schema:
+     *           type: integer
+     *         description: Valor de `nextCursor` devuelto por la página anterior
+     *     responses:
+     *       200:
+     *         description: Una página de seguidores.
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/FollowPage'
+     *       400:
+     *         $ref: '#/components/responses/ValidationError'
+     *       401:
+     *         $ref: '#/components/responses/AuthError'
+     *       403:
+     *         $ref: '#/components/responses/BannedUserError'
+     *       404:
+     *         description: Usuario no encontrado.
+     */
+    async followers(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const r = new ReadFollowers(this.deps.repositories.user, this.deps.repositories.follow)
+            res.status(200).json(await r.execute(parseInt(req.params.id), this.listQuery(req)))
+        } catch (error) {
+            next(error)
+        }
+    }
+    /**
+     * @swagger
+     * /users/{id}/following:
+     *   get:
+     *     summary: 👣 Usuarios seguidos por un usuario
+     *     description: Del seguido más recientemente al más antiguo, con el total de seguidos.
+     *     tags: [Follows]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - name: id
+     *         in: path
+     *         required: true
+     *         schema:
+     *           type: integer
+     *       - in: query
+     *         name: limit
+     *         schema:
+     *           type: integer
+     *           default: 20
+     *           maximum: 100
+     *       - in: query
+     *         name: cursor
+     *         schema:
+     *           type: integer
+     *         description: Valor de `nextCursor` devuelto por la página anterior
+     *     responses:
+     *       200:
+     *         description: Una página de usuarios seguidos.
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/FollowPage'
+     *       400:
+     *         $ref: '#/components/responses/ValidationError'
+     *       401:
+     *         $ref: '#/components/responses/AuthError'
+     *       403:
+     *         $ref: '#/components/responses/BannedUserError'
+     *       404:
+     *         description: Usuario no encontrado.
+     */
+    async following(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const r = new ReadFollowing(this.deps.repositories.user, this.deps.repositories.follow)
+            res.status(200).json(await r.execute(parseInt(req.params.id), this.listQuery(req)))
+        } catch (error) {
+            next(error)
+        }
+    }
+
+    private listQuery(req: Request): FollowListQuery {
+        const limit = Math.min(Math.max(parseInt(req.query.limit as string) || DEFAULT_LIMIT, 1), MAX_LIMIT)
+        const cursor = req.query.cursor ? parseInt(req.query.cursor as string) : undefined
+        return { limit, cursor }
+    }
+}
@@ -1,8 +1,8 @@
 import { NextFunction, Request, Response } from "express";
-import { PrismaLikePostRepository } from "../../../infrastructure/repositories/prisma-likepost";
+import { AppDeps } from "../config/deps";
 import { UnauthenticatedError } from "../../../domain/errors/main";
-import { CreateLikePost } from "../../../application/usecases/atomic/likepost";
-const likePostRepository = new PrismaLikePostRepository()
+import { ToggleLikePostAndNotify } from "../../../application/usecases/comp/notification";
+import { DeleteLikePost } from "../../../application/usecases/atomic/likepost";
 
 /**
  * @swagger
@@ -21,14 +21,33 @@ const likePostRepository = new PrismaLikePostRepository()
  *         id: 1
  *         postId: 1
  *         userId: 1
+ *     LikePostState:
+ *       type: object
+ *       properties:
+ *         postId:
+ *           type: integer
+ *         liked:
+ *           type: boolean
+ *           description: Indica si el usuario que hace la petición tiene like en el post.
+ *         likes:
+ *           type: integer
+ *           description: Total de likes actuales del post.
+ *       example:
+ *         postId: 1
+ *         liked: true
+ *         likes: 3
  */ 
 export class LikePostController {
+    constructor(private readonly deps: AppDeps) {
+        this.create = this.create.bind(this);
+        this.delete = this.delete.bind(this);
+    }
 /**
      * @swagger
      * /likepost/{id}:
      *   post:
      *     summary: 💖 Like a post
-     *     description: <h4>Dar me gusta a un Post.</h4><br/> Este endpoint permite dar me gusta a un post.
+     *     description: <h4>Dar me gusta a un Post.</h4><br/> Este endpoint permite dar me gusta a un post. Si el usuario ya le había dado me gusta no se crea un nuevo like, simplemente se devuelve el estado actual.
      *     tags: [Like Posts] 
      *     security:
      *       - bearerAuth: []
@@ -41,25 +60,71 @@ export class LikePostController {
      *           type: integer
      *     responses:
      *       '201':
-     *         description: Like creado exitosamente
-     *         schema:
-     *           $ref: '#/components/schemas/LikePost'
+     *         description: Estado actual del like y total de likes del post
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/LikePostState'
+     *       400:
+     *         $ref: '#/components/responses/ValidationError'
      *       401: 
      *         $ref: '#/components/responses/AuthError'
      *       403:
      *          $ref: '#/components/responses/BannedUserError'
+     *       429:
+     *         $ref: '#/components/responses/TooManyRequests'
      */    
     async create(req:Request, res:Response, next:NextFunction) {
-        // Faltaría crear el delete y hacer un switch aquí 🧠⬇️
         const {id} = req.params
         try {
             if(!req.user)throw new UnauthenticatedError("user jwt not set at likePost Controller")
-            const c = new CreateLikePost(likePostRepository)
-            const post = await c.execute(parseInt(id),req.user.id)
-            res.status(201).json(post)
+            const t = new ToggleLikePostAndNotify(this.deps.repositories.likePost, this.deps.repositories.post, this.deps.repositories.notification)
+            const state = await t.execute(parseInt(id), req.user.id, true)
+            res.status(201).json(state)
         } catch (error) {
             next(error)
         }
     
     }
+/**
+     * @swagger
+     * /likepost/{id}:
+     *   delete:
+     *     summary: 💔 Unlike a post
+     *     description: <h4>Quitar me gusta de un Post.</h4><br/> Este endpoint permite quitar el me gusta de un post. Si el usuario no le había dado me gusta simplemente se devuelve el estado actual.
+     *     tags: [Like Posts] 
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - name: id
+     *         in: path
+     *         description: ID del post a quitar me gusta
+     *         required: true
+     *         schema:
+     *           type: integer
+     *     responses:
+     *       '200':
+     *         description: Estado actual del like y total de likes del post
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/LikePostState'
+     *       400:
+     *         $ref: '#/components/responses/ValidationError'
+     *       401: 
+     *         $ref: '#/components/responses/AuthError'
+     *       403:
+     *          $ref: '#/components/responses/BannedUserError'
+     */    
+    async delete(req:Request, res:Response, next:NextFunction) {
+        const {id} = req.params
+        try {
+            if(!req.user)throw new UnauthenticatedError("user jwt not set at likePost Controller")
+            const d = new DeleteLikePost(this.deps.repositories.likePost)
+            const state = await d.execute(parseInt(id), req.user.id)
+            res.status(200).json(state)
+        } catch (error) {
+            next(error)
+        }
+    }
 }
\ No newline at end of file
@@ -0,0 +1,201 @@
+import { NextFunction, Request, Response } from "express";
+import { AppDeps } from "../config/deps";
+import { UnauthenticatedError } from "../../../domain/errors/main";
+import { MarkAllNotificationsRead, MarkNotificationRead, ReadNotifications } from "../../../application/usecases/atomic/notification";
+
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 100
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Notification:
+ *       type: object
+ *       description: Los eventos iguales se agrupan en una notificación mientras no se lea.
+ *       properties:
+ *         id:
+ *           type: integer
+ *         type:
+ *           type: string
+ *           enum: [like, comment, reply, follow, mention]
+ *         actorId:
+ *           type: integer
+ *           description: Último usuario que ha provocado la notificación.
+ *         actorName:
+ *           type: string
+ *           nullable: true
+ *         postId:
+ *           type: integer
+ *           nullable: true
+ *         commentId:
+ *           type: integer
+ *           nullable: true
+ *           description: Comentario respondido (`reply`) o donde se ha mencionado al usuario (`mention`).
+ *         count:
+ *           type: integer
+ *           description: Número de eventos agrupados.
+ *         read:
+ *           type: boolean
+ *         message:
+ *           type: string
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *           description: Fecha del último evento agrupado.
+ *       example:
+ *         id: 1
+ *         type: like
+ *         actorId: 3
+ *         actorName: "Ana"
+ *         postId: 7
+ *         commentId: null
+ *         count: 13
+ *         read: false
+ *         message: "Ana y 12 más han dado me gusta a tu post"
+ *         createdAt: "2025-01-05T10:00:00.000Z"
+ *         updatedAt: "2025-01-05T12:30:00.000Z"
+ */
+export class NotificationController {
+    constructor(private readonly deps: AppDeps) {
+        this.readAll = this.readAll.bind(this);
+        this.markRead = this.markRead.bind(this);
+        this.markAllRead = this.markAllRead.bind(this);
+    }
+    /**
+     * @swagger
+     * /notifications:
+     *   get:
+     *     summary: 🔔 Notificaciones
+     *     description: Notificaciones del usuario autenticado, de la actualizada más recientemente a la más antigua, con el total sin leer.
+     *     tags: [Notifications]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: query
+     *         name: unread
+     *         schema:
+     *           type: boolean
+     *           default: false
+     *         description: Solo las notificaciones sin leer
+     *       - in: query
+     *         name: limit
+     *         schema:
+     *           type: integer
+     *           default: 20
+     *           maximum: 100
+     *       - in: query
+     *         name: cursor
+     *         schema:
+     *           type: integer
+     *         description: Valor de `nextCursor` devuelto por la página anterior
+     *     responses:
+     *       200:
+     *         description: Una página de notificaciones.
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 notifications:
+     *                   type: array
+     *                   items:
+     *                     $ref: '#/components/schemas/Notification'
+     *                 unreadCount:
+     *                   type: integer
+     *                 nextCursor:
+     *                   type: integer
+     *                   nullable: true
+     *       400:
+     *         $ref: '#/components/responses/ValidationError'
+     *       401:
+     *         $ref: '#/components/responses/AuthError'
+     *       403:
+     *         $ref: '#/components/responses/BannedUserError'
+     */
+    async readAll(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            if (!req.user) throw new UnauthenticatedError("user not set in jwt")
+            const limit = Math.min(Math.max(parseInt(req.query.limit as string) || DEFAULT_LIMIT, 1), MAX_LIMIT)
+            const cursor = req.query.cursor ? parseInt(req.query.cursor as string) : undefined
+            const r = new ReadNotifications(this.deps.repositories.notification)
+            res.status(200).json(await r.execute({ userId: req.user.id, unreadOnly: req.query.unread === 'true', limit, cursor }))
+        } catch (error) {
+            next(error)
+        }
+    }
+    /**
+     * @swagger
+     * /notifications/{id}/read:
+     *   post:
+     *     summary: ✔️ Marcar una notificación como leída
+     *     tags: [Notifications]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - name: id
+     *         in: path
+     *         required: true
+     *         schema:
+     *           type: integer
+     *     responses:
+     *       200:
+     *         description: La notificación leída.
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Notification'
+     *       400:
+     *         $ref: '#/components/responses/ValidationError'
+     *       401:
+     *         $ref: '#/components/responses/AuthError'
+     *       403:
+     *         $ref: '#/components/responses/BannedUserError'
+     *       404:
+     *         description: Notificación no encontrada.
+     */
+    async markRead(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            if (!req.user) throw new UnauthenticatedError("user not set in jwt")
+            const m = new MarkNotificationRead(this.deps.repositories.notification)
+            res.status(200).json(await m.execute(parseInt(req.params.id), req.user.id))
+        } catch (error) {
+            next(error)
+        }
+    }
+    /**
+     * @swagger
+     * /notifications/read-all:
+     *   post:
+     *     summary: ✅ Marcar todas las notificaciones como leídas
+     *     tags: [Notifications]
+     *     security:
+     *       - bearerAuth: []
+     *     responses:
+     *       200:
+     *         description: Número de notificaciones marcadas.
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 updated:
+     *                   type: integer
+     *       401:
+     *         $ref: '#/components/responses/AuthError'
+     *       403:
+     *         $ref: '#/components/responses/BannedUserError'
+     */
+    async markAllRead(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            if (!req.user) throw new UnauthenticatedError("user not set in jwt")
+            const m = new MarkAllNotificationsRead(this.deps.repositories.notification)
+            res.status(200).json(await m.execute(req.user.id))
+        } catch (error) {
+            next(error)
+        }
+    }
+}
@@ -0,0 +1,81 @@
+import { NextFunction, Request, Response } from "express";
+import bcrypt from 'bcryptjs';
+import { AppDeps } from "../config/deps";
+import { RequestPasswordReset, ResetPassword } from "../../../application/usecases/comp/user";
+import { hashToken, newOpaqueToken } from "./session";
+
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000
+
+export class PasswordController {
+    constructor(private readonly deps: AppDeps) {
+        this.forgot = this.forgot.bind(this);
+        this.reset = this.reset.bind(this);
+    }
+    /**
+     * @swagger
+     * /password/forgot:
+     *   post:
+     *     summary: 📧 Olvidé mi contraseña
+     *     description: <h4>Solicitar el restablecimiento de la contraseña.</h4><br/> Si el email pertenece a una cuenta se le envía un enlace de un solo uso que caduca en una hora. La respuesta es la misma exista o no la cuenta.
+     *     tags: [Autenticación]
+     *     requestBody:
+     *       required: true
+     *       content:
+     *         application/json:
+     *           schema:
+     *             $ref: '#/components/schemas/ForgotPasswordInput'
+     *           example:
+     *             email: "usuario2@prueba.com"
+     *     responses:
+     *       202:
+     *         description: Solicitud recibida
+     *       400:
+     *         $ref: '#/components/responses/ValidationError'
+     *       429:
+     *         $ref: '#/components/responses/TooManyRequests'
+     */
+    async forgot(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const { email } = req.body
+            const resetToken = newOpaqueToken(RESET_TOKEN_TTL_MS)
+            const resetLink = `${this.deps.config.appUrl}/reset-password?token=${encodeURIComponent(resetToken.token)}`
+            const { user, passwordReset } = this.deps.repositories
+            const r = new RequestPasswordReset(user, passwordReset, this.deps.mailer)
+            await r.execute(email, resetToken.tokenHash, resetToken.expiresAt, resetLink)
+            res.status(202).json({ message: 'Si el email existe recibirás un enlace para restablecer la contraseña' })
+        } catch (error) {
+            next(error)
+        }
+    }
+    /**
+     * @swagger
+     * /password/reset:
+     *   post:
+     *     summary: 🔑 Restablecer contraseña
+     *     description: <h4>Establecer una nueva contraseña con el token recibido por email.</h4><br/> El token solo puede usarse una vez. Al restablecer la contraseña se cierran todas las sesiones abiertas del usuario.
+     *     tags: [Autenticación]
+     *     requestBody:
+     *       required: true
+     *       content:
+     *         application/json:
+     *           schema:
+     *             $ref: '#/components/schemas/ResetPasswordInput'
+     *     responses:
+     *       204:
+     *         description: Contraseña restablecida
+     *       400:
+     *         description: Datos de entrada inválidos (la contraseña debe tener entre 8 y 72 caracteres) o token inválido, caducado o ya usado
+     */
+    async reset(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const { token, password } = req.body
+            const hashedPassword = await bcrypt.hash(password, 10)
+            const { user, passwordReset, session } = this.deps.repositories
+            const r = new ResetPassword(user, passwordReset, session)
+            await r.execute(hashToken(token), hashedPassword)
+            res.status(204).end()
+        } catch (error) {
+            next(error)
+        }
+    }
+}
\ No newline at end of file
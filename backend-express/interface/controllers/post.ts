@@ -1,13 +1,21 @@
 import { NextFunction, Request, Response } from "express";
-import { PrismaPostRepository } from "../../../infrastructure/repositories/prisma-post";
-import { FindDbError, InvalidUrlError, UnauthorizedError } from "../../../domain/errors/main";
-import { Post } from "../../../domain/entities/post";
-import { UserJWT } from "../../express";
-import { CreatePost, ReadAllPosts, ReadById, UpdatePost } from "../../../application/usecases/atomic/post";
-import { PostsPopularity } from "../../../application/usecases/comp/post";
-import { userRepository } from "./user";
+import { AppDeps } from "../config/deps";
+import { UnauthenticatedError, UnauthorizedError } from "../../../domain/errors/main";
+import { ReadDrafts, ReadFeed, ReadPostsPage } from "../../../application/usecases/atomic/post";
+import { PostOrder } from "../../../application/repositories/post";
+import { normalizeTag } from "../../../domain/entities/tag";
+import { ReadTrendingPosts, ReadVisiblePostsPopularity } from "../../../application/usecases/comp/ranking";
+import { TrendingWindow } from "../../../domain/entities/ranking";
+import { CreatePostAndNotify, EditPostAndChangeStatus } from "../../../application/usecases/comp/notification";
+import { SoftDeletePostAndAudit } from "../../../application/usecases/comp/audit";
+import { HardDeletePostAndFiles } from "../../../application/usecases/comp/attachment";
 
-const postRepository = new PrismaPostRepository()
+const POST_ORDERS: PostOrder[] = ['fecha-desc', 'nombre-asc', 'nombre-desc', 'popularidad-asc', 'popularidad-desc']
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 100
+const DEFAULT_TRENDING_WINDOW: TrendingWindow = '24h'
+
+const optionalDate = (value: unknown) => value ? new Date(value as string) : undefined
 
 
 /**
@@ -30,22 +38,63 @@ const postRepository = new PrismaPostRepository()
  *         deleted:
  *           type: boolean
  *           description: Indica si el post está eliminado.
+ *         hidden:
+ *           type: boolean
+ *           description: Oculto de los listados por acumular denuncias, hasta que un moderador las revise.
+ *         status:
+ *           type: string
+ *           enum: [draft, scheduled, published]
+ *           description: Los borradores y programados solo aparecen en `GET /me/drafts` de su autor.
+ *         publishAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: Fecha en la que se publicará un post programado, `null` en el resto.
+ *         date:
+ *           type: string
+ *           format: date-time
+ *           description: Fecha de publicación, la de creación mientras el post no se publica.
  *         authorId:
  *           type: integer
  *           description: El ID del autor que creó el post.
+ *         tags:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: Etiquetas del post, las indicadas en `tags` más los `#hashtags` del contenido.
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *           description: Fecha del último cambio del post, incluido eliminarlo o restablecerlo.
+ *         editedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: Fecha de la última edición del título o el contenido, `null` si el post no se ha editado.
+ *         likesCount:
+ *           type: integer
+ *           description: Número de likes del post (solo en los listados).
  */
 
 export class PostController {
-    constructor() {
+    constructor(private readonly deps: AppDeps) {
+        this.create = this.create.bind(this);
+        this.readAll = this.readAll.bind(this);
+        this.feed = this.feed.bind(this);
+        this.drafts = this.drafts.bind(this);
+        this.update = this.update.bind(this);
         this.delete = this.delete.bind(this);
-        this.hardDelete = this.hardDelete.bind(this);
-        this.softDelete = this.softDelete.bind(this);
+        this.trending = this.trending.bind(this);
+        this.popularity = this.popularity.bind(this);
     }
 /**
  * @swagger
  * /posts:
  *   post:
  *     summary: Crear un nuevo post
+ *     description: |
+ *       Los usuarios mencionados en el contenido con `@[Nombre](id)` reciben una notificación cuando el post se publica.
+ *       Sin `status` el post se publica al momento, o se programa si lleva `publishAt`. Los programados se publican solos al llegar su `publishAt`.
  *     tags: [Posts]
  *     security:
  *       - bearerAuth: []
@@ -54,26 +103,14 @@ export class PostController {
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             properties:
- *               title:
- *                 type: string
- *                 description: El título del post.
- *               content:
- *                 type: string
- *                 description: El contenido del post.
- *               authorName:
- *                 type: string
- *                 description: El nombre del autor que crea el post.
- *             required:
- *               - title
- *               - content
- *               - authorName
- *             example:
- *               title: "Titulo de Post de Prueba"
- *               content: "Este es el contenido del post de prueba del User2"
- *               authorName: "User2"
- *              
+ *             $ref: '#/components/schemas/CreatePostInput'
+ *           example:
+ *             title: "Titulo de Post de Prueba"
+ *             content: "Este es el contenido del post de prueba del User2"
+ *             authorName: "User2"
+ *             tags: ["pruebas"]
+ *             status: "scheduled"
+ *             publishAt: "2025-03-01T09:00:00.000Z"
  *     responses:
  *       201:
  *         description: El post creado.
@@ -81,22 +118,23 @@ export class PostController {
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Post'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
  *       401:
  *         $ref: '#/components/responses/AuthError'
  *       403:
  *          $ref: '#/components/responses/BannedUserError'
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
  *      
  */
     async create(req: Request, res: Response, next: NextFunction): Promise<void> {
         try {
-            const { title, content, authorName } = req.body;
-            if (!req.user) {
-                res.status(401).json({ message: 'Sin autorización: Token no provisto' });
-                throw new UnauthorizedError("user not set in jwt")
-            }
+            const { title, content, authorName, tags, status, publishAt } = req.body;
+            if (!req.user) throw new UnauthenticatedError("user not set in jwt")
             const userId = req.user.id;
-            const c = new CreatePost(postRepository)
-            const post = await c.execute({ title, content, authorName }, userId);
+            const c = new CreatePostAndNotify(this.deps.repositories.post, this.deps.repositories.user, this.deps.repositories.notification)
+            const post = await c.execute({ title, content, authorName, tags, status, publishAt: optionalDate(publishAt) }, userId);
             res.status(201).json(post);
         } catch (error) {
             next(error);
@@ -107,6 +145,7 @@ export class PostController {
  * /posts/{order}:
  *   get:
  *     summary: Recuperar todos los posts
+ *     description: Solo los posts publicados, sin borradores ni programados.
  *     tags: [Posts]
  *     security:
  *       - bearerAuth: []
@@ -115,69 +154,189 @@ export class PostController {
  *         name: order
  *         schema:
  *           type: string
- *           enum: [nombre-asc, nombre-desc, popularidad-asc, popularidad-desc]
- *         description: Tipo de búsqueda <br/> <ul><li>Si no se especifica -> Se ordenara por fecha mas reciente</li><li>`nombre-asc` -> Se ordenara por nombre de manera ascendente, por lo tanto los que tengan nombres empezados con z irán primero.</li><li>`nombre-desc` -> Se ordenara por nombre de manera descendente, por lo tanto los que tengan nombres empezados con a irán primero.</li><li>`popularidad-asc` -> Se ordenara por popularidad de manera ascendente, por lo tanto los que tengan menos likes irán primero.</li><li>`popularidad-desc` -> Se ordenara por popularidad de manera descendente, por lo tanto los que tengan mas likes irán primero.</li></ul>
+ *           enum: [fecha-desc, nombre-asc, nombre-desc, popularidad-asc, popularidad-desc]
+ *         description: Tipo de búsqueda <br/> <ul><li>`fecha-desc` o cualquier otro valor -> Se ordenara por fecha mas reciente</li><li>`nombre-asc` -> Se ordenara por nombre de manera ascendente, por lo tanto los que tengan nombres empezados con z irán primero.</li><li>`nombre-desc` -> Se ordenara por nombre de manera descendente, por lo tanto los que tengan nombres empezados con a irán primero.</li><li>`popularidad-asc` -> Se ordenara por popularidad de manera ascendente, por lo tanto los que tengan menos likes irán primero.</li><li>`popularidad-desc` -> Se ordenara por popularidad de manera descendente, por lo tanto los que tengan mas likes irán primero.</li></ul>
  *       - in: query
  *         name: q
  *         schema:
  *           type: string
  *         description: Parámetro de búsqueda en los títulos y contenido de los posts
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *         description: Número máximo de posts por página
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: integer
+ *         description: Valor de `nextCursor` devuelto por la página anterior
+ *       - in: query
+ *         name: tag
+ *         schema:
+ *           type: string
+ *         description: Etiquetas separadas por comas (o el parámetro repetido), solo se devuelven posts con esas etiquetas
+ *       - in: query
+ *         name: tagMatch
+ *         schema:
+ *           type: string
+ *           enum: [any, all]
+ *           default: any
+ *         description: "`any` -> posts con alguna de las etiquetas, `all` -> posts con todas"
  *     responses:
  *       200:
- *         description: Una lista de posts.
+ *         description: Una página de posts.
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 $ref: '#/components/schemas/Post'
+ *               type: object
+ *               properties:
+ *                 posts:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Post'
+ *                 nextCursor:
+ *                   type: integer
+ *                   nullable: true
+ *                   description: Cursor para pedir la siguiente página, `null` si no hay más posts.
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
  */
-// TODO: Añadir ordenación por fecha, ordenación por name asc y desc, ordenación por popularidad asc y desc, y search param por title y content.
     async readAll(req: Request, res: Response, next: NextFunction): Promise<void> {
         try {
             const { order } = req.params;
-            const searchQuery = req.query.q as string | undefined;
-            const ra = new ReadAllPosts(postRepository)
-            let posts = await ra.execute();
-
-            // Filtrar posts si hay una consulta de búsqueda
-            if (searchQuery) {
-                posts = posts.filter(post => 
-                    post.title.toLowerCase().includes(searchQuery.toLowerCase()) || 
-                    post.content?.toLowerCase().includes(searchQuery.toLowerCase())
-                );
-            }
-
-            // Ordenar posts
-            switch (order) {
-                case 'nombre-asc':
-                    posts = posts.sort((a, b) => a.title.localeCompare(b.title));
-                    break;
-                case 'nombre-desc':
-                    posts = posts.sort((a, b) => b.title.localeCompare(a.title));
-                    break;
-                case 'popularidad-asc':
-                case 'popularidad-desc':
-                    const pp = new PostsPopularity(postRepository, userRepository)
-                    const postsPopularity = await pp.execute()
-                    posts = posts.sort((a, b) => {
-                        const popularityA = postsPopularity.find(p => p.id === a.id)?.popularity || 0;
-                        const popularityB = postsPopularity.find(p => p.id === b.id)?.popularity || 0;
-                        return order === 'popularidad-asc' 
-                            ? popularityA - popularityB 
-                            : popularityB - popularityA;
-                    });
-                    break;
-                default:
-                    // Ordenar por fecha más reciente
-                    posts = posts.sort((a, b) => b.date.getTime() - a.date.getTime());
-            }
-
-            res.status(200).json(posts);
+            const search = (req.query.q as string | undefined)?.trim() || undefined;
+            const limit = Math.min(Math.max(parseInt(req.query.limit as string) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+            const cursor = req.query.cursor ? parseInt(req.query.cursor as string) : undefined;
+            const tags = [req.query.tag ?? []].flat().flatMap((tag) => String(tag).split(',')).map(normalizeTag).filter(Boolean);
+            const tagMatch = req.query.tagMatch === 'all' ? 'all' : 'any';
+            const ra = new ReadPostsPage(this.deps.repositories.post)
+            const page = await ra.execute({
+                order: POST_ORDERS.includes(order as PostOrder) ? order as PostOrder : 'fecha-desc',
+                search,
+                ...(tags.length && { tags, tagMatch }),
+                limit,
+                cursor,
+            });
+            res.status(200).json(page);
         } catch (error) {
             next(error);
         }
     } 
+    /**
+ * @swagger
+ * /feed:
+ *   get:
+ *     summary: Feed personal
+ *     description: Posts de los usuarios que sigue el usuario autenticado, del más reciente al más antiguo. No incluye posts eliminados ni de autores baneados.
+ *     tags: [Follows]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *         description: Número máximo de posts por página
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: integer
+ *         description: Valor de `nextCursor` devuelto por la página anterior
+ *     responses:
+ *       200:
+ *         description: Una página del feed.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 posts:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Post'
+ *                 nextCursor:
+ *                   type: integer
+ *                   nullable: true
+ *                   description: Cursor para pedir la siguiente página, `null` si no hay más posts.
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/AuthError'
+ *       403:
+ *         $ref: '#/components/responses/BannedUserError'
+ */
+    async feed(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            if (!req.user) throw new UnauthenticatedError("user not set in jwt")
+            const limit = Math.min(Math.max(parseInt(req.query.limit as string) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+            const cursor = req.query.cursor ? parseInt(req.query.cursor as string) : undefined;
+            const f = new ReadFeed(this.deps.repositories.post)
+            res.status(200).json(await f.execute(req.user.id, limit, cursor));
+        } catch (error) {
+            next(error);
+        }
+    }
+    /**
+ * @swagger
+ * /me/drafts:
+ *   get:
+ *     summary: Mis borradores
+ *     description: Borradores y posts programados del usuario autenticado, del más reciente al más antiguo.
+ *     tags: [Posts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *         description: Número máximo de posts por página
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: integer
+ *         description: Valor de `nextCursor` devuelto por la página anterior
+ *     responses:
+ *       200:
+ *         description: Una página de borradores y programados.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 posts:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Post'
+ *                 nextCursor:
+ *                   type: integer
+ *                   nullable: true
+ *                   description: Cursor para pedir la siguiente página, `null` si no hay más posts.
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/AuthError'
+ *       403:
+ *         $ref: '#/components/responses/BannedUserError'
+ */
+    async drafts(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            if (!req.user) throw new UnauthenticatedError("user not set in jwt")
+            const limit = Math.min(Math.max(parseInt(req.query.limit as string) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+            const cursor = req.query.cursor ? parseInt(req.query.cursor as string) : undefined;
+            const d = new ReadDrafts(this.deps.repositories.post)
+            res.status(200).json(await d.execute(req.user.id, limit, cursor));
+        } catch (error) {
+            next(error);
+        }
+    }
 
 // TODO: Añadir endpoint con la popularidad de cada post. y/o pp de todos los posts
     /**
@@ -185,6 +344,7 @@ export class PostController {
  * /posts/{id}:
  *   put:
  *     summary: Actualizar un post
+ *     description: Solo el autor puede editar su post. El título y el contenido anteriores se guardan en el historial de versiones. <br/> `tags` sustituye las etiquetas del post; sin `tags` se mantienen, salvo las de los `#hashtags` que se quiten del contenido. <br/> Con `status` o `publishAt` un borrador o programado se publica, se programa o vuelve a borrador; un post publicado ya no cambia de estado.
  *     tags: [Posts]
  *     security:
  *       - bearerAuth: []
@@ -200,22 +360,10 @@ export class PostController {
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             properties:
- *               title:
- *                 type: string
- *                 description: El título actualizado del post.
- *               content:
- *                 type: string
- *                 description: El contenido actualizado del post.
- *               userId:
- *                 type: integer
- *                 description: El ID del usuario que realiza la actualización.
- *             required:
- *               - userId
- *             example:
- *               content: "Este es el contenido del post de prueba del User2 updated"
- *               userId: 2
+ *             $ref: '#/components/schemas/UpdatePostInput'
+ *           example:
+ *             content: "Este es el contenido del post de prueba del User2 updated"
+ *             userId: 2
  *     responses:
  *       200:
  *         description: El post actualizado.
@@ -223,19 +371,26 @@ export class PostController {
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Post'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
  *       401:
  *         description: No autorizado.
+ *       403:
+ *         description: El post no es del usuario.
+ *       404:
+ *         description: Post no encontrado.
+ *       409:
+ *         description: El post ya está publicado y no puede volver a borrador ni programarse.
  */
     async update(req: Request, res: Response, next: NextFunction): Promise<void>{
         try {
             const { id } = req.params;
-            const { title, content, userId } = req.body;
-            if (!req.user || req.user.id !== parseInt(userId)) {
-                res.status(401).json({ message: 'Unauthorized' });
-                throw new UnauthorizedError(`user jwt ${!req.user ? "not set" : "invalid"}`)
-            }
-            const u = new UpdatePost(postRepository)
-            const post = await u.execute(parseInt(id), { title, content });
+            const { title, content, tags, status, publishAt, userId } = req.body;
+            if (!req.user) throw new UnauthenticatedError("user not set in jwt")
+            if (req.user.id !== parseInt(userId)) throw new UnauthorizedError("user jwt invalid")
+            const publication = status !== undefined || publishAt !== undefined ? { status, publishAt: optionalDate(publishAt) } : null;
+            const e = new EditPostAndChangeStatus(this.deps.repositories.post, this.deps.repositories.postRevision, this.deps.repositories.user, this.deps.repositories.notification)
+            const post = await e.execute(parseInt(id), { title, content, tags }, publication, req.user);
             res.status(200).json(post);
         } catch (error) {
             next(error);
@@ -247,7 +402,7 @@ export class PostController {
  * /posts/{id}:
  *   delete:
  *     summary: Eliminar/restablecer un post
- *     description: Elimina o restablece un post, según su estado actual. Si se utiliza la version "soft", permite recuperar un Post eliminado, si se utiliza "hard" este no se podrá recuperar.
+ *     description: Elimina o restablece un post, según su estado actual. Si se utiliza la version "soft", permite recuperar un Post eliminado, si se utiliza "hard" este no se podrá recuperar y se borran también los ficheros de sus adjuntos. <br/> "soft" lo puede usar el autor del post o un usuario con el permiso `post.delete.any` (moderadores y administradores), "hard" solo un usuario con el permiso `post.hardDelete` (administradores).
  *     tags: [Posts]
  *     security:
  *       - bearerAuth: []
@@ -276,61 +431,92 @@ export class PostController {
  *         description: Post no encontrado.
  *       401:
  *         description: No autorizado.
+ *       403:
+ *         description: Prohibido. Sin permiso para este tipo de eliminación.
  *       400:
- *         description: Tipo de eliminación inválido.
+ *         $ref: '#/components/responses/ValidationError'
  */
     async delete(req: Request, res: Response, next: NextFunction): Promise<void>{
         try {
-            const { id } = req.params;
-            const r = new ReadById(postRepository)
-            const post = await r.execute(parseInt(id))
-            if(!post){
-                res.status(404).json({message: "Post not found"})
-                throw new FindDbError("Post")
-            }
-            if(!req.user ){
-                res.status(401).json({message: "Unauthorized"})
-                throw new UnauthorizedError(`user jwt not set`)
-            }
-            const deleteType = req.query.type;
-            if(deleteType === "hard"){
-                this.hardDelete( parseInt(id),req.user,  res)
-            } else if(deleteType === "soft") {
-                this.softDelete(post, parseInt(id),req.user,  res)
+            const id = parseInt(req.params.id);
+            if (!req.user) throw new UnauthenticatedError("user not set in jwt")
+            // El tipo ya viene validado (soft o hard)
+            if(req.query.type === "hard"){
+                const h = new HardDeletePostAndFiles(this.deps.repositories.post, this.deps.repositories.auditLog, this.deps.repositories.attachment, this.deps.fileStorage)
+                res.status(200).json(await h.execute(id, { ...req.user, ip: req.ip }));
             } else {
-                res.status(400).json({message: "Invalid delete type"})
+                const s = new SoftDeletePostAndAudit(this.deps.repositories.post, this.deps.repositories.auditLog)
+                res.status(200).json(await s.execute(id, { ...req.user, ip: req.ip }));
             }
-
         } catch (error) {
             next(error);
         }
     }
-    private hardDelete = async (id: number, user: UserJWT, res: Response): Promise<void> => {
-        if (user.role === "ADMIN") {
-            const deletedPost = await postRepository.delete(id);
-            res.status(200).json(deletedPost);
-        } else {
-            res.status(403).json({ message: "Forbidden" });
-            throw new UnauthorizedError("user not authorized for hardDelete");
-        }
-    };
-    
-    private softDelete = async (post: Post, id: number, user: UserJWT, res: Response): Promise<void> => {
-    
-        if (user.id === post.authorId || user.role === "ADMIN") {
-            const deletedPost = await postRepository.update(id, { deleted: !post.deleted });
-            res.status(200).json(deletedPost);
-        } else {
-            res.status(403).json({ message: "Forbidden" });
-            throw new UnauthorizedError("user not authorized for softDelete");
+    /**
+     * @swagger
+     * /posts/trending:
+     *   get:
+     *     summary: 🔥 Posts en tendencia
+     *     description: |
+     *       Posts con likes en el periodo, de mayor a menor puntuación. Solo posts visibles.
+     *       Con el algoritmo `decay` (por defecto) cada like suma `1 / (horas desde el like + 2) ^ 1.8`, así los likes recientes pesan más.
+     *       Con `wilson` se usa el límite inferior del intervalo de Wilson de la proporción de usuarios que le han dado like.
+     *       El algoritmo y sus parámetros se configuran con `RANKING_ALGORITHM`, `RANKING_GRAVITY` y `RANKING_OFFSET_HOURS`, y los datos se reutilizan durante `RANKING_CACHE_SECONDS` (60 por defecto).
+     *     tags: [Posts]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: query
+     *         name: window
+     *         schema:
+     *           type: string
+     *           enum: [24h, 7d, all]
+     *           default: 24h
+     *         description: Antigüedad máxima de los likes que cuentan
+     *       - in: query
+     *         name: limit
+     *         schema:
+     *           type: integer
+     *           default: 20
+     *           maximum: 100
+     *     responses:
+     *       200:
+     *         description: Posts con su puntuación, `likesCount` son los likes del periodo.
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: array
+     *               items:
+     *                 allOf:
+     *                   - $ref: '#/components/schemas/Post'
+     *                   - type: object
+     *                     properties:
+     *                       score:
+     *                         type: number
+     *       400:
+     *         $ref: '#/components/responses/ValidationError'
+     *       401:
+     *         $ref: '#/components/responses/AuthError'
+     *       403:
+     *         $ref: '#/components/responses/BannedUserError'
+     */
+    async trending(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            // Ya validados por readTrendingPostsSchema
+            const window = (req.query.window as TrendingWindow | undefined) ?? DEFAULT_TRENDING_WINDOW
+            const limit = req.query.limit ? parseInt(req.query.limit as string) : DEFAULT_LIMIT
+            const t = new ReadTrendingPosts(this.deps.repositories.ranking, this.deps.repositories.post)
+            res.status(200).json(await t.execute(window, this.deps.config.ranking, limit))
+        } catch (error) {
+            next(error);
         }
-    };
+    }
     /**
  * @swagger
  * /popularity:
  *   get:
  *     summary: Popularidad de los posts
- *     description: Este endpoint permite ver la popularidad de los posts. Esta corresponde a la suma de likes dividido entre el total de usuarios - 1.
+ *     description: Likes de cada post visible y su puntuación con decaimiento temporal, la misma que usa `GET /posts/trending` con el algoritmo `decay` y el periodo `all`.
  *     tags: [Posts]
  *     security:
  *       - bearerAuth: []
@@ -346,8 +532,12 @@ export class PostController {
  *                 properties:
  *                   id:
  *                     type: integer
- *                   popularity:
+ *                   likes:
+ *                     type: integer
+ *                     description: Total de likes.
+ *                   score:
  *                     type: number
+ *                     description: Puntuación con decaimiento, baja a medida que los likes envejecen.
  *       401: 
  *         $ref: '#/components/responses/AuthError'
  *       403:
@@ -355,8 +545,12 @@ export class PostController {
  */
 
     async popularity(req: Request, res: Response, next: NextFunction): Promise<void> {
-        const pp = new PostsPopularity(postRepository, userRepository)
-        const popularity = await pp.execute()
-        res.status(200).json(popularity)
+        try {
+            const pp = new ReadVisiblePostsPopularity(this.deps.repositories.ranking, this.deps.repositories.post)
+            const popularity = await pp.execute(this.deps.config.ranking)
+            res.status(200).json(popularity)
+        } catch (error) {
+            next(error);
+        }
     }
 }
@@ -0,0 +1,215 @@
+import { NextFunction, Request, Response } from "express";
+import { AppDeps } from "../config/deps";
+import { UnauthenticatedError } from "../../../domain/errors/main";
+import { DiffPostRevision, ReadPostRevisions } from "../../../application/usecases/comp/post";
+import { RestorePostRevisionAndAudit } from "../../../application/usecases/comp/audit";
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     PostRevision:
+ *       type: object
+ *       description: Título y contenido que tenía el post antes de una edición.
+ *       properties:
+ *         id:
+ *           type: integer
+ *         postId:
+ *           type: integer
+ *         rev:
+ *           type: integer
+ *           description: Número de versión dentro del post, la 1 es el post tal como se creó.
+ *         title:
+ *           type: string
+ *         content:
+ *           type: string
+ *           nullable: true
+ *         editorId:
+ *           type: integer
+ *           nullable: true
+ *           description: Usuario que hizo la edición que reemplazó esta versión.
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *           description: Fecha de la edición.
+ *     DiffChunk:
+ *       type: object
+ *       properties:
+ *         op:
+ *           type: string
+ *           enum: [equal, insert, delete]
+ *         text:
+ *           type: string
+ *     PostRevisionDiff:
+ *       type: object
+ *       properties:
+ *         postId:
+ *           type: integer
+ *         rev:
+ *           type: integer
+ *         toRev:
+ *           type: integer
+ *           nullable: true
+ *           description: Versión con la que se compara, `null` si es la versión actual del post.
+ *         title:
+ *           type: array
+ *           description: Diff por palabras del título.
+ *           items:
+ *             $ref: '#/components/schemas/DiffChunk'
+ *         content:
+ *           type: array
+ *           description: Diff por líneas del contenido.
+ *           items:
+ *             $ref: '#/components/schemas/DiffChunk'
+ *       example:
+ *         postId: 1
+ *         rev: 1
+ *         toRev: null
+ *         title:
+ *           - op: equal
+ *             text: "Mi post"
+ *         content:
+ *           - op: delete
+ *             text: "Texto original\n"
+ *           - op: insert
+ *             text: "Texto corregido\n"
+ */
+export class PostRevisionController {
+    constructor(private readonly deps: AppDeps) {
+        this.readAll = this.readAll.bind(this);
+        this.diff = this.diff.bind(this);
+        this.restore = this.restore.bind(this);
+    }
+    /**
+     * @swagger
+     * /posts/{id}/revisions:
+     *   get:
+     *     summary: 🕓 Historial de ediciones de un post
+     *     description: Versiones anteriores del post, de la más antigua a la más reciente. Solo para el autor y para moderadores y administradores.
+     *     tags: [Posts]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - name: id
+     *         in: path
+     *         required: true
+     *         schema:
+     *           type: integer
+     *     responses:
+     *       200:
+     *         description: Versiones anteriores del post.
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: array
+     *               items:
+     *                 $ref: '#/components/schemas/PostRevision'
+     *       400:
+     *         $ref: '#/components/responses/ValidationError'
+     *       401:
+     *         $ref: '#/components/responses/AuthError'
+     *       403:
+     *         $ref: '#/components/responses/BannedUserError'
+     *       404:
+     *         description: Post no encontrado.
+     */
+    async readAll(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            if (!req.user) throw new UnauthenticatedError("user not set in jwt")
+            const r = new ReadPostRevisions(this.deps.repositories.post, this.deps.repositories.postRevision)
+            res.status(200).json(await r.execute(parseInt(req.params.id), req.user))
+        } catch (error) {
+            next(error)
+        }
+    }
+    /**
+     * @swagger
+     * /posts/{id}/revisions/{rev}/diff:
+     *   get:
+     *     summary: 🔍 Cambios de una edición
+     *     description: Diff entre la versión `rev` y la siguiente (o la actual si `rev` es la última guardada). Solo para el autor y para moderadores y administradores.
+     *     tags: [Posts]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - name: id
+     *         in: path
+     *         required: true
+     *         schema:
+     *           type: integer
+     *       - name: rev
+     *         in: path
+     *         required: true
+     *         schema:
+     *           type: integer
+     *     responses:
+     *       200:
+     *         description: Diff de la versión.
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/PostRevisionDiff'
+     *       400:
+     *         $ref: '#/components/responses/ValidationError'
+     *       401:
+     *         $ref: '#/components/responses/AuthError'
+     *       403:
+     *         $ref: '#/components/responses/BannedUserError'
+     *       404:
+     *         description: Post o versión no encontrados.
+     */
+    async diff(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            if (!req.user) throw new UnauthenticatedError("user not set in jwt")
+            const d = new DiffPostRevision(this.deps.repositories.post, this.deps.repositories.postRevision)
+            res.status(200).json(await d.execute(parseInt(req.params.id), parseInt(req.params.rev), req.user))
+        } catch (error) {
+            next(error)
+        }
+    }
+    /**
+     * @swagger
+     * /posts/{id}/revisions/{rev}/restore:
+     *   post:
+     *     summary: ⏪ Restaurar una versión
+     *     description: Vuelve a poner el título y el contenido de la versión `rev`. La versión actual se guarda en el historial, así que restaurar también se puede deshacer. Solo para el autor y los administradores.
+     *     tags: [Posts]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - name: id
+     *         in: path
+     *         required: true
+     *         schema:
+     *           type: integer
+     *       - name: rev
+     *         in: path
+     *         required: true
+     *         schema:
+     *           type: integer
+     *     responses:
+     *       200:
+     *         description: El post restaurado.
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Post'
+     *       400:
+     *         $ref: '#/components/responses/ValidationError'
+     *       401:
+     *         $ref: '#/components/responses/AuthError'
+     *       403:
+     *         $ref: '#/components/responses/BannedUserError'
+     *       404:
+     *         description: Post o versión no encontrados.
+     */
+    async restore(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            if (!req.user) throw new UnauthenticatedError("user not set in jwt")
+            const r = new RestorePostRevisionAndAudit(this.deps.repositories.post, this.deps.repositories.postRevision, this.deps.repositories.auditLog)
+            res.status(200).json(await r.execute(parseInt(req.params.id), parseInt(req.params.rev), { ...req.user, ip: req.ip }))
+        } catch (error) {
+            next(error)
+        }
+    }
+}
@@ -0,0 +1,76 @@
+import { Request, Response, NextFunction } from 'express';
+import { AppDeps, RateLimitName } from '../config/deps';
+import { CheckLockout, ConsumeRateLimit } from '../../../application/usecases/atomic/ratelimit';
+
+/**
+ * @swagger
+ * components:
+ *   responses:
+ *     TooManyRequests:
+ *       description: Demasiadas peticiones o cuenta bloqueada temporalmente por logins fallidos. La cabecera `Retry-After` indica los segundos de espera.
+ *       headers:
+ *         Retry-After:
+ *           schema:
+ *             type: integer
+ *       content:
+ *         application/problem+json:
+ *           schema:
+ *             $ref: '#/components/schemas/Problem'
+ *           example:
+ *             type: /problems/rate-limited
+ *             title: Demasiadas solicitudes
+ *             status: 429
+ *             detail: Too many requests
+ *             instance: /login
+ *             code: RATE_LIMITED
+ */
+
+// Devuelve la parte variable de la clave del contador, sin clave no se limita la petición
+type KeyOf = (req: Request) => string | undefined
+
+export const byIp: KeyOf = (req) => req.ip
+export const byEmail: KeyOf = (req) => typeof req.body?.email === 'string' && req.body.email ? req.body.email.trim().toLowerCase() : undefined
+export const byUser: KeyOf = (req) => req.user ? String(req.user.id) : undefined
+
+// Contador de logins fallidos de una cuenta, para el bloqueo progresivo
+export const loginFailuresKey = (email: string) => `login-failures:${email.trim().toLowerCase()}`
+
+/**
+ * Middleware que limita las peticiones según el límite `name` de `config.rateLimits`.
+ * Añade las cabeceras `RateLimit-Limit`, `RateLimit-Remaining` y `RateLimit-Reset`; al superarlo responde 429 con `Retry-After`.
+ *
+ * @param {AppDeps} deps - Repositorios y configuración de la aplicación.
+ * @param {RateLimitName} name - Límite a aplicar, si está desactivado el middleware no hace nada.
+ * @param {KeyOf} keyOf - Qué se limita: la IP, el email del body o el usuario autenticado.
+ */
+export const rateLimit = ({ repositories, config }: AppDeps, name: RateLimitName, keyOf: KeyOf) => async (req: Request, res: Response, next: NextFunction) => {
+    const policy = config.rateLimits.limits[name];
+    const key = keyOf(req);
+    if (!policy || !key) return next();
+    try {
+        const counter = await new ConsumeRateLimit(repositories.rateLimit).execute(`${name}:${key}`, policy);
+        res.set({
+            'RateLimit-Limit': String(policy.limit),
+            'RateLimit-Remaining': String(policy.limit - counter.count),
+            'RateLimit-Reset': String(Math.max(Math.ceil((counter.resetAt.getTime() - Date.now()) / 1000), 0)),
+        });
+        next();
+    } catch (err) {
+        next(err);
+    }
+};
+
+/**
+ * Middleware de /login que rechaza con 429 los intentos sobre una cuenta bloqueada por logins fallidos,
+ * antes de comprobar la contraseña. El bloqueo se aplica exista o no la cuenta.
+ */
+export const requireNotLocked = ({ repositories, config }: AppDeps) => async (req: Request, res: Response, next: NextFunction) => {
+    const email = byEmail(req);
+    if (!config.rateLimits.loginLockout || !email) return next();
+    try {
+        await new CheckLockout(repositories.rateLimit).execute(loginFailuresKey(email));
+        next();
+    } catch (err) {
+        next(err);
+    }
+};
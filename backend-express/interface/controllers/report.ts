@@ -0,0 +1,307 @@
+import { NextFunction, Request, Response } from "express";
+import { AppDeps } from "../config/deps";
+import { UnauthenticatedError } from "../../../domain/errors/main";
+import { ReportStatus, ReportTargetType } from "../../../domain/entities/report";
+import { ReadReports } from "../../../application/usecases/atomic/report";
+import { ReportPost, ReportUser, ResolveReport } from "../../../application/usecases/comp/report";
+
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 100
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Report:
+ *       type: object
+ *       description: Denuncia de un post o de un usuario. Al revisarla se cierran todas las denuncias abiertas del mismo objetivo.
+ *       properties:
+ *         id:
+ *           type: integer
+ *         reporterId:
+ *           type: integer
+ *         targetType:
+ *           type: string
+ *           enum: [post, user]
+ *         targetId:
+ *           type: integer
+ *         reason:
+ *           type: string
+ *           enum: [spam, harassment, hate, violence, sexual, misinformation, other]
+ *         details:
+ *           type: string
+ *           nullable: true
+ *         status:
+ *           type: string
+ *           enum: [open, dismissed, actioned]
+ *           description: "`dismissed` si no incumple las normas, `actioned` si se ha tomado alguna medida."
+ *         resolvedById:
+ *           type: integer
+ *           nullable: true
+ *         resolvedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *       example:
+ *         id: 1
+ *         reporterId: 3
+ *         targetType: post
+ *         targetId: 12
+ *         reason: spam
+ *         details: Enlaces a una tienda en todos los posts
+ *         status: open
+ *         resolvedById: null
+ *         resolvedAt: null
+ *         createdAt: "2025-01-26T10:00:00.000Z"
+ */
+export class ReportController {
+    constructor(private readonly deps: AppDeps) {
+        this.reportPost = this.reportPost.bind(this);
+        this.reportUser = this.reportUser.bind(this);
+        this.readAll = this.readAll.bind(this);
+        this.resolve = this.resolve.bind(this);
+    }
+    /**
+     * @swagger
+     * /posts/{id}/report:
+     *   post:
+     *     summary: 🚩 Denunciar un post
+     *     description: No se pueden denunciar los posts propios ni denunciar dos veces el mismo post mientras la denuncia siga abierta. Al llegar a `REPORT_HIDE_THRESHOLD` denuncias abiertas (5 por defecto) el post se oculta de los listados hasta que lo revise un moderador.
+     *     tags: [Reports]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - name: id
+     *         in: path
+     *         required: true
+     *         schema:
+     *           type: integer
+     *     requestBody:
+     *       required: true
+     *       content:
+     *         application/json:
+     *           schema:
+     *             $ref: '#/components/schemas/CreateReportInput'
+     *           example:
+     *             reason: spam
+     *             details: Enlaces a una tienda en todos los posts
+     *     responses:
+     *       201:
+     *         description: La denuncia creada.
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Report'
+     *       400:
+     *         $ref: '#/components/responses/ValidationError'
+     *       401:
+     *         $ref: '#/components/responses/AuthError'
+     *       403:
+     *         $ref: '#/components/responses/BannedUserError'
+     *       404:
+     *         description: Post no encontrado o eliminado.
+     *       409:
+     *         description: Ya hay una denuncia abierta del usuario sobre este post.
+     *       429:
+     *         $ref: '#/components/responses/TooManyRequests'
+     */
+    async reportPost(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            if (!req.user) throw new UnauthenticatedError("user not set in jwt")
+            const { reason, details } = req.body
+            const r = new ReportPost(this.deps.repositories.report, this.deps.repositories.post)
+            const report = await r.execute(parseInt(req.params.id), { reason, details: details ?? null }, req.user.id, this.deps.config.reportHideThreshold)
+            res.status(201).json(report)
+        } catch (error) {
+            next(error)
+        }
+    }
+    /**
+     * @swagger
+     * /users/{id}/report:
+     *   post:
+     *     summary: 🚩 Denunciar a un usuario
+     *     description: No se puede denunciar uno mismo ni denunciar dos veces al mismo usuario mientras la denuncia siga abierta.
+     *     tags: [Reports]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - name: id
+     *         in: path
+     *         required: true
+     *         schema:
+     *           type: integer
+     *     requestBody:
+     *       required: true
+     *       content:
+     *         application/json:
+     *           schema:
+     *             $ref: '#/components/schemas/CreateReportInput'
+     *           example:
+     *             reason: harassment
+     *     responses:
+     *       201:
+     *         description: La denuncia creada.
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Report'
+     *       400:
+     *         $ref: '#/components/responses/ValidationError'
+     *       401:
+     *         $ref: '#/components/responses/AuthError'
+     *       403:
+     *         $ref: '#/components/responses/BannedUserError'
+     *       404:
+     *         description: Usuario no encontrado.
+     *       409:
+     *         description: Ya hay una denuncia abierta del usuario sobre este usuario.
+     *       429:
+     *         $ref: '#/components/responses/TooManyRequests'
+     */
+    async reportUser(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            if (!req.user) throw new UnauthenticatedError("user not set in jwt")
+            const { reason, details } = req.body
+            const r = new ReportUser(this.deps.repositories.report, this.deps.repositories.user)
+            res.status(201).json(await r.execute(parseInt(req.params.id), { reason, details: details ?? null }, req.user.id))
+        } catch (error) {
+            next(error)
+        }
+    }
+    /**
+     * @swagger
+     * /admins/reports:
+     *   get:
+     *     summary: 📥 Cola de moderación
+     *     description: Denuncias de la más antigua a la más reciente. Requiere el permiso `report.review` (moderadores y administradores).
+     *     tags: [Reports]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: query
+     *         name: status
+     *         schema:
+     *           type: string
+     *           enum: [open, dismissed, actioned]
+     *         description: Sin indicar, todas
+     *       - in: query
+     *         name: targetType
+     *         schema:
+     *           type: string
+     *           enum: [post, user]
+     *       - in: query
+     *         name: limit
+     *         schema:
+     *           type: integer
+     *           default: 20
+     *           maximum: 100
+     *       - in: query
+     *         name: cursor
+     *         schema:
+     *           type: integer
+     *         description: Valor de `nextCursor` devuelto por la página anterior
+     *     responses:
+     *       200:
+     *         description: Una página de denuncias.
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 reports:
+     *                   type: array
+     *                   items:
+     *                     $ref: '#/components/schemas/Report'
+     *                 nextCursor:
+     *                   type: integer
+     *                   nullable: true
+     *       400:
+     *         $ref: '#/components/responses/ValidationError'
+     *       401:
+     *         $ref: '#/components/responses/AuthError'
+     *       403:
+     *         $ref: '#/components/responses/BannedUserError'
+     */
+    async readAll(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            if (!req.user) throw new UnauthenticatedError("user not set in jwt")
+            const limit = Math.min(Math.max(parseInt(req.query.limit as string) || DEFAULT_LIMIT, 1), MAX_LIMIT)
+            const r = new ReadReports(this.deps.repositories.report)
+            res.status(200).json(await r.execute({
+                status: req.query.status as ReportStatus | undefined,
+                targetType: req.query.targetType as ReportTargetType | undefined,
+                limit,
+                cursor: req.query.cursor ? parseInt(req.query.cursor as string) : undefined,
+            }, req.user))
+        } catch (error) {
+            next(error)
+        }
+    }
+    /**
+     * @swagger
+     * /admins/reports/{id}/resolve:
+     *   post:
+     *     summary: ⚖️ Revisar una denuncia
+     *     description: |
+     *       Cierra la denuncia y todas las abiertas sobre el mismo post o usuario. Requiere el permiso `report.review`.
+     *       Con `actioned` se puede eliminar el post (`deletePost`) y suspender a su autor o al usuario denunciado (`suspendAuthor`, requiere el permiso `user.ban`) en el mismo paso.
+     *       El post deja de estar oculto por denuncias.
+     *     tags: [Reports]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - name: id
+     *         in: path
+     *         required: true
+     *         schema:
+     *           type: integer
+     *     requestBody:
+     *       required: true
+     *       content:
+     *         application/json:
+     *           schema:
+     *             $ref: '#/components/schemas/ResolveReportInput'
+     *           example:
+     *             status: actioned
+     *             deletePost: true
+     *             suspendAuthor:
+     *               reason: Spam reiterado
+     *               endsAt: "2025-02-02T10:00:00.000Z"
+     *     responses:
+     *       200:
+     *         description: La denuncia cerrada.
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Report'
+     *       400:
+     *         $ref: '#/components/responses/ValidationError'
+     *       401:
+     *         $ref: '#/components/responses/AuthError'
+     *       403:
+     *         $ref: '#/components/responses/BannedUserError'
+     *       404:
+     *         description: Denuncia no encontrada.
+     *       409:
+     *         description: La denuncia ya estaba cerrada o el autor ya está suspendido.
+     */
+    async resolve(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            if (!req.user) throw new UnauthenticatedError("user not set in jwt")
+            const { status, deletePost, suspendAuthor } = req.body
+            const { report, post, user, session, suspension, auditLog } = this.deps.repositories
+            const r = new ResolveReport(report, post, user, session, suspension, auditLog)
+            res.status(200).json(await r.execute(parseInt(req.params.id), {
+                status,
+                deletePost,
+                suspendAuthor: suspendAuthor && { reason: suspendAuthor.reason, endsAt: suspendAuthor.endsAt ? new Date(suspendAuthor.endsAt) : null },
+            }, { ...req.user, ip: req.ip }))
+        } catch (error) {
+            next(error)
+        }
+    }
+}
@@ -0,0 +1,87 @@
+import { NextFunction, Request, Response } from "express";
+import { AppDeps } from "../config/deps";
+import { SearchPosts } from "../../../application/usecases/atomic/postsearch";
+
+
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 100
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     PostSearchResult:
+ *       type: object
+ *       properties:
+ *         post:
+ *           $ref: '#/components/schemas/Post'
+ *         rank:
+ *           type: number
+ *           description: Relevancia del resultado (bm25), cuanto mayor más relevante.
+ *         titleHighlight:
+ *           type: string
+ *           description: Título escapado como HTML con los términos encontrados marcados con `<mark>`.
+ *         contentSnippet:
+ *           type: string
+ *           description: Fragmento del contenido escapado como HTML con los términos encontrados marcados con `<mark>`.
+ */
+export class SearchController {
+    constructor(private readonly deps: AppDeps) {
+        this.posts = this.posts.bind(this);
+    }
+/**
+ * @swagger
+ * /search/posts:
+ *   get:
+ *     summary: 🔎 Buscar posts
+ *     description: <h4>Búsqueda de texto completo en los posts.</h4><br/> Los resultados se ordenan por relevancia. Se pueden buscar frases exactas entre comillas (`"hola mundo"`) y prefijos terminando la palabra con `*` (`corr*`). Los posts eliminados nunca aparecen.
+ *     tags: [Search]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Texto a buscar
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Resultados ordenados por relevancia.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/PostSearchResult'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/AuthError'
+ *       403:
+ *          $ref: '#/components/responses/BannedUserError'
+ */
+    async posts(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const text = req.query.q as string
+            const limit = Math.min(Math.max(parseInt(req.query.limit as string) || DEFAULT_LIMIT, 1), MAX_LIMIT)
+            const offset = Math.max(parseInt(req.query.offset as string) || 0, 0)
+            const s = new SearchPosts(this.deps.repositories.postSearch)
+            const results = await s.execute({ text, limit, offset })
+            res.status(200).json(results)
+        } catch (error) {
+            next(error)
+        }
+    }
+}
\ No newline at end of file
@@ -0,0 +1,123 @@
+import { NextFunction, Request, Response } from "express";
+import crypto from "crypto";
+import jwt from 'jsonwebtoken';
+import { AppDeps } from "../config/deps";
+import { EndSession, RotateRefreshToken, StartSession } from "../../../application/usecases/atomic/session";
+import { ReadById } from "../../../application/usecases/atomic/user";
+import { UnauthenticatedError } from "../../../domain/errors/main";
+import { User } from "../../../domain/entities/user";
+
+const ACCESS_TOKEN_TTL = '15m'
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000
+
+// Solo se guarda el hash de los tokens opacos, así una filtración de la base de datos no permite reutilizarlos
+export const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex')
+
+export const newOpaqueToken = (ttlMs: number) => {
+    const token = crypto.randomBytes(48).toString('base64url')
+    return { token, tokenHash: hashToken(token), expiresAt: new Date(Date.now() + ttlMs) }
+}
+
+const signAccessToken = (secret: string, user: Pick<User, 'id' | 'role'>, sessionId: string): string => {
+    return jwt.sign({ id: user.id, role: user.role, sid: sessionId }, secret, { expiresIn: ACCESS_TOKEN_TTL });
+}
+
+/**
+ * Crea una nueva sesión para el usuario y devuelve el par de tokens:
+ * el access token (JWT) y el refresh token en claro, que solo se entrega una vez.
+ */
+export const issueSession = async ({ repositories, config }: AppDeps, user: Pick<User, 'id' | 'role'>): Promise<{ token: string, refreshToken: string }> => {
+    const refreshToken = newOpaqueToken(REFRESH_TOKEN_TTL_MS)
+    const s = new StartSession(repositories.session)
+    const session = await s.execute(user.id, refreshToken.tokenHash, refreshToken.expiresAt)
+    return { token: signAccessToken(config.jwtSecret, user, session.id), refreshToken: refreshToken.token }
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     TokenPair:
+ *       type: object
+ *       properties:
+ *         token:
+ *           type: string
+ *           description: El token JWT para autenticación (caduca a los 15 minutos)
+ *         refreshToken:
+ *           type: string
+ *           description: Token de un solo uso para obtener un nuevo par de tokens
+ */
+export class SessionController {
+    constructor(private readonly deps: AppDeps) {
+        this.refresh = this.refresh.bind(this);
+        this.logout = this.logout.bind(this);
+    }
+    /**
+     * @swagger
+     * /token/refresh:
+     *   post:
+     *     summary: 🔄 Renovar tokens
+     *     description: <h4>Obtener un nuevo par de tokens a partir del refresh token.</h4><br/> Cada refresh token solo puede usarse una vez. Si se reutiliza un refresh token ya usado se revoca toda la sesión.
+     *     tags: [Autenticación]
+     *     requestBody:
+     *       required: true
+     *       content:
+     *         application/json:
+     *           schema:
+     *             $ref: '#/components/schemas/RefreshTokenInput'
+     *     responses:
+     *       200:
+     *         description: Nuevo par de tokens
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/TokenPair'
+     *       400:
+     *         $ref: '#/components/responses/ValidationError'
+     *       401:
+     *         description: Refresh token inválido, caducado, reutilizado o sesión revocada
+     */
+    async refresh(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const { refreshToken } = req.body
+            const newToken = newOpaqueToken(REFRESH_TOKEN_TTL_MS)
+            const r = new RotateRefreshToken(this.deps.repositories.session)
+            const session = await r.execute(hashToken(refreshToken), newToken.tokenHash, newToken.expiresAt)
+            const u = new ReadById(this.deps.repositories.user)
+            const user = await u.execute(session.userId)
+            if (!user || user.banned) throw new UnauthenticatedError("User not found or banned", 'INVALID_REFRESH_TOKEN')
+            res.json({ token: signAccessToken(this.deps.config.jwtSecret, user, session.id), refreshToken: newToken.token })
+        } catch (error) {
+            next(error)
+        }
+    }
+    /**
+     * @swagger
+     * /logout:
+     *   post:
+     *     summary: 🚪 Cerrar sesión
+     *     description: <h4>Cerrar la sesión asociada al refresh token.</h4><br/> Se revoca la sesión, por lo que ni el refresh token ni los access tokens emitidos para ella vuelven a ser válidos.
+     *     tags: [Autenticación]
+     *     requestBody:
+     *       required: true
+     *       content:
+     *         application/json:
+     *           schema:
+     *             $ref: '#/components/schemas/RefreshTokenInput'
+     *     responses:
+     *       204:
+     *         description: Sesión cerrada
+     *       400:
+     *         $ref: '#/components/responses/ValidationError'
+     */
+    async logout(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const { refreshToken } = req.body
+            const e = new EndSession(this.deps.repositories.session)
+            await e.execute(hashToken(refreshToken))
+            res.status(204).end()
+        } catch (error) {
+            next(error)
+        }
+    }
+}
\ No newline at end of file
@@ -0,0 +1,178 @@
+import { NextFunction, Request, Response } from "express";
+import { AppDeps } from "../config/deps";
+import { UnauthenticatedError } from "../../../domain/errors/main";
+import { ReadSiteStats, ReadUserStats } from "../../../application/usecases/atomic/stats";
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     UserStats:
+ *       type: object
+ *       properties:
+ *         userId:
+ *           type: integer
+ *         posts:
+ *           type: integer
+ *           description: Posts escritos, sin contar los eliminados.
+ *         likesGiven:
+ *           type: integer
+ *         likesReceived:
+ *           type: integer
+ *           description: Likes en sus posts no eliminados.
+ *         mostLikedPost:
+ *           type: object
+ *           nullable: true
+ *           description: Su post visible con más likes, null si ninguno tiene likes.
+ *           properties:
+ *             id:
+ *               type: integer
+ *             title:
+ *               type: string
+ *             likes:
+ *               type: integer
+ *       example:
+ *         userId: 2
+ *         posts: 12
+ *         likesGiven: 40
+ *         likesReceived: 85
+ *         mostLikedPost: { id: 7, title: "Mi primer post", likes: 23 }
+ *     DailyActivity:
+ *       type: object
+ *       properties:
+ *         date:
+ *           type: string
+ *           format: date
+ *         signups:
+ *           type: integer
+ *         posts:
+ *           type: integer
+ *           description: Posts publicados ese día, también los eliminados después.
+ *         likes:
+ *           type: integer
+ *         activeUsers:
+ *           type: integer
+ *           description: Usuarios distintos que han publicado, comentado o dado like.
+ *     SiteStats:
+ *       type: object
+ *       properties:
+ *         from:
+ *           type: string
+ *           format: date
+ *         to:
+ *           type: string
+ *           format: date
+ *         totals:
+ *           type: object
+ *           properties:
+ *             users:
+ *               type: integer
+ *               description: Usuarios registrados en total, no solo en el rango.
+ *             signups:
+ *               type: integer
+ *             posts:
+ *               type: integer
+ *             likes:
+ *               type: integer
+ *             activeUsers:
+ *               type: integer
+ *               description: Usuarios distintos con actividad en el rango.
+ *         series:
+ *           type: array
+ *           description: Un elemento por día del rango, los días sin actividad con ceros.
+ *           items:
+ *             $ref: '#/components/schemas/DailyActivity'
+ */
+export class StatsController {
+    constructor(private readonly deps: AppDeps) {
+        this.user = this.user.bind(this);
+        this.site = this.site.bind(this);
+    }
+    /**
+     * @swagger
+     * /users/{id}/stats:
+     *   get:
+     *     summary: 📊 Estadísticas de un usuario
+     *     description: Posts escritos, likes dados y recibidos y su post con más likes.
+     *     tags: [Stats]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: path
+     *         name: id
+     *         required: true
+     *         schema:
+     *           type: integer
+     *     responses:
+     *       200:
+     *         description: Estadísticas del usuario.
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/UserStats'
+     *       400:
+     *         $ref: '#/components/responses/ValidationError'
+     *       401:
+     *         $ref: '#/components/responses/AuthError'
+     *       403:
+     *         $ref: '#/components/responses/BannedUserError'
+     *       404:
+     *         description: Usuario no encontrado.
+     */
+    async user(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const r = new ReadUserStats(this.deps.repositories.stats)
+            res.status(200).json(await r.execute(parseInt(req.params.id)))
+        } catch (error) {
+            next(error)
+        }
+    }
+    /**
+     * @swagger
+     * /admins/stats:
+     *   get:
+     *     summary: 📈 Estadísticas del sitio
+     *     description: Registros, posts, likes y usuarios activos por día (UTC). Requiere el permiso `stats.read` (administradores).
+     *     tags: [Stats]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: query
+     *         name: from
+     *         schema:
+     *           type: string
+     *           format: date
+     *         description: Primer día, incluido. Por defecto 29 días antes de `to`
+     *       - in: query
+     *         name: to
+     *         schema:
+     *           type: string
+     *           format: date
+     *         description: Último día, incluido. Por defecto hoy
+     *     responses:
+     *       200:
+     *         description: Totales y serie diaria del rango, como mucho 366 días.
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/SiteStats'
+     *       400:
+     *         $ref: '#/components/responses/ValidationError'
+     *       401:
+     *         $ref: '#/components/responses/AuthError'
+     *       403:
+     *         $ref: '#/components/responses/BannedUserError'
+     */
+    async site(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            if (!req.user) throw new UnauthenticatedError("user not set in jwt")
+            const r = new ReadSiteStats(this.deps.repositories.stats)
+            res.status(200).json(await r.execute({
+                from: req.query.from as string | undefined,
+                to: req.query.to as string | undefined,
+            }, req.user))
+        } catch (error) {
+            next(error)
+        }
+    }
+}
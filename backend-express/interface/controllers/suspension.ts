@@ -0,0 +1,193 @@
+import { NextFunction, Request, Response } from "express";
+import { AppDeps } from "../config/deps";
+import { UnauthenticatedError } from "../../../domain/errors/main";
+import { LiftSuspension, SuspendUser } from "../../../application/usecases/comp/user";
+import { ReadSuspensions } from "../../../application/usecases/atomic/suspension";
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Suspension:
+ *       type: object
+ *       description: Mientras está vigente el usuario no puede usar la API. Caduca sola al llegar `endsAt`.
+ *       properties:
+ *         id:
+ *           type: integer
+ *         userId:
+ *           type: integer
+ *         issuedById:
+ *           type: integer
+ *           nullable: true
+ *           description: Administrador o moderador que la ha creado, null si ya no existe.
+ *         reason:
+ *           type: string
+ *         startsAt:
+ *           type: string
+ *           format: date-time
+ *         endsAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: null si es permanente.
+ *         liftedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: Fecha en la que se levantó antes de terminar.
+ *         liftedById:
+ *           type: integer
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *       example:
+ *         id: 1
+ *         userId: 2
+ *         issuedById: 1
+ *         reason: Spam en los comentarios
+ *         startsAt: "2025-01-19T10:00:00.000Z"
+ *         endsAt: "2025-01-26T10:00:00.000Z"
+ *         liftedAt: null
+ *         liftedById: null
+ *         createdAt: "2025-01-19T10:00:00.000Z"
+ */
+export class SuspensionController {
+    constructor(private readonly deps: AppDeps) {
+        this.create = this.create.bind(this);
+        this.lift = this.lift.bind(this);
+        this.readAll = this.readAll.bind(this);
+    }
+    /**
+     * @swagger
+     * /admins/users/{id}/suspensions:
+     *   post:
+     *     summary: ⛔ Suspender a un usuario
+     *     description: Requiere el permiso `user.ban` (moderadores y administradores). No se puede suspender a un usuario de rol superior ni a uno ya suspendido. El usuario pierde sus sesiones abiertas.
+     *     tags: [Admin Users]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: path
+     *         name: id
+     *         required: true
+     *         schema:
+     *           type: integer
+     *     requestBody:
+     *       required: true
+     *       content:
+     *         application/json:
+     *           schema:
+     *             $ref: '#/components/schemas/SuspendUserInput'
+     *           example:
+     *             reason: Spam en los comentarios
+     *             endsAt: "2025-01-26T10:00:00.000Z"
+     *     responses:
+     *       201:
+     *         description: La suspensión creada.
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Suspension'
+     *       400:
+     *         $ref: '#/components/responses/ValidationError'
+     *       401:
+     *         $ref: '#/components/responses/AuthError'
+     *       403:
+     *         $ref: '#/components/responses/BannedUserError'
+     *       404:
+     *         description: Usuario no encontrado.
+     *       409:
+     *         description: El usuario ya tiene una suspensión vigente.
+     */
+    async create(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            if (!req.user) throw new UnauthenticatedError("user not set in jwt")
+            const { reason, endsAt } = req.body
+            const s = new SuspendUser(this.deps.repositories.user, this.deps.repositories.session, this.deps.repositories.suspension, this.deps.repositories.auditLog)
+            const suspension = await s.execute(parseInt(req.params.id), { reason, endsAt: endsAt ? new Date(endsAt) : null }, { ...req.user, ip: req.ip })
+            res.status(201).json(suspension)
+        } catch (error) {
+            next(error)
+        }
+    }
+    /**
+     * @swagger
+     * /admins/users/{id}/suspensions/active:
+     *   delete:
+     *     summary: ✅ Levantar la suspensión vigente
+     *     description: Requiere el permiso `user.ban`. Las suspensiones temporales se levantan solas al terminar.
+     *     tags: [Admin Users]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: path
+     *         name: id
+     *         required: true
+     *         schema:
+     *           type: integer
+     *     responses:
+     *       200:
+     *         description: La suspensión levantada.
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Suspension'
+     *       400:
+     *         $ref: '#/components/responses/ValidationError'
+     *       401:
+     *         $ref: '#/components/responses/AuthError'
+     *       403:
+     *         $ref: '#/components/responses/BannedUserError'
+     *       404:
+     *         description: Usuario no encontrado o sin suspensión vigente.
+     */
+    async lift(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            if (!req.user) throw new UnauthenticatedError("user not set in jwt")
+            const l = new LiftSuspension(this.deps.repositories.user, this.deps.repositories.suspension, this.deps.repositories.auditLog)
+            res.status(200).json(await l.execute(parseInt(req.params.id), { ...req.user, ip: req.ip }))
+        } catch (error) {
+            next(error)
+        }
+    }
+    /**
+     * @swagger
+     * /admins/users/{id}/suspensions:
+     *   get:
+     *     summary: 📜 Historial de suspensiones
+     *     description: Todas las suspensiones del usuario, vigentes, caducadas y levantadas, de la más reciente a la más antigua. Requiere el permiso `user.ban`.
+     *     tags: [Admin Users]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: path
+     *         name: id
+     *         required: true
+     *         schema:
+     *           type: integer
+     *     responses:
+     *       200:
+     *         description: Lista de suspensiones.
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: array
+     *               items:
+     *                 $ref: '#/components/schemas/Suspension'
+     *       400:
+     *         $ref: '#/components/responses/ValidationError'
+     *       401:
+     *         $ref: '#/components/responses/AuthError'
+     *       403:
+     *         $ref: '#/components/responses/BannedUserError'
+     */
+    async readAll(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const r = new ReadSuspensions(this.deps.repositories.suspension)
+            res.status(200).json(await r.execute(parseInt(req.params.id)))
+        } catch (error) {
+            next(error)
+        }
+    }
+}
@@ -0,0 +1,110 @@
+import { NextFunction, Request, Response } from "express";
+import { AppDeps } from "../config/deps";
+import { ReadTags, ReadTrendingTags } from "../../../application/usecases/atomic/tag";
+
+const DEFAULT_TRENDING_DAYS = 7
+const DEFAULT_TRENDING_LIMIT = 10
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     TagCount:
+ *       type: object
+ *       properties:
+ *         name:
+ *           type: string
+ *           description: Nombre de la etiqueta, en minúsculas y sin `#`.
+ *         count:
+ *           type: integer
+ *           description: Número de posts no eliminados con la etiqueta.
+ *       example:
+ *         name: recetas
+ *         count: 12
+ */
+export class TagController {
+    constructor(private readonly deps: AppDeps) {
+        this.readAll = this.readAll.bind(this);
+        this.trending = this.trending.bind(this);
+    }
+    /**
+     * @swagger
+     * /tags:
+     *   get:
+     *     summary: 🏷️ Etiquetas en uso
+     *     description: Etiquetas de los posts no eliminados con su número de posts, de la más usada a la menos usada.
+     *     tags: [Tags]
+     *     security:
+     *       - bearerAuth: []
+     *     responses:
+     *       200:
+     *         description: Etiquetas y número de posts.
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: array
+     *               items:
+     *                 $ref: '#/components/schemas/TagCount'
+     *       401:
+     *         $ref: '#/components/responses/AuthError'
+     *       403:
+     *         $ref: '#/components/responses/BannedUserError'
+     */
+    async readAll(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const r = new ReadTags(this.deps.repositories.tag)
+            res.status(200).json(await r.execute())
+        } catch (error) {
+            next(error)
+        }
+    }
+    /**
+     * @swagger
+     * /tags/trending:
+     *   get:
+     *     summary: 🔥 Etiquetas en tendencia
+     *     description: Etiquetas más usadas en los posts publicados en los últimos `days` días.
+     *     tags: [Tags]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: query
+     *         name: days
+     *         schema:
+     *           type: integer
+     *           default: 7
+     *           maximum: 90
+     *       - in: query
+     *         name: limit
+     *         schema:
+     *           type: integer
+     *           default: 10
+     *           maximum: 100
+     *     responses:
+     *       200:
+     *         description: Etiquetas y número de posts recientes.
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: array
+     *               items:
+     *                 $ref: '#/components/schemas/TagCount'
+     *       400:
+     *         $ref: '#/components/responses/ValidationError'
+     *       401:
+     *         $ref: '#/components/responses/AuthError'
+     *       403:
+     *         $ref: '#/components/responses/BannedUserError'
+     */
+    async trending(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            // Ya validados por readTrendingTagsSchema
+            const days = req.query.days ? parseInt(req.query.days as string) : DEFAULT_TRENDING_DAYS
+            const limit = req.query.limit ? parseInt(req.query.limit as string) : DEFAULT_TRENDING_LIMIT
+            const t = new ReadTrendingTags(this.deps.repositories.tag)
+            res.status(200).json(await t.execute(days, limit))
+        } catch (error) {
+            next(error)
+        }
+    }
+}
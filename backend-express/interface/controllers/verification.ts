@@ -0,0 +1,91 @@
+import { NextFunction, Request, Response } from "express";
+import { AppDeps } from "../config/deps";
+import { ResendEmailVerification, SendEmailVerification, VerifyEmail } from "../../../application/usecases/comp/user";
+import { User } from "../../../domain/entities/user";
+import { hashToken, newOpaqueToken } from "./session";
+
+const VERIFICATION_TOKEN_TTL_MS = 24 * 60 * 60 * 1000
+
+const newVerification = (apiUrl: string) => {
+    const verificationToken = newOpaqueToken(VERIFICATION_TOKEN_TTL_MS)
+    const verificationLink = `${apiUrl}/verify-email?token=${encodeURIComponent(verificationToken.token)}`
+    return { ...verificationToken, verificationLink }
+}
+
+/**
+ * Envía al usuario recién registrado (o que ha cambiado de email) el email con su enlace de verificación.
+ */
+export const sendVerificationEmail = async ({ repositories, mailer, config }: AppDeps, user: User): Promise<void> => {
+    const { tokenHash, expiresAt, verificationLink } = newVerification(config.apiUrl)
+    const s = new SendEmailVerification(repositories.emailVerification, mailer)
+    await s.execute(user, tokenHash, expiresAt, verificationLink)
+}
+
+export class EmailVerificationController {
+    constructor(private readonly deps: AppDeps) {
+        this.verify = this.verify.bind(this);
+        this.resend = this.resend.bind(this);
+    }
+    /**
+     * @swagger
+     * /verify-email:
+     *   get:
+     *     summary: ✅ Verificar email
+     *     description: <h4>Verificar el email de una cuenta.</h4><br/> Enlace enviado por email al registrarse. El token solo puede usarse una vez y caduca a las 24 horas.
+     *     tags: [Autenticación]
+     *     parameters:
+     *       - in: query
+     *         name: token
+     *         required: true
+     *         schema:
+     *           type: string
+     *     responses:
+     *       200:
+     *         description: Email verificado
+     *       400:
+     *         description: Token no recibido, inválido, caducado o ya usado
+     */
+    async verify(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const token = req.query.token as string
+            const v = new VerifyEmail(this.deps.repositories.user, this.deps.repositories.emailVerification)
+            await v.execute(hashToken(token))
+            res.status(200).json({ message: 'Email verificado' })
+        } catch (error) {
+            next(error)
+        }
+    }
+    /**
+     * @swagger
+     * /verify-email/resend:
+     *   post:
+     *     summary: 📧 Reenviar verificación
+     *     description: <h4>Reenviar el email de verificación.</h4><br/> Limitado a 3 solicitudes por hora para cada dirección (`RATE_LIMIT_VERIFICATION_EMAIL`), exista o no la cuenta. La respuesta es la misma exista o no la cuenta.
+     *     tags: [Autenticación]
+     *     requestBody:
+     *       required: true
+     *       content:
+     *         application/json:
+     *           schema:
+     *             $ref: '#/components/schemas/ResendVerificationInput'
+     *     responses:
+     *       202:
+     *         description: Solicitud recibida
+     *       400:
+     *         $ref: '#/components/responses/ValidationError'
+     *       429:
+     *         $ref: '#/components/responses/TooManyRequests'
+     */
+    async resend(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const { email } = req.body
+            const { tokenHash, expiresAt, verificationLink } = newVerification(this.deps.config.apiUrl)
+            const { user, emailVerification } = this.deps.repositories
+            const r = new ResendEmailVerification(user, emailVerification, this.deps.mailer)
+            await r.execute(email, tokenHash, expiresAt, verificationLink)
+            res.status(202).json({ message: 'Si la cuenta existe y no está verificada recibirás un nuevo email' })
+        } catch (error) {
+            next(error)
+        }
+    }
+}
\ No newline at end of file
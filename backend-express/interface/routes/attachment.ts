@@ -0,0 +1,28 @@
+import { Router } from "express";
+import { AttachmentController, uploadFile } from "../controllers/attachment";
+import { authenticateOptionalJWT, requireVerifiedEmail, tokenFromQuery } from "../controllers/auth";
+import { byUser, rateLimit } from "../controllers/ratelimit";
+import { AppDeps } from "../config/deps";
+import { validate } from "../validators/validate";
+import { attachmentsSchema } from "../validators/schemas";
+
+// Se monta antes del authenticateJWT global: las imágenes se piden desde `<img src>`, sin encabezado de autorización.
+// El token es opcional, en la query para que el autor y los moderadores vean los ficheros de posts no visibles
+const FileRouter = (deps: AppDeps) => {
+  const controller = new AttachmentController(deps)
+  const router = Router()
+
+  router.get("/files/:key", tokenFromQuery, authenticateOptionalJWT(deps), controller.file)
+  return router
+}
+
+const AttachmentRouter = (deps: AppDeps) => {
+  const controller = new AttachmentController(deps)
+  const router = Router()
+
+  router.post("/posts/:id/attachments", validate(attachmentsSchema), requireVerifiedEmail(deps), rateLimit(deps, 'uploads', byUser), uploadFile(deps), controller.upload)
+  router.get("/posts/:id/attachments", validate(attachmentsSchema), controller.readAll)
+  return router
+}
+
+export { FileRouter, AttachmentRouter }
@@ -0,0 +1,16 @@
+import { Router } from "express";
+import { AuditController } from "../controllers/audit";
+import { requirePermission } from "../controllers/auth";
+import { AppDeps } from "../config/deps";
+import { validate } from "../validators/validate";
+import { readAuditLogSchema } from "../validators/schemas";
+
+const AuditRouter = (deps: AppDeps) => {
+  const controller = new AuditController(deps)
+  const router = Router()
+
+  router.get("/admins/audit", requirePermission("audit.read"), validate(readAuditLogSchema), controller.readAll)
+  return router
+}
+
+export {AuditRouter}
@@ -0,0 +1,20 @@
+import { Router } from "express";
+import { CommentController } from "../controllers/comment";
+import { requireVerifiedEmail } from "../controllers/auth";
+import { byUser, rateLimit } from "../controllers/ratelimit";
+import { AppDeps } from "../config/deps";
+import { validate } from "../validators/validate";
+import { commentSchema, createCommentSchema, readCommentsSchema, updateCommentSchema } from "../validators/schemas";
+
+const CommentRouter = (deps: AppDeps) => {
+  const controller = new CommentController(deps)
+  const router = Router()
+
+  router.get("/posts/:id/comments", validate(readCommentsSchema), controller.readAll)
+  router.post("/posts/:id/comments", validate(createCommentSchema), requireVerifiedEmail(deps), rateLimit(deps, 'comments', byUser), controller.create)
+  router.put("/posts/:id/comments/:commentId", validate(updateCommentSchema), controller.update)
+  router.delete("/posts/:id/comments/:commentId", validate(commentSchema), controller.delete)
+  return router
+}
+
+export {CommentRouter}
@@ -0,0 +1,18 @@
+import { Router } from "express";
+import { EventsController } from "../controllers/events";
+import { authenticateJWT, tokenFromQuery } from "../controllers/auth";
+import { AppDeps } from "../config/deps";
+
+
+const EventsRouter = (deps: AppDeps) => {
+  const controller = new EventsController(deps)
+  const router = Router()
+
+  // Se monta antes del authenticateJWT global: EventSource no puede enviar el encabezado de autorización
+  router.get('/events', tokenFromQuery, authenticateJWT(deps), controller.stream);
+  return router
+}
+
+
+
+export {EventsRouter}
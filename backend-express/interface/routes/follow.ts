@@ -0,0 +1,20 @@
+import { Router } from "express";
+import { FollowController } from "../controllers/follow";
+import { requireVerifiedEmail } from "../controllers/auth";
+import { byUser, rateLimit } from "../controllers/ratelimit";
+import { AppDeps } from "../config/deps";
+import { validate } from "../validators/validate";
+import { followSchema, readFollowsSchema } from "../validators/schemas";
+
+const FollowRouter = (deps: AppDeps) => {
+  const controller = new FollowController(deps)
+  const router = Router()
+
+  router.post("/users/:id/follow", validate(followSchema), requireVerifiedEmail(deps), rateLimit(deps, 'follows', byUser), controller.follow)
+  router.delete("/users/:id/follow", validate(followSchema), controller.unfollow)
+  router.get("/users/:id/followers", validate(readFollowsSchema), controller.followers)
+  router.get("/users/:id/following", validate(readFollowsSchema), controller.following)
+  return router
+}
+
+export {FollowRouter}
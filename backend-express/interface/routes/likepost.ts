@@ -1,10 +1,19 @@
 import { Router } from "express";
 import { LikePostController } from "../controllers/likepost";
+import { requireVerifiedEmail } from "../controllers/auth";
+import { byUser, rateLimit } from "../controllers/ratelimit";
+import { AppDeps } from "../config/deps";
+import { validate } from "../validators/validate";
+import { likePostSchema } from "../validators/schemas";
 
-const controller = new LikePostController()
-const LikePostRouter = Router()
+const LikePostRouter = (deps: AppDeps) => {
+  const controller = new LikePostController(deps)
+  const router = Router()
 
-// Estaría bien manejar la acción como un get ❓🧠⬇️❓
-LikePostRouter.post("/likepost/:id", controller.create)
+  // Estaría bien manejar la acción como un get ❓🧠⬇️❓
+  router.post("/likepost/:id", validate(likePostSchema), requireVerifiedEmail(deps), rateLimit(deps, 'likes', byUser), controller.create)
+  router.delete("/likepost/:id", validate(likePostSchema), controller.delete)
+  return router
+}
 
-export {LikePostRouter}
\ No newline at end of file
+export {LikePostRouter}
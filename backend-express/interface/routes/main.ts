@@ -1,13 +1,26 @@
-import express,{ Application, NextFunction, Request, Response } from "express";
+import express,{ Application } from "express";
 import swaggerUi from "swagger-ui-express";
 import cors from "cors";
 import { swaggerDocs } from "../config/swagger";
 import { AppRouter, NoAuthenticateRouter, UserRouter } from "./user";
 import { PostRouter } from "./post";
-import { authenticateJWT, authorizeAdmin } from "../controllers/auth";
+import { PostRevisionRouter } from "./postrevision";
+import { authenticateJWT } from "../controllers/auth";
 import { LikePostRouter } from "./likepost";
+import { CommentRouter } from "./comment";
+import { SearchRouter } from "./search";
+import { TagRouter } from "./tag";
+import { FollowRouter } from "./follow";
+import { NotificationRouter } from "./notification";
+import { EventsRouter } from "./events";
+import { AuditRouter } from "./audit";
+import { ReportRouter } from "./report";
+import { StatsRouter } from "./stats";
+import { AttachmentRouter, FileRouter } from "./attachment";
+import { errorHandler } from "../controllers/error";
+import { AppDeps } from "../config/deps";
 
-export const setupRoutes = (app: Application) => {
+export const setupRoutes = (app: Application, deps: AppDeps) => {
 
 
   // Servir Swagger UI
@@ -25,24 +38,31 @@ export const setupRoutes = (app: Application) => {
  *   name: Autenticación
  *   description: Rutas de autenticación
  */
-  app.use(NoAuthenticateRouter)
+  app.use(NoAuthenticateRouter(deps))
   /**
  * @swagger
  * tags:
  *   name: App
  *   description: Rutas de la aplicación
  */
-  app.use(AppRouter)
+  app.use(AppRouter(deps))
+  /**
+ * @swagger
+ * tags:
+ *   name: Events
+ *   description: Eventos en directo (Server-Sent Events) de posts y likes. Se autentica por su cuenta para aceptar el token en la query.
+ */
+  app.use(EventsRouter(deps))
+  app.use(FileRouter(deps))
   // app.use((req, res, next) => {
   //   console.log("Before authenticateJWT middleware:", req.body);
   //   next();
   // });
-  app.use(authenticateJWT)
+  app.use(authenticateJWT(deps))
   // app.use((req, res, next) => {
   //   console.log("After authenticateJWT middleware:", req.body);
   //   next();
   // });
-  app.use("/admins", authorizeAdmin)
   /**
  * @swagger
  * tags:
@@ -53,29 +73,86 @@ export const setupRoutes = (app: Application) => {
  * @swagger
  * tags:
  *   name: Admin Users
- *   description: Rutas de manejo de perfil de usuarios activos para administradores.
+ *   description: Rutas de manejo de perfil de usuarios activos para administradores y moderadores, cada ruta requiere su permiso.
+ */
+  app.use(UserRouter(deps));
+  /**
+ * @swagger
+ * tags:
+ *   name: Follows
+ *   description: Rutas para seguir a otros usuarios y ver sus posts en el feed.
  */
-  app.use(UserRouter);
+  app.use(FollowRouter(deps));
   /**
  * @swagger
  * tags:
  *   name: Posts
  *   description: Rutas de manejo de posts para usuarios activos.
  */
-  app.use(PostRouter);
+  app.use(PostRouter(deps));
+  app.use(PostRevisionRouter(deps));
     /**
  * @swagger
  * tags:
  *   name: Like Posts
  *   description: Rutas de manejo de likes de posts para usuarios activos.
  */
-  app.use(LikePostRouter)
-  app.use((err: unknown, req: Request, res: Response, next: NextFunction) => {
-    if (err instanceof Error) {
-      console.error(err.stack);
-      return res.status(500).json({ message: err.message });
-    }
-    console.error(err);
-    return res.status(500).json({ message: "Error interno del servidor" });
-  });
+  app.use(LikePostRouter(deps))
+    /**
+ * @swagger
+ * tags:
+ *   name: Comments
+ *   description: Rutas de manejo de comentarios de posts para usuarios activos.
+ */
+  app.use(CommentRouter(deps))
+    /**
+ * @swagger
+ * tags:
+ *   name: Search
+ *   description: Rutas de búsqueda de texto completo para usuarios activos.
+ */
+  app.use(SearchRouter(deps))
+    /**
+ * @swagger
+ * tags:
+ *   name: Tags
+ *   description: Rutas de etiquetas de posts para usuarios activos.
+ */
+  app.use(TagRouter(deps))
+    /**
+ * @swagger
+ * tags:
+ *   name: Notifications
+ *   description: Notificaciones de likes, comentarios, seguidores y menciones del usuario autenticado.
+ */
+  app.use(NotificationRouter(deps))
+    /**
+ * @swagger
+ * tags:
+ *   name: Audit
+ *   description: Registro de acciones de administración y moderación, solo para administradores.
+ */
+  app.use(AuditRouter(deps))
+    /**
+ * @swagger
+ * tags:
+ *   name: Reports
+ *   description: Denuncias de posts y usuarios, y la cola de moderación para moderadores y administradores.
+ */
+  app.use(ReportRouter(deps))
+    /**
+ * @swagger
+ * tags:
+ *   name: Stats
+ *   description: Estadísticas de cada usuario y, para administradores, del sitio.
+ */
+  app.use(StatsRouter(deps))
+    /**
+ * @swagger
+ * tags:
+ *   name: Attachments
+ *   description: Imágenes adjuntas a los posts y descarga de los ficheros.
+ */
+  app.use(AttachmentRouter(deps))
+  app.use(errorHandler);
 };
\ No newline at end of file
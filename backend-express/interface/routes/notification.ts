@@ -0,0 +1,17 @@
+import { Router } from "express";
+import { NotificationController } from "../controllers/notification";
+import { AppDeps } from "../config/deps";
+import { validate } from "../validators/validate";
+import { notificationSchema, readNotificationsSchema } from "../validators/schemas";
+
+const NotificationRouter = (deps: AppDeps) => {
+  const controller = new NotificationController(deps)
+  const router = Router()
+
+  router.get("/notifications", validate(readNotificationsSchema), controller.readAll)
+  router.post("/notifications/read-all", controller.markAllRead)
+  router.post("/notifications/:id/read", validate(notificationSchema), controller.markRead)
+  return router
+}
+
+export {NotificationRouter}
@@ -1,17 +1,28 @@
 import { Router } from "express";
 import { PostController } from "../controllers/post";
-import { debounce } from "../../../utils/execute";
+import { requireVerifiedEmail } from "../controllers/auth";
+import { byUser, rateLimit } from "../controllers/ratelimit";
+import { AppDeps } from "../config/deps";
+import { validate } from "../validators/validate";
+import { createPostSchema, deletePostSchema, readDraftsSchema, readFeedSchema, readPostsSchema, readTrendingPostsSchema, updatePostSchema } from "../validators/schemas";
 
 
-const controller = new PostController()
-const PostRouter = Router()
+const PostRouter = (deps: AppDeps) => {
+  const controller = new PostController(deps)
+  const router = Router()
 
-PostRouter.post('/posts', controller.create);
-PostRouter.get('/posts/:order', debounce(controller.readAll, 2000));
-PostRouter.delete('/posts/:id', controller.delete);
-PostRouter.put('/posts/:id', controller.update);
-PostRouter.get('/popularity', controller.popularity);
+  router.post('/posts', validate(createPostSchema), requireVerifiedEmail(deps), rateLimit(deps, 'posts', byUser), controller.create);
+  // Antes de /posts/:order para que `trending` no se tome como un orden
+  router.get('/posts/trending', validate(readTrendingPostsSchema), controller.trending);
+  router.get('/posts/:order', validate(readPostsSchema), controller.readAll);
+  router.get('/feed', validate(readFeedSchema), controller.feed);
+  router.get('/me/drafts', validate(readDraftsSchema), controller.drafts);
+  router.delete('/posts/:id', validate(deletePostSchema), controller.delete);
+  router.put('/posts/:id', validate(updatePostSchema), controller.update);
+  router.get('/popularity', controller.popularity);
+  return router
+}
 
 
 
-export {PostRouter}
\ No newline at end of file
+export {PostRouter}
@@ -0,0 +1,17 @@
+import { Router } from "express";
+import { PostRevisionController } from "../controllers/postrevision";
+import { AppDeps } from "../config/deps";
+import { validate } from "../validators/validate";
+import { postRevisionSchema, postRevisionsSchema } from "../validators/schemas";
+
+const PostRevisionRouter = (deps: AppDeps) => {
+  const controller = new PostRevisionController(deps)
+  const router = Router()
+
+  router.get("/posts/:id/revisions", validate(postRevisionsSchema), controller.readAll)
+  router.get("/posts/:id/revisions/:rev/diff", validate(postRevisionSchema), controller.diff)
+  router.post("/posts/:id/revisions/:rev/restore", validate(postRevisionSchema), controller.restore)
+  return router
+}
+
+export {PostRevisionRouter}
@@ -0,0 +1,20 @@
+import { Router } from "express";
+import { ReportController } from "../controllers/report";
+import { requirePermission } from "../controllers/auth";
+import { byUser, rateLimit } from "../controllers/ratelimit";
+import { AppDeps } from "../config/deps";
+import { validate } from "../validators/validate";
+import { createReportSchema, readReportsSchema, resolveReportSchema } from "../validators/schemas";
+
+const ReportRouter = (deps: AppDeps) => {
+  const controller = new ReportController(deps)
+  const router = Router()
+
+  router.post("/posts/:id/report", validate(createReportSchema), rateLimit(deps, 'reports', byUser), controller.reportPost)
+  router.post("/users/:id/report", validate(createReportSchema), rateLimit(deps, 'reports', byUser), controller.reportUser)
+  router.get("/admins/reports", requirePermission("report.review"), validate(readReportsSchema), controller.readAll)
+  router.post("/admins/reports/:id/resolve", requirePermission("report.review"), validate(resolveReportSchema), controller.resolve)
+  return router
+}
+
+export {ReportRouter}
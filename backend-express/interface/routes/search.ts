@@ -0,0 +1,15 @@
+import { Router } from "express";
+import { SearchController } from "../controllers/search";
+import { AppDeps } from "../config/deps";
+import { validate } from "../validators/validate";
+import { searchPostsSchema } from "../validators/schemas";
+
+const SearchRouter = (deps: AppDeps) => {
+  const controller = new SearchController(deps)
+  const router = Router()
+
+  router.get("/search/posts", validate(searchPostsSchema), controller.posts)
+  return router
+}
+
+export {SearchRouter}
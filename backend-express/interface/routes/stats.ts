@@ -0,0 +1,17 @@
+import { Router } from "express";
+import { StatsController } from "../controllers/stats";
+import { requirePermission } from "../controllers/auth";
+import { AppDeps } from "../config/deps";
+import { validate } from "../validators/validate";
+import { readSiteStatsSchema, readUserStatsSchema } from "../validators/schemas";
+
+const StatsRouter = (deps: AppDeps) => {
+  const controller = new StatsController(deps)
+  const router = Router()
+
+  router.get("/users/:id/stats", validate(readUserStatsSchema), controller.user)
+  router.get("/admins/stats", requirePermission("stats.read"), validate(readSiteStatsSchema), controller.site)
+  return router
+}
+
+export {StatsRouter}
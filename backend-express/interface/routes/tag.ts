@@ -0,0 +1,16 @@
+import { Router } from "express";
+import { TagController } from "../controllers/tag";
+import { AppDeps } from "../config/deps";
+import { validate } from "../validators/validate";
+import { readTrendingTagsSchema } from "../validators/schemas";
+
+const TagRouter = (deps: AppDeps) => {
+  const controller = new TagController(deps)
+  const router = Router()
+
+  router.get("/tags", controller.readAll)
+  router.get("/tags/trending", validate(readTrendingTagsSchema), controller.trending)
+  return router
+}
+
+export {TagRouter}
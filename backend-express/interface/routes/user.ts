@@ -1,25 +1,56 @@
 import { Router } from "express";
 import { UserController } from "../controllers/user";
-
-const controller = new UserController();
-const NoAuthenticateRouter = Router();
-const UserRouter = Router();
-const AppRouter = Router();
-
-
-
-NoAuthenticateRouter.post("/login", controller.login);
-NoAuthenticateRouter.post("/signup", controller.register);
-
-AppRouter.get("/total", controller.countAll);
-
-
-
-UserRouter.get("/users/:type", controller.read);
-UserRouter.put("/users/:id", controller.update);
-
-
-UserRouter.get("/admins/users", controller.readAll);
-UserRouter.patch("/admins/banned/:id", controller.updateBanned);
+import { SessionController } from "../controllers/session";
+import { PasswordController } from "../controllers/password";
+import { EmailVerificationController } from "../controllers/verification";
+import { SuspensionController } from "../controllers/suspension";
+import { requirePermission } from "../controllers/auth";
+import { byEmail, byIp, rateLimit, requireNotLocked } from "../controllers/ratelimit";
+import { AppDeps } from "../config/deps";
+import { validate } from "../validators/validate";
+import { forgotPasswordSchema, loginSchema, readUserSchema, refreshTokenSchema, resendVerificationSchema, resetPasswordSchema, signupSchema, verifyEmailSchema, suspendUserSchema, updateUserSchema, userSuspensionsSchema } from "../validators/schemas";
+
+const NoAuthenticateRouter = (deps: AppDeps) => {
+  const controller = new UserController(deps);
+  const sessionController = new SessionController(deps);
+  const passwordController = new PasswordController(deps);
+  const emailVerificationController = new EmailVerificationController(deps);
+  const router = Router();
+
+  // El límite por IP va antes de validar para contar también las peticiones inválidas
+  router.post("/login", rateLimit(deps, 'loginIp', byIp), validate(loginSchema), rateLimit(deps, 'loginEmail', byEmail), requireNotLocked(deps), controller.login);
+  router.post("/signup", rateLimit(deps, 'signupIp', byIp), validate(signupSchema), rateLimit(deps, 'signupEmail', byEmail), controller.register);
+  router.post("/token/refresh", validate(refreshTokenSchema), sessionController.refresh);
+  router.post("/logout", validate(refreshTokenSchema), sessionController.logout);
+  router.post("/password/forgot", rateLimit(deps, 'passwordResetIp', byIp), validate(forgotPasswordSchema), rateLimit(deps, 'passwordResetEmail', byEmail), passwordController.forgot);
+  router.post("/password/reset", validate(resetPasswordSchema), passwordController.reset);
+  router.get("/verify-email", validate(verifyEmailSchema), emailVerificationController.verify);
+  router.post("/verify-email/resend", validate(resendVerificationSchema), rateLimit(deps, 'verificationEmail', byEmail), emailVerificationController.resend);
+  return router;
+};
+
+const AppRouter = (deps: AppDeps) => {
+  const controller = new UserController(deps);
+  const router = Router();
+
+  router.get("/total", controller.countAll);
+  return router;
+};
+
+const UserRouter = (deps: AppDeps) => {
+  const controller = new UserController(deps);
+  const suspensionController = new SuspensionController(deps);
+  const router = Router();
+
+  router.get("/users/:type", validate(readUserSchema), controller.read);
+  router.put("/users/:id", validate(updateUserSchema), controller.update);
+
+
+  router.get("/admins/users", requirePermission("user.read.all"), controller.readAll);
+  router.post("/admins/users/:id/suspensions", requirePermission("user.ban"), validate(suspendUserSchema), suspensionController.create);
+  router.get("/admins/users/:id/suspensions", requirePermission("user.ban"), validate(userSuspensionsSchema), suspensionController.readAll);
+  router.delete("/admins/users/:id/suspensions/active", requirePermission("user.ban"), validate(userSuspensionsSchema), suspensionController.lift);
+  return router;
+};
 
 export { UserRouter, NoAuthenticateRouter, AppRouter };
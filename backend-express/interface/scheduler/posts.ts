@@ -0,0 +1,31 @@
+import { Repositories } from "../config/repositories";
+import { PublishDuePostsAndNotify } from "../../../application/usecases/comp/notification";
+
+export type PostScheduler = {
+    // Publica ya los posts vencidos; si hay una vuelta en marcha devuelve esa
+    tick: () => Promise<void>;
+    stop: () => void;
+}
+
+/**
+ * Publica los posts programados cada `intervalMs` dentro del propio proceso.
+ * Los programados se guardan en la base de datos: al arrancar se publican enseguida los que han vencido con el servidor parado.
+ * Con `intervalMs` 0 solo se publican al llamar a `tick`.
+ */
+export const startPostScheduler = (repositories: Repositories, intervalMs: number): PostScheduler => {
+    const publish = new PublishDuePostsAndNotify(repositories.post, repositories.user, repositories.notification);
+    let running: Promise<void> | null = null;
+    const tick = () => {
+        // Una vuelta lenta no se solapa con la siguiente
+        running ??= publish.execute()
+            .then(() => undefined)
+            .catch((error) => console.error('Post scheduler failed:', error))
+            .finally(() => { running = null });
+        return running;
+    };
+    if (intervalMs <= 0) return { tick, stop: () => undefined };
+    void tick();
+    // `unref`: el temporizador no impide que el proceso termine
+    const timer = setInterval(tick, intervalMs).unref();
+    return { tick, stop: () => clearInterval(timer) };
+}
@@ -0,0 +1,449 @@
+import { ParamSchema, Schema } from "express-validator";
+import { MAX_TAGS_PER_POST, normalizeTag, TAG_PATTERN } from "../../../domain/entities/tag";
+import { POST_STATUSES } from "../../../domain/entities/post";
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES } from "../../../domain/entities/audit";
+import { MAX_SUSPENSION_REASON } from "../../../domain/entities/suspension";
+import { TRENDING_WINDOWS } from "../../../domain/entities/ranking";
+import { MAX_REPORT_DETAILS, REPORT_REASONS, REPORT_STATUSES, REPORT_TARGET_TYPES } from "../../../domain/entities/report";
+
+// Esquemas de validación de todas las rutas. Los esquemas de `body` también generan
+// los componentes `*Input` de Swagger (ver `toOpenApiSchema` en ./validate).
+
+const idParam = (name: string): ParamSchema => ({
+    in: ['params'],
+    isInt: { options: { min: 1 }, errorMessage: `${name} debe ser un entero positivo` },
+});
+
+const optionalInt = (name: string, min: number, max?: number): ParamSchema => ({
+    in: ['query'],
+    optional: true,
+    isInt: {
+        options: max === undefined ? { min } : { min, max },
+        errorMessage: max ? `${name} debe ser un entero entre ${min} y ${max}` : `${name} debe ser un entero mayor o igual que ${min}`,
+    },
+});
+
+const email: ParamSchema = {
+    in: ['body'],
+    isString: { errorMessage: 'El email es obligatorio' },
+    trim: true,
+    isEmail: { errorMessage: 'El email no es válido' },
+};
+
+const newPassword: ParamSchema = {
+    in: ['body'],
+    isString: { errorMessage: 'La contraseña es obligatoria' },
+    isLength: { options: { min: 8, max: 72 }, errorMessage: 'La contraseña debe tener entre 8 y 72 caracteres' },
+};
+
+// Tokens opacos de los enlaces de los emails y de las sesiones
+const token = (location: 'body' | 'query', message: string): ParamSchema => ({
+    in: [location],
+    isString: { errorMessage: message },
+    notEmpty: { errorMessage: message },
+});
+
+const name: ParamSchema = {
+    in: ['body'],
+    isString: { errorMessage: 'El nombre es obligatorio' },
+    trim: true,
+    isLength: { options: { min: 1, max: 50 }, errorMessage: 'El nombre debe tener entre 1 y 50 caracteres' },
+};
+
+const title: ParamSchema = {
+    in: ['body'],
+    isString: { errorMessage: 'El título es obligatorio' },
+    trim: true,
+    isLength: { options: { min: 1, max: 200 }, errorMessage: 'El título debe tener entre 1 y 200 caracteres' },
+};
+
+const content: ParamSchema = {
+    in: ['body'],
+    isString: { errorMessage: 'El contenido es obligatorio' },
+    trim: true,
+    isLength: { options: { min: 1, max: 10000 }, errorMessage: 'El contenido debe tener entre 1 y 10000 caracteres' },
+};
+
+const TAG_ERROR = 'Las etiquetas deben tener hasta 50 letras, números, _ o -'
+
+const tags: ParamSchema = {
+    in: ['body'],
+    optional: true,
+    isArray: { options: { max: MAX_TAGS_PER_POST }, errorMessage: `tags debe ser una lista de como mucho ${MAX_TAGS_PER_POST} etiquetas` },
+};
+
+// Cada etiqueta de `tags`, se guarda en minúsculas y sin `#`
+const tag: ParamSchema = {
+    in: ['body'],
+    isString: { errorMessage: TAG_ERROR },
+    customSanitizer: { options: (value) => typeof value === 'string' ? normalizeTag(value) : value },
+    matches: { options: TAG_PATTERN, errorMessage: TAG_ERROR },
+};
+
+export const signupSchema: Schema = {
+    name,
+    email,
+    password: newPassword,
+};
+
+export const loginSchema: Schema = {
+    email,
+    password: {
+        in: ['body'],
+        isString: { errorMessage: 'La contraseña es obligatoria' },
+        notEmpty: { errorMessage: 'La contraseña es obligatoria' },
+    },
+};
+
+export const refreshTokenSchema: Schema = {
+    refreshToken: token('body', 'El refresh token es obligatorio'),
+};
+
+export const forgotPasswordSchema: Schema = {
+    email,
+};
+
+// Mismas reglas de contraseña que al registrarse
+export const resetPasswordSchema: Schema = {
+    token: token('body', 'El token es obligatorio'),
+    password: newPassword,
+};
+
+export const verifyEmailSchema: Schema = {
+    token: token('query', 'El token es obligatorio'),
+};
+
+export const resendVerificationSchema: Schema = {
+    email,
+};
+
+export const readUserSchema: Schema = {
+    type: {
+        in: ['params'],
+        isIn: { options: [['id', 'email']], errorMessage: 'Tipo de búsqueda invalida, usa id o email' },
+    },
+    q: {
+        in: ['query'],
+        isString: { errorMessage: 'Parámetro de búsqueda no recibido' },
+        notEmpty: { errorMessage: 'Parámetro de búsqueda no recibido', bail: true },
+        custom: {
+            options: (value, { req }) => req.params?.type !== 'id' || /^[1-9]\d*$/.test(value),
+            errorMessage: 'El id debe ser un entero positivo',
+        },
+    },
+};
+
+export const updateUserSchema: Schema = {
+    id: idParam('id'),
+    name: { ...name, optional: true },
+    email: { ...email, optional: true },
+    password: { ...newPassword, optional: true },
+};
+
+const suspensionReason: ParamSchema = {
+    in: ['body'],
+    isString: { errorMessage: 'El motivo es obligatorio' },
+    trim: true,
+    isLength: { options: { min: 1, max: MAX_SUSPENSION_REASON }, errorMessage: `El motivo debe tener entre 1 y ${MAX_SUSPENSION_REASON} caracteres` },
+};
+
+// Sin endsAt (o con null) la suspensión es permanente
+const suspensionEndsAt: ParamSchema = {
+    in: ['body'],
+    optional: { options: { values: 'null' } },
+    isISO8601: { errorMessage: 'endsAt debe ser una fecha ISO 8601' },
+};
+
+export const suspendUserSchema: Schema = {
+    id: idParam('id'),
+    reason: suspensionReason,
+    endsAt: suspensionEndsAt,
+};
+
+export const userSuspensionsSchema: Schema = {
+    id: idParam('id'),
+};
+
+const status: ParamSchema = {
+    in: ['body'],
+    optional: true,
+    isIn: { options: [POST_STATUSES], errorMessage: `status debe ser ${POST_STATUSES.join(', ')}` },
+};
+
+const publishAt: ParamSchema = {
+    in: ['body'],
+    optional: true,
+    isISO8601: { errorMessage: 'publishAt debe ser una fecha ISO 8601' },
+};
+
+export const createPostSchema: Schema = {
+    title,
+    content,
+    authorName: { ...name, isString: { errorMessage: 'El nombre del autor es obligatorio' } },
+    tags,
+    'tags.*': tag,
+    status,
+    publishAt,
+};
+
+export const readPostsSchema: Schema = {
+    limit: optionalInt('limit', 1, 100),
+    cursor: optionalInt('cursor', 1),
+    // `?tag=a,b` o `?tag=a&tag=b`
+    tag: {
+        in: ['query'],
+        optional: true,
+        custom: {
+            options: (value) => [value].flat().every((item) =>
+                typeof item === 'string' && item.split(',').every((name) => TAG_PATTERN.test(normalizeTag(name)))),
+            errorMessage: TAG_ERROR,
+        },
+    },
+    tagMatch: {
+        in: ['query'],
+        optional: true,
+        isIn: { options: [['any', 'all']], errorMessage: 'tagMatch debe ser any o all' },
+    },
+};
+
+export const readTrendingPostsSchema: Schema = {
+    window: {
+        in: ['query'],
+        optional: true,
+        isIn: { options: [Object.keys(TRENDING_WINDOWS)], errorMessage: `window debe ser ${Object.keys(TRENDING_WINDOWS).join(', ')}` },
+    },
+    limit: optionalInt('limit', 1, 100),
+};
+
+export const updatePostSchema: Schema = {
+    id: idParam('id'),
+    title: { ...title, optional: true },
+    content: { ...content, optional: true },
+    tags,
+    'tags.*': tag,
+    status,
+    publishAt,
+    userId: {
+        in: ['body'],
+        isInt: { options: { min: 1 }, errorMessage: 'userId debe ser un entero positivo' },
+    },
+};
+
+export const deletePostSchema: Schema = {
+    id: idParam('id'),
+    type: {
+        in: ['query'],
+        isIn: { options: [['soft', 'hard']], errorMessage: 'El tipo de eliminación debe ser soft o hard' },
+    },
+};
+
+export const likePostSchema: Schema = {
+    id: idParam('id'),
+};
+
+export const readCommentsSchema: Schema = {
+    id: idParam('id'),
+    order: {
+        in: ['query'],
+        optional: true,
+        isIn: { options: [['newest', 'oldest']], errorMessage: 'El orden debe ser newest u oldest' },
+    },
+    page: optionalInt('page', 1),
+    limit: optionalInt('limit', 1, 100),
+    parentId: optionalInt('parentId', 1),
+};
+
+export const createCommentSchema: Schema = {
+    id: idParam('id'),
+    content,
+    parentId: {
+        in: ['body'],
+        optional: { options: { values: 'null' } },
+        isInt: { options: { min: 1 }, errorMessage: 'parentId debe ser un entero positivo' },
+    },
+};
+
+export const updateCommentSchema: Schema = {
+    id: idParam('id'),
+    commentId: idParam('commentId'),
+    content,
+};
+
+export const commentSchema: Schema = {
+    id: idParam('id'),
+    commentId: idParam('commentId'),
+};
+
+export const postRevisionsSchema: Schema = {
+    id: idParam('id'),
+};
+
+export const postRevisionSchema: Schema = {
+    id: idParam('id'),
+    rev: idParam('rev'),
+};
+
+export const searchPostsSchema: Schema = {
+    q: {
+        in: ['query'],
+        isString: { errorMessage: 'Parámetro de búsqueda no recibido' },
+        trim: true,
+        notEmpty: { errorMessage: 'Parámetro de búsqueda no recibido' },
+    },
+    limit: optionalInt('limit', 1, 100),
+    offset: optionalInt('offset', 0),
+};
+
+export const followSchema: Schema = {
+    id: idParam('id'),
+};
+
+export const readFollowsSchema: Schema = {
+    id: idParam('id'),
+    limit: optionalInt('limit', 1, 100),
+    cursor: optionalInt('cursor', 1),
+};
+
+export const readFeedSchema: Schema = {
+    limit: optionalInt('limit', 1, 100),
+    cursor: optionalInt('cursor', 1),
+};
+
+export const readDraftsSchema: Schema = {
+    limit: optionalInt('limit', 1, 100),
+    cursor: optionalInt('cursor', 1),
+};
+
+export const readNotificationsSchema: Schema = {
+    unread: {
+        in: ['query'],
+        optional: true,
+        isBoolean: { errorMessage: 'unread debe ser true o false' },
+    },
+    limit: optionalInt('limit', 1, 100),
+    cursor: optionalInt('cursor', 1),
+};
+
+export const notificationSchema: Schema = {
+    id: idParam('id'),
+};
+
+export const readTrendingTagsSchema: Schema = {
+    days: optionalInt('days', 1, 90),
+    limit: optionalInt('limit', 1, 100),
+};
+
+const optionalDate = (name: string): ParamSchema => ({
+    in: ['query'],
+    optional: true,
+    isISO8601: { errorMessage: `${name} debe ser una fecha ISO 8601` },
+});
+
+export const readAuditLogSchema: Schema = {
+    actorId: optionalInt('actorId', 1),
+    action: {
+        in: ['query'],
+        optional: true,
+        isIn: { options: [AUDIT_ACTIONS], errorMessage: `action debe ser ${AUDIT_ACTIONS.join(', ')}` },
+    },
+    targetType: {
+        in: ['query'],
+        optional: true,
+        isIn: { options: [AUDIT_TARGET_TYPES], errorMessage: `targetType debe ser ${AUDIT_TARGET_TYPES.join(', ')}` },
+    },
+    targetId: optionalInt('targetId', 1),
+    from: optionalDate('from'),
+    to: optionalDate('to'),
+    limit: optionalInt('limit', 1, 100),
+    cursor: optionalInt('cursor', 1),
+};
+
+export const createReportSchema: Schema = {
+    id: idParam('id'),
+    reason: {
+        in: ['body'],
+        isIn: { options: [REPORT_REASONS], errorMessage: `reason debe ser ${REPORT_REASONS.join(', ')}` },
+    },
+    details: {
+        in: ['body'],
+        optional: { options: { values: 'null' } },
+        isString: { errorMessage: 'Los detalles deben ser texto' },
+        trim: true,
+        isLength: { options: { max: MAX_REPORT_DETAILS }, errorMessage: `Los detalles no pueden superar los ${MAX_REPORT_DETAILS} caracteres` },
+    },
+};
+
+export const readReportsSchema: Schema = {
+    status: {
+        in: ['query'],
+        optional: true,
+        isIn: { options: [REPORT_STATUSES], errorMessage: `status debe ser ${REPORT_STATUSES.join(', ')}` },
+    },
+    targetType: {
+        in: ['query'],
+        optional: true,
+        isIn: { options: [REPORT_TARGET_TYPES], errorMessage: `targetType debe ser ${REPORT_TARGET_TYPES.join(' o ')}` },
+    },
+    limit: optionalInt('limit', 1, 100),
+    cursor: optionalInt('cursor', 1),
+};
+
+export const resolveReportSchema: Schema = {
+    id: idParam('id'),
+    status: {
+        in: ['body'],
+        isIn: { options: [['dismissed', 'actioned']], errorMessage: 'status debe ser dismissed o actioned' },
+    },
+    deletePost: {
+        in: ['body'],
+        optional: true,
+        isBoolean: { options: { strict: true }, errorMessage: 'deletePost debe ser true o false' },
+    },
+    // Misma suspensión que POST /admins/users/{id}/suspensions, para el autor
+    suspendAuthor: {
+        in: ['body'],
+        optional: true,
+        isObject: { errorMessage: 'suspendAuthor debe ser un objeto con reason y endsAt', bail: true },
+        custom: { options: (value: { reason?: unknown }) => value.reason !== undefined, errorMessage: 'El motivo es obligatorio' },
+    },
+    'suspendAuthor.reason': { ...suspensionReason, optional: true },
+    'suspendAuthor.endsAt': suspensionEndsAt,
+};
+
+export const attachmentsSchema: Schema = {
+    id: idParam('id'),
+};
+
+export const readUserStatsSchema: Schema = {
+    id: idParam('id'),
+};
+
+// Días UTC, sin hora
+const statsDay = (name: string): ParamSchema => ({
+    in: ['query'],
+    optional: true,
+    isDate: { options: { format: 'YYYY-MM-DD', strictMode: true }, errorMessage: `${name} debe ser una fecha YYYY-MM-DD` },
+});
+
+export const readSiteStatsSchema: Schema = {
+    from: statsDay('from'),
+    to: statsDay('to'),
+};
+
+// Cuerpos de petición documentados en Swagger como `#/components/schemas/<nombre>`
+export const bodySchemas: Record<string, Schema> = {
+    SignupInput: signupSchema,
+    LoginInput: loginSchema,
+    RefreshTokenInput: refreshTokenSchema,
+    ForgotPasswordInput: forgotPasswordSchema,
+    ResetPasswordInput: resetPasswordSchema,
+    ResendVerificationInput: resendVerificationSchema,
+    UpdateUserInput: updateUserSchema,
+    SuspendUserInput: suspendUserSchema,
+    CreateReportInput: createReportSchema,
+    ResolveReportInput: resolveReportSchema,
+    CreatePostInput: createPostSchema,
+    UpdatePostInput: updatePostSchema,
+    CreateCommentInput: createCommentSchema,
+    UpdateCommentInput: updateCommentSchema,
+};
@@ -0,0 +1,84 @@
+import { NextFunction, Request, Response } from "express";
+import { checkSchema, ParamSchema, Schema, validationResult } from "express-validator";
+import { FieldError, ValidationError } from "../../../domain/errors/main";
+
+/**
+ * @swagger
+ * components:
+ *   responses:
+ *     ValidationError:
+ *       description: Datos de entrada inválidos. Se devuelve el primer error de cada campo.
+ *       content:
+ *         application/problem+json:
+ *           schema:
+ *             $ref: '#/components/schemas/Problem'
+ *           example:
+ *             type: /problems/validation
+ *             title: Datos de entrada inválidos
+ *             status: 400
+ *             detail: Datos de entrada inválidos
+ *             instance: /posts
+ *             code: VALIDATION_FAILED
+ *             errors:
+ *               - field: title
+ *                 location: body
+ *                 message: El título es obligatorio
+ */
+
+/**
+ * Middleware que valida la petición con el esquema indicado.
+ * Si hay errores pasa un `ValidationError` con la lista de errores por campo y no llama al controlador.
+ *
+ * @param {Schema} schema - Esquema de ./schemas.
+ */
+export const validate = (schema: Schema) => {
+    const chains = checkSchema(schema);
+    return async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            await chains.run(req);
+            const errors = validationResult(req).array({ onlyFirstError: true }).map((error): FieldError => ({
+                field: error.type === 'field' ? error.path : error.type,
+                location: error.type === 'field' ? error.location : 'body',
+                message: String(error.msg),
+            }));
+            next(errors.length ? new ValidationError('Datos de entrada inválidos', errors) : undefined);
+        } catch (error) {
+            next(error);
+        }
+    };
+};
+
+const openApiProperty = (param: ParamSchema) => {
+    if (param.isArray) {
+        const options = typeof param.isArray === 'object' ? param.isArray.options : undefined;
+        const max = options && !Array.isArray(options) ? options.max : undefined;
+        return { type: 'array', items: { type: 'string' }, ...(max !== undefined && { maxItems: max }) };
+    }
+    const property: Record<string, unknown> = { type: param.isInt ? 'integer' : param.isBoolean ? 'boolean' : param.isObject ? 'object' : 'string' };
+    const values = typeof param.isIn === 'object' ? param.isIn.options : undefined;
+    if (Array.isArray(values) && Array.isArray(values[0])) property.enum = values[0];
+    if (param.isEmail) property.format = 'email';
+    const length = typeof param.isLength === 'object' ? param.isLength.options : undefined;
+    if (length && !Array.isArray(length)) {
+        if (length.min !== undefined) property.minLength = length.min;
+        if (length.max !== undefined) property.maxLength = length.max;
+    }
+    if (param.optional && typeof param.optional === 'object') property.nullable = true;
+    return property;
+};
+
+/**
+ * Convierte los campos de `body` de un esquema de validación en un esquema OpenAPI,
+ * así la documentación de Swagger no se desincroniza de la validación.
+ */
+export const toOpenApiSchema = (schema: Schema) => {
+    const properties: Record<string, unknown> = {};
+    const required: string[] = [];
+    for (const [field, param] of Object.entries(schema)) {
+        // Los elementos de las listas (`tags.*`) se documentan en `items`
+        if (!param.in?.includes('body') || field.includes('.')) continue;
+        properties[field] = openApiProperty(param);
+        if (!param.optional) required.push(field);
+    }
+    return { type: 'object', properties, ...(required.length ? { required } : {}) };
+};
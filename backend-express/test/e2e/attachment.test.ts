@@ -0,0 +1,128 @@
+import request from "supertest";
+import sharp from "../../../infrastructure/node_modules/sharp";
+import { e2e, TestApp } from "./setup";
+
+const setup = e2e();
+
+describe('Attachments e2e', () => {
+  let t: TestApp;
+  let author: { id: number; token: string };
+  let other: { id: number; token: string };
+  let postId: number;
+  let png: Buffer;
+
+  const upload = (token: string, body: Buffer, filename = 'foto.png', id = postId) =>
+    request(t.app).post(`/posts/${id}/attachments`).set('Authorization', `Bearer ${token}`).attach('file', body, filename);
+
+  beforeAll(async () => {
+    png = await sharp({ create: { width: 800, height: 600, channels: 3, background: '#3366cc' } }).png().toBuffer();
+  });
+
+  beforeEach(async () => {
+    t = await setup();
+    author = await t.signup('autor@example.com', 'Autor');
+    other = await t.signup('otro@example.com', 'Otro');
+    const post = await request(t.app).post('/posts').set('Authorization', `Bearer ${author.token}`)
+      .send({ title: 'Post', content: 'Contenido', authorName: 'Autor' }).expect(201);
+    postId = post.body.id;
+  });
+
+  it('should upload an image with a thumbnail and serve both without authentication', async () => {
+    const res = await upload(author.token, png).expect(201);
+
+    expect(res.body).toMatchObject({ postId, filename: 'foto.png', mimeType: 'image/png', size: png.length });
+    const file = await request(t.app).get(`/files/${res.body.key}`).expect(200);
+    expect(file.headers['content-type']).toBe('image/png');
+    expect(file.headers['cache-control']).toContain('private');
+    expect(Buffer.compare(file.body, png)).toBe(0);
+    const thumbnail = await request(t.app).get(`/files/${res.body.thumbnailKey}`).expect(200);
+    expect(thumbnail.headers['content-type']).toBe('image/webp');
+    expect(await sharp(thumbnail.body).metadata()).toMatchObject({ width: 320, height: 240 });
+
+    const list = await request(t.app).get(`/posts/${postId}/attachments`).set('Authorization', `Bearer ${other.token}`).expect(200);
+    expect(list.body.map((attachment: { id: number }) => attachment.id)).toEqual([res.body.id]);
+  });
+
+  it('should validate the uploaded file', async () => {
+    const wrongType = await upload(author.token, Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>'), 'foto.png').expect(400);
+    expect(wrongType.body.code).toBe('UNSUPPORTED_FILE_TYPE');
+    const tooLarge = await upload(author.token, Buffer.concat([png, Buffer.alloc(1024 * 1024)])).expect(400);
+    expect(tooLarge.body.code).toBe('FILE_TOO_LARGE');
+    await request(t.app).post(`/posts/${postId}/attachments`).set('Authorization', `Bearer ${author.token}`).field('title', 'Sin fichero').expect(400);
+    await upload(author.token, png, 'foto.png', 999).expect(404);
+    await upload(other.token, png).expect(403);
+    expect(await t.repositories.attachment.countByPost(postId)).toBe(0);
+  });
+
+  it('should only list the attachments of drafts and deleted posts to their author and moderators', async () => {
+    const moderator = await t.signup('moderador@example.com', 'Moderador');
+    await t.setRole(moderator.id, 'MODERATOR');
+    const draft = await request(t.app).post('/posts').set('Authorization', `Bearer ${author.token}`)
+      .send({ title: 'Borrador', content: 'Contenido', authorName: 'Autor', status: 'draft' }).expect(201);
+    await upload(author.token, png, 'foto.png', draft.body.id).expect(201);
+    await upload(author.token, png).expect(201);
+    await request(t.app).delete(`/posts/${postId}?type=soft`).set('Authorization', `Bearer ${author.token}`).expect(200);
+    const list = (token: string, id: number) =>
+      request(t.app).get(`/posts/${id}/attachments`).set('Authorization', `Bearer ${token}`);
+
+    for (const id of [draft.body.id, postId]) {
+      await list(other.token, id).expect(404);
+      expect((await list(author.token, id).expect(200)).body).toHaveLength(1);
+      expect((await list(moderator.token, id).expect(200)).body).toHaveLength(1);
+    }
+    await list(other.token, 999).expect(404);
+  });
+
+  it('should only serve the files of hidden and deleted posts to their author and moderators', async () => {
+    const moderator = await t.signup('moderador@example.com', 'Moderador');
+    await t.setRole(moderator.id, 'MODERATOR');
+    const reporters = [await t.signup('a@example.com'), await t.signup('b@example.com'), await t.signup('c@example.com')];
+    const { key, thumbnailKey } = (await upload(author.token, png).expect(201)).body;
+    const deletedPost = await request(t.app).post('/posts').set('Authorization', `Bearer ${author.token}`)
+      .send({ title: 'Eliminado', content: 'Contenido', authorName: 'Autor' }).expect(201);
+    const deleted = (await upload(author.token, png, 'foto.png', deletedPost.body.id).expect(201)).body.key;
+
+    // Tres denuncias (el umbral de los tests) ocultan el post
+    for (const reporter of reporters) {
+      await request(t.app).post(`/posts/${postId}/report`).set('Authorization', `Bearer ${reporter.token}`).send({ reason: 'spam' }).expect(201);
+    }
+    await request(t.app).delete(`/posts/${deletedPost.body.id}?type=soft`).set('Authorization', `Bearer ${author.token}`).expect(200);
+
+    for (const fileKey of [key, thumbnailKey, deleted]) {
+      await request(t.app).get(`/files/${fileKey}`).expect(404);
+      await request(t.app).get(`/files/${fileKey}`).set('Authorization', `Bearer ${other.token}`).expect(404);
+      await request(t.app).get(`/files/${fileKey}?access_token=${author.token}`).expect(200);
+      await request(t.app).get(`/files/${fileKey}`).set('Authorization', `Bearer ${moderator.token}`).expect(200);
+    }
+    await request(t.app).get(`/files/${key}?access_token=invalido`).expect(401);
+  });
+
+  it('should limit the uploads per user', async () => {
+    t = await setup({ rateLimits: { limits: { uploads: { limit: 1, windowMs: 60_000 } }, loginLockout: null } });
+    author = await t.signup('autor@example.com', 'Autor');
+    postId = (await request(t.app).post('/posts').set('Authorization', `Bearer ${author.token}`)
+      .send({ title: 'Post', content: 'Contenido', authorName: 'Autor' }).expect(201)).body.id;
+
+    await upload(author.token, png).expect(201);
+    const limited = await upload(author.token, png);
+
+    expect(limited.status).toBe(429);
+    expect(await t.repositories.attachment.countByPost(postId)).toBe(1);
+  });
+
+  it('should not serve unknown keys nor paths', async () => {
+    await request(t.app).get('/files/00000000-0000-0000-0000-000000000000.png').expect(404);
+    await request(t.app).get('/files/..%2F..%2Fetc%2Fpasswd').expect(404);
+  });
+
+  it('should delete the files when the post is hard deleted', async () => {
+    const admin = await t.signup('admin@example.com', 'Admin');
+    await t.setRole(admin.id, 'ADMIN');
+    const { key, thumbnailKey } = (await upload(author.token, png).expect(201)).body;
+
+    await request(t.app).delete(`/posts/${postId}?type=hard`).set('Authorization', `Bearer ${admin.token}`).expect(200);
+
+    await request(t.app).get(`/files/${key}`).expect(404);
+    await request(t.app).get(`/files/${thumbnailKey}`).expect(404);
+  });
+});
@@ -0,0 +1,79 @@
+import request from "supertest";
+import { e2e, TestApp } from "./setup";
+
+const setup = e2e();
+
+describe('Audit log e2e', () => {
+  let t: TestApp;
+  let admin: { id: number; token: string };
+  let moderator: { id: number; token: string };
+  let author: { id: number; token: string };
+
+  const audit = (token: string, query = '') =>
+    request(t.app).get(`/admins/audit${query}`).set('Authorization', `Bearer ${token}`);
+
+  const createPost = async (token: string) =>
+    (await request(t.app).post('/posts').set('Authorization', `Bearer ${token}`)
+      .send({ title: 'Post', content: 'Contenido', authorName: 'Autor' })).body.id as number;
+
+  beforeEach(async () => {
+    t = await setup();
+    admin = await t.signup('admin@example.com', 'Admin');
+    moderator = await t.signup('mod@example.com', 'Mod');
+    author = await t.signup('autor@example.com', 'Autor');
+    await t.setRole(admin.id, 'ADMIN');
+    await t.setRole(moderator.id, 'MODERATOR');
+  });
+
+  it('should record suspensions and moderation of posts of other users', async () => {
+    const own = await createPost(author.token);
+    const moderated = await createPost(author.token);
+    const removed = await createPost(author.token);
+
+    await request(t.app).delete(`/posts/${own}?type=soft`).set('Authorization', `Bearer ${author.token}`).expect(200);
+    await request(t.app).delete(`/posts/${moderated}?type=soft`).set('Authorization', `Bearer ${moderator.token}`).expect(200);
+    await request(t.app).delete(`/posts/${removed}?type=hard`).set('Authorization', `Bearer ${admin.token}`).expect(200);
+    await request(t.app).post(`/admins/users/${author.id}/suspensions`).set('Authorization', `Bearer ${moderator.token}`).send({ reason: 'Spam' }).expect(201);
+
+    const res = await audit(admin.token);
+
+    expect(res.status).toBe(200);
+    expect(res.body.nextCursor).toBeNull();
+    expect(res.body.entries.map((entry: { action: string; actorId: number; targetId: number }) => [entry.action, entry.actorId, entry.targetId])).toEqual([
+      ['user.ban', moderator.id, author.id],
+      ['post.hardDelete', admin.id, removed],
+      ['post.softDelete', moderator.id, moderated],
+    ]);
+    const [ban, hardDelete] = res.body.entries;
+    expect(ban.before).toBeNull();
+    expect(ban.after).toMatchObject({ userId: author.id, reason: 'Spam', endsAt: null });
+    expect(ban.ip).toEqual(expect.any(String));
+    expect(hardDelete).toMatchObject({ targetType: 'post', before: { id: removed, authorId: author.id }, after: null });
+  });
+
+  it('should filter the entries', async () => {
+    const postId = await createPost(author.token);
+    await request(t.app).delete(`/posts/${postId}?type=soft`).set('Authorization', `Bearer ${moderator.token}`);
+    await request(t.app).delete(`/posts/${postId}?type=soft`).set('Authorization', `Bearer ${admin.token}`);
+    await request(t.app).post(`/admins/users/${author.id}/suspensions`).set('Authorization', `Bearer ${admin.token}`).send({ reason: 'Spam' });
+
+    const byActor = await audit(admin.token, `?actorId=${admin.id}`);
+    const byAction = await audit(admin.token, '?action=post.restore');
+    const byTarget = await audit(admin.token, `?targetType=post&targetId=${postId}`);
+    const future = await audit(admin.token, `?from=${encodeURIComponent(new Date(Date.now() + 60_000).toISOString())}`);
+
+    expect(byActor.body.entries.map((entry: { action: string }) => entry.action)).toEqual(['user.ban', 'post.restore']);
+    expect(byAction.body.entries).toHaveLength(1);
+    expect(byTarget.body.entries.map((entry: { action: string }) => entry.action)).toEqual(['post.restore', 'post.softDelete']);
+    expect(future.body.entries).toEqual([]);
+  });
+
+  it('should only be available to admins and validate the filters', async () => {
+    const forbidden = await audit(moderator.token);
+    const invalid = await audit(admin.token, '?action=post.edit&from=ayer');
+
+    expect(forbidden.status).toBe(403);
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.errors.map((error: { field: string }) => error.field)).toEqual(['action', 'from']);
+  });
+});
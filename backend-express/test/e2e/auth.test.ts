@@ -0,0 +1,130 @@
+import request from "supertest";
+import { e2e, TestApp } from "./setup";
+
+const setup = e2e();
+
+describe('Auth e2e', () => {
+  let t: TestApp;
+
+  beforeEach(async () => {
+    t = await setup();
+  });
+
+  it('should sign up a user and send the verification email', async () => {
+    const res = await request(t.app).post('/signup').send({ name: 'Ana', email: 'ana@example.com', password: 'password123' });
+
+    expect(res.status).toBe(201);
+    expect(res.body).toMatchObject({ email: 'ana@example.com', name: 'Ana', role: 'USER', banned: false, emailVerified: false });
+    expect(t.outbox).toHaveLength(1);
+    expect(t.outbox[0].to).toBe('ana@example.com');
+    expect(t.outbox[0].text).toContain('http://api.test/verify-email?token=');
+  });
+
+  it('should ask to verify the email again after changing it', async () => {
+    const ana = await t.signup('ana@example.com', 'Ana');
+    const verify = (message: number) =>
+      request(t.app).get(`/verify-email?token=${new URL(t.outbox[message].text.match(/http\S+/)![0]).searchParams.get('token')}`);
+    const changeEmail = (email: string) =>
+      request(t.app).put(`/users/${ana.id}`).set('Authorization', `Bearer ${ana.token}`).send({ email }).expect(200);
+    await verify(0).expect(200);
+
+    expect((await changeEmail('ana@example.org')).body).toMatchObject({ email: 'ana@example.org', emailVerified: false });
+    await changeEmail('ana@example.net');
+    expect(t.outbox.map((message) => message.to)).toEqual(['ana@example.com', 'ana@example.org', 'ana@example.net']);
+
+    // El enlace enviado a la dirección anterior ya no sirve
+    await verify(1).expect(400);
+    await verify(2).expect(200);
+    expect((await t.repositories.user.readById(ana.id))?.emailVerified).toBe(true);
+    await request(t.app).put(`/users/${ana.id}`).set('Authorization', `Bearer ${ana.token}`).send({ name: 'Ana María', email: 'ana@example.net' }).expect(200);
+    expect(t.outbox).toHaveLength(3);
+    expect((await t.repositories.user.readById(ana.id))?.emailVerified).toBe(true);
+  });
+
+  it('should reset the password with the emailed token and the signup password rules', async () => {
+    await t.signup('ana@example.com', 'Ana');
+    await request(t.app).post('/password/forgot').send({ email: 'ana@example.com' }).expect(202);
+    const token = new URL(t.outbox[1].text.match(/http\S+/)![0]).searchParams.get('token');
+
+    const short = await request(t.app).post('/password/reset').send({ token, password: 'corta' }).expect(400);
+    expect(short.body.errors).toEqual([expect.objectContaining({ field: 'password', location: 'body' })]);
+    await request(t.app).post('/password/reset').send({ password: 'nueva-contraseña' }).expect(400);
+    await request(t.app).post('/password/reset').send({ token, password: 'nueva-contraseña' }).expect(204);
+
+    await request(t.app).post('/login').send({ email: 'ana@example.com', password: 'nueva-contraseña' }).expect(200);
+    await request(t.app).post('/password/reset').send({ token, password: 'otra-contraseña' }).expect(400);
+  });
+
+  it('should reject a duplicated email with 409', async () => {
+    await t.signup('ana@example.com');
+
+    const res = await request(t.app).post('/signup').send({ name: 'Otra', email: 'ana@example.com', password: 'password123' });
+
+    expect(res.status).toBe(409);
+    expect(res.type).toBe('application/problem+json');
+  });
+
+  it('should reject invalid signup input with the field errors', async () => {
+    const res = await request(t.app).post('/signup').send({ name: 'Ana', email: 'no-es-un-email', password: 'corta' });
+
+    expect(res.status).toBe(400);
+    expect(res.body.code).toBe('VALIDATION_FAILED');
+    expect(res.body.errors.map((error: { field: string }) => error.field).sort()).toEqual(['email', 'password']);
+  });
+
+  it('should log in with valid credentials only', async () => {
+    await t.signup('ana@example.com');
+
+    const ok = await request(t.app).post('/login').send({ email: 'ana@example.com', password: 'password123' });
+    const ko = await request(t.app).post('/login').send({ email: 'ana@example.com', password: 'otra-password' });
+
+    expect(ok.status).toBe(200);
+    expect(ok.body).toEqual({ token: expect.any(String), refreshToken: expect.any(String) });
+    expect(ko.status).toBe(401);
+    expect(ko.body.code).toBe('INVALID_CREDENTIALS');
+  });
+
+  it('should require a valid token on authenticated routes', async () => {
+    const missing = await request(t.app).get('/users/id?q=1');
+    const invalid = await request(t.app).get('/users/id?q=1').set('Authorization', 'Bearer no-es-un-jwt');
+
+    expect(missing.status).toBe(401);
+    expect(missing.body.code).toBe('TOKEN_MISSING');
+    expect(invalid.status).toBe(401);
+    expect(invalid.body.code).toBe('TOKEN_INVALID');
+  });
+
+  it('should validate the session, password and verification requests', async () => {
+    const field = async (req: request.Test) => (await req.expect(400)).body.errors.map((error: { field: string }) => error.field);
+
+    expect(await field(request(t.app).post('/token/refresh').send({}))).toEqual(['refreshToken']);
+    expect(await field(request(t.app).post('/logout').send({ refreshToken: 42 }))).toEqual(['refreshToken']);
+    expect(await field(request(t.app).post('/password/forgot').send({ email: 'no-es-un-email' }))).toEqual(['email']);
+    expect(await field(request(t.app).get('/verify-email'))).toEqual(['token']);
+    expect(await field(request(t.app).post('/verify-email/resend').send({}))).toEqual(['email']);
+    expect(t.outbox).toHaveLength(0);
+  });
+
+  it('should answer malformed and too large bodies with a 4xx problem', async () => {
+    const malformed = await request(t.app).post('/login').set('Content-Type', 'application/json').send('{"email": ');
+    const tooLarge = await request(t.app).post('/login').send({ email: 'ana@example.com', password: 'x'.repeat(200_000) });
+
+    expect(malformed.status).toBe(400);
+    expect(malformed.type).toBe('application/problem+json');
+    expect(malformed.body).toMatchObject({ type: '/problems/validation', code: 'MALFORMED_BODY', instance: '/login' });
+    expect(tooLarge.status).toBe(413);
+    expect(tooLarge.body).toMatchObject({ type: '/problems/payload-too-large', code: 'PAYLOAD_TOO_LARGE', status: 413 });
+  });
+
+  it('should revoke the access token on logout', async () => {
+    await t.signup('ana@example.com');
+    const login = await request(t.app).post('/login').send({ email: 'ana@example.com', password: 'password123' });
+
+    await request(t.app).get('/popularity').set('Authorization', `Bearer ${login.body.token}`).expect(200);
+    await request(t.app).post('/logout').send({ refreshToken: login.body.refreshToken }).expect(204);
+    const res = await request(t.app).get('/popularity').set('Authorization', `Bearer ${login.body.token}`);
+
+    expect(res.status).toBe(401);
+    expect(res.body.code).toBe('SESSION_REVOKED');
+  });
+});
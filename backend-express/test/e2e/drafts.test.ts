@@ -0,0 +1,73 @@
+import request from "supertest";
+import { e2e, TestApp } from "./setup";
+import { startPostScheduler } from "../../interface/scheduler/posts";
+
+const setup = e2e();
+
+describe('Drafts and scheduled posts e2e', () => {
+  let t: TestApp;
+  let author: { id: number; token: string };
+  let reader: { id: number; token: string };
+
+  const createPost = (token: string, body: Record<string, unknown>) =>
+    request(t.app).post('/posts').set('Authorization', `Bearer ${token}`)
+      .send({ title: 'Post', content: 'Contenido', authorName: 'Autor', ...body });
+
+  const listed = async (token: string, path = '/posts/fecha-desc') =>
+    (await request(t.app).get(path).set('Authorization', `Bearer ${token}`).expect(200)).body.posts.map((post: { id: number }) => post.id);
+
+  beforeEach(async () => {
+    t = await setup();
+    author = await t.signup('autor@example.com', 'Autor');
+    reader = await t.signup('lector@example.com', 'Lector');
+  });
+
+  it('should keep drafts and scheduled posts out of the listings', async () => {
+    const published = (await createPost(author.token, {}).expect(201)).body;
+    const draft = (await createPost(author.token, { status: 'draft' }).expect(201)).body;
+    const scheduled = (await createPost(author.token, { publishAt: new Date(Date.now() + 3_600_000).toISOString() }).expect(201)).body;
+
+    expect(published.status).toBe('published');
+    expect(draft).toMatchObject({ status: 'draft', publishAt: null });
+    expect(scheduled.status).toBe('scheduled');
+    expect(await listed(reader.token)).toEqual([published.id]);
+    expect(await listed(author.token, '/me/drafts')).toEqual([scheduled.id, draft.id]);
+    expect(await listed(reader.token, '/me/drafts')).toEqual([]);
+    await request(t.app).post(`/posts/${draft.id}/comments`).set('Authorization', `Bearer ${reader.token}`).send({ content: 'Hola' }).expect(404);
+    await request(t.app).get(`/posts/${draft.id}/comments`).set('Authorization', `Bearer ${reader.token}`).expect(404);
+    await request(t.app).get(`/posts/${draft.id}/comments`).set('Authorization', `Bearer ${author.token}`).expect(200);
+  });
+
+  it('should publish a draft and reject unpublishing it', async () => {
+    const draft = (await createPost(author.token, { status: 'draft' }).expect(201)).body;
+    const update = (body: Record<string, unknown>) =>
+      request(t.app).put(`/posts/${draft.id}`).set('Authorization', `Bearer ${author.token}`).send({ userId: author.id, ...body });
+
+    // Un estado no válido no guarda tampoco la edición
+    await update({ title: 'Cambiado', status: 'scheduled' }).expect(400);
+    expect(await t.repositories.post.readById(draft.id)).toMatchObject({ title: draft.title, status: 'draft' });
+    const res = await update({ title: 'Publicado', status: 'published' }).expect(200);
+
+    expect(res.body).toMatchObject({ title: 'Publicado', status: 'published' });
+    expect(await listed(reader.token)).toEqual([draft.id]);
+    await update({ title: 'Otra vez borrador', status: 'draft' }).expect(409);
+    expect(await t.repositories.post.readById(draft.id)).toMatchObject({ title: 'Publicado', status: 'published' });
+  });
+
+  it('should publish the due scheduled posts when the scheduler starts', async () => {
+    const scheduled = (await createPost(author.token, { content: `Hola @[Lector](${reader.id})`, publishAt: new Date(Date.now() + 3_600_000).toISOString() }).expect(201)).body;
+    // Como si la fecha hubiera pasado con el servidor parado
+    const publishAt = new Date(Date.now() - 60_000);
+    await t.repositories.post.update(scheduled.id, { publishAt });
+
+    const scheduler = startPostScheduler(t.repositories, 0);
+    await scheduler.tick();
+    scheduler.stop();
+
+    const posts = (await request(t.app).get('/posts/fecha-desc').set('Authorization', `Bearer ${reader.token}`).expect(200)).body.posts;
+    expect(posts).toEqual([expect.objectContaining({ id: scheduled.id, status: 'published', publishAt: null, date: publishAt.toISOString() })]);
+    expect(await listed(author.token, '/me/drafts')).toEqual([]);
+    const notifications = await request(t.app).get('/notifications').set('Authorization', `Bearer ${reader.token}`).expect(200);
+    expect(JSON.stringify(notifications.body)).toContain('mention');
+  });
+});
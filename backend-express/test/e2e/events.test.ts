@@ -0,0 +1,130 @@
+import http from "http";
+import { AddressInfo } from "net";
+import request from "supertest";
+import { e2e, TestApp } from "./setup";
+
+const setup = e2e();
+
+type Frame = { id?: string; event?: string; data?: unknown };
+
+describe('Live events e2e', () => {
+  let t: TestApp;
+  let server: http.Server;
+  let author: { id: number; token: string };
+  const streams: http.ClientRequest[] = [];
+
+  beforeEach(async () => {
+    t = await setup();
+    author = await t.signup('autor@example.com', 'Autor');
+    server = http.createServer(t.app);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+  });
+
+  afterEach(async () => {
+    streams.splice(0).forEach((stream) => stream.destroy());
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  // Abre GET /events y devuelve una función que espera hasta tener `count` eventos
+  const open = (path: string, headers: Record<string, string> = {}) => new Promise<(count: number) => Promise<Frame[]>>((resolve, reject) => {
+    const { port } = server.address() as AddressInfo;
+    const frames: Frame[] = [];
+    const waiting: (() => void)[] = [];
+    let buffer = '';
+    const stream = http.get({ port, path, headers }, (res) => {
+      if (res.statusCode !== 200) return reject(new Error(`GET /events returned ${res.statusCode}`));
+      res.setEncoding('utf8');
+      res.on('data', (chunk: string) => {
+        buffer += chunk;
+        const blocks = buffer.split('\n\n');
+        buffer = blocks.pop() ?? '';
+        for (const block of blocks) {
+          const frame: Frame = {};
+          for (const line of block.split('\n')) {
+            const [field, ...rest] = line.split(': ');
+            if (field === 'id' || field === 'event') frame[field] = rest.join(': ');
+            if (field === 'data') frame.data = JSON.parse(rest.join(': '));
+          }
+          if (frame.event) frames.push(frame);
+        }
+        waiting.splice(0).forEach((wake) => wake());
+      });
+      resolve(async (count) => {
+        while (frames.length < count) await new Promise<void>((wake) => waiting.push(wake));
+        return frames.slice(0, count);
+      });
+    });
+    stream.on('error', reject);
+    streams.push(stream);
+  });
+
+  const createPost = (title: string) =>
+    request(t.app).post('/posts').set('Authorization', `Bearer ${author.token}`).send({ title, content: 'Contenido', authorName: 'Autor' });
+
+  it('should require a valid token in the header or the query', async () => {
+    const res = await request(t.app).get('/events');
+
+    expect(res.status).toBe(401);
+    expect(res.body.code).toBe('TOKEN_MISSING');
+  });
+
+  it('should push post and like events to the connected clients', async () => {
+    const next = await open(`/events?access_token=${author.token}`);
+
+    const post = await createPost('En directo');
+    await request(t.app).post(`/likepost/${post.body.id}`).set('Authorization', `Bearer ${author.token}`);
+    await request(t.app).delete(`/posts/${post.body.id}?type=soft`).set('Authorization', `Bearer ${author.token}`);
+
+    const frames = await next(3);
+    expect(frames.map((frame) => frame.event)).toEqual(['post.created', 'like.created', 'post.deleted']);
+    expect(frames[0].data).toMatchObject({ id: post.body.id, title: 'En directo', authorId: author.id });
+    expect(frames[1].data).toEqual({ postId: post.body.id, userId: author.id, likes: 1 });
+    expect(frames[2].data).toEqual({ id: post.body.id, authorId: author.id, hard: false });
+  });
+
+  it('should announce hidden and deleted posts as deleted and not broadcast their later edits', async () => {
+    const reporters = [await t.signup('a@example.com'), await t.signup('b@example.com'), await t.signup('c@example.com')];
+    const edit = (id: number, content: string) =>
+      request(t.app).put(`/posts/${id}`).set('Authorization', `Bearer ${author.token}`).send({ content, userId: author.id });
+    const hidden = (await createPost('Oculto')).body.id;
+    const deleted = (await createPost('Eliminado')).body.id;
+    const next = await open(`/events?access_token=${author.token}`);
+
+    // Tres denuncias (el umbral de los tests) ocultan el post
+    for (const reporter of reporters) {
+      await request(t.app).post(`/posts/${hidden}/report`).set('Authorization', `Bearer ${reporter.token}`).send({ reason: 'spam' }).expect(201);
+    }
+    await edit(hidden, 'Contenido oculto').expect(200);
+    await request(t.app).delete(`/posts/${deleted}?type=soft`).set('Authorization', `Bearer ${author.token}`).expect(200);
+    await t.repositories.post.update(deleted, { content: 'Contenido eliminado' });
+    await t.repositories.post.update(deleted, { hidden: false });
+    await createPost('Marcador');
+
+    const frames = await next(3);
+    expect(frames.map((frame) => frame.event)).toEqual(['post.deleted', 'post.deleted', 'post.created']);
+    expect(frames[0].data).toEqual({ id: hidden, authorId: author.id, hard: false });
+    expect(frames[1].data).toEqual({ id: deleted, authorId: author.id, hard: false });
+    expect(JSON.stringify(frames)).not.toContain('Contenido oculto');
+    expect(JSON.stringify(frames)).not.toContain('Contenido eliminado');
+  });
+
+  it('should replay the events missed since Last-Event-ID', async () => {
+    const first = await open('/events', { Authorization: `Bearer ${author.token}` });
+    await createPost('Uno');
+    const [created] = await first(1);
+    await createPost('Dos');
+    await createPost('Tres');
+
+    const next = await open('/events', { Authorization: `Bearer ${author.token}`, 'Last-Event-ID': created.id! });
+
+    const frames = await next(2);
+    expect(frames.map((frame) => (frame.data as { title: string }).title)).toEqual(['Dos', 'Tres']);
+  });
+
+  it('should ask the client to reload when the missed events are unknown', async () => {
+    const next = await open('/events', { Authorization: `Bearer ${author.token}`, 'Last-Event-ID': '999' });
+
+    const [reset] = await next(1);
+    expect(reset).toEqual({ id: '', event: 'stream.reset', data: {} });
+  });
+});
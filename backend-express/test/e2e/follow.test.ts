@@ -0,0 +1,73 @@
+import request from "supertest";
+import { e2e, TestApp } from "./setup";
+
+const setup = e2e();
+
+describe('Follows e2e', () => {
+  let t: TestApp;
+  let reader: { id: number; token: string };
+  let author: { id: number; token: string };
+
+  const createPost = (token: string, title: string) =>
+    request(t.app).post('/posts').set('Authorization', `Bearer ${token}`).send({ title, content: `Contenido de ${title}`, authorName: 'Autor' });
+
+  beforeEach(async () => {
+    t = await setup();
+    reader = await t.signup('lector@example.com', 'Lector');
+    author = await t.signup('autor@example.com', 'Autor');
+  });
+
+  it('should follow and unfollow a user idempotently', async () => {
+    const follow = await request(t.app).post(`/users/${author.id}/follow`).set('Authorization', `Bearer ${reader.token}`);
+    const again = await request(t.app).post(`/users/${author.id}/follow`).set('Authorization', `Bearer ${reader.token}`);
+    const unfollow = await request(t.app).delete(`/users/${author.id}/follow`).set('Authorization', `Bearer ${reader.token}`);
+
+    expect(follow.status).toBe(200);
+    expect(follow.body).toEqual({ userId: author.id, following: true, followers: 1 });
+    expect(again.body).toEqual({ userId: author.id, following: true, followers: 1 });
+    expect(unfollow.body).toEqual({ userId: author.id, following: false, followers: 0 });
+  });
+
+  it('should reject following yourself or an unknown user', async () => {
+    const self = await request(t.app).post(`/users/${reader.id}/follow`).set('Authorization', `Bearer ${reader.token}`);
+    const unknown = await request(t.app).post('/users/999/follow').set('Authorization', `Bearer ${reader.token}`);
+
+    expect(self.status).toBe(400);
+    expect(self.body.code).toBe('CANNOT_FOLLOW_SELF');
+    expect(unknown.status).toBe(404);
+  });
+
+  it('should list followers and followed users with counts', async () => {
+    await request(t.app).post(`/users/${author.id}/follow`).set('Authorization', `Bearer ${reader.token}`);
+
+    const followers = await request(t.app).get(`/users/${author.id}/followers`).set('Authorization', `Bearer ${reader.token}`);
+    const following = await request(t.app).get(`/users/${reader.id}/following`).set('Authorization', `Bearer ${reader.token}`);
+
+    expect(followers.status).toBe(200);
+    expect(followers.body).toMatchObject({ count: 1, users: [{ id: reader.id, name: 'Lector' }], nextCursor: null });
+    expect(followers.body.users[0]).not.toHaveProperty('email');
+    expect(following.body).toMatchObject({ count: 1, users: [{ id: author.id, name: 'Autor' }] });
+  });
+
+  it('should show in the feed only the visible posts of followed authors', async () => {
+    const banned = await t.signup('baneado@example.com', 'Baneado');
+    const stranger = await t.signup('otro@example.com', 'Otro');
+    await request(t.app).post(`/users/${author.id}/follow`).set('Authorization', `Bearer ${reader.token}`);
+    await request(t.app).post(`/users/${banned.id}/follow`).set('Authorization', `Bearer ${reader.token}`);
+    await createPost(author.token, 'Primero');
+    const removed = (await createPost(author.token, 'Eliminado')).body;
+    await request(t.app).delete(`/posts/${removed.id}?type=soft`).set('Authorization', `Bearer ${author.token}`);
+    await createPost(banned.token, 'Baneado');
+    await t.repositories.suspension.create({ userId: banned.id, issuedById: null, reason: 'Spam', startsAt: new Date(), endsAt: null });
+    await createPost(stranger.token, 'Ajeno');
+    await createPost(author.token, 'Segundo');
+
+    const first = await request(t.app).get('/feed?limit=1').set('Authorization', `Bearer ${reader.token}`);
+    const second = await request(t.app).get(`/feed?limit=1&cursor=${first.body.nextCursor}`).set('Authorization', `Bearer ${reader.token}`);
+
+    expect(first.status).toBe(200);
+    expect(first.body.posts.map((post: { title: string }) => post.title)).toEqual(['Segundo']);
+    expect(second.body.posts.map((post: { title: string }) => post.title)).toEqual(['Primero']);
+    expect(second.body.nextCursor).toBeNull();
+  });
+});
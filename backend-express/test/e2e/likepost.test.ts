@@ -0,0 +1,72 @@
+import request from "supertest";
+import { e2e, TestApp } from "./setup";
+
+const setup = e2e();
+
+describe('Likes and popularity e2e', () => {
+  let t: TestApp;
+  let author: { id: number; token: string };
+  let fan: { id: number; token: string };
+  let postId: number;
+
+  beforeEach(async () => {
+    t = await setup();
+    author = await t.signup('autor@example.com', 'Autor');
+    fan = await t.signup('fan@example.com', 'Fan');
+    const post = await request(t.app).post('/posts').set('Authorization', `Bearer ${author.token}`).send({ title: 'Post', content: 'Contenido', authorName: 'Autor' });
+    postId = post.body.id;
+  });
+
+  it('should like a post only once', async () => {
+    const first = await request(t.app).post(`/likepost/${postId}`).set('Authorization', `Bearer ${fan.token}`);
+    const second = await request(t.app).post(`/likepost/${postId}`).set('Authorization', `Bearer ${fan.token}`);
+
+    expect(first.status).toBe(201);
+    expect(first.body).toEqual({ postId, liked: true, likes: 1 });
+    expect(second.body).toEqual({ postId, liked: true, likes: 1 });
+  });
+
+  it('should not like deleted or draft posts', async () => {
+    const draft = await request(t.app).post('/posts').set('Authorization', `Bearer ${author.token}`)
+      .send({ title: 'Borrador', content: 'Contenido', authorName: 'Autor', status: 'draft' }).expect(201);
+    await request(t.app).delete(`/posts/${postId}?type=soft`).set('Authorization', `Bearer ${author.token}`).expect(200);
+
+    await request(t.app).post(`/likepost/${draft.body.id}`).set('Authorization', `Bearer ${fan.token}`).expect(404);
+    await request(t.app).post(`/likepost/${postId}`).set('Authorization', `Bearer ${fan.token}`).expect(404);
+    expect(await t.repositories.notification.countUnread(author.id)).toBe(0);
+  });
+
+  it('should remove a like', async () => {
+    await request(t.app).post(`/likepost/${postId}`).set('Authorization', `Bearer ${fan.token}`);
+
+    const res = await request(t.app).delete(`/likepost/${postId}`).set('Authorization', `Bearer ${fan.token}`);
+    const again = await request(t.app).delete(`/likepost/${postId}`).set('Authorization', `Bearer ${fan.token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ postId, liked: false, likes: 0 });
+    expect(again.status).toBe(200);
+    expect(again.body).toEqual({ postId, liked: false, likes: 0 });
+  });
+
+  it('should return the likes and the decayed score', async () => {
+    await request(t.app).post(`/likepost/${postId}`).set('Authorization', `Bearer ${fan.token}`);
+
+    const res = await request(t.app).get('/popularity').set('Authorization', `Bearer ${author.token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual([{ id: postId, likes: 1, score: expect.any(Number) }]);
+    expect(res.body[0].score).toBeCloseTo(1 / Math.pow(2, 1.8), 3);
+  });
+
+  it('should list the trending posts of the window', async () => {
+    const other = await request(t.app).post('/posts').set('Authorization', `Bearer ${fan.token}`).send({ title: 'Otro', content: 'Contenido', authorName: 'Fan' });
+    await request(t.app).post(`/likepost/${postId}`).set('Authorization', `Bearer ${fan.token}`);
+
+    const res = await request(t.app).get('/posts/trending?window=7d').set('Authorization', `Bearer ${author.token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual([expect.objectContaining({ id: postId, likesCount: 1, score: expect.any(Number) })]);
+    expect(res.body.some((post: { id: number }) => post.id === other.body.id)).toBe(false);
+    await request(t.app).get('/posts/trending?window=1y').set('Authorization', `Bearer ${author.token}`).expect(400);
+  });
+});
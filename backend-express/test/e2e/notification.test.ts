@@ -0,0 +1,72 @@
+import request from "supertest";
+import { e2e, TestApp } from "./setup";
+
+const setup = e2e();
+
+describe('Notifications e2e', () => {
+  let t: TestApp;
+  let author: { id: number; token: string };
+  let postId: number;
+
+  const notifications = (token: string, query = '') =>
+    request(t.app).get(`/notifications${query}`).set('Authorization', `Bearer ${token}`);
+
+  beforeEach(async () => {
+    t = await setup();
+    author = await t.signup('autor@example.com', 'Autor');
+    const post = await request(t.app).post('/posts').set('Authorization', `Bearer ${author.token}`)
+      .send({ title: 'Post', content: 'Contenido', authorName: 'Autor' });
+    postId = post.body.id;
+  });
+
+  it('should collapse the likes of a post into one notification', async () => {
+    const fans = [await t.signup('a@example.com', 'Ana'), await t.signup('b@example.com', 'Bea'), await t.signup('c@example.com', 'Carla')];
+    for (const fan of fans) await request(t.app).post(`/likepost/${postId}`).set('Authorization', `Bearer ${fan.token}`);
+    // Quitar y volver a dar like no suma otro usuario, aunque otros hayan dado like entre medias
+    for (const fan of [fans[2], fans[0]]) {
+      await request(t.app).delete(`/likepost/${postId}`).set('Authorization', `Bearer ${fan.token}`);
+      await request(t.app).post(`/likepost/${postId}`).set('Authorization', `Bearer ${fan.token}`);
+    }
+
+    const res = await notifications(author.token);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({
+      unreadCount: 1,
+      nextCursor: null,
+      notifications: [{ type: 'like', postId, actorId: fans[2].id, count: 3, read: false, message: 'Carla y 2 más han dado me gusta a tu post' }],
+    });
+  });
+
+  it('should notify comments, follows and mentions', async () => {
+    const ana = await t.signup('ana@example.com', 'Ana');
+    const bea = await t.signup('bea@example.com', 'Bea');
+    await request(t.app).post(`/posts/${postId}/comments`).set('Authorization', `Bearer ${ana.token}`).send({ content: `Hola @[Bea](${bea.id})` });
+    await request(t.app).post(`/users/${author.id}/follow`).set('Authorization', `Bearer ${ana.token}`);
+
+    const forAuthor = await notifications(author.token);
+    const forBea = await notifications(bea.token);
+
+    expect(forAuthor.body.notifications.map((n: { type: string }) => n.type).sort()).toEqual(['comment', 'follow']);
+    expect(forBea.body.notifications).toEqual([expect.objectContaining({ type: 'mention', actorName: 'Ana', message: 'Ana te ha mencionado' })]);
+  });
+
+  it('should mark one or all notifications as read', async () => {
+    const ana = await t.signup('ana@example.com', 'Ana');
+    await request(t.app).post(`/likepost/${postId}`).set('Authorization', `Bearer ${ana.token}`);
+    await request(t.app).post(`/users/${author.id}/follow`).set('Authorization', `Bearer ${ana.token}`);
+    const [latest] = (await notifications(author.token)).body.notifications;
+
+    const read = await request(t.app).post(`/notifications/${latest.id}/read`).set('Authorization', `Bearer ${author.token}`);
+    const foreign = await request(t.app).post(`/notifications/${latest.id}/read`).set('Authorization', `Bearer ${ana.token}`);
+    const unread = await notifications(author.token, '?unread=true');
+    const all = await request(t.app).post('/notifications/read-all').set('Authorization', `Bearer ${author.token}`);
+
+    expect(read.body).toMatchObject({ id: latest.id, read: true });
+    expect(foreign.status).toBe(404);
+    expect(unread.body.unreadCount).toBe(1);
+    expect(unread.body.notifications).toHaveLength(1);
+    expect(all.body).toEqual({ updated: 1 });
+    expect((await notifications(author.token)).body.unreadCount).toBe(0);
+  });
+});
@@ -0,0 +1,115 @@
+import request from "supertest";
+import { e2e, TestApp } from "./setup";
+
+const setup = e2e();
+
+describe('Posts e2e', () => {
+  let t: TestApp;
+  let author: { id: number; token: string };
+  let other: { id: number; token: string };
+
+  const createPost = (token: string, title = 'Post') =>
+    request(t.app).post('/posts').set('Authorization', `Bearer ${token}`).send({ title, content: `Contenido de ${title}`, authorName: 'Autor' });
+
+  beforeEach(async () => {
+    t = await setup();
+    author = await t.signup('autor@example.com', 'Autor');
+    other = await t.signup('otro@example.com', 'Otro');
+  });
+
+  it('should create a post for the authenticated user', async () => {
+    const res = await createPost(author.token);
+
+    expect(res.status).toBe(201);
+    expect(res.body).toMatchObject({ title: 'Post', content: 'Contenido de Post', authorId: author.id, deleted: false });
+  });
+
+  it('should reject a post without title', async () => {
+    const res = await request(t.app).post('/posts').set('Authorization', `Bearer ${author.token}`).send({ content: 'Sin título', authorName: 'Autor' });
+
+    expect(res.status).toBe(400);
+    expect(res.body.errors).toEqual([expect.objectContaining({ field: 'title', location: 'body' })]);
+  });
+
+  it('should list the posts page in the given order', async () => {
+    await createPost(author.token, 'b');
+    await createPost(author.token, 'a');
+
+    const res = await request(t.app).get('/posts/nombre-asc').set('Authorization', `Bearer ${author.token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.posts.map((post: { title: string }) => post.title)).toEqual(['a', 'b']);
+    expect(res.body.nextCursor).toBeNull();
+  });
+
+  it('should let only the author update a post', async () => {
+    const post = (await createPost(author.token)).body;
+
+    const ok = await request(t.app).put(`/posts/${post.id}`).set('Authorization', `Bearer ${author.token}`).send({ title: 'Editado', userId: author.id });
+    const ko = await request(t.app).put(`/posts/${post.id}`).set('Authorization', `Bearer ${other.token}`).send({ title: 'Ajeno', userId: author.id });
+
+    expect(ok.status).toBe(200);
+    expect(ok.body).toMatchObject({ id: post.id, title: 'Editado' });
+    expect(ko.status).toBe(403);
+  });
+
+  describe('soft delete', () => {
+    it('should let the author soft delete their post', async () => {
+      const post = (await createPost(author.token)).body;
+
+      const res = await request(t.app).delete(`/posts/${post.id}?type=soft`).set('Authorization', `Bearer ${author.token}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body).toMatchObject({ id: post.id, deleted: true });
+    });
+
+    it('should forbid soft deleting the post of another user', async () => {
+      const post = (await createPost(author.token)).body;
+
+      const res = await request(t.app).delete(`/posts/${post.id}?type=soft`).set('Authorization', `Bearer ${other.token}`);
+
+      expect(res.status).toBe(403);
+      expect(res.body.code).toBe('FORBIDDEN');
+    });
+
+    it('should let a moderator soft delete any post', async () => {
+      const post = (await createPost(author.token)).body;
+      await t.setRole(other.id, 'MODERATOR');
+
+      const res = await request(t.app).delete(`/posts/${post.id}?type=soft`).set('Authorization', `Bearer ${other.token}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body).toMatchObject({ id: post.id, deleted: true });
+    });
+  });
+
+  describe('hard delete', () => {
+    it('should forbid hard deleting even to the author', async () => {
+      const post = (await createPost(author.token)).body;
+
+      const res = await request(t.app).delete(`/posts/${post.id}?type=hard`).set('Authorization', `Bearer ${author.token}`);
+
+      expect(res.status).toBe(403);
+      expect(await t.repositories.post.readById(post.id)).not.toBeNull();
+    });
+
+    it('should let an admin hard delete a post', async () => {
+      const post = (await createPost(author.token)).body;
+      await t.setRole(other.id, 'ADMIN');
+
+      const res = await request(t.app).delete(`/posts/${post.id}?type=hard`).set('Authorization', `Bearer ${other.token}`);
+
+      expect(res.status).toBe(200);
+      expect(await t.repositories.post.readById(post.id)).toBeNull();
+    });
+
+    it('should return 404 for an unknown post', async () => {
+      await t.setRole(other.id, 'ADMIN');
+
+      const res = await request(t.app).delete('/posts/999999?type=hard').set('Authorization', `Bearer ${other.token}`);
+
+      expect(res.status).toBe(404);
+      expect(res.body.code).toBe('POST_NOT_FOUND');
+    });
+  });
+});
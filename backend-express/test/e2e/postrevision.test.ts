@@ -0,0 +1,90 @@
+import request from "supertest";
+import { e2e, TestApp } from "./setup";
+
+const setup = e2e();
+
+describe('Post revisions e2e', () => {
+  let t: TestApp;
+  let author: { id: number; token: string };
+  let other: { id: number; token: string };
+  let postId: number;
+
+  const edit = (content: string) =>
+    request(t.app).put(`/posts/${postId}`).set('Authorization', `Bearer ${author.token}`).send({ content, userId: author.id });
+
+  beforeEach(async () => {
+    t = await setup();
+    author = await t.signup('autor@example.com', 'Autor');
+    other = await t.signup('otro@example.com', 'Otro');
+    const post = await request(t.app).post('/posts').set('Authorization', `Bearer ${author.token}`).send({ title: 'Post', content: 'Original', authorName: 'Autor' });
+    postId = post.body.id;
+  });
+
+  it('should mark the post as edited and keep the previous versions', async () => {
+    const created = await request(t.app).get(`/posts/${postId}/revisions`).set('Authorization', `Bearer ${author.token}`);
+    const first = await edit('Primera edición');
+    await edit('Segunda edición');
+
+    const res = await request(t.app).get(`/posts/${postId}/revisions`).set('Authorization', `Bearer ${author.token}`);
+
+    expect(created.body).toEqual([]);
+    expect(first.body).toMatchObject({ content: 'Primera edición', editedAt: expect.any(String), updatedAt: expect.any(String) });
+    expect(res.status).toBe(200);
+    expect(res.body.map((revision: { rev: number; content: string }) => [revision.rev, revision.content])).toEqual([[1, 'Original'], [2, 'Primera edición']]);
+    expect(res.body[0].editorId).toBe(author.id);
+  });
+
+  it('should return the diff of an edit', async () => {
+    await edit('Original\nAñadido');
+
+    const res = await request(t.app).get(`/posts/${postId}/revisions/1/diff`).set('Authorization', `Bearer ${author.token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({
+      postId,
+      rev: 1,
+      toRev: null,
+      title: [{ op: 'equal', text: 'Post' }],
+      content: [{ op: 'delete', text: 'Original' }, { op: 'insert', text: 'Original\nAñadido' }],
+    });
+  });
+
+  it('should show the history to moderators but not to other users', async () => {
+    await edit('Editado');
+    const forbidden = await request(t.app).get(`/posts/${postId}/revisions`).set('Authorization', `Bearer ${other.token}`);
+    await t.setRole(other.id, 'MODERATOR');
+    const allowed = await request(t.app).get(`/posts/${postId}/revisions/1/diff`).set('Authorization', `Bearer ${other.token}`);
+
+    expect(forbidden.status).toBe(403);
+    expect(allowed.status).toBe(200);
+  });
+
+  it('should let an admin restore a revision, keeping the replaced version', async () => {
+    await edit('Spam');
+    await t.setRole(other.id, 'ADMIN');
+
+    const res = await request(t.app).post(`/posts/${postId}/revisions/1/restore`).set('Authorization', `Bearer ${other.token}`);
+    const revisions = await request(t.app).get(`/posts/${postId}/revisions`).set('Authorization', `Bearer ${author.token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ id: postId, content: 'Original' });
+    expect(revisions.body.map((revision: { content: string; editorId: number }) => [revision.content, revision.editorId]))
+      .toEqual([['Original', author.id], ['Spam', other.id]]);
+    const audit = await request(t.app).get('/admins/audit?action=post.revisionRestore').set('Authorization', `Bearer ${other.token}`);
+    expect(audit.body.entries).toEqual([expect.objectContaining({
+      actorId: other.id, targetType: 'post', targetId: postId, before: expect.objectContaining({ content: 'Spam' }), after: expect.objectContaining({ content: 'Original' }), ip: expect.any(String),
+    })]);
+  });
+
+  it('should forbid restoring to a moderator and return 404 for unknown revisions', async () => {
+    await edit('Editado');
+    await t.setRole(other.id, 'MODERATOR');
+
+    const forbidden = await request(t.app).post(`/posts/${postId}/revisions/1/restore`).set('Authorization', `Bearer ${other.token}`);
+    const missing = await request(t.app).get(`/posts/${postId}/revisions/9/diff`).set('Authorization', `Bearer ${author.token}`);
+
+    expect(forbidden.status).toBe(403);
+    expect(missing.status).toBe(404);
+    expect(missing.body.code).toBe('POST_REVISION_NOT_FOUND');
+  });
+});
@@ -0,0 +1,100 @@
+import request from "supertest";
+import { e2e, TestApp } from "./setup";
+
+const setup = e2e();
+
+const login = (t: TestApp, email: string, password: string) =>
+  request(t.app).post('/login').send({ email, password });
+
+describe('Rate limiting e2e', () => {
+  it('should limit the logins per IP and answer with Retry-After', async () => {
+    const t = await setup({ rateLimits: { limits: { loginIp: { limit: 2, windowMs: 60_000 } }, loginLockout: null } });
+
+    const first = await login(t, 'a@example.com', 'password123');
+    await login(t, 'b@example.com', 'password123');
+    const third = await login(t, 'c@example.com', 'password123');
+
+    expect(first.status).toBe(401);
+    expect(first.headers['ratelimit-limit']).toBe('2');
+    expect(first.headers['ratelimit-remaining']).toBe('1');
+    expect(third.status).toBe(429);
+    expect(third.body.code).toBe('RATE_LIMITED');
+    expect(Number(third.headers['retry-after'])).toBeGreaterThan(0);
+  });
+
+  it('should limit the signups per email', async () => {
+    const t = await setup({ rateLimits: { limits: { signupEmail: { limit: 1, windowMs: 60_000 } }, loginLockout: null } });
+
+    await request(t.app).post('/signup').send({ name: 'Ana', email: 'ana@example.com', password: 'password123' }).expect(201);
+    const again = await request(t.app).post('/signup').send({ name: 'Ana', email: ' ANA@example.com', password: 'password123' });
+    const other = await request(t.app).post('/signup').send({ name: 'Otra', email: 'otra@example.com', password: 'password123' });
+
+    expect(again.status).toBe(429);
+    expect(other.status).toBe(201);
+  });
+
+  it('should limit the password reset emails per address, whether the account exists or not', async () => {
+    const t = await setup({ rateLimits: { limits: { passwordResetEmail: { limit: 1, windowMs: 60_000 } }, loginLockout: null } });
+    await t.signup('ana@example.com');
+    const forgot = (email: string) => request(t.app).post('/password/forgot').send({ email });
+
+    await forgot('ana@example.com').expect(202);
+    await forgot('nadie@example.com').expect(202);
+
+    expect((await forgot('ana@example.com')).status).toBe(429);
+    expect((await forgot('nadie@example.com')).status).toBe(429);
+    expect(t.outbox.filter((message) => message.subject === 'Restablecer contraseña')).toHaveLength(1);
+  });
+
+  it('should limit the verification emails per address without revealing which accounts exist', async () => {
+    const t = await setup({ rateLimits: { limits: { verificationEmail: { limit: 1, windowMs: 60_000 } }, loginLockout: null } });
+    await t.signup('ana@example.com');
+    const resend = (email: string) => request(t.app).post('/verify-email/resend').send({ email });
+
+    for (const email of ['ana@example.com', 'nadie@example.com']) {
+      await resend(email).expect(202);
+      expect((await resend(email)).status).toBe(429);
+    }
+    expect(t.outbox.map((message) => message.to)).toEqual(['ana@example.com', 'ana@example.com']);
+  });
+
+  it('should lock an account after repeated failed logins, even with the right password', async () => {
+    const t = await setup({ rateLimits: { limits: {}, loginLockout: { threshold: 3, windowMs: 60_000, baseMs: 60_000, maxMs: 600_000 } } });
+    await t.signup('ana@example.com');
+
+    for (let i = 0; i < 3; i++) await login(t, 'ana@example.com', 'otra-password').expect(401);
+    const locked = await login(t, 'ana@example.com', 'password123');
+    const other = await login(t, 'otra@example.com', 'otra-password');
+
+    expect(locked.status).toBe(429);
+    expect(locked.body.code).toBe('ACCOUNT_LOCKED');
+    expect(Number(locked.headers['retry-after'])).toBe(60);
+    expect(other.status).toBe(401);
+  });
+
+  it('should reset the failed logins after a successful one', async () => {
+    const t = await setup({ rateLimits: { limits: {}, loginLockout: { threshold: 3, windowMs: 60_000, baseMs: 60_000, maxMs: 600_000 } } });
+    await t.signup('ana@example.com');
+
+    for (let i = 0; i < 2; i++) await login(t, 'ana@example.com', 'otra-password').expect(401);
+    await login(t, 'ana@example.com', 'password123').expect(200);
+    const res = await login(t, 'ana@example.com', 'otra-password');
+
+    expect(res.status).toBe(401);
+  });
+
+  it('should limit the posts per user', async () => {
+    const t = await setup({ rateLimits: { limits: { posts: { limit: 1, windowMs: 60_000 } }, loginLockout: null } });
+    const author = await t.signup('autor@example.com');
+    const other = await t.signup('otro@example.com');
+    const createPost = (token: string) =>
+      request(t.app).post('/posts').set('Authorization', `Bearer ${token}`).send({ title: 'Post', content: 'Contenido', authorName: 'Autor' });
+
+    await createPost(author.token).expect(201);
+    const limited = await createPost(author.token);
+    const allowed = await createPost(other.token);
+
+    expect(limited.status).toBe(429);
+    expect(allowed.status).toBe(201);
+  });
+});
@@ -0,0 +1,104 @@
+import request from "supertest";
+import { e2e, TestApp } from "./setup";
+
+const setup = e2e();
+
+describe('Reports e2e', () => {
+  let t: TestApp;
+  let moderator: { id: number; token: string };
+  let author: { id: number; token: string };
+  let reporters: { id: number; token: string }[];
+  let postId: number;
+
+  const report = (token: string, id = postId, body: object = { reason: 'spam' }) =>
+    request(t.app).post(`/posts/${id}/report`).set('Authorization', `Bearer ${token}`).send(body);
+
+  const queue = (token: string, query = '') =>
+    request(t.app).get(`/admins/reports${query}`).set('Authorization', `Bearer ${token}`);
+
+  const resolve = (id: number, body: object) =>
+    request(t.app).post(`/admins/reports/${id}/resolve`).set('Authorization', `Bearer ${moderator.token}`).send(body);
+
+  const listed = async () =>
+    (await request(t.app).get('/posts/fecha-desc').set('Authorization', `Bearer ${author.token}`)).body.posts.map((post: { id: number }) => post.id);
+
+  beforeEach(async () => {
+    t = await setup();
+    moderator = await t.signup('mod@example.com', 'Mod');
+    author = await t.signup('autor@example.com', 'Autor');
+    reporters = [await t.signup('a@example.com'), await t.signup('b@example.com'), await t.signup('c@example.com')];
+    await t.setRole(moderator.id, 'MODERATOR');
+    postId = (await request(t.app).post('/posts').set('Authorization', `Bearer ${author.token}`)
+      .send({ title: 'Post', content: 'Contenido', authorName: 'Autor' })).body.id;
+  });
+
+  it('should report posts and users and list them in the queue', async () => {
+    const res = await report(reporters[0].token, postId, { reason: 'spam', details: 'Enlaces a una tienda' });
+
+    expect(res.status).toBe(201);
+    expect(res.body).toMatchObject({ reporterId: reporters[0].id, targetType: 'post', targetId: postId, reason: 'spam', details: 'Enlaces a una tienda', status: 'open' });
+    await report(reporters[0].token).expect(409);
+    await report(author.token).expect(400);
+    await report(reporters[1].token, 999).expect(404);
+    await request(t.app).post(`/users/${author.id}/report`).set('Authorization', `Bearer ${reporters[1].token}`).send({ reason: 'harassment' }).expect(201);
+
+    const open = await queue(moderator.token, '?status=open');
+    expect(open.status).toBe(200);
+    expect(open.body.reports.map((r: { targetType: string }) => r.targetType)).toEqual(['post', 'user']);
+    expect((await queue(moderator.token, '?targetType=user')).body.reports).toHaveLength(1);
+    await queue(reporters[0].token).expect(403);
+  });
+
+  it('should validate the report', async () => {
+    const res = await report(reporters[0].token, postId, { reason: 'aburrido' });
+
+    expect(res.status).toBe(400);
+    expect(res.body.errors.map((error: { field: string }) => error.field)).toEqual(['reason']);
+  });
+
+  it('should hide the post at the threshold until a moderator dismisses the reports', async () => {
+    await report(reporters[0].token).expect(201);
+    await report(reporters[1].token).expect(201);
+    expect(await listed()).toEqual([postId]);
+
+    const third = await report(reporters[2].token).expect(201);
+    expect(await listed()).toEqual([]);
+
+    const res = await resolve(third.body.id, { status: 'dismissed' });
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ status: 'dismissed', resolvedById: moderator.id });
+    expect((await queue(moderator.token, '?status=dismissed')).body.reports).toHaveLength(3);
+    expect(await listed()).toEqual([postId]);
+    await resolve(third.body.id, { status: 'dismissed' }).expect(409);
+  });
+
+  it('should delete the post and suspend the author in the same step', async () => {
+    const created = await report(reporters[0].token).expect(201);
+
+    const res = await resolve(created.body.id, {
+      status: 'actioned',
+      deletePost: true,
+      suspendAuthor: { reason: 'Spam reiterado', endsAt: null },
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.body.status).toBe('actioned');
+    const post = await request(t.app).get('/posts/fecha-desc').set('Authorization', `Bearer ${moderator.token}`);
+    expect(post.body.posts).toEqual([expect.objectContaining({ id: postId, deleted: true })]);
+    const suspensions = await request(t.app).get(`/admins/users/${author.id}/suspensions`).set('Authorization', `Bearer ${moderator.token}`);
+    expect(suspensions.body).toEqual([expect.objectContaining({ reason: 'Spam reiterado', endsAt: null, issuedById: moderator.id })]);
+    const audit = await t.repositories.auditLog.read({ limit: 10 });
+    expect(audit.entries.map((entry) => entry.action)).toEqual(['report.action', 'post.softDelete', 'user.ban']);
+  });
+
+  it('should reject invalid resolutions', async () => {
+    const created = await report(reporters[0].token).expect(201);
+
+    const missingReason = await resolve(created.body.id, { status: 'actioned', suspendAuthor: {} });
+    expect(missingReason.status).toBe(400);
+    expect(missingReason.body.errors.map((error: { field: string }) => error.field)).toEqual(['suspendAuthor']);
+    await resolve(created.body.id, { status: 'open' }).expect(400);
+    await resolve(created.body.id, { status: 'dismissed', deletePost: true }).expect(400);
+    await resolve(999, { status: 'dismissed' }).expect(404);
+  });
+});
@@ -0,0 +1,109 @@
+import { execSync } from "child_process";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import request from "supertest";
+import { Application } from "express";
+import { PrismaClient } from "../../../infrastructure/node_modules/@prisma/client";
+import { createApp } from "../../app";
+import { MemoryDb } from "../../../infrastructure/connectors/memory-db";
+import { AppConfig, AppDeps } from "../../interface/config/deps";
+import { createRepositories, Repositories, RepositoryDriver, withEvents } from "../../interface/config/repositories";
+import { InMemoryEventBus } from "../../../infrastructure/events/memory-bus";
+import { InMemoryRateLimitStore } from "../../../infrastructure/repositories/memory-ratelimit";
+import { LocalFileStorage } from "../../../infrastructure/storage/local-storage";
+import { SharpThumbnailGenerator } from "../../../infrastructure/images/sharp-thumbnails";
+import { MailMessage } from "../../../application/repositories/mailer";
+import { Role } from "../../../domain/entities/role";
+import { DEFAULT_RANKING } from "../../../domain/entities/ranking";
+
+// Base de datos SQLite temporal con todas las migraciones aplicadas, compartida por todo el fichero de tests.
+// Si no se puede crear los tests fallan, salvo con TEST_MEMORY_FALLBACK=true, que usa los repositorios en memoria
+const migrate = (): RepositoryDriver => {
+  const tempDir = mkdtempSync(join(tmpdir(), 'hexa-e2e-'));
+  const databaseUrl = `file:${join(tempDir, 'e2e.db')}`;
+  try {
+    execSync('npx prisma migrate deploy --schema=./prisma/schema.prisma', {
+      cwd: join(__dirname, '../../../infrastructure'),
+      env: { ...process.env, DATABASE_URL: databaseUrl },
+      stdio: 'pipe',
+      timeout: 120000,
+    });
+    process.env.DATABASE_URL = databaseUrl;
+    afterAll(() => rmSync(tempDir, { recursive: true, force: true }));
+    return 'prisma';
+  } catch (error) {
+    rmSync(tempDir, { recursive: true, force: true });
+    const reason = `migrate deploy failed: ${error instanceof Error ? error.message.split('\n')[0] : error}`;
+    // Solo si se pide expresamente (p.ej. sin red para descargar los motores de Prisma), así no se dejan de probar los adaptadores de Prisma sin darse cuenta
+    if (process.env.TEST_MEMORY_FALLBACK !== 'true') {
+      throw new Error(`E2E tests need the Prisma database, ${reason}. Set TEST_MEMORY_FALLBACK=true to run them on memory repositories`);
+    }
+    console.warn(`E2E tests running on memory repositories, ${reason}`);
+    return 'memory';
+  }
+};
+
+export type TestApp = {
+  app: Application;
+  repositories: Repositories;
+  outbox: MailMessage[];
+  signup: (email: string, name?: string) => Promise<{ id: number; token: string }>;
+  setRole: (userId: number, role: Role) => Promise<void>;
+};
+
+/**
+ * Prepara la base de datos y devuelve `setup`, que crea una aplicación sobre una base de datos vacía.
+ * Llamar una vez por fichero, fuera de los `describe`. Por defecto el rate limiting está desactivado.
+ */
+export const e2e = () => {
+  const driver = migrate();
+  const prisma = driver === 'prisma' ? new PrismaClient() : null;
+  const prismaRepositories = driver === 'prisma' ? createRepositories('prisma') : null;
+  const filesDir = mkdtempSync(join(tmpdir(), 'hexa-e2e-files-'));
+  afterAll(async () => {
+    await prisma?.$disconnect();
+    rmSync(filesDir, { recursive: true, force: true });
+  });
+
+  return async (config: Partial<AppConfig> = {}): Promise<TestApp> => {
+    // Borrar los usuarios elimina en cascada sus sesiones, posts, likes y comentarios
+    await prisma?.user.deleteMany();
+    const repos = prismaRepositories ? { ...prismaRepositories, rateLimit: new InMemoryRateLimitStore(new MemoryDb()) } : createRepositories('memory');
+    const outbox: MailMessage[] = [];
+    const events = new InMemoryEventBus();
+    const deps: AppDeps = {
+      repositories: withEvents(repos, events),
+      mailer: { send: async (message) => { outbox.push(message) } },
+      events,
+      fileStorage: new LocalFileStorage(filesDir),
+      thumbnails: new SharpThumbnailGenerator(),
+      config: {
+        jwtSecret: 'e2e-secret',
+        appUrl: 'http://app.test',
+        apiUrl: 'http://api.test',
+        emailVerificationRequired: false,
+        rateLimits: { limits: {}, loginLockout: null },
+        reportHideThreshold: 3,
+        ranking: DEFAULT_RANKING,
+        rankingCacheMs: 0,
+        postSchedulerMs: 0,
+        maxUploadBytes: 1024 * 1024,
+        trustProxy: false,
+        ...config,
+      },
+    };
+    const app = createApp(deps);
+
+    const signup = async (email: string, name = 'User') => {
+      const created = await request(app).post('/signup').send({ name, email, password: 'password123' }).expect(201);
+      const login = await request(app).post('/login').send({ email, password: 'password123' }).expect(200);
+      return { id: created.body.id as number, token: login.body.token as string };
+    };
+    const setRole = async (userId: number, role: Role) => {
+      await repos.user.update(userId, { role });
+    };
+
+    return { app, repositories: deps.repositories, outbox, signup, setRole };
+  };
+};
@@ -0,0 +1,66 @@
+import request from "supertest";
+import { e2e, TestApp } from "./setup";
+
+const setup = e2e();
+
+describe('Stats e2e', () => {
+  let t: TestApp;
+  let admin: { id: number; token: string };
+  let author: { id: number; token: string };
+
+  const createPost = async (token: string, title: string) =>
+    (await request(t.app).post('/posts').set('Authorization', `Bearer ${token}`)
+      .send({ title, content: 'Contenido', authorName: 'Autor' })).body.id as number;
+
+  const like = (token: string, postId: number) =>
+    request(t.app).post(`/likepost/${postId}`).set('Authorization', `Bearer ${token}`).expect(201);
+
+  beforeEach(async () => {
+    t = await setup();
+    admin = await t.signup('admin@example.com', 'Admin');
+    author = await t.signup('autor@example.com', 'Autor');
+    await t.setRole(admin.id, 'ADMIN');
+  });
+
+  it('should return the stats of a user', async () => {
+    const popular = await createPost(author.token, 'Popular');
+    const other = await createPost(author.token, 'Otro');
+    await like(admin.token, popular);
+    await like(author.token, popular);
+    await like(admin.token, other);
+
+    const res = await request(t.app).get(`/users/${author.id}/stats`).set('Authorization', `Bearer ${admin.token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ userId: author.id, posts: 2, likesGiven: 1, likesReceived: 3, mostLikedPost: { id: popular, title: 'Popular', likes: 2 } });
+    await request(t.app).get('/users/999/stats').set('Authorization', `Bearer ${admin.token}`).expect(404);
+  });
+
+  it('should return the daily activity to admins only', async () => {
+    const post = await createPost(author.token, 'Post');
+    await like(admin.token, post);
+    const today = new Date().toISOString().slice(0, 10);
+
+    const res = await request(t.app).get(`/admins/stats?from=${today}&to=${today}`).set('Authorization', `Bearer ${admin.token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({
+      from: today,
+      to: today,
+      totals: { users: 2, signups: 2, posts: 1, likes: 1, activeUsers: 2 },
+      series: [{ date: today, signups: 2, posts: 1, likes: 1, activeUsers: 2 }],
+    });
+    expect((await request(t.app).get('/admins/stats').set('Authorization', `Bearer ${admin.token}`)).body.series).toHaveLength(30);
+    await request(t.app).get('/admins/stats').set('Authorization', `Bearer ${author.token}`).expect(403);
+    await request(t.app).get('/admins/stats?from=2025-02-31').set('Authorization', `Bearer ${admin.token}`).expect(400);
+    await request(t.app).get('/admins/stats?from=2020-01-01&to=2025-01-01').set('Authorization', `Bearer ${admin.token}`).expect(400);
+    await request(t.app).get('/admins/stats?from=0001-01-01&to=9999-12-31').set('Authorization', `Bearer ${admin.token}`).expect(400);
+  });
+
+  it('should count the users in GET /total', async () => {
+    const res = await request(t.app).get('/total');
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ count: 2 });
+  });
+});
@@ -0,0 +1,57 @@
+import request from "supertest";
+import { e2e, TestApp } from "./setup";
+
+const setup = e2e();
+
+describe('Tags e2e', () => {
+  let t: TestApp;
+  let author: { id: number; token: string };
+
+  const createPost = (title: string, content: string, tags?: string[]) =>
+    request(t.app).post('/posts').set('Authorization', `Bearer ${author.token}`).send({ title, content, authorName: 'Autor', tags });
+
+  beforeEach(async () => {
+    t = await setup();
+    author = await t.signup('autor@example.com', 'Autor');
+  });
+
+  it('should tag a post with the given tags and the hashtags of the content', async () => {
+    const res = await createPost('Pasta', 'Receta #Italia', ['#Cocina']);
+
+    expect(res.status).toBe(201);
+    expect([...res.body.tags].sort()).toEqual(['cocina', 'italia']);
+  });
+
+  it('should reject invalid tags', async () => {
+    const res = await createPost('Pasta', 'Receta', ['dos palabras']);
+
+    expect(res.status).toBe(400);
+    expect(res.body.errors).toEqual([expect.objectContaining({ field: 'tags[0]', location: 'body' })]);
+  });
+
+  it('should filter the posts page by any or all of the tags', async () => {
+    await createPost('Pasta', 'Receta', ['cocina', 'italia']);
+    await createPost('Roma', 'Viaje', ['italia', 'viajes']);
+    await createPost('Playa', 'Viaje', ['viajes']);
+
+    const any = await request(t.app).get('/posts/nombre-asc?tag=cocina,viajes').set('Authorization', `Bearer ${author.token}`);
+    const all = await request(t.app).get('/posts/nombre-asc?tag=italia&tag=viajes&tagMatch=all').set('Authorization', `Bearer ${author.token}`);
+
+    expect(any.body.posts.map((post: { title: string }) => post.title)).toEqual(['Pasta', 'Playa', 'Roma']);
+    expect(all.body.posts.map((post: { title: string }) => post.title)).toEqual(['Roma']);
+  });
+
+  it('should list the tags in use and the trending ones', async () => {
+    await createPost('Pasta', '#cocina y #italia');
+    await createPost('Roma', '#italia');
+    const removed = (await createPost('Cine', '#cine')).body;
+    await request(t.app).delete(`/posts/${removed.id}?type=soft`).set('Authorization', `Bearer ${author.token}`);
+
+    const tags = await request(t.app).get('/tags').set('Authorization', `Bearer ${author.token}`);
+    const trending = await request(t.app).get('/tags/trending?days=1&limit=1').set('Authorization', `Bearer ${author.token}`);
+
+    expect(tags.status).toBe(200);
+    expect(tags.body).toEqual([{ name: 'italia', count: 2 }, { name: 'cocina', count: 1 }]);
+    expect(trending.body).toEqual([{ name: 'italia', count: 2 }]);
+  });
+});
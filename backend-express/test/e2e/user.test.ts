@@ -0,0 +1,98 @@
+import request from "supertest";
+import { e2e, TestApp } from "./setup";
+
+const setup = e2e();
+
+describe('Suspensions e2e', () => {
+  let t: TestApp;
+  let moderator: { id: number; token: string };
+  let user: { id: number; token: string };
+
+  const suspend = (id: number, body: object, token = moderator.token) =>
+    request(t.app).post(`/admins/users/${id}/suspensions`).set('Authorization', `Bearer ${token}`).send(body);
+  const login = async () =>
+    (await request(t.app).post('/login').send({ email: 'user@example.com', password: 'password123' }).expect(200)).body.token as string;
+
+  beforeEach(async () => {
+    t = await setup();
+    moderator = await t.signup('moderador@example.com', 'Moderador');
+    user = await t.signup('user@example.com', 'User');
+    await t.setRole(moderator.id, 'MODERATOR');
+  });
+
+  it('should forbid suspending without the permission', async () => {
+    const res = await suspend(moderator.id, { reason: 'Spam' }, user.token);
+
+    expect(res.status).toBe(403);
+    expect(res.body.code).toBe('PERMISSION_REQUIRED');
+  });
+
+  it('should suspend a user and tell them why and until when', async () => {
+    const endsAt = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+
+    const res = await suspend(user.id, { reason: 'Spam en los comentarios', endsAt });
+    const revoked = await request(t.app).get('/popularity').set('Authorization', `Bearer ${user.token}`);
+    const after = await request(t.app).get('/popularity').set('Authorization', `Bearer ${await login()}`);
+
+    expect(res.status).toBe(201);
+    expect(res.body).toMatchObject({ userId: user.id, issuedById: moderator.id, reason: 'Spam en los comentarios', endsAt, liftedAt: null });
+    // Las sesiones abiertas se revocan
+    expect(revoked.status).toBe(401);
+    expect(after.status).toBe(403);
+    expect(after.body).toMatchObject({ code: 'USER_SUSPENDED', suspension: { reason: 'Spam en los comentarios', endsAt } });
+  });
+
+  it('should lift a suspension when it expires', async () => {
+    await suspend(user.id, { reason: 'Spam', endsAt: new Date(Date.now() + 1000).toISOString() }).expect(201);
+    const token = await login();
+    await request(t.app).get('/popularity').set('Authorization', `Bearer ${token}`).expect(403);
+
+    await new Promise((resolve) => setTimeout(resolve, 1100));
+    const res = await request(t.app).get('/popularity').set('Authorization', `Bearer ${token}`);
+
+    expect(res.status).toBe(200);
+  });
+
+  it('should keep the history of permanent and lifted suspensions', async () => {
+    await suspend(user.id, { reason: 'Spam' }).expect(201);
+    const again = await suspend(user.id, { reason: 'Otra vez' });
+    const lift = await request(t.app).delete(`/admins/users/${user.id}/suspensions/active`).set('Authorization', `Bearer ${moderator.token}`);
+    await suspend(user.id, { reason: 'Insultos', endsAt: null }).expect(201);
+    const history = await request(t.app).get(`/admins/users/${user.id}/suspensions`).set('Authorization', `Bearer ${moderator.token}`);
+
+    expect(again.status).toBe(409);
+    expect(lift.status).toBe(200);
+    expect(lift.body).toMatchObject({ reason: 'Spam', endsAt: null, liftedById: moderator.id });
+    expect(history.body.map((suspension: { reason: string; liftedAt: string | null }) => [suspension.reason, suspension.liftedAt === null]))
+      .toEqual([['Insultos', true], ['Spam', false]]);
+  });
+
+  it('should validate the suspension', async () => {
+    const missing = await suspend(user.id, { endsAt: 'mañana' });
+    const past = await suspend(user.id, { reason: 'Spam', endsAt: new Date(Date.now() - 1000).toISOString() });
+    const notSuspended = await request(t.app).delete(`/admins/users/${user.id}/suspensions/active`).set('Authorization', `Bearer ${moderator.token}`);
+
+    expect(missing.body.errors.map((error: { field: string }) => error.field).sort()).toEqual(['endsAt', 'reason']);
+    expect(past.body.code).toBe('INVALID_SUSPENSION_END');
+    expect(notSuspended.status).toBe(404);
+  });
+
+  it('should list the users with their suspension status and without their password', async () => {
+    await t.setRole(moderator.id, 'ADMIN');
+    await suspend(user.id, { reason: 'Spam' }).expect(201);
+
+    const res = await request(t.app).get('/admins/users').set('Authorization', `Bearer ${moderator.token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual(expect.arrayContaining([expect.objectContaining({ id: user.id, email: 'user@example.com', banned: true })]));
+    res.body.forEach((listed: object) => expect(listed).not.toHaveProperty('password'));
+  });
+
+  it('should forbid suspending a user of a higher role', async () => {
+    await t.setRole(user.id, 'ADMIN');
+
+    const res = await suspend(user.id, { reason: 'Spam' });
+
+    expect(res.status).toBe(403);
+  });
+});
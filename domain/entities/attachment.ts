@@ -0,0 +1,42 @@
+export type Attachment = {
+    id: number;
+    postId: number;
+    // Clave del fichero en el almacenamiento, se descarga en GET /files/:key
+    key: string;
+    // null si no se ha podido generar la miniatura
+    thumbnailKey: string | null;
+    // Nombre original del fichero subido
+    filename: string;
+    // Tipo detectado a partir del contenido, no el que indica el cliente
+    mimeType: string;
+    size: number;
+    createdAt: Date;
+}
+
+// Tipos de imagen aceptados y la extensión con la que se guardan
+export const ATTACHMENT_TYPES: Record<string, string> = {
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/gif': 'gif',
+    'image/webp': 'webp',
+}
+export const MAX_ATTACHMENTS_PER_POST = 10
+// Lado mayor de las miniaturas, en píxeles
+export const THUMBNAIL_SIZE = 320
+
+// Claves generadas por UploadAttachment: `<uuid>.<ext>` y `<uuid>.thumb.<ext>`
+export const FILE_KEY_PATTERN = /^[0-9a-f-]{36}(\.thumb)?\.[a-z]+$/
+
+// Tipo de imagen según sus primeros bytes, null si no es uno de ATTACHMENT_TYPES
+export const detectImageType = (file: Uint8Array): string | null => {
+    const starts = (bytes: number[], offset = 0) => bytes.every((byte, i) => file[offset + i] === byte);
+    if (starts([0xff, 0xd8, 0xff])) return 'image/jpeg';
+    if (starts([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+    if (starts([0x47, 0x49, 0x46, 0x38])) return 'image/gif';
+    // RIFF....WEBP
+    if (starts([0x52, 0x49, 0x46, 0x46]) && starts([0x57, 0x45, 0x42, 0x50], 8)) return 'image/webp';
+    return null;
+}
+
+export const mimeTypeOfKey = (key: string): string =>
+    Object.entries(ATTACHMENT_TYPES).find(([, extension]) => key.endsWith(`.${extension}`))?.[0] ?? 'application/octet-stream'
@@ -0,0 +1,27 @@
+import { Post } from "./post";
+
+export type AuditAction = 'user.ban' | 'user.unban' | 'post.softDelete' | 'post.restore' | 'post.hardDelete' | 'post.revisionRestore' | 'report.dismiss' | 'report.action'
+export type AuditTargetType = 'user' | 'post' | 'report'
+
+export const AUDIT_ACTIONS: AuditAction[] = ['user.ban', 'user.unban', 'post.softDelete', 'post.restore', 'post.hardDelete', 'post.revisionRestore', 'report.dismiss', 'report.action']
+export const AUDIT_TARGET_TYPES: AuditTargetType[] = ['user', 'post', 'report']
+
+/**
+ * Acción de administración o moderación. El registro solo crece: las entradas no se editan ni se borran,
+ * y no dependen del usuario ni del post, que pueden haber desaparecido.
+ */
+export type AuditLogEntry = {
+    id: number;
+    actorId: number;
+    action: AuditAction;
+    targetType: AuditTargetType;
+    targetId: number;
+    // Estado del objetivo antes y después de la acción, null si no existía
+    before: Record<string, unknown> | null;
+    after: Record<string, unknown> | null;
+    ip: string | null;
+    createdAt: Date;
+}
+
+// Sin la lista de likes, que no cambia con la moderación
+export const postSnapshot = ({ likes, ...post }: Post): Record<string, unknown> => post
@@ -0,0 +1,10 @@
+export type Comment = {
+    id: number;
+    content: string;
+    deleted: boolean;
+    authorId: number;
+    postId: number;
+    parentId: number | null;
+    date: Date;
+    editedAt: Date | null;
+}
\ No newline at end of file
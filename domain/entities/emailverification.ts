@@ -0,0 +1,8 @@
+export type EmailVerificationToken = {
+    id: number;
+    tokenHash: string;
+    userId: number;
+    expiresAt: Date;
+    usedAt: Date | null;
+    createdAt: Date;
+}
\ No newline at end of file
@@ -0,0 +1,9 @@
+export type LiveEventType = 'post.created' | 'post.updated' | 'post.deleted' | 'like.created'
+
+// Evento enviado a los clientes conectados a `GET /events`. El id crece de uno en uno
+export type LiveEvent = {
+    id: number;
+    type: LiveEventType;
+    data: unknown;
+    createdAt: Date;
+}
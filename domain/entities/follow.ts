@@ -0,0 +1,24 @@
+export type Follow = {
+    id: number;
+    followerId: number;
+    followingId: number;
+    createdAt: Date;
+}
+// Usuario dentro de una lista de seguidores o seguidos, sin datos privados
+export type FollowUser = {
+    id: number;
+    name: string | null;
+    followedAt: Date;
+}
+export type FollowPage = {
+    // Total de seguidores o seguidos, no solo los de la página
+    count: number;
+    users: FollowUser[];
+    nextCursor: number | null;
+}
+// Respuesta de seguir o dejar de seguir a un usuario
+export type FollowState = {
+    userId: number;
+    following: boolean;
+    followers: number;
+}
@@ -3,4 +3,13 @@ export type LikePost = {
     userId: number;
     postId: number;
     createdAt: Date;
-}
\ No newline at end of file
+}
+export type LikePostState = {
+    postId: number;
+    liked: boolean;
+    likes: number;
+}
+// `changed`: si se ha creado o borrado el like, false si ya tenía el estado pedido
+export type LikePostToggle = LikePostState & {
+    changed: boolean;
+}
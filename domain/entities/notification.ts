@@ -0,0 +1,53 @@
+export type NotificationType = 'like' | 'comment' | 'reply' | 'follow' | 'mention'
+
+/**
+ * Notificación para `userId`. Los eventos iguales (mismo tipo, post y comentario) se agrupan
+ * en una sola notificación mientras no se lea: `actorId` es el último usuario y `count` el número de usuarios distintos.
+ */
+export type Notification = {
+    id: number;
+    userId: number;
+    type: NotificationType;
+    actorId: number;
+    actorName: string | null;
+    postId: number | null;
+    commentId: number | null;
+    count: number;
+    read: boolean;
+    createdAt: Date;
+    // Fecha del último evento agrupado, marcarla como leída no la cambia
+    updatedAt: Date;
+}
+export type NotificationView = Notification & {
+    message: string;
+}
+export type NotificationPage = {
+    notifications: NotificationView[];
+    unreadCount: number;
+    nextCursor: number | null;
+}
+
+// Las menciones no se agrupan: cada una apunta a un texto distinto
+export const COLLAPSIBLE_NOTIFICATIONS: NotificationType[] = ['like', 'comment', 'reply', 'follow']
+
+// Una mención se escribe `@[Nombre](id)`, el nombre es solo para mostrarla
+const MENTION = /@\[[^\]\n]{1,50}\]\((\d+)\)/g
+export const MAX_MENTIONS = 10
+
+export const parseMentions = (text: string | null): number[] =>
+    [...new Set([...(text ?? '').matchAll(MENTION)].map((match) => Number(match[1])))].slice(0, MAX_MENTIONS)
+
+const ACTIONS: Record<NotificationType, [string, string]> = {
+    like: ['le ha dado me gusta a tu post', 'han dado me gusta a tu post'],
+    comment: ['ha comentado tu post', 'han comentado tu post'],
+    reply: ['ha respondido a tu comentario', 'han respondido a tu comentario'],
+    follow: ['ha empezado a seguirte', 'han empezado a seguirte'],
+    mention: ['te ha mencionado', 'te han mencionado'],
+}
+
+// "Ana y 12 más han dado me gusta a tu post"
+export const notificationMessage = ({ type, actorName, count }: Pick<Notification, 'type' | 'actorName' | 'count'>): string => {
+    const actor = actorName ?? 'Alguien';
+    const [one, many] = ACTIONS[type];
+    return count > 1 ? `${actor} y ${count - 1} más ${many}` : `${actor} ${one}`;
+}
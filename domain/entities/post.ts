@@ -1,12 +1,30 @@
 import { LikePost } from "./likepost"
 
+export type PostStatus = 'draft' | 'scheduled' | 'published'
+export const POST_STATUSES: PostStatus[] = ['draft', 'scheduled', 'published']
+
 export type Post = {
     id: number,
     title: string,
     content: string | null,
     deleted: boolean,
+    // Oculto al acumular denuncias, hasta que un moderador las revise
+    hidden?: boolean,
     authorId: number,
+    // Sin estado, publicado. Los borradores y programados solo los ve su autor
+    status?: PostStatus,
+    // Fecha en la que se publicará un post programado, null en el resto
+    publishAt?: Date | null,
+    // Fecha de publicación, la de creación mientras el post no se publica
     date: Date,
+    // Cualquier cambio (también eliminar o restablecer), editedAt solo cuando cambia el título o el contenido
+    updatedAt?: Date,
+    editedAt?: Date | null,
     authorName: string,
-    likes?: LikePost[]
-}
\ No newline at end of file
+    // Nombres de las etiquetas, explícitas o sacadas de los #hashtags del contenido
+    tags?: string[],
+    likes?: LikePost[],
+    likesCount?: number
+}
+
+export const isPublished = (post: Pick<Post, 'status'>): boolean => (post.status ?? 'published') === 'published'
@@ -0,0 +1,24 @@
+// Versión anterior de un post: se guarda el título y el contenido que tenía antes de cada edición
+export type PostRevision = {
+    id: number;
+    postId: number;
+    // Número de versión dentro del post, empieza en 1 (el post tal como se creó)
+    rev: number;
+    title: string;
+    content: string | null;
+    // Usuario que hizo la edición que reemplazó esta versión, null si se ha eliminado
+    editorId: number | null;
+    createdAt: Date;
+}
+export type DiffChunk = {
+    op: 'equal' | 'insert' | 'delete';
+    text: string;
+}
+// Cambios de la versión `rev` a la siguiente (`toRev`, null si la siguiente es la actual)
+export type PostRevisionDiff = {
+    postId: number;
+    rev: number;
+    toRev: number | null;
+    title: DiffChunk[];
+    content: DiffChunk[];
+}
@@ -0,0 +1,80 @@
+export type TrendingWindow = '24h' | '7d' | 'all'
+export type RankingAlgorithm = 'decay' | 'wilson'
+
+const HOUR_MS = 60 * 60 * 1000
+
+// Duración de cada periodo, null para no limitar la antigüedad de los likes
+export const TRENDING_WINDOWS: Record<TrendingWindow, number | null> = {
+    '24h': 24 * HOUR_MS,
+    '7d': 7 * 24 * HOUR_MS,
+    all: null,
+}
+
+export const RANKING_ALGORITHMS: RankingAlgorithm[] = ['decay', 'wilson']
+
+export type RankingConfig = {
+    algorithm: RankingAlgorithm;
+    // Cuanto mayor, antes pierden peso los likes antiguos
+    gravity: number;
+    // Horas que se suman a la antigüedad de cada like para que los recientes no valgan infinito
+    offsetHours: number;
+    // Valor z del intervalo de Wilson, 1.96 para una confianza del 95%
+    confidence: number;
+}
+
+export const DEFAULT_RANKING: RankingConfig = {
+    algorithm: 'decay',
+    gravity: 1.8,
+    offsetHours: 2,
+    confidence: 1.96,
+}
+
+export const windowStart = (window: TrendingWindow, now: Date = new Date()): Date | null => {
+    const duration = TRENDING_WINDOWS[window];
+    return duration === null ? null : new Date(now.getTime() - duration);
+}
+
+// Likes de un post con una antigüedad parecida: cuántos son y su fecha media
+export type LikeBucket = {
+    likedAt: Date;
+    likes: number;
+}
+
+// Los likes se agrupan por antigüedad en lugar de leerse uno a uno: por horas los dos primeros días,
+// por días hasta las ocho semanas y por semanas después. Con la fecha media de cada grupo el error de la puntuación es pequeño
+export const LIKE_BUCKET_HOURS: { since: number; size: number }[] = [
+    { since: 8 * 7 * 24, size: 7 * 24 },
+    { since: 48, size: 24 },
+    { since: 0, size: 1 },
+]
+
+// Grupo de un like según las horas completas desde que se dio: la hora en que empieza el grupo
+export const likeBucket = (likedAt: Date, now: Date): number => {
+    const hours = Math.max(Math.floor((now.getTime() - likedAt.getTime()) / HOUR_MS), 0);
+    const { size } = LIKE_BUCKET_HOURS.find(({ since }) => hours >= since) ?? LIKE_BUCKET_HOURS[LIKE_BUCKET_HOURS.length - 1];
+    return Math.floor(hours / size) * size;
+}
+
+export const countLikes = (buckets: LikeBucket[]): number => buckets.reduce((total, bucket) => total + bucket.likes, 0)
+
+/**
+ * Puntuación con decaimiento temporal al estilo de Hacker News, pero sobre cada like:
+ * cada uno suma `1 / (horas desde el like + offsetHours) ^ gravity`.
+ */
+export const decayScore = (buckets: LikeBucket[], now: Date, { gravity, offsetHours }: Pick<RankingConfig, 'gravity' | 'offsetHours'>): number =>
+    buckets.reduce((score, { likedAt, likes }) => {
+        const hours = Math.max(now.getTime() - likedAt.getTime(), 0) / HOUR_MS;
+        return score + likes / Math.pow(hours + offsetHours, gravity);
+    }, 0)
+
+/**
+ * Límite inferior del intervalo de Wilson de la proporción `likes / audience`:
+ * con pocos votos la puntuación es prudente en lugar de saltar a 0 o a 1. Sin audiencia vale 0.
+ */
+export const wilsonScore = (likes: number, audience: number, z: number): number => {
+    const n = Math.max(audience, likes);
+    if (n === 0) return 0;
+    const p = likes / n;
+    const z2 = z * z;
+    return (p + z2 / (2 * n) - z * Math.sqrt((p * (1 - p) + z2 / (4 * n)) / n)) / (1 + z2 / n);
+}
@@ -0,0 +1,19 @@
+// Contador de intentos en una ventana fija, identificado por una clave como `login:ip:127.0.0.1`
+export type RateLimitCounter = {
+    key: string;
+    count: number;
+    resetAt: Date;
+    lockedUntil: Date | null;
+}
+// Como mucho `limit` peticiones cada `windowMs`
+export type RateLimitPolicy = {
+    limit: number;
+    windowMs: number;
+}
+// Tras `threshold` fallos dentro de `windowMs` se bloquea durante `baseMs`, que se duplica con cada fallo extra hasta `maxMs`
+export type LockoutPolicy = {
+    threshold: number;
+    windowMs: number;
+    baseMs: number;
+    maxMs: number;
+}
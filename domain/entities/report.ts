@@ -0,0 +1,28 @@
+export type ReportTargetType = 'post' | 'user'
+export type ReportReason = 'spam' | 'harassment' | 'hate' | 'violence' | 'sexual' | 'misinformation' | 'other'
+// `dismissed`: no incumple las normas, `actioned`: se ha tomado alguna medida
+export type ReportStatus = 'open' | 'dismissed' | 'actioned'
+
+export const REPORT_TARGET_TYPES: ReportTargetType[] = ['post', 'user']
+export const REPORT_REASONS: ReportReason[] = ['spam', 'harassment', 'hate', 'violence', 'sexual', 'misinformation', 'other']
+export const REPORT_STATUSES: ReportStatus[] = ['open', 'dismissed', 'actioned']
+
+export const MAX_REPORT_DETAILS = 1000
+
+/**
+ * Denuncia de un usuario sobre un post o sobre otro usuario.
+ * Al revisarla se cierran a la vez todas las denuncias abiertas del mismo objetivo.
+ */
+export type Report = {
+    id: number;
+    reporterId: number;
+    targetType: ReportTargetType;
+    targetId: number;
+    reason: ReportReason;
+    details: string | null;
+    status: ReportStatus;
+    // Moderador que la ha cerrado, null mientras está abierta o si ya no existe
+    resolvedById: number | null;
+    resolvedAt: Date | null;
+    createdAt: Date;
+}
@@ -0,0 +1,33 @@
+export type Role = 'USER' | 'MODERATOR' | 'ADMIN'
+
+export type Permission =
+    | 'post.delete.any'             // eliminar/restablecer (soft) posts de otros usuarios
+    | 'post.hardDelete'             // eliminar posts de forma permanente
+    | 'post.revisions.read.any'     // ver el historial de ediciones de posts de otros usuarios
+    | 'post.revisions.restore.any'  // restaurar una versión anterior de posts de otros usuarios
+    | 'comment.delete.any'          // eliminar comentarios de otros usuarios
+    | 'user.ban'                    // banear/desbanear usuarios
+    | 'user.read.all'               // listar todos los usuarios
+    | 'audit.read'                  // consultar el registro de auditoría
+    | 'report.review'               // revisar y cerrar denuncias
+    | 'stats.read'                  // consultar las estadísticas del sitio
+
+// Lo que un usuario puede hacer sobre su propio contenido no necesita permiso, lo resuelve la política de propiedad
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+    USER: [],
+    MODERATOR: ['post.delete.any', 'post.revisions.read.any', 'comment.delete.any', 'user.ban', 'report.review'],
+    ADMIN: ['post.delete.any', 'post.hardDelete', 'post.revisions.read.any', 'post.revisions.restore.any', 'comment.delete.any', 'user.ban', 'user.read.all', 'audit.read', 'report.review', 'stats.read'],
+}
+
+// Orden de los roles, un usuario solo puede moderar a usuarios de su mismo rango o inferior
+export const ROLE_RANK: Record<Role, number> = {
+    USER: 0,
+    MODERATOR: 1,
+    ADMIN: 2,
+}
+
+// Solo las claves propias: `in` también acepta las heredadas como "toString"
+export const isRole = (role: string): role is Role => Object.prototype.hasOwnProperty.call(ROLE_PERMISSIONS, role)
+
+export const hasPermission = (role: string, permission: Permission): boolean =>
+    isRole(role) && ROLE_PERMISSIONS[role].includes(permission)
\ No newline at end of file
@@ -0,0 +1,14 @@
+export type Session = {
+    id: string;
+    userId: number;
+    createdAt: Date;
+    revokedAt: Date | null;
+}
+export type RefreshToken = {
+    id: number;
+    tokenHash: string;
+    sessionId: string;
+    expiresAt: Date;
+    usedAt: Date | null;
+    createdAt: Date;
+}
\ No newline at end of file
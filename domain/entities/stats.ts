@@ -0,0 +1,56 @@
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Rango por defecto de GET /admins/stats y rango máximo, en días
+export const DEFAULT_STATS_DAYS = 30
+export const MAX_STATS_DAYS = 366
+
+export type UserStats = {
+    userId: number;
+    // Posts no eliminados
+    posts: number;
+    likesGiven: number;
+    // Likes en sus posts no eliminados
+    likesReceived: number;
+    // null si ninguno de sus posts visibles tiene likes
+    mostLikedPost: { id: number; title: string; likes: number } | null;
+}
+
+// Actividad de un día (UTC, `YYYY-MM-DD`)
+export type DailyActivity = {
+    date: string;
+    signups: number;
+    posts: number;
+    likes: number;
+    // Usuarios distintos que han publicado, comentado o dado like ese día
+    activeUsers: number;
+}
+
+export type SiteStats = {
+    from: string;
+    to: string;
+    totals: {
+        // Usuarios registrados en total, no solo en el rango
+        users: number;
+        signups: number;
+        posts: number;
+        likes: number;
+        // Usuarios distintos con actividad en el rango
+        activeUsers: number;
+    };
+    // Un elemento por día del rango, también los días sin actividad
+    series: DailyActivity[];
+}
+
+export const toDay = (date: Date): string => date.toISOString().slice(0, 10)
+
+// Número de días entre `from` y `to`, ambos incluidos, sin generarlos. NaN si alguna fecha no es válida
+export const countDays = (from: string, to: string): number => (Date.parse(to) - Date.parse(from)) / DAY_MS + 1
+
+// Días entre `from` y `to`, ambos incluidos
+export const eachDay = (from: string, to: string): string[] => {
+    const days: string[] = [];
+    for (let time = Date.parse(from); time <= Date.parse(to); time += DAY_MS) days.push(toDay(new Date(time)));
+    return days;
+}
+
+export const addDays = (day: string, days: number): string => toDay(new Date(Date.parse(day) + days * DAY_MS))
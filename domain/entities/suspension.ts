@@ -0,0 +1,21 @@
+/**
+ * Suspensión de un usuario: mientras esté vigente el usuario está baneado.
+ * Sin `endsAt` es permanente. Deja de aplicarse sola al llegar `endsAt`, o antes si se levanta (`liftedAt`).
+ */
+export type Suspension = {
+    id: number;
+    userId: number;
+    // null si el administrador ya no existe
+    issuedById: number | null;
+    reason: string;
+    startsAt: Date;
+    endsAt: Date | null;
+    liftedAt: Date | null;
+    liftedById: number | null;
+    createdAt: Date;
+}
+
+export const MAX_SUSPENSION_REASON = 500
+
+export const isActiveSuspension = (suspension: Suspension, now: Date = new Date()): boolean =>
+    suspension.liftedAt === null && suspension.startsAt <= now && (suspension.endsAt === null || suspension.endsAt > now)
@@ -0,0 +1,26 @@
+export type Tag = {
+    id: number;
+    name: string;
+}
+// Número de posts (no eliminados) que usan la etiqueta
+export type TagCount = {
+    name: string;
+    count: number;
+}
+
+export const MAX_TAGS_PER_POST = 10
+// Letras, números, `_` y `-` (sin empezar por `-`), hasta 50 caracteres. Se guardan en minúsculas y sin `#`
+export const TAG_PATTERN = /^[\p{L}\p{N}_][\p{L}\p{N}_-]{0,49}$/u
+// Un `#` que no va pegado a una palabra, para no confundir con anclas de URLs o entidades HTML
+const HASHTAG = /(?<![\p{L}\p{N}_&/])#([\p{L}\p{N}_][\p{L}\p{N}_-]*)/gu
+
+export const normalizeTag = (tag: string): string => tag.trim().replace(/^#/, '').toLowerCase()
+
+export const parseHashtags = (text: string | null): string[] =>
+    [...(text ?? '').matchAll(HASHTAG)].map((match) => match[1].replace(/-+$/, ''))
+
+// Une listas de etiquetas normalizadas, sin repetidas ni inválidas y como mucho MAX_TAGS_PER_POST
+export const mergeTags = (...lists: string[][]): string[] =>
+    [...new Set(lists.flat().map(normalizeTag))]
+        .filter((tag) => TAG_PATTERN.test(tag))
+        .slice(0, MAX_TAGS_PER_POST)
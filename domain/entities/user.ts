@@ -4,5 +4,12 @@ export type User = {
     password: string;
     name: string | null;
     role: string;
+    // No se guarda: true mientras el usuario tenga una suspensión vigente
     banned: boolean;
-}
\ No newline at end of file
+    emailVerified: boolean;
+    // Fecha de registro, la de la migración para los usuarios anteriores
+    createdAt?: Date;
+}
+
+// Lo que se puede mostrar de un usuario a otros: nunca el hash de la contraseña
+export type PublicUser = Omit<User, 'password'>
\ No newline at end of file
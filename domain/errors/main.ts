@@ -3,15 +3,83 @@
 //         super(message, options);
 //       }
 // }
+
+// Categoría del error, la interfaz la traduce a su respuesta (por ejemplo un status HTTP)
+export type ErrorKind = 'validation' | 'unauthenticated' | 'forbidden' | 'not_found' | 'conflict' | 'rate_limited' | 'internal'
+
+export type FieldError = {
+    field: string
+    location?: string
+    message: string
+}
+
 abstract class ErrorBase extends Error {
-    constructor(message: string) {
+    abstract readonly kind: ErrorKind
+    // Código estable para los clientes, p.ej. `POST_NOT_FOUND`
+    public readonly code: string
+    constructor(message: string, code: string) {
         super(message);
         this.name = this.constructor.name;
+        this.code = code;
       }
 }
 
-export class SetEnvError extends ErrorBase {}
-export class UnauthorizedError extends ErrorBase{}
-export class UnauthenticatedError extends ErrorBase{}
-export class FindDbError extends ErrorBase{}
-export class InvalidUrlError extends ErrorBase{}
\ No newline at end of file
+export class SetEnvError extends ErrorBase {
+    readonly kind = 'internal'
+    constructor(message: string, code = 'ENV_NOT_SET') {
+        super(message, code);
+    }
+}
+export class ValidationError extends ErrorBase {
+    readonly kind = 'validation'
+    constructor(message: string, public readonly fields: FieldError[] = [], code = 'VALIDATION_FAILED') {
+        super(message, code);
+    }
+}
+export class InvalidUrlError extends ValidationError {
+    constructor(message: string, code = 'INVALID_URL') {
+        super(message, [], code);
+    }
+}
+// Sin sesión o credenciales inválidas (401)
+export class UnauthenticatedError extends ErrorBase {
+    readonly kind = 'unauthenticated'
+    constructor(message: string, code = 'UNAUTHENTICATED') {
+        super(message, code);
+    }
+}
+// Usuario identificado pero sin permiso para la acción (403)
+export class UnauthorizedError extends ErrorBase {
+    readonly kind = 'forbidden'
+    constructor(message: string, code = 'FORBIDDEN') {
+        super(message, code);
+    }
+}
+// Usuario con una suspensión vigente (403), la interfaz incluye el motivo y la fecha de fin en la respuesta
+export class SuspendedUserError extends UnauthorizedError {
+    constructor(message: string, public readonly reason: string, public readonly endsAt: Date | null, code = 'USER_SUSPENDED') {
+        super(message, code);
+    }
+}
+export class NotFoundError extends ErrorBase {
+    readonly kind = 'not_found'
+    constructor(message: string, code = 'NOT_FOUND') {
+        super(message, code);
+    }
+}
+export class FindDbError extends NotFoundError {}
+export class ConflictError extends ErrorBase {
+    readonly kind = 'conflict'
+    constructor(message: string, code = 'CONFLICT') {
+        super(message, code);
+    }
+}
+export class TooManyRequestsError extends ErrorBase {
+    readonly kind = 'rate_limited'
+    constructor(message: string, public retryAfterSeconds: number, code = 'TOO_MANY_REQUESTS') {
+        super(message, code);
+    }
+}
+
+export type DomainError = ErrorBase
+export const isDomainError = (error: unknown): error is DomainError => error instanceof ErrorBase
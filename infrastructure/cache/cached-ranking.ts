@@ -0,0 +1,21 @@
+import { TrendingWindow } from "../../domain/entities/ranking";
+import { RankingData, RankingRepository } from "../../application/repositories/ranking";
+
+/**
+ * Decorador que guarda en memoria los datos de cada periodo durante `ttlMs`: ids de los posts y sus likes agrupados.
+ * Las puntuaciones se siguen calculando en cada petición con la hora actual y los posts se leen de nuevo,
+ * así que solo se retrasan los likes nuevos, no el decaimiento ni los posts eliminados, ocultos o de autores suspendidos.
+ */
+export class CachedRankingRepository implements RankingRepository {
+    private readonly entries = new Map<TrendingWindow, { data: RankingData; expiresAt: number }>();
+
+    constructor(private readonly inner: RankingRepository, private readonly ttlMs: number) {}
+
+    async read(window: TrendingWindow): Promise<RankingData> {
+        const cached = this.entries.get(window);
+        if (cached && cached.expiresAt > Date.now()) return cached.data;
+        const data = await this.inner.read(window);
+        this.entries.set(window, { data, expiresAt: Date.now() + this.ttlMs });
+        return data;
+    }
+}
@@ -0,0 +1,104 @@
+import { User } from "../../domain/entities/user";
+import { Post } from "../../domain/entities/post";
+import { PostRevision } from "../../domain/entities/postrevision";
+import { LikePost } from "../../domain/entities/likepost";
+import { Comment } from "../../domain/entities/comment";
+import { RefreshToken, Session } from "../../domain/entities/session";
+import { PasswordResetToken } from "../../domain/entities/passwordreset";
+import { EmailVerificationToken } from "../../domain/entities/emailverification";
+import { RateLimitCounter } from "../../domain/entities/ratelimit";
+import { Tag } from "../../domain/entities/tag";
+import { Follow } from "../../domain/entities/follow";
+import { Notification } from "../../domain/entities/notification";
+import { AuditLogEntry } from "../../domain/entities/audit";
+import { isActiveSuspension, Suspension } from "../../domain/entities/suspension";
+import { Report } from "../../domain/entities/report";
+import { Attachment } from "../../domain/entities/attachment";
+
+type Tables = {
+    // `banned` se calcula a partir de las suspensiones
+    user: Omit<User, 'banned'>[];
+    suspension: Suspension[];
+    post: Omit<Post, 'likes' | 'likesCount' | 'tags'>[];
+    likePost: LikePost[];
+    tag: Tag[];
+    // Tabla intermedia de la relación muchos a muchos entre Post y Tag
+    postTag: { postId: number; tagId: number }[];
+    postRevision: PostRevision[];
+    comment: Comment[];
+    follow: Follow[];
+    notification: Omit<Notification, 'actorName'>[];
+    // Usuarios distintos de cada notificación agrupada
+    notificationActor: { notificationId: number; actorId: number }[];
+    session: Session[];
+    refreshToken: RefreshToken[];
+    passwordResetToken: PasswordResetToken[];
+    emailVerificationToken: EmailVerificationToken[];
+    rateLimit: RateLimitCounter[];
+    // Sin relaciones: las entradas se mantienen aunque se borre el usuario o el post
+    auditLog: AuditLogEntry[];
+    report: Report[];
+    attachment: Attachment[];
+}
+
+/**
+ * Base de datos en memoria compartida por los repositorios `InMemory*`.
+ * Replica las restricciones del esquema de Prisma que importan a los casos de uso:
+ * ids autoincrementales, claves únicas y borrados en cascada.
+ */
+export class MemoryDb {
+    readonly tables: Tables = {
+        user: [],
+        suspension: [],
+        post: [],
+        likePost: [],
+        tag: [],
+        postTag: [],
+        postRevision: [],
+        comment: [],
+        follow: [],
+        notification: [],
+        notificationActor: [],
+        session: [],
+        refreshToken: [],
+        passwordResetToken: [],
+        emailVerificationToken: [],
+        rateLimit: [],
+        auditLog: [],
+        report: [],
+        attachment: [],
+    };
+    private sequences = new Map<keyof Tables, number>();
+
+    nextId(table: keyof Tables): number {
+        const id = (this.sequences.get(table) ?? 0) + 1;
+        this.sequences.set(table, id);
+        return id;
+    }
+
+    isSuspended(userId: number, now: Date = new Date()): boolean {
+        return this.tables.suspension.some((suspension) => suspension.userId === userId && isActiveSuspension(suspension, now));
+    }
+
+    // Equivalente a `onDelete: Cascade` de las relaciones de Post
+    deletePostCascade(postId: number): void {
+        this.tables.post = this.tables.post.filter((post) => post.id !== postId);
+        this.tables.likePost = this.tables.likePost.filter((like) => like.postId !== postId);
+        this.tables.comment = this.tables.comment.filter((comment) => comment.postId !== postId);
+        this.tables.postRevision = this.tables.postRevision.filter((revision) => revision.postId !== postId);
+        this.tables.postTag = this.tables.postTag.filter((postTag) => postTag.postId !== postId);
+        // Las notificaciones de comentarios del post también tienen su postId
+        this.tables.notification = this.tables.notification.filter((notification) => notification.postId !== postId);
+        this.tables.notificationActor = this.tables.notificationActor
+            .filter((actor) => this.tables.notification.some((notification) => notification.id === actor.notificationId));
+        this.tables.report = this.tables.report.filter((report) => report.targetType !== 'post' || report.targetId !== postId);
+        this.tables.attachment = this.tables.attachment.filter((attachment) => attachment.postId !== postId);
+    }
+}
+
+// Instancia por defecto de los repositorios `InMemory*` creados sin una MemoryDb propia
+export const memoryDb = new MemoryDb();
+
+export abstract class MemoryClientConfig {
+    constructor(protected readonly db: MemoryDb = memoryDb) {}
+}
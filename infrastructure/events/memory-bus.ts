@@ -0,0 +1,42 @@
+import { LiveEvent, LiveEventType } from "../../domain/entities/event";
+import { EventBus, EventListener } from "../../application/repositories/events";
+
+/**
+ * Bus de eventos en memoria del proceso: con varias instancias de la API cada una solo ve sus propios eventos.
+ * Guarda los últimos `capacity` eventos para que un cliente que se reconecta con `Last-Event-ID` recupere los perdidos.
+ */
+export class InMemoryEventBus implements EventBus {
+    private listeners = new Set<EventListener>();
+    private buffer: LiveEvent[] = [];
+    private lastId = 0;
+
+    constructor(private readonly capacity: number = 1000) {}
+
+    publish(type: LiveEventType, data: unknown): LiveEvent {
+        const event: LiveEvent = { id: ++this.lastId, type, data, createdAt: new Date() };
+        this.buffer.push(event);
+        if (this.buffer.length > this.capacity) this.buffer.shift();
+        for (const listener of this.listeners) {
+            try {
+                listener(event);
+            } catch (error) {
+                // Un cliente desconectado a medias no debe impedir que el resto reciba el evento
+                console.error('Event listener failed', error);
+            }
+        }
+        return event;
+    }
+
+    subscribe(listener: EventListener): () => void {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener) };
+    }
+
+    readSince(lastEventId: number): LiveEvent[] | null {
+        // Un id mayor que el último es de un proceso anterior (reinicio): no se puede saber qué se ha perdido
+        if (lastEventId > this.lastId) return null;
+        const oldest = this.buffer[0]?.id ?? this.lastId + 1;
+        if (lastEventId < oldest - 1) return null;
+        return this.buffer.filter((event) => event.id > lastEventId);
+    }
+}
@@ -0,0 +1,79 @@
+import { isPublished, Post } from "../../domain/entities/post";
+import { LikePost } from "../../domain/entities/likepost";
+import { EventBus } from "../../application/repositories/events";
+import { PostData, PostPage, PostQuery, PostRepository, PostUpdateData } from "../../application/repositories/post";
+import { LikePostRepository } from "../../application/repositories/likepost";
+import { PostRevisionData } from "../../application/repositories/postrevision";
+
+// Decoradores que publican en el bus los cambios que llegan a la base de datos, vengan del caso de uso que vengan
+
+// Los posts se envían sin la lista de likes, los clientes solo necesitan el contador
+const summary = ({ likes, ...post }: Post) => post
+
+export class PublishingPostRepository implements PostRepository {
+    constructor(private readonly inner: PostRepository, private readonly events: EventBus) {}
+
+    async create(postData: PostData, userId: number): Promise<Post> {
+        const post = await this.inner.create(postData, userId);
+        // Los borradores y programados no se anuncian hasta que se publican
+        if (isPublished(post)) this.events.publish('post.created', summary(post));
+        return post;
+    }
+    readAll(): Promise<Post[]> {
+        return this.inner.readAll();
+    }
+    readPage(query: PostQuery): Promise<PostPage> {
+        return this.inner.readPage(query);
+    }
+    readById(id: number): Promise<Post | null> {
+        return this.inner.readById(id);
+    }
+    async delete(id: number): Promise<Post> {
+        const post = await this.inner.delete(id);
+        if (isPublished(post)) this.events.publish('post.deleted', { id, authorId: post.authorId, hard: true });
+        return post;
+    }
+    async update(id: number, postData: PostUpdateData): Promise<Post> {
+        return this.publishUpdate(await this.inner.update(id, postData), postData);
+    }
+    async updateWithRevision(id: number, postData: PostUpdateData, revisionData: PostRevisionData): Promise<Post> {
+        return this.publishUpdate(await this.inner.updateWithRevision(id, postData, revisionData), postData);
+    }
+
+    private publishUpdate(post: Post, postData: PostUpdateData): Post {
+        if (!isPublished(post)) return post;
+        if (post.deleted || post.hidden) {
+            // Un soft delete o una ocultación por denuncias es una eliminación para los clientes,
+            // los cambios posteriores en un post que ya no se ve no se anuncian
+            if (postData.deleted === true || postData.hidden === true) {
+                this.events.publish('post.deleted', { id: post.id, authorId: post.authorId, hard: false });
+            }
+        // Publicar un borrador o programado es su creación para los clientes, restablecer el post cuenta como una actualización
+        } else if (postData.status === 'published') {
+            this.events.publish('post.created', summary(post));
+        } else {
+            this.events.publish('post.updated', summary(post));
+        }
+        return post;
+    }
+}
+
+export class PublishingLikePostRepository implements LikePostRepository {
+    constructor(private readonly inner: LikePostRepository, private readonly events: EventBus) {}
+
+    async create(postId: number, userId: number): Promise<LikePost | null> {
+        const like = await this.inner.create(postId, userId);
+        // Un like repetido no cambia nada
+        if (like) this.events.publish('like.created', { postId, userId, likes: await this.inner.countByPost(postId) });
+        return like;
+    }
+    readByUserAndPost(postId: number, userId: number): Promise<LikePost | null> {
+        return this.inner.readByUserAndPost(postId, userId);
+    }
+    delete(postId: number, userId: number): Promise<boolean> {
+        return this.inner.delete(postId, userId);
+    }
+    countByPost(postId: number): Promise<number> {
+        return this.inner.countByPost(postId);
+    }
+}
@@ -0,0 +1,14 @@
+import sharp from "sharp";
+import { Thumbnail, ThumbnailGenerator } from "../../application/repositories/thumbnail";
+
+// Miniaturas en WebP, sin ampliar las imágenes más pequeñas y girando las fotos según su EXIF
+export class SharpThumbnailGenerator implements ThumbnailGenerator {
+    async generate(image: Buffer, size: number): Promise<Thumbnail> {
+        const body = await sharp(image)
+            .rotate()
+            .resize(size, size, { fit: 'inside', withoutEnlargement: true })
+            .webp()
+            .toBuffer();
+        return { body, contentType: 'image/webp' };
+    }
+}
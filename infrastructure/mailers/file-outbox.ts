@@ -0,0 +1,21 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { Mailer, MailMessage } from "../../application/repositories/mailer";
+
+/**
+ * Mailer por defecto: en lugar de enviar por SMTP guarda cada mensaje como un
+ * fichero JSON en una carpeta "outbox", útil en desarrollo y en los tests.
+ */
+export class FileOutboxMailer implements Mailer {
+    constructor(private outboxDir: string = process.env.MAIL_OUTBOX_DIR ?? path.join(process.cwd(), "outbox")) {}
+
+    async send(message: MailMessage): Promise<void> {
+        await fs.mkdir(this.outboxDir, { recursive: true });
+        const sentAt = new Date();
+        const fileName = `${sentAt.getTime()}-${Math.random().toString(36).slice(2, 8)}.json`;
+        await fs.writeFile(
+            path.join(this.outboxDir, fileName),
+            JSON.stringify({ ...message, sentAt }, null, 2)
+        );
+    }
+}
\ No newline at end of file
@@ -0,0 +1,30 @@
+-- Prisma no soporta tablas virtuales, este índice FTS5 se gestiona solo desde SQL.
+-- El rowid de "PostSearch" coincide con el id del "Post" indexado.
+
+-- CreateVirtualTable
+CREATE VIRTUAL TABLE "PostSearch" USING fts5(
+    "title",
+    "content",
+    tokenize = 'porter unicode61 remove_diacritics 2'
+);
+
+-- Populate
+INSERT INTO "PostSearch" ("rowid", "title", "content")
+SELECT "id", "title", COALESCE("content", '') FROM "Post" WHERE "deleted" = false;
+
+-- CreateTrigger
+CREATE TRIGGER "PostSearch_after_insert" AFTER INSERT ON "Post" WHEN NEW."deleted" = false BEGIN
+    INSERT INTO "PostSearch" ("rowid", "title", "content") VALUES (NEW."id", NEW."title", COALESCE(NEW."content", ''));
+END;
+
+-- CreateTrigger
+CREATE TRIGGER "PostSearch_after_update" AFTER UPDATE OF "title", "content", "deleted" ON "Post" BEGIN
+    DELETE FROM "PostSearch" WHERE "rowid" = OLD."id";
+    INSERT INTO "PostSearch" ("rowid", "title", "content")
+    SELECT NEW."id", NEW."title", COALESCE(NEW."content", '') WHERE NEW."deleted" = false;
+END;
+
+-- CreateTrigger
+CREATE TRIGGER "PostSearch_after_delete" AFTER DELETE ON "Post" BEGIN
+    DELETE FROM "PostSearch" WHERE "rowid" = OLD."id";
+END;
@@ -0,0 +1,55 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Post" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "title" TEXT NOT NULL,
+    "content" TEXT,
+    "deleted" BOOLEAN NOT NULL DEFAULT false,
+    "authorId" INTEGER NOT NULL,
+    "authorName" TEXT NOT NULL,
+    "date" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "editedAt" DATETIME,
+    CONSTRAINT "Post_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+-- Los posts ya existentes no tienen historial, se toma la fecha de creación
+INSERT INTO "new_Post" ("authorId", "authorName", "content", "date", "deleted", "id", "title", "updatedAt") SELECT "authorId", "authorName", "content", "date", "deleted", "id", "title", "date" FROM "Post";
+DROP TABLE "Post";
+ALTER TABLE "new_Post" RENAME TO "Post";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- Al borrar la tabla se borran sus triggers, se vuelven a crear los del índice FTS5 (ver add_post_search)
+-- CreateTrigger
+CREATE TRIGGER "PostSearch_after_insert" AFTER INSERT ON "Post" WHEN NEW."deleted" = false BEGIN
+    INSERT INTO "PostSearch" ("rowid", "title", "content") VALUES (NEW."id", NEW."title", COALESCE(NEW."content", ''));
+END;
+
+-- CreateTrigger
+CREATE TRIGGER "PostSearch_after_update" AFTER UPDATE OF "title", "content", "deleted" ON "Post" BEGIN
+    DELETE FROM "PostSearch" WHERE "rowid" = OLD."id";
+    INSERT INTO "PostSearch" ("rowid", "title", "content")
+    SELECT NEW."id", NEW."title", COALESCE(NEW."content", '') WHERE NEW."deleted" = false;
+END;
+
+-- CreateTrigger
+CREATE TRIGGER "PostSearch_after_delete" AFTER DELETE ON "Post" BEGIN
+    DELETE FROM "PostSearch" WHERE "rowid" = OLD."id";
+END;
+
+-- CreateTable
+CREATE TABLE "PostRevision" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "postId" INTEGER NOT NULL,
+    "rev" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "content" TEXT,
+    "editorId" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "PostRevision_postId_fkey" FOREIGN KEY ("postId") REFERENCES "Post" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "PostRevision_editorId_fkey" FOREIGN KEY ("editorId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PostRevision_postId_rev_key" ON "PostRevision"("postId", "rev");
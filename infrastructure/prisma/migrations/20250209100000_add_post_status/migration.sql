@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Post" ADD COLUMN "status" TEXT NOT NULL DEFAULT 'published';
+ALTER TABLE "Post" ADD COLUMN "publishAt" DATETIME;
+
+-- CreateIndex
+CREATE INDEX "Post_status_publishAt_idx" ON "Post"("status", "publishAt");
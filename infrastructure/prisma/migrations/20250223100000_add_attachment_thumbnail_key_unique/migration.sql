@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE UNIQUE INDEX "Attachment_thumbnailKey_key" ON "Attachment"("thumbnailKey");
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "NotificationActor" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "notificationId" INTEGER NOT NULL,
+    "actorId" INTEGER NOT NULL,
+    CONSTRAINT "NotificationActor_notificationId_fkey" FOREIGN KEY ("notificationId") REFERENCES "Notification" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "NotificationActor_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NotificationActor_notificationId_actorId_key" ON "NotificationActor"("notificationId", "actorId");
+
+-- Las notificaciones existentes solo conocen a su último actor
+INSERT INTO "NotificationActor" ("notificationId", "actorId") SELECT "id", "actorId" FROM "Notification";
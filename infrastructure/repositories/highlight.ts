@@ -0,0 +1,15 @@
+// Delimitadores de los términos encontrados: se sustituyen por `<mark>` después de escapar el texto
+export const MARK_START = '\u0002'
+export const MARK_END = '\u0003'
+
+const HTML_ENTITIES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }
+
+/**
+ * Convierte un texto con los términos entre `MARK_START` y `MARK_END` en HTML seguro:
+ * el título y el contenido de los posts los escriben los usuarios, solo los `<mark>` son etiquetas.
+ */
+export const toHighlightHtml = (text: string): string =>
+    text
+        .replace(/[&<>"']/g, (char) => HTML_ENTITIES[char])
+        .replace(new RegExp(MARK_START, 'g'), '<mark>')
+        .replace(new RegExp(MARK_END, 'g'), '</mark>')
@@ -0,0 +1,36 @@
+import { MemoryClientConfig } from "../connectors/memory-db";
+import { Attachment } from "../../domain/entities/attachment";
+import { AttachmentData, AttachmentRepository } from "../../application/repositories/attachment";
+import { ConflictError, NotFoundError } from "../../domain/errors/main";
+
+export class InMemoryAttachmentRepository extends MemoryClientConfig implements AttachmentRepository {
+
+    async create(data: AttachmentData): Promise<Attachment> {
+        if (!this.db.tables.post.some((post) => post.id === data.postId)) {
+            throw new NotFoundError(`Post ${data.postId} not found`, 'POST_NOT_FOUND');
+        }
+        // Equivalente a `key @unique` y `thumbnailKey @unique`
+        if (this.db.tables.attachment.some((attachment) => attachment.key === data.key || (data.thumbnailKey !== null && attachment.thumbnailKey === data.thumbnailKey))) {
+            throw new ConflictError(`Attachment ${data.key} already exists`, 'ATTACHMENT_EXISTS');
+        }
+        const attachment: Attachment = { ...data, id: this.db.nextId('attachment'), createdAt: new Date() };
+        this.db.tables.attachment.push(attachment);
+        return { ...attachment };
+    }
+
+    async readByPost(postId: number): Promise<Attachment[]> {
+        return this.db.tables.attachment
+            .filter((attachment) => attachment.postId === postId)
+            .sort((a, b) => a.id - b.id)
+            .map((attachment) => ({ ...attachment }));
+    }
+
+    async countByPost(postId: number): Promise<number> {
+        return this.db.tables.attachment.filter((attachment) => attachment.postId === postId).length;
+    }
+
+    async readByKey(key: string): Promise<Attachment | null> {
+        const attachment = this.db.tables.attachment.find((attachment) => attachment.key === key || attachment.thumbnailKey === key);
+        return attachment ? { ...attachment } : null;
+    }
+}
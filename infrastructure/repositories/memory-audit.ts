@@ -0,0 +1,39 @@
+import { MemoryClientConfig } from "../connectors/memory-db";
+import { AuditLogEntry } from "../../domain/entities/audit";
+import { AuditLogData, AuditLogPage, AuditLogQuery, AuditLogRepository } from "../../application/repositories/audit";
+
+// Copia por JSON como PrismaAuditLogRepository: las fechas de las instantáneas vuelven como texto
+const copy = (snapshot: Record<string, unknown> | null): Record<string, unknown> | null =>
+    snapshot === null ? null : JSON.parse(JSON.stringify(snapshot))
+
+export class InMemoryAuditLogRepository extends MemoryClientConfig implements AuditLogRepository {
+
+    async append(data: AuditLogData): Promise<AuditLogEntry> {
+        const entry: AuditLogEntry = {
+            ...data,
+            id: this.db.nextId('auditLog'),
+            before: copy(data.before),
+            after: copy(data.after),
+            createdAt: new Date(),
+        };
+        this.db.tables.auditLog.push(entry);
+        return { ...entry };
+    }
+
+    async read({ actorId, action, targetType, targetId, from, to, limit, cursor }: AuditLogQuery): Promise<AuditLogPage> {
+        // Mismo orden y cursor que PrismaAuditLogRepository
+        const rows = this.db.tables.auditLog
+            .filter((entry) =>
+                (actorId === undefined || entry.actorId === actorId) &&
+                (action === undefined || entry.action === action) &&
+                (targetType === undefined || entry.targetType === targetType) &&
+                (targetId === undefined || entry.targetId === targetId) &&
+                (!from || entry.createdAt >= from) &&
+                (!to || entry.createdAt <= to))
+            .sort((a, b) => b.id - a.id);
+        const start = cursor === undefined ? 0 : rows.findIndex((entry) => entry.id === cursor) + 1;
+        if (cursor !== undefined && start === 0) return { entries: [], nextCursor: null };
+        const entries = rows.slice(start, start + limit).map((entry) => ({ ...entry }));
+        return { entries, nextCursor: rows.length - start > limit ? entries[entries.length - 1].id : null };
+    }
+}
@@ -0,0 +1,46 @@
+import { MemoryClientConfig } from "../connectors/memory-db";
+import { Comment } from "../../domain/entities/comment";
+import { CommentData, CommentPage, CommentQuery, CommentRepository, CommentUpdateData } from "../../application/repositories/comment";
+import { NotFoundError } from "../../domain/errors/main";
+
+export class InMemoryCommentRepository extends MemoryClientConfig implements CommentRepository {
+
+    async create({ content, postId, authorId, parentId }: CommentData): Promise<Comment> {
+        if (!this.db.tables.post.some((post) => post.id === postId)) {
+            throw new NotFoundError(`Post ${postId} not found`, 'POST_NOT_FOUND');
+        }
+        const comment: Comment = {
+            id: this.db.nextId('comment'),
+            content,
+            deleted: false,
+            authorId,
+            postId,
+            parentId,
+            date: new Date(),
+            editedAt: null,
+        };
+        this.db.tables.comment.push(comment);
+        return { ...comment };
+    }
+
+    async readById(id: number): Promise<Comment | null> {
+        const comment = this.db.tables.comment.find((comment) => comment.id === id);
+        return comment ? { ...comment } : null;
+    }
+
+    async readByPost({ postId, parentId, order, page, limit }: CommentQuery): Promise<CommentPage> {
+        const direction = order === 'oldest' ? 1 : -1;
+        const rows = this.db.tables.comment
+            .filter((comment) => comment.postId === postId && comment.parentId === parentId && !comment.deleted)
+            .sort((a, b) => direction * (a.date.getTime() - b.date.getTime() || a.id - b.id));
+        const comments = rows.slice((page - 1) * limit, page * limit).map((comment) => ({ ...comment }));
+        return { comments, total: rows.length, page, limit };
+    }
+
+    async update(id: number, commentData: CommentUpdateData): Promise<Comment> {
+        const comment = this.db.tables.comment.find((comment) => comment.id === id);
+        if (!comment) throw new NotFoundError(`Comment ${id} not found`, 'COMMENT_NOT_FOUND');
+        Object.assign(comment, Object.fromEntries(Object.entries(commentData).filter(([, value]) => value !== undefined)));
+        return { ...comment };
+    }
+}
@@ -0,0 +1,41 @@
+import { MemoryClientConfig } from "../connectors/memory-db";
+import { EmailVerificationToken } from "../../domain/entities/emailverification";
+import { EmailVerificationRepository } from "../../application/repositories/emailverification";
+import { ConflictError } from "../../domain/errors/main";
+
+export class InMemoryEmailVerificationRepository extends MemoryClientConfig implements EmailVerificationRepository {
+
+    async create(userId: number, tokenHash: string, expiresAt: Date): Promise<EmailVerificationToken> {
+        if (this.db.tables.emailVerificationToken.some((token) => token.tokenHash === tokenHash)) {
+            throw new ConflictError('Email verification token already exists', 'VERIFICATION_TOKEN_EXISTS');
+        }
+        const token: EmailVerificationToken = { id: this.db.nextId('emailVerificationToken'), tokenHash, userId, expiresAt, usedAt: null, createdAt: new Date() };
+        this.db.tables.emailVerificationToken.push(token);
+        return { ...token };
+    }
+
+    async readByHash(tokenHash: string): Promise<EmailVerificationToken | null> {
+        const token = this.db.tables.emailVerificationToken.find((token) => token.tokenHash === tokenHash);
+        return token ? { ...token } : null;
+    }
+
+    async readCreatedSince(userId: number, since: Date): Promise<EmailVerificationToken[]> {
+        return this.db.tables.emailVerificationToken
+            .filter((token) => token.userId === userId && token.createdAt >= since)
+            .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+            .map((token) => ({ ...token }));
+    }
+
+    async markUsed(id: number): Promise<boolean> {
+        const token = this.db.tables.emailVerificationToken.find((token) => token.id === id && !token.usedAt);
+        if (!token) return false;
+        token.usedAt = new Date();
+        return true;
+    }
+
+    async invalidateAllByUser(userId: number): Promise<void> {
+        this.db.tables.emailVerificationToken
+            .filter((token) => token.userId === userId && !token.usedAt)
+            .forEach((token) => { token.usedAt = new Date(); });
+    }
+}
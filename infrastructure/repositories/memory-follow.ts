@@ -0,0 +1,64 @@
+import { MemoryClientConfig } from "../connectors/memory-db";
+import { Follow } from "../../domain/entities/follow";
+import { FollowListQuery, FollowRepository, FollowUserPage } from "../../application/repositories/follow";
+import { ConflictError, NotFoundError } from "../../domain/errors/main";
+
+export class InMemoryFollowRepository extends MemoryClientConfig implements FollowRepository {
+    async create(followerId: number, followingId: number): Promise<Follow> {
+        for (const userId of [followerId, followingId]) {
+            if (!this.db.tables.user.some((user) => user.id === userId)) {
+                throw new NotFoundError(`User ${userId} not found`, 'USER_NOT_FOUND');
+            }
+        }
+        // Igual que @@unique([followerId, followingId])
+        if (this.find(followerId, followingId)) {
+            throw new ConflictError(`User ${followerId} already follows user ${followingId}`, 'FOLLOW_EXISTS');
+        }
+        const follow: Follow = { id: this.db.nextId('follow'), followerId, followingId, createdAt: new Date() };
+        this.db.tables.follow.push(follow);
+        return { ...follow };
+    }
+    async read(followerId: number, followingId: number): Promise<Follow | null> {
+        const follow = this.find(followerId, followingId);
+        return follow ? { ...follow } : null;
+    }
+    async delete(followerId: number, followingId: number): Promise<Follow> {
+        const follow = this.find(followerId, followingId);
+        if (!follow) throw new NotFoundError(`User ${followerId} does not follow user ${followingId}`, 'FOLLOW_NOT_FOUND');
+        this.db.tables.follow = this.db.tables.follow.filter((f) => f !== follow);
+        return { ...follow };
+    }
+    async countFollowers(userId: number): Promise<number> {
+        return this.db.tables.follow.filter((follow) => follow.followingId === userId).length;
+    }
+    async countFollowing(userId: number): Promise<number> {
+        return this.db.tables.follow.filter((follow) => follow.followerId === userId).length;
+    }
+    async readFollowers(userId: number, query: FollowListQuery): Promise<FollowUserPage> {
+        const follows = this.db.tables.follow.filter((follow) => follow.followingId === userId);
+        return this.toPage(follows, (follow) => follow.followerId, query);
+    }
+    async readFollowing(userId: number, query: FollowListQuery): Promise<FollowUserPage> {
+        const follows = this.db.tables.follow.filter((follow) => follow.followerId === userId);
+        return this.toPage(follows, (follow) => follow.followingId, query);
+    }
+
+    private find(followerId: number, followingId: number) {
+        return this.db.tables.follow.find((follow) => follow.followerId === followerId && follow.followingId === followingId);
+    }
+
+    // Mismo comportamiento que el cursor de Prisma: de la relación más reciente a la más antigua, empezando después del cursor
+    private toPage(follows: Follow[], userIdOf: (follow: Follow) => number, { limit, cursor }: FollowListQuery): FollowUserPage {
+        const rows = [...follows].sort((a, b) => b.id - a.id);
+        const start = cursor === undefined ? 0 : rows.findIndex((follow) => follow.id === cursor) + 1;
+        if (cursor !== undefined && start === 0) return { users: [], nextCursor: null };
+        const page = rows.slice(start, start + limit);
+        return {
+            users: page.map((follow) => {
+                const user = this.db.tables.user.find((user) => user.id === userIdOf(follow));
+                return { id: userIdOf(follow), name: user?.name ?? null, followedAt: follow.createdAt };
+            }),
+            nextCursor: rows.length - start > limit ? page[page.length - 1].id : null,
+        };
+    }
+}
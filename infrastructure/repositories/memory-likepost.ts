@@ -0,0 +1,32 @@
+import { MemoryClientConfig } from "../connectors/memory-db";
+import { LikePost } from "../../domain/entities/likepost";
+import { LikePostRepository } from "../../application/repositories/likepost";
+import { NotFoundError } from "../../domain/errors/main";
+
+export class InMemoryLikePostRepository extends MemoryClientConfig implements LikePostRepository {
+    async create(postId: number, userId: number): Promise<LikePost | null> {
+        if (!this.db.tables.post.some((post) => post.id === postId)) {
+            throw new NotFoundError(`Post ${postId} not found`, 'POST_NOT_FOUND');
+        }
+        if (!this.db.tables.user.some((user) => user.id === userId)) {
+            throw new NotFoundError(`User ${userId} not found`, 'USER_NOT_FOUND');
+        }
+        // Igual que @@unique([userId, postId]) en el repositorio de Prisma
+        if (this.db.tables.likePost.some((like) => like.postId === postId && like.userId === userId)) return null;
+        const like: LikePost = { id: this.db.nextId('likePost'), postId, userId, createdAt: new Date() };
+        this.db.tables.likePost.push(like);
+        return { ...like };
+    }
+    async readByUserAndPost(postId: number, userId: number): Promise<LikePost | null> {
+        const like = this.db.tables.likePost.find((like) => like.postId === postId && like.userId === userId);
+        return like ? { ...like } : null;
+    }
+    async delete(postId: number, userId: number): Promise<boolean> {
+        const count = this.db.tables.likePost.length;
+        this.db.tables.likePost = this.db.tables.likePost.filter((like) => like.postId !== postId || like.userId !== userId);
+        return this.db.tables.likePost.length < count;
+    }
+    async countByPost(postId: number): Promise<number> {
+        return this.db.tables.likePost.filter((like) => like.postId === postId).length;
+    }
+}
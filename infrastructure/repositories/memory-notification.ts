@@ -0,0 +1,92 @@
+import { MemoryClientConfig } from "../connectors/memory-db";
+import { Notification } from "../../domain/entities/notification";
+import { NotificationData, NotificationGroup, NotificationQuery, NotificationRepository } from "../../application/repositories/notification";
+import { NotFoundError } from "../../domain/errors/main";
+
+type NotificationRow = Omit<Notification, 'actorName'>
+
+export class InMemoryNotificationRepository extends MemoryClientConfig implements NotificationRepository {
+
+    async create({ userId, type, actorId, postId, commentId }: NotificationData): Promise<Notification> {
+        for (const id of [userId, actorId]) {
+            if (!this.db.tables.user.some((user) => user.id === id)) {
+                throw new NotFoundError(`User ${id} not found`, 'USER_NOT_FOUND');
+            }
+        }
+        const date = new Date();
+        const notification: NotificationRow = {
+            id: this.db.nextId('notification'),
+            userId,
+            type,
+            actorId,
+            postId,
+            commentId,
+            count: 1,
+            read: false,
+            createdAt: date,
+            updatedAt: date,
+        };
+        this.db.tables.notification.push(notification);
+        this.db.tables.notificationActor.push({ notificationId: notification.id, actorId });
+        return this.withActor(notification);
+    }
+
+    async readById(id: number): Promise<Notification | null> {
+        const notification = this.db.tables.notification.find((notification) => notification.id === id);
+        return notification ? this.withActor(notification) : null;
+    }
+
+    async readUnreadGroup({ userId, type, postId, commentId }: NotificationGroup): Promise<Notification | null> {
+        const notification = this.db.tables.notification
+            .filter((n) => n.userId === userId && n.type === type && n.postId === postId && n.commentId === commentId && !n.read)
+            .sort((a, b) => b.id - a.id)[0];
+        return notification ? this.withActor(notification) : null;
+    }
+
+    async addToGroup(id: number, actorId: number): Promise<Notification | null> {
+        const notification = this.find(id);
+        // Como @@unique([notificationId, actorId])
+        if (this.db.tables.notificationActor.some((actor) => actor.notificationId === id && actor.actorId === actorId)) return null;
+        this.db.tables.notificationActor.push({ notificationId: id, actorId });
+        Object.assign(notification, { actorId, count: notification.count + 1, updatedAt: new Date() });
+        return this.withActor(notification);
+    }
+
+    async readByUser({ userId, unreadOnly, limit, cursor }: NotificationQuery): Promise<{ notifications: Notification[]; nextCursor: number | null }> {
+        // Mismo orden y cursor que PrismaNotificationRepository
+        const rows = this.db.tables.notification
+            .filter((notification) => notification.userId === userId && (!unreadOnly || !notification.read))
+            .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime() || b.id - a.id);
+        const start = cursor === undefined ? 0 : rows.findIndex((notification) => notification.id === cursor) + 1;
+        if (cursor !== undefined && start === 0) return { notifications: [], nextCursor: null };
+        const notifications = rows.slice(start, start + limit).map((notification) => this.withActor(notification));
+        return { notifications, nextCursor: rows.length - start > limit ? notifications[notifications.length - 1].id : null };
+    }
+
+    async countUnread(userId: number): Promise<number> {
+        return this.db.tables.notification.filter((notification) => notification.userId === userId && !notification.read).length;
+    }
+
+    async markRead(id: number): Promise<Notification> {
+        const notification = this.find(id);
+        notification.read = true;
+        return this.withActor(notification);
+    }
+
+    async markAllRead(userId: number): Promise<number> {
+        const unread = this.db.tables.notification.filter((notification) => notification.userId === userId && !notification.read);
+        unread.forEach((notification) => { notification.read = true; });
+        return unread.length;
+    }
+
+    private find(id: number): NotificationRow {
+        const notification = this.db.tables.notification.find((notification) => notification.id === id);
+        if (!notification) throw new NotFoundError(`Notification ${id} not found`, 'NOTIFICATION_NOT_FOUND');
+        return notification;
+    }
+
+    private withActor(notification: NotificationRow): Notification {
+        const actor = this.db.tables.user.find((user) => user.id === notification.actorId);
+        return { ...notification, actorName: actor?.name ?? null };
+    }
+}
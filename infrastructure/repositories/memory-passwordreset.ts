@@ -0,0 +1,34 @@
+import { MemoryClientConfig } from "../connectors/memory-db";
+import { PasswordResetToken } from "../../domain/entities/passwordreset";
+import { PasswordResetRepository } from "../../application/repositories/passwordreset";
+import { ConflictError } from "../../domain/errors/main";
+
+export class InMemoryPasswordResetRepository extends MemoryClientConfig implements PasswordResetRepository {
+
+    async create(userId: number, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken> {
+        if (this.db.tables.passwordResetToken.some((token) => token.tokenHash === tokenHash)) {
+            throw new ConflictError('Password reset token already exists', 'RESET_TOKEN_EXISTS');
+        }
+        const token: PasswordResetToken = { id: this.db.nextId('passwordResetToken'), tokenHash, userId, expiresAt, usedAt: null, createdAt: new Date() };
+        this.db.tables.passwordResetToken.push(token);
+        return { ...token };
+    }
+
+    async readByHash(tokenHash: string): Promise<PasswordResetToken | null> {
+        const token = this.db.tables.passwordResetToken.find((token) => token.tokenHash === tokenHash);
+        return token ? { ...token } : null;
+    }
+
+    async markUsed(id: number): Promise<boolean> {
+        const token = this.db.tables.passwordResetToken.find((token) => token.id === id && !token.usedAt);
+        if (!token) return false;
+        token.usedAt = new Date();
+        return true;
+    }
+
+    async invalidateAllByUser(userId: number): Promise<void> {
+        this.db.tables.passwordResetToken
+            .filter((token) => token.userId === userId && !token.usedAt)
+            .forEach((token) => { token.usedAt = new Date(); });
+    }
+}
@@ -0,0 +1,140 @@
+import { MemoryClientConfig } from "../connectors/memory-db";
+import { Post } from "../../domain/entities/post"
+import { PostData, PostOrder, PostPage, PostQuery, PostRepository, PostUpdateData } from "../../application/repositories/post";
+import { PostRevisionData } from "../../application/repositories/postrevision";
+import { NotFoundError } from "../../domain/errors/main";
+import { InMemoryPostRevisionRepository } from "./memory-postrevision";
+
+type PostRow = Omit<Post, 'likes' | 'likesCount' | 'tags'>
+
+export class InMemoryPostRepository extends MemoryClientConfig implements PostRepository {
+
+    async create({ title, content, authorName, tags, status, publishAt }: PostData, userId: number): Promise<Post> {
+        if (!this.db.tables.user.some((user) => user.id === userId)) {
+            throw new NotFoundError(`User ${userId} not found`, 'USER_NOT_FOUND');
+        }
+        const date = new Date();
+        const post: PostRow = {
+            id: this.db.nextId('post'),
+            title,
+            content: content ?? null,
+            deleted: false,
+            hidden: false,
+            status: status ?? 'published',
+            publishAt: publishAt ?? null,
+            authorId: userId,
+            authorName,
+            date,
+            updatedAt: date,
+            editedAt: null,
+        };
+        this.db.tables.post.push(post);
+        this.setTags(post.id, tags ?? []);
+        return { ...post, tags: this.tagsOf(post.id) };
+    }
+
+    async readAll(): Promise<Post[]> {
+        return this.db.tables.post.map((post) => this.withLikes(post));
+    }
+
+    async readPage({ order, statuses = ['published'], publishBefore, authorId, search, tags, tagMatch, followedBy, ids, onlyVisible, limit, cursor }: PostQuery): Promise<PostPage> {
+        const needle = search?.toLowerCase();
+        const followed = followedBy === undefined ? null : new Set(this.db.tables.follow
+            .filter((follow) => follow.followerId === followedBy)
+            .map((follow) => follow.followingId));
+        const banned = new Set(this.db.tables.user.filter((user) => this.db.isSuspended(user.id)).map((user) => user.id));
+        const hasTags = (postTags: string[]) => !tags?.length
+            || (tagMatch === 'all' ? tags.every((tag) => postTags.includes(tag)) : tags.some((tag) => postTags.includes(tag)));
+        const rows = this.db.tables.post
+            .filter((post) => !needle || post.title.toLowerCase().includes(needle) || !!post.content?.toLowerCase().includes(needle))
+            .filter((post) => !post.hidden && statuses.includes(post.status ?? 'published'))
+            .filter((post) => !publishBefore || (!!post.publishAt && post.publishAt <= publishBefore))
+            .filter((post) => authorId === undefined || post.authorId === authorId)
+            .filter((post) => !followed || followed.has(post.authorId))
+            .filter((post) => !ids || ids.includes(post.id))
+            .filter((post) => !onlyVisible || (!post.deleted && !banned.has(post.authorId)))
+            .map((post) => ({ ...post, tags: this.tagsOf(post.id), likesCount: this.likesOf(post.id).length }))
+            .filter((post) => hasTags(post.tags))
+            .sort(this.compare(order));
+        // Mismo comportamiento que el cursor de Prisma: se empieza después del post del cursor
+        const start = cursor === undefined ? 0 : rows.findIndex((post) => post.id === cursor) + 1;
+        if (cursor !== undefined && start === 0) return { posts: [], nextCursor: null };
+        const posts = rows.slice(start, start + limit);
+        const hasNext = rows.length - start > limit;
+        return { posts, nextCursor: hasNext ? posts[posts.length - 1].id : null };
+    }
+
+    async readById(id: number): Promise<Post | null> {
+        const post = this.db.tables.post.find((post) => post.id === id);
+        return post ? this.withLikes(post) : null;
+    }
+
+    async delete(id: number): Promise<Post> {
+        const post = this.db.tables.post.find((post) => post.id === id);
+        if (!post) throw new NotFoundError(`Post ${id} not found`, 'POST_NOT_FOUND');
+        this.db.deletePostCascade(id);
+        return { ...post };
+    }
+
+    async update(id: number, { tags, ...postData }: PostUpdateData): Promise<Post> {
+        const post = this.db.tables.post.find((post) => post.id === id);
+        if (!post) throw new NotFoundError(`Post ${id} not found`, 'POST_NOT_FOUND');
+        const changes = Object.fromEntries(Object.entries(postData).filter(([, value]) => value !== undefined));
+        // Equivalente a `@updatedAt` de Prisma
+        Object.assign(post, changes, { id, updatedAt: new Date() });
+        if (tags) this.setTags(id, tags);
+        return { ...post, tags: this.tagsOf(id) };
+    }
+
+    async updateWithRevision(id: number, postData: PostUpdateData, revisionData: PostRevisionData): Promise<Post> {
+        // La versión solo se crea si el post existe, y entonces la edición ya no puede fallar
+        await new InMemoryPostRevisionRepository(this.db).create(id, revisionData);
+        return this.update(id, postData);
+    }
+
+    private likesOf(postId: number) {
+        return this.db.tables.likePost.filter((like) => like.postId === postId);
+    }
+
+    private tagsOf(postId: number): string[] {
+        const tagIds = this.db.tables.postTag.filter((postTag) => postTag.postId === postId).map((postTag) => postTag.tagId);
+        return this.db.tables.tag.filter((tag) => tagIds.includes(tag.id)).map((tag) => tag.name);
+    }
+
+    // Sustituye las etiquetas del post, creando las que aún no existen (como `connectOrCreate`)
+    private setTags(postId: number, names: string[]): void {
+        this.db.tables.postTag = this.db.tables.postTag.filter((postTag) => postTag.postId !== postId);
+        for (const name of names) {
+            let tag = this.db.tables.tag.find((tag) => tag.name === name);
+            if (!tag) {
+                tag = { id: this.db.nextId('tag'), name };
+                this.db.tables.tag.push(tag);
+            }
+            this.db.tables.postTag.push({ postId, tagId: tag.id });
+        }
+    }
+
+    private withLikes(post: PostRow): Post {
+        return { ...post, tags: this.tagsOf(post.id), likes: this.likesOf(post.id).map((like) => ({ ...like })) };
+    }
+
+    // Mismo orden que PrismaPostRepository.orderBy, con el id como desempate
+    private compare(order: PostOrder) {
+        const byId = (a: Post, b: Post) => a.id - b.id;
+        const byTitle = (a: Post, b: Post) => (a.title < b.title ? -1 : a.title > b.title ? 1 : 0);
+        const byLikes = (a: Post, b: Post) => (a.likesCount ?? 0) - (b.likesCount ?? 0);
+        const byDate = (a: Post, b: Post) => a.date.getTime() - b.date.getTime();
+        switch (order) {
+            case 'nombre-asc':
+                return (a: Post, b: Post) => byTitle(a, b) || byId(a, b);
+            case 'nombre-desc':
+                return (a: Post, b: Post) => byTitle(b, a) || byId(b, a);
+            case 'popularidad-asc':
+                return (a: Post, b: Post) => byLikes(a, b) || byId(a, b);
+            case 'popularidad-desc':
+                return (a: Post, b: Post) => byLikes(b, a) || byId(b, a);
+            default:
+                return (a: Post, b: Post) => byDate(b, a) || byId(b, a);
+        }
+    }
+}
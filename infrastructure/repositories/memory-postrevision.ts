@@ -0,0 +1,29 @@
+import { MemoryClientConfig } from "../connectors/memory-db";
+import { PostRevision } from "../../domain/entities/postrevision";
+import { PostRevisionData, PostRevisionRepository } from "../../application/repositories/postrevision";
+import { NotFoundError } from "../../domain/errors/main";
+
+export class InMemoryPostRevisionRepository extends MemoryClientConfig implements PostRevisionRepository {
+
+    async create(postId: number, { title, content, editorId }: PostRevisionData): Promise<PostRevision> {
+        if (!this.db.tables.post.some((post) => post.id === postId)) {
+            throw new NotFoundError(`Post ${postId} not found`, 'POST_NOT_FOUND');
+        }
+        const rev = this.db.tables.postRevision.filter((revision) => revision.postId === postId).length + 1;
+        const revision: PostRevision = { id: this.db.nextId('postRevision'), postId, rev, title, content, editorId, createdAt: new Date() };
+        this.db.tables.postRevision.push(revision);
+        return { ...revision };
+    }
+
+    async readByPost(postId: number): Promise<PostRevision[]> {
+        return this.db.tables.postRevision
+            .filter((revision) => revision.postId === postId)
+            .sort((a, b) => a.rev - b.rev)
+            .map((revision) => ({ ...revision }));
+    }
+
+    async readByRev(postId: number, rev: number): Promise<PostRevision | null> {
+        const revision = this.db.tables.postRevision.find((revision) => revision.postId === postId && revision.rev === rev);
+        return revision ? { ...revision } : null;
+    }
+}
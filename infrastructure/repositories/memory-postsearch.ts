@@ -0,0 +1,53 @@
+import { MemoryClientConfig } from "../connectors/memory-db";
+import { isPublished } from "../../domain/entities/post";
+import { MARK_END, MARK_START, toHighlightHtml } from "./highlight";
+import { PostSearchQuery, PostSearchRepository, PostSearchResult } from "../../application/repositories/postsearch";
+
+type Term = { text: string, prefix: boolean }
+
+// Búsqueda simple para el modo en memoria: mismos términos que `toMatchExpression`
+// (frases, prefijos con `*` y todos los términos obligatorios), sin bm25
+export class InMemoryPostSearchRepository extends MemoryClientConfig implements PostSearchRepository {
+
+    async search({ text, limit, offset }: PostSearchQuery): Promise<PostSearchResult[]> {
+        const terms = parseTerms(text);
+        if (!terms.length) return [];
+        return this.db.tables.post
+            .filter((post) => !post.deleted && !post.hidden && isPublished(post))
+            .flatMap((post) => {
+                const title = post.title.toLowerCase();
+                const content = (post.content ?? '').toLowerCase();
+                if (!terms.every((term) => matches(title, term) || matches(content, term))) return [];
+                // El título pesa 10 veces más que el contenido, como en bm25("PostSearch", 10.0, 1.0)
+                const rank = terms.reduce((sum, term) => sum + 10 * count(title, term) + count(content, term), 0);
+                return [{
+                    post: { ...post },
+                    rank,
+                    titleHighlight: highlight(post.title, terms),
+                    contentSnippet: highlight(post.content ?? '', terms),
+                }];
+            })
+            .sort((a, b) => b.rank - a.rank || a.post.id - b.post.id)
+            .slice(offset, offset + limit);
+    }
+}
+
+const parseTerms = (text: string): Term[] =>
+    (text.match(/"[^"]*"|[^\s"]+/g) ?? [])
+        .map((token) => token.startsWith('"')
+            ? { text: token.slice(1, -1).trim().toLowerCase(), prefix: false }
+            : { text: token.replace(/\*+$/, '').replace(/"/g, '').toLowerCase(), prefix: token.endsWith('*') })
+        .filter((term) => term.text);
+
+const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Límites de palabra con letras Unicode para que funcione con acentos (\b solo entiende ASCII)
+const termRegExp = (term: Term) =>
+    new RegExp(`(?<![\\p{L}\\p{N}])${escape(term.text)}${term.prefix ? '[\\p{L}\\p{N}]*' : '(?![\\p{L}\\p{N}])'}`, 'giu');
+
+const matches = (text: string, term: Term) => termRegExp(term).test(text);
+
+const count = (text: string, term: Term) => text.match(termRegExp(term))?.length ?? 0;
+
+const highlight = (text: string, terms: Term[]) =>
+    toHighlightHtml(terms.reduce((result, term) => result.replace(termRegExp(term), (match) => `${MARK_START}${match}${MARK_END}`), text));
@@ -0,0 +1,35 @@
+import { MemoryClientConfig } from "../connectors/memory-db";
+import { isPublished } from "../../domain/entities/post";
+import { LikeBucket, likeBucket, TrendingWindow, windowStart } from "../../domain/entities/ranking";
+import { RankingData, RankingRepository } from "../../application/repositories/ranking";
+
+export class InMemoryRankingRepository extends MemoryClientConfig implements RankingRepository {
+
+    async read(window: TrendingWindow): Promise<RankingData> {
+        const now = new Date();
+        const since = windowStart(window, now);
+        const posts = this.db.tables.post
+            .filter((post) => !post.deleted && !post.hidden && isPublished(post) && !this.db.isSuspended(post.authorId))
+            .map((post) => ({
+                postId: post.id,
+                likes: this.buckets(this.db.tables.likePost
+                    .filter((like) => like.postId === post.id && (!since || like.createdAt >= since))
+                    .map((like) => like.createdAt), now),
+            }))
+            .filter(({ likes }) => !since || likes.length > 0);
+        return { posts, users: this.db.tables.user.length };
+    }
+
+    // Mismos grupos que la consulta de Prisma
+    private buckets(dates: Date[], now: Date): LikeBucket[] {
+        const groups = new Map<number, Date[]>();
+        for (const date of dates) {
+            const bucket = likeBucket(date, now);
+            groups.set(bucket, [...(groups.get(bucket) ?? []), date]);
+        }
+        return [...groups.values()].map((group) => ({
+            likedAt: new Date(group.reduce((total, date) => total + date.getTime(), 0) / group.length),
+            likes: group.length,
+        }));
+    }
+}
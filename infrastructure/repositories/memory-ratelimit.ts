@@ -0,0 +1,38 @@
+import { MemoryClientConfig } from "../connectors/memory-db";
+import { RateLimitCounter } from "../../domain/entities/ratelimit";
+import { RateLimitStore } from "../../application/repositories/ratelimit";
+
+export class InMemoryRateLimitStore extends MemoryClientConfig implements RateLimitStore {
+
+    async hit(key: string, windowMs: number): Promise<RateLimitCounter> {
+        const now = Date.now();
+        // Se descartan los contadores caducados y sin bloqueo para que la tabla no crezca con cada IP
+        this.db.tables.rateLimit = this.db.tables.rateLimit.filter((counter) =>
+            counter.resetAt.getTime() > now || (counter.lockedUntil?.getTime() ?? 0) > now);
+        let counter = this.db.tables.rateLimit.find((counter) => counter.key === key);
+        if (!counter) {
+            counter = { key, count: 0, resetAt: new Date(now + windowMs), lockedUntil: null };
+            this.db.tables.rateLimit.push(counter);
+        } else if (counter.resetAt.getTime() <= now) {
+            counter.count = 0;
+            counter.resetAt = new Date(now + windowMs);
+        }
+        counter.count++;
+        return { ...counter };
+    }
+
+    async read(key: string): Promise<RateLimitCounter | null> {
+        const counter = this.db.tables.rateLimit.find((counter) => counter.key === key);
+        return counter ? { ...counter } : null;
+    }
+
+    async lock(key: string, until: Date): Promise<void> {
+        this.db.tables.rateLimit
+            .filter((counter) => counter.key === key)
+            .forEach((counter) => { counter.lockedUntil = until; });
+    }
+
+    async reset(key: string): Promise<void> {
+        this.db.tables.rateLimit = this.db.tables.rateLimit.filter((counter) => counter.key !== key);
+    }
+}
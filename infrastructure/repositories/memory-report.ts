@@ -0,0 +1,63 @@
+import { MemoryClientConfig } from "../connectors/memory-db";
+import { Report, ReportStatus, ReportTargetType } from "../../domain/entities/report";
+import { ReportData, ReportPage, ReportQuery, ReportRepository } from "../../application/repositories/report";
+import { NotFoundError } from "../../domain/errors/main";
+
+export class InMemoryReportRepository extends MemoryClientConfig implements ReportRepository {
+
+    async create(data: ReportData): Promise<Report> {
+        if (!this.db.tables.user.some((user) => user.id === data.reporterId)) {
+            throw new NotFoundError(`User ${data.reporterId} not found`, 'USER_NOT_FOUND');
+        }
+        const targets = data.targetType === 'post' ? this.db.tables.post : this.db.tables.user;
+        if (!targets.some((target) => target.id === data.targetId)) {
+            throw new NotFoundError(`${data.targetType} ${data.targetId} not found`, data.targetType === 'post' ? 'POST_NOT_FOUND' : 'USER_NOT_FOUND');
+        }
+        const report: Report = {
+            ...data,
+            id: this.db.nextId('report'),
+            status: 'open',
+            resolvedById: null,
+            resolvedAt: null,
+            createdAt: new Date(),
+        };
+        this.db.tables.report.push(report);
+        return { ...report };
+    }
+
+    async readById(id: number): Promise<Report | null> {
+        const report = this.db.tables.report.find((report) => report.id === id);
+        return report ? { ...report } : null;
+    }
+
+    async readPage({ status, targetType, limit, cursor }: ReportQuery): Promise<ReportPage> {
+        // Mismo orden y cursor que PrismaReportRepository
+        const rows = this.db.tables.report
+            .filter((report) => (status === undefined || report.status === status) && (targetType === undefined || report.targetType === targetType))
+            .sort((a, b) => a.id - b.id);
+        const start = cursor === undefined ? 0 : rows.findIndex((report) => report.id === cursor) + 1;
+        if (cursor !== undefined && start === 0) return { reports: [], nextCursor: null };
+        const reports = rows.slice(start, start + limit).map((report) => ({ ...report }));
+        return { reports, nextCursor: rows.length - start > limit ? reports[reports.length - 1].id : null };
+    }
+
+    async readOpenByReporter(reporterId: number, targetType: ReportTargetType, targetId: number): Promise<Report | null> {
+        const report = this.openOf(targetType, targetId).find((report) => report.reporterId === reporterId);
+        return report ? { ...report } : null;
+    }
+
+    async countOpen(targetType: ReportTargetType, targetId: number): Promise<number> {
+        return this.openOf(targetType, targetId).length;
+    }
+
+    async resolveOpen(targetType: ReportTargetType, targetId: number, status: Exclude<ReportStatus, 'open'>, resolvedById: number): Promise<number> {
+        const reports = this.openOf(targetType, targetId);
+        const resolvedAt = new Date();
+        reports.forEach((report) => Object.assign(report, { status, resolvedById, resolvedAt }));
+        return reports.length;
+    }
+
+    private openOf(targetType: ReportTargetType, targetId: number): Report[] {
+        return this.db.tables.report.filter((report) => report.status === 'open' && report.targetType === targetType && report.targetId === targetId);
+    }
+}
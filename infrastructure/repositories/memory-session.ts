@@ -0,0 +1,56 @@
+import { randomUUID } from "crypto";
+import { MemoryClientConfig } from "../connectors/memory-db";
+import { RefreshToken, Session } from "../../domain/entities/session";
+import { RefreshTokenWithSession, SessionRepository } from "../../application/repositories/session";
+import { ConflictError, NotFoundError } from "../../domain/errors/main";
+
+export class InMemorySessionRepository extends MemoryClientConfig implements SessionRepository {
+
+    async create(userId: number): Promise<Session> {
+        const session: Session = { id: randomUUID(), userId, createdAt: new Date(), revokedAt: null };
+        this.db.tables.session.push(session);
+        return { ...session };
+    }
+
+    async readById(id: string): Promise<Session | null> {
+        const session = this.db.tables.session.find((session) => session.id === id);
+        return session ? { ...session } : null;
+    }
+
+    async revoke(id: string): Promise<void> {
+        this.db.tables.session
+            .filter((session) => session.id === id && !session.revokedAt)
+            .forEach((session) => { session.revokedAt = new Date(); });
+    }
+
+    async revokeAllByUser(userId: number): Promise<void> {
+        this.db.tables.session
+            .filter((session) => session.userId === userId && !session.revokedAt)
+            .forEach((session) => { session.revokedAt = new Date(); });
+    }
+
+    async createRefreshToken(sessionId: string, tokenHash: string, expiresAt: Date): Promise<RefreshToken> {
+        if (!this.db.tables.session.some((session) => session.id === sessionId)) {
+            throw new NotFoundError(`Session ${sessionId} not found`, 'SESSION_NOT_FOUND');
+        }
+        if (this.db.tables.refreshToken.some((token) => token.tokenHash === tokenHash)) {
+            throw new ConflictError('Refresh token already exists', 'REFRESH_TOKEN_EXISTS');
+        }
+        const token: RefreshToken = { id: this.db.nextId('refreshToken'), tokenHash, sessionId, expiresAt, usedAt: null, createdAt: new Date() };
+        this.db.tables.refreshToken.push(token);
+        return { ...token };
+    }
+
+    async readRefreshTokenByHash(tokenHash: string): Promise<RefreshTokenWithSession | null> {
+        const token = this.db.tables.refreshToken.find((token) => token.tokenHash === tokenHash);
+        const session = token && this.db.tables.session.find((session) => session.id === token.sessionId);
+        return token && session ? { ...token, session: { ...session } } : null;
+    }
+
+    async markRefreshTokenUsed(id: number): Promise<boolean> {
+        const token = this.db.tables.refreshToken.find((token) => token.id === id && !token.usedAt);
+        if (!token) return false;
+        token.usedAt = new Date();
+        return true;
+    }
+}
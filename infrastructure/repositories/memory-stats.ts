@@ -0,0 +1,65 @@
+import { MemoryClientConfig } from "../connectors/memory-db";
+import { isPublished } from "../../domain/entities/post";
+import { DailyActivity, toDay, UserStats } from "../../domain/entities/stats";
+import { StatsRepository } from "../../application/repositories/stats";
+
+export class InMemoryStatsRepository extends MemoryClientConfig implements StatsRepository {
+
+    async countUsers(): Promise<number> {
+        return this.db.tables.user.length;
+    }
+
+    async readUserStats(userId: number): Promise<UserStats | null> {
+        if (!this.db.tables.user.some((user) => user.id === userId)) return null;
+        const posts = this.db.tables.post
+            .filter((post) => post.authorId === userId && !post.deleted && isPublished(post))
+            .map((post) => ({ post, likes: this.db.tables.likePost.filter((like) => like.postId === post.id).length }));
+        const mostLiked = posts
+            .filter(({ post, likes }) => !post.hidden && likes > 0)
+            .sort((a, b) => b.likes - a.likes || b.post.id - a.post.id)[0];
+        return {
+            userId,
+            posts: posts.length,
+            likesGiven: this.db.tables.likePost.filter((like) => like.userId === userId).length,
+            likesReceived: posts.reduce((total, { likes }) => total + likes, 0),
+            mostLikedPost: mostLiked ? { id: mostLiked.post.id, title: mostLiked.post.title, likes: mostLiked.likes } : null,
+        };
+    }
+
+    async readDailyActivity(from: string, to: string): Promise<DailyActivity[]> {
+        const days = new Map<string, DailyActivity & { users: Set<number> }>();
+        const day = (date: Date) => {
+            const key = toDay(date);
+            if (key < from || key > to) return null;
+            if (!days.has(key)) days.set(key, { date: key, signups: 0, posts: 0, likes: 0, activeUsers: 0, users: new Set() });
+            return days.get(key)!;
+        };
+        for (const user of this.db.tables.user) {
+            const activity = user.createdAt && day(user.createdAt);
+            if (activity) activity.signups++;
+        }
+        for (const post of this.db.tables.post.filter(isPublished)) {
+            const activity = day(post.date);
+            if (activity) { activity.posts++; activity.users.add(post.authorId); }
+        }
+        for (const like of this.db.tables.likePost) {
+            const activity = day(like.createdAt);
+            if (activity) { activity.likes++; activity.users.add(like.userId); }
+        }
+        for (const comment of this.db.tables.comment) {
+            day(comment.date)?.users.add(comment.authorId);
+        }
+        return [...days.values()]
+            .sort((a, b) => a.date.localeCompare(b.date))
+            .map(({ users, ...activity }) => ({ ...activity, activeUsers: users.size }));
+    }
+
+    async countActiveUsers(from: string, to: string): Promise<number> {
+        const inRange = (date: Date) => toDay(date) >= from && toDay(date) <= to;
+        return new Set([
+            ...this.db.tables.post.filter((post) => isPublished(post) && inRange(post.date)).map((post) => post.authorId),
+            ...this.db.tables.comment.filter((comment) => inRange(comment.date)).map((comment) => comment.authorId),
+            ...this.db.tables.likePost.filter((like) => inRange(like.createdAt)).map((like) => like.userId),
+        ]).size;
+    }
+}
@@ -0,0 +1,45 @@
+import { MemoryClientConfig } from "../connectors/memory-db";
+import { isActiveSuspension, Suspension } from "../../domain/entities/suspension";
+import { SuspensionData, SuspensionRepository } from "../../application/repositories/suspension";
+import { NotFoundError } from "../../domain/errors/main";
+
+export class InMemorySuspensionRepository extends MemoryClientConfig implements SuspensionRepository {
+
+    async create(data: SuspensionData): Promise<Suspension> {
+        for (const id of [data.userId, data.issuedById]) {
+            if (id !== null && !this.db.tables.user.some((user) => user.id === id)) {
+                throw new NotFoundError(`User ${id} not found`, 'USER_NOT_FOUND');
+            }
+        }
+        const suspension: Suspension = {
+            ...data,
+            id: this.db.nextId('suspension'),
+            liftedAt: null,
+            liftedById: null,
+            createdAt: new Date(),
+        };
+        this.db.tables.suspension.push(suspension);
+        return { ...suspension };
+    }
+
+    async readActive(userId: number, now: Date): Promise<Suspension | null> {
+        const suspension = this.db.tables.suspension
+            .filter((suspension) => suspension.userId === userId && isActiveSuspension(suspension, now))
+            .sort((a, b) => b.id - a.id)[0];
+        return suspension ? { ...suspension } : null;
+    }
+
+    async readByUser(userId: number): Promise<Suspension[]> {
+        return this.db.tables.suspension
+            .filter((suspension) => suspension.userId === userId)
+            .sort((a, b) => b.id - a.id)
+            .map((suspension) => ({ ...suspension }));
+    }
+
+    async lift(id: number, liftedById: number): Promise<Suspension> {
+        const suspension = this.db.tables.suspension.find((suspension) => suspension.id === id);
+        if (!suspension) throw new NotFoundError(`Suspension ${id} not found`, 'SUSPENSION_NOT_FOUND');
+        Object.assign(suspension, { liftedAt: new Date(), liftedById });
+        return { ...suspension };
+    }
+}
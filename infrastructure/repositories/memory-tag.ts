@@ -0,0 +1,19 @@
+import { MemoryClientConfig } from "../connectors/memory-db";
+import { TagCount } from "../../domain/entities/tag";
+import { TagRepository } from "../../application/repositories/tag";
+
+export class InMemoryTagRepository extends MemoryClientConfig implements TagRepository {
+
+    async readCounts(since?: Date): Promise<TagCount[]> {
+        const postIds = new Set(this.db.tables.post
+            .filter((post) => !post.deleted && (!since || post.date >= since))
+            .map((post) => post.id));
+        return this.db.tables.tag
+            .map((tag) => ({
+                name: tag.name,
+                count: this.db.tables.postTag.filter((postTag) => postTag.tagId === tag.id && postIds.has(postTag.postId)).length,
+            }))
+            .filter((tag) => tag.count > 0)
+            .sort((a, b) => b.count - a.count || (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+    }
+}
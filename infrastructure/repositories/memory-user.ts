@@ -0,0 +1,54 @@
+import { MemoryClientConfig } from "../connectors/memory-db";
+import { PublicUser, User } from "../../domain/entities/user";
+import { UserRepository, UserUpdateData } from "../../application/repositories/user";
+import { ConflictError, NotFoundError } from "../../domain/errors/main";
+
+export class InMemoryUserRepository extends MemoryClientConfig implements UserRepository {
+
+    async create({ email, password, name }: { email: string, password: string, name?: string }): Promise<User> {
+        if (this.db.tables.user.some((user) => user.email === email)) {
+            throw new ConflictError(`Email ${email} already in use`, 'EMAIL_TAKEN');
+        }
+        const user = {
+            id: this.db.nextId('user'),
+            email,
+            password,
+            name: name ?? null,
+            role: 'USER',
+            emailVerified: false,
+            createdAt: new Date(),
+        };
+        this.db.tables.user.push(user);
+        return this.withBanned(user);
+    }
+
+    async readById(id: number): Promise<User | null> {
+        const user = this.db.tables.user.find((user) => user.id === id);
+        return user ? this.withBanned(user) : null;
+    }
+
+    async readByEmail(email: string): Promise<User | null> {
+        const user = this.db.tables.user.find((user) => user.email === email);
+        return user ? this.withBanned(user) : null;
+    }
+
+    async readAll(): Promise<PublicUser[]> {
+        return this.db.tables.user.map(({ password, ...user }) => this.withBanned(user));
+    }
+
+    async update(id: number, userData: UserUpdateData): Promise<User> {
+        const user = this.db.tables.user.find((user) => user.id === id);
+        if (!user) throw new NotFoundError(`User ${id} not found`, 'USER_NOT_FOUND');
+        if (userData.email && userData.email !== user.email && this.db.tables.user.some((u) => u.email === userData.email)) {
+            throw new ConflictError(`Email ${userData.email} already in use`, 'EMAIL_TAKEN');
+        }
+        // Prisma ignora los campos undefined, aquí igual
+        const changes = Object.fromEntries(Object.entries(userData).filter(([, value]) => value !== undefined));
+        Object.assign(user, changes, { id });
+        return this.withBanned(user);
+    }
+
+    private withBanned<T extends Omit<PublicUser, 'banned'>>(user: T): T & { banned: boolean } {
+        return { ...user, banned: this.db.isSuspended(user.id) };
+    }
+}
@@ -0,0 +1,22 @@
+import { PrismaClientConfig } from "../connectors/prisma-db";
+import { Attachment } from "../../domain/entities/attachment";
+import { AttachmentData, AttachmentRepository } from "../../application/repositories/attachment";
+
+export class PrismaAttachmentRepository extends PrismaClientConfig implements AttachmentRepository {
+
+    async create(data: AttachmentData): Promise<Attachment> {
+        return this.prisma.attachment.create({ data });
+    }
+
+    async readByPost(postId: number): Promise<Attachment[]> {
+        return this.prisma.attachment.findMany({ where: { postId }, orderBy: { id: 'asc' } });
+    }
+
+    async countByPost(postId: number): Promise<number> {
+        return this.prisma.attachment.count({ where: { postId } });
+    }
+
+    async readByKey(key: string): Promise<Attachment | null> {
+        return this.prisma.attachment.findFirst({ where: { OR: [{ key }, { thumbnailKey: key }] } });
+    }
+}
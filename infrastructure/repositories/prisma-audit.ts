@@ -0,0 +1,51 @@
+import { PrismaClientConfig } from "../connectors/prisma-db";
+import { AuditAction, AuditLogEntry, AuditTargetType } from "../../domain/entities/audit";
+import { AuditLogData, AuditLogPage, AuditLogQuery, AuditLogRepository } from "../../application/repositories/audit";
+
+// Las instantáneas se guardan como texto JSON: SQLite no tiene tipo Json en Prisma
+type AuditLogRow = Omit<AuditLogEntry, 'action' | 'targetType' | 'before' | 'after'> & {
+    action: string;
+    targetType: string;
+    before: string | null;
+    after: string | null;
+}
+
+const toEntry = ({ action, targetType, before, after, ...entry }: AuditLogRow): AuditLogEntry => ({
+    ...entry,
+    action: action as AuditAction,
+    targetType: targetType as AuditTargetType,
+    before: before === null ? null : JSON.parse(before),
+    after: after === null ? null : JSON.parse(after),
+})
+
+export class PrismaAuditLogRepository extends PrismaClientConfig implements AuditLogRepository {
+
+    async append({ before, after, ...data }: AuditLogData): Promise<AuditLogEntry> {
+        const entry = await this.prisma.auditLog.create({
+            data: {
+                ...data,
+                before: before === null ? null : JSON.stringify(before),
+                after: after === null ? null : JSON.stringify(after),
+            }
+        });
+        return toEntry(entry);
+    }
+
+    async read({ actorId, action, targetType, targetId, from, to, limit, cursor }: AuditLogQuery): Promise<AuditLogPage> {
+        // Se pide una de más para saber si existe una página siguiente
+        const rows = await this.prisma.auditLog.findMany({
+            where: {
+                actorId,
+                action,
+                targetType,
+                targetId,
+                ...((from || to) && { createdAt: { gte: from, lte: to } }),
+            },
+            orderBy: { id: 'desc' },
+            take: limit + 1,
+            ...(cursor !== undefined && { cursor: { id: cursor }, skip: 1 }),
+        });
+        const entries = rows.slice(0, limit).map(toEntry);
+        return { entries, nextCursor: rows.length > limit ? entries[entries.length - 1].id : null };
+    }
+}
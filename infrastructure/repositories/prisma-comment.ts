@@ -0,0 +1,48 @@
+import { PrismaClientConfig } from "../connectors/prisma-db";
+import { Comment } from "../../domain/entities/comment";
+import { CommentData, CommentPage, CommentQuery, CommentRepository, CommentUpdateData } from "../../application/repositories/comment";
+
+export class PrismaCommentRepository extends PrismaClientConfig implements CommentRepository {
+
+    async create({ content, postId, authorId, parentId }: CommentData): Promise<Comment> {
+        return await this.prisma.comment.create({
+            data: {
+                content,
+                post: {
+                    connect: { id: postId }
+                },
+                author: {
+                    connect: { id: authorId }
+                },
+                ...(parentId !== null && { parent: { connect: { id: parentId } } })
+            }
+        });
+    }
+
+    async readById(id: number): Promise<Comment | null> {
+        return await this.prisma.comment.findUnique({
+            where: { id }
+        });
+    }
+
+    async readByPost({ postId, parentId, order, page, limit }: CommentQuery): Promise<CommentPage> {
+        const where = { postId, parentId, deleted: false };
+        const [comments, total] = await this.prisma.$transaction([
+            this.prisma.comment.findMany({
+                where,
+                orderBy: [{ date: order === 'oldest' ? 'asc' : 'desc' }, { id: order === 'oldest' ? 'asc' : 'desc' }],
+                skip: (page - 1) * limit,
+                take: limit,
+            }),
+            this.prisma.comment.count({ where }),
+        ]);
+        return { comments, total, page, limit };
+    }
+
+    async update(id: number, commentData: CommentUpdateData): Promise<Comment> {
+        return await this.prisma.comment.update({
+            where: { id },
+            data: commentData,
+        });
+    }
+}
\ No newline at end of file
@@ -0,0 +1,46 @@
+import { PrismaClientConfig } from "../connectors/prisma-db";
+import { EmailVerificationToken } from "../../domain/entities/emailverification";
+import { EmailVerificationRepository } from "../../application/repositories/emailverification";
+
+export class PrismaEmailVerificationRepository extends PrismaClientConfig implements EmailVerificationRepository {
+
+    async create(userId: number, tokenHash: string, expiresAt: Date): Promise<EmailVerificationToken> {
+        return await this.prisma.emailVerificationToken.create({
+            data: {
+                tokenHash,
+                expiresAt,
+                user: {
+                    connect: { id: userId }
+                }
+            }
+        });
+    }
+
+    async readByHash(tokenHash: string): Promise<EmailVerificationToken | null> {
+        return await this.prisma.emailVerificationToken.findUnique({
+            where: { tokenHash }
+        });
+    }
+
+    async readCreatedSince(userId: number, since: Date): Promise<EmailVerificationToken[]> {
+        return await this.prisma.emailVerificationToken.findMany({
+            where: { userId, createdAt: { gte: since } },
+            orderBy: { createdAt: 'asc' }
+        });
+    }
+
+    async markUsed(id: number): Promise<boolean> {
+        const { count } = await this.prisma.emailVerificationToken.updateMany({
+            where: { id, usedAt: null },
+            data: { usedAt: new Date() }
+        });
+        return count === 1;
+    }
+
+    async invalidateAllByUser(userId: number): Promise<void> {
+        await this.prisma.emailVerificationToken.updateMany({
+            where: { userId, usedAt: null },
+            data: { usedAt: new Date() }
+        });
+    }
+}
\ No newline at end of file
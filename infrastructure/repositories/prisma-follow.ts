@@ -0,0 +1,65 @@
+import { PrismaClientConfig } from "../connectors/prisma-db";
+import { Follow } from "../../domain/entities/follow";
+import { FollowListQuery, FollowRepository, FollowUserPage } from "../../application/repositories/follow";
+
+const publicUser = { select: { id: true, name: true } }
+
+export class PrismaFollowRepository extends PrismaClientConfig implements FollowRepository {
+    async create(followerId: number, followingId: number): Promise<Follow> {
+        return await this.prisma.follow.create({
+            data: {
+                follower: {
+                    connect: { id: followerId }
+                },
+                following: {
+                    connect: { id: followingId }
+                }
+            }
+        });
+    }
+    async read(followerId: number, followingId: number): Promise<Follow | null> {
+        return await this.prisma.follow.findUnique({
+            where: { followerId_followingId: { followerId, followingId } }
+        });
+    }
+    async delete(followerId: number, followingId: number): Promise<Follow> {
+        return await this.prisma.follow.delete({
+            where: { followerId_followingId: { followerId, followingId } }
+        });
+    }
+    async countFollowers(userId: number): Promise<number> {
+        return await this.prisma.follow.count({ where: { followingId: userId } });
+    }
+    async countFollowing(userId: number): Promise<number> {
+        return await this.prisma.follow.count({ where: { followerId: userId } });
+    }
+    async readFollowers(userId: number, { limit, cursor }: FollowListQuery): Promise<FollowUserPage> {
+        // Se pide uno de más para saber si existe una página siguiente
+        const rows = await this.prisma.follow.findMany({
+            where: { followingId: userId },
+            orderBy: { id: 'desc' },
+            take: limit + 1,
+            ...(cursor !== undefined && { cursor: { id: cursor }, skip: 1 }),
+            include: { follower: publicUser }
+        });
+        return this.toPage(rows.map((row) => ({ id: row.id, user: row.follower, createdAt: row.createdAt })), limit);
+    }
+    async readFollowing(userId: number, { limit, cursor }: FollowListQuery): Promise<FollowUserPage> {
+        const rows = await this.prisma.follow.findMany({
+            where: { followerId: userId },
+            orderBy: { id: 'desc' },
+            take: limit + 1,
+            ...(cursor !== undefined && { cursor: { id: cursor }, skip: 1 }),
+            include: { following: publicUser }
+        });
+        return this.toPage(rows.map((row) => ({ id: row.id, user: row.following, createdAt: row.createdAt })), limit);
+    }
+
+    private toPage(rows: { id: number, user: { id: number, name: string | null }, createdAt: Date }[], limit: number): FollowUserPage {
+        const page = rows.slice(0, limit);
+        return {
+            users: page.map(({ user, createdAt }) => ({ ...user, followedAt: createdAt })),
+            nextCursor: rows.length > limit ? page[page.length - 1].id : null,
+        };
+    }
+}
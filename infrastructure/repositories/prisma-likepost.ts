@@ -1,18 +1,42 @@
+import { Prisma } from "@prisma/client";
 import { PrismaClientConfig } from "../connectors/prisma-db";
 import { LikePost } from "../../domain/entities/likepost";
 import { LikePostRepository } from "../../application/repositories/likepost";
 
 export class PrismaLikePostRepository extends PrismaClientConfig implements LikePostRepository {
-    async create(postId: number, userId: number): Promise<LikePost> {
-        return await this.prisma.likePost.create({
-            data: {
-                post: {
-                    connect: { id: postId }
-                },
-                user: {
-                    connect: { id: userId }
+    async create(postId: number, userId: number): Promise<LikePost | null> {
+        try {
+            return await this.prisma.likePost.create({
+                data: {
+                    post: {
+                        connect: { id: postId }
+                    },
+                    user: {
+                        connect: { id: userId }
+                    }
                 }
-            }
+            });
+        } catch (error) {
+            // @@unique([userId, postId]): el like ya existe, quizá creado por otra petición a la vez
+            if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') return null;
+            throw error;
+        }
+    }
+    async readByUserAndPost(postId: number, userId: number): Promise<LikePost | null> {
+        return await this.prisma.likePost.findUnique({
+            where: { userId_postId: { userId, postId } }
+        });
+    }
+    async delete(postId: number, userId: number): Promise<boolean> {
+        // deleteMany no falla si otra petición ya lo ha borrado
+        const { count } = await this.prisma.likePost.deleteMany({
+            where: { userId, postId }
+        });
+        return count > 0;
+    }
+    async countByPost(postId: number): Promise<number> {
+        return await this.prisma.likePost.count({
+            where: { postId }
         });
     }
 }
\ No newline at end of file
@@ -0,0 +1,85 @@
+import { Prisma } from "@prisma/client";
+import { PrismaClientConfig } from "../connectors/prisma-db";
+import { Notification, NotificationType } from "../../domain/entities/notification";
+import { NotificationData, NotificationGroup, NotificationQuery, NotificationRepository } from "../../application/repositories/notification";
+
+const withActor = { actor: { select: { name: true } } }
+
+type NotificationRow = Omit<Notification, 'type' | 'actorName'> & { type: string, actor: { name: string | null } }
+
+const toNotification = ({ actor, type, ...notification }: NotificationRow): Notification =>
+    ({ ...notification, type: type as NotificationType, actorName: actor.name })
+
+export class PrismaNotificationRepository extends PrismaClientConfig implements NotificationRepository {
+
+    async create({ userId, type, actorId, postId, commentId }: NotificationData): Promise<Notification> {
+        const notification = await this.prisma.notification.create({
+            data: { userId, type, actorId, postId, commentId, actors: { create: { actorId } } },
+            include: withActor
+        });
+        return toNotification(notification);
+    }
+
+    async readById(id: number): Promise<Notification | null> {
+        const notification = await this.prisma.notification.findUnique({ where: { id }, include: withActor });
+        return notification && toNotification(notification);
+    }
+
+    async readUnreadGroup({ userId, type, postId, commentId }: NotificationGroup): Promise<Notification | null> {
+        const notification = await this.prisma.notification.findFirst({
+            where: { userId, type, postId, commentId, read: false },
+            orderBy: { id: 'desc' },
+            include: withActor
+        });
+        return notification && toNotification(notification);
+    }
+
+    async addToGroup(id: number, actorId: number): Promise<Notification | null> {
+        try {
+            const notification = await this.prisma.notification.update({
+                where: { id },
+                data: { actorId, count: { increment: 1 }, updatedAt: new Date(), actors: { create: { actorId } } },
+                include: withActor
+            });
+            return toNotification(notification);
+        } catch (error) {
+            // @@unique([notificationId, actorId]): el actor ya cuenta en el grupo y la notificación no cambia
+            if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') return null;
+            throw error;
+        }
+    }
+
+    async readByUser({ userId, unreadOnly, limit, cursor }: NotificationQuery): Promise<{ notifications: Notification[]; nextCursor: number | null }> {
+        // Se pide una de más para saber si existe una página siguiente
+        const rows = await this.prisma.notification.findMany({
+            where: { userId, ...(unreadOnly && { read: false }) },
+            orderBy: [{ updatedAt: 'desc' }, { id: 'desc' }],
+            take: limit + 1,
+            ...(cursor !== undefined && { cursor: { id: cursor }, skip: 1 }),
+            include: withActor
+        });
+        const notifications = rows.slice(0, limit).map(toNotification);
+        return { notifications, nextCursor: rows.length > limit ? notifications[notifications.length - 1].id : null };
+    }
+
+    async countUnread(userId: number): Promise<number> {
+        return await this.prisma.notification.count({ where: { userId, read: false } });
+    }
+
+    async markRead(id: number): Promise<Notification> {
+        const notification = await this.prisma.notification.update({
+            where: { id },
+            data: { read: true },
+            include: withActor
+        });
+        return toNotification(notification);
+    }
+
+    async markAllRead(userId: number): Promise<number> {
+        const { count } = await this.prisma.notification.updateMany({
+            where: { userId, read: false },
+            data: { read: true }
+        });
+        return count;
+    }
+}
@@ -0,0 +1,39 @@
+import { PrismaClientConfig } from "../connectors/prisma-db";
+import { PasswordResetToken } from "../../domain/entities/passwordreset";
+import { PasswordResetRepository } from "../../application/repositories/passwordreset";
+
+export class PrismaPasswordResetRepository extends PrismaClientConfig implements PasswordResetRepository {
+
+    async create(userId: number, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken> {
+        return await this.prisma.passwordResetToken.create({
+            data: {
+                tokenHash,
+                expiresAt,
+                user: {
+                    connect: { id: userId }
+                }
+            }
+        });
+    }
+
+    async readByHash(tokenHash: string): Promise<PasswordResetToken | null> {
+        return await this.prisma.passwordResetToken.findUnique({
+            where: { tokenHash }
+        });
+    }
+
+    async markUsed(id: number): Promise<boolean> {
+        const { count } = await this.prisma.passwordResetToken.updateMany({
+            where: { id, usedAt: null },
+            data: { usedAt: new Date() }
+        });
+        return count === 1;
+    }
+
+    async invalidateAllByUser(userId: number): Promise<void> {
+        await this.prisma.passwordResetToken.updateMany({
+            where: { userId, usedAt: null },
+            data: { usedAt: new Date() }
+        });
+    }
+}
\ No newline at end of file
@@ -1,42 +1,122 @@
 import { PrismaClientConfig } from "../connectors/prisma-db";
-import { Post } from "../../domain/entities/post"
-import { PostData, PostRepository, PostUpdateData } from "../../application/repositories/post";
+import { Post, PostStatus } from "../../domain/entities/post"
+import { PostData, PostOrder, PostPage, PostQuery, PostRepository, PostUpdateData } from "../../application/repositories/post";
+import { Prisma } from "@prisma/client";
+import { PostRevisionData } from "../../application/repositories/postrevision";
+import { activeSuspension } from "./prisma-suspension";
+import { createRevision } from "./prisma-postrevision";
+
+// SQLite no tiene enums: el estado se guarda como texto
+export const withTagNames = <T extends { tags: { name: string }[]; status: string }>({ tags, status, ...post }: T) =>
+    ({ ...post, status: status as PostStatus, tags: tags.map((tag) => tag.name) });
 
 export class PrismaPostRepository extends PrismaClientConfig implements PostRepository {
 
-    async create({title, content, authorName}: PostData, userId: number): Promise<Post> {
-        return await this.prisma.post.create({
+    async create({title, content, authorName, tags, status, publishAt}: PostData, userId: number): Promise<Post> {
+        const post = await this.prisma.post.create({
             data: {
                 title: title,
                 content: content,
                 author: {
                     connect: { id: userId } 
                 },
-                authorName: authorName
-            }
+                authorName: authorName,
+                status: status,
+                publishAt: publishAt,
+                tags: { connectOrCreate: this.connectTags(tags ?? []) }
+            },
+            include: { tags: true }
         });
+        return withTagNames(post);
     }
 
     async readAll(): Promise<Post[]> {
-        return await this.prisma.post.findMany({include: {likes: true}});
+        const posts = await this.prisma.post.findMany({include: {likes: true, tags: true}});
+        return posts.map(withTagNames);
+    }
+    async readPage({ order, statuses = ['published'], publishBefore, authorId, search, tags, tagMatch, followedBy, ids, onlyVisible, limit, cursor }: PostQuery): Promise<PostPage> {
+        const filters: Prisma.PostWhereInput[] = [{ hidden: false, status: { in: statuses } }];
+        if (publishBefore) filters.push({ publishAt: { lte: publishBefore } });
+        if (authorId !== undefined) filters.push({ authorId });
+        if (search) filters.push({ OR: [{ title: { contains: search } }, { content: { contains: search } }] });
+        if (tags?.length) {
+            filters.push(tagMatch === 'all'
+                ? { AND: tags.map((name) => ({ tags: { some: { name } } })) }
+                : { tags: { some: { name: { in: tags } } } });
+        }
+        if (followedBy !== undefined) filters.push({ author: { followers: { some: { followerId: followedBy } } } });
+        if (ids) filters.push({ id: { in: ids } });
+        if (onlyVisible) filters.push({ deleted: false, author: { suspensions: { none: activeSuspension(new Date()) } } });
+        const where: Prisma.PostWhereInput = { AND: filters };
+        // Se pide un post de más para saber si existe una página siguiente
+        const rows = await this.prisma.post.findMany({
+            where,
+            orderBy: this.orderBy(order),
+            take: limit + 1,
+            ...(cursor !== undefined && { cursor: { id: cursor }, skip: 1 }),
+            include: { tags: true, _count: { select: { likes: true } } }
+        });
+        const hasNext = rows.length > limit;
+        const posts = rows.slice(0, limit).map(({ _count, ...post }) => ({ ...withTagNames(post), likesCount: _count.likes }));
+        return { posts, nextCursor: hasNext ? posts[posts.length - 1].id : null };
     }
     async readById(id: number): Promise<Post|null> {
-        return await this.prisma.post.findUnique({
+        const post = await this.prisma.post.findUnique({
             where: { id },
-            include: {likes: true}
+            include: {likes: true, tags: true}
         });
+        return post && withTagNames(post);
     }
 
     async delete(id: number): Promise<Post> {
-        return await this.prisma.post.delete({
+        const post = await this.prisma.post.delete({
             where: { id },
+            include: { tags: true }
         });
+        return withTagNames(post);
     }
 
-    async update(id: number, post: PostUpdateData): Promise<Post> {
-        return await this.prisma.post.update({
+    async update(id: number, postData: PostUpdateData): Promise<Post> {
+        return await this.updatePost(this.prisma, id, postData);
+    }
+
+    async updateWithRevision(id: number, postData: PostUpdateData, revisionData: PostRevisionData): Promise<Post> {
+        return await this.prisma.$transaction(async (tx) => {
+            await createRevision(tx, id, revisionData);
+            return await this.updatePost(tx, id, postData);
+        });
+    }
+
+    private async updatePost(client: Prisma.TransactionClient, id: number, { tags, ...post }: PostUpdateData): Promise<Post> {
+        const updated = await client.post.update({
             where: { id },
-            data: post,
+            data: {
+                ...post,
+                // Sustituye las etiquetas del post, creando las que aún no existen
+                ...(tags && { tags: { set: [], connectOrCreate: this.connectTags(tags) } }),
+            },
+            include: { tags: true }
         });
+        return withTagNames(updated);
+    }
+
+    private connectTags(tags: string[]): Prisma.TagCreateOrConnectWithoutPostsInput[] {
+        return tags.map((name) => ({ where: { name }, create: { name } }));
+    }
+
+    // El id desempata para que el cursor sea estable aunque coincidan títulos, fechas o likes
+    private orderBy(order: PostOrder): Prisma.PostOrderByWithRelationInput[] {
+        switch (order) {
+            case 'nombre-asc':
+                return [{ title: 'asc' }, { id: 'asc' }];
+            case 'nombre-desc':
+                return [{ title: 'desc' }, { id: 'desc' }];
+            case 'popularidad-asc':
+                return [{ likes: { _count: 'asc' } }, { id: 'asc' }];
+            case 'popularidad-desc':
+                return [{ likes: { _count: 'desc' } }, { id: 'desc' }];
+            default:
+                return [{ date: 'desc' }, { id: 'desc' }];
+        }
     }
 }
\ No newline at end of file
@@ -0,0 +1,44 @@
+import { PrismaClientConfig } from "../connectors/prisma-db";
+import { PostRevision } from "../../domain/entities/postrevision";
+import { PostRevisionData, PostRevisionRepository } from "../../application/repositories/postrevision";
+import { Prisma } from "@prisma/client";
+
+// Asigna el siguiente número de versión dentro de la transacción que recibe
+export const createRevision = async (tx: Prisma.TransactionClient, postId: number, { title, content, editorId }: PostRevisionData): Promise<PostRevision> => {
+    const { _max } = await tx.postRevision.aggregate({
+        where: { postId },
+        _max: { rev: true }
+    });
+    return await tx.postRevision.create({
+        data: {
+            rev: (_max.rev ?? 0) + 1,
+            title,
+            content,
+            post: {
+                connect: { id: postId }
+            },
+            ...(editorId !== null && { editor: { connect: { id: editorId } } })
+        }
+    });
+}
+
+export class PrismaPostRevisionRepository extends PrismaClientConfig implements PostRevisionRepository {
+
+    async create(postId: number, revisionData: PostRevisionData): Promise<PostRevision> {
+        // Dos ediciones simultáneas chocan con la clave única (postId, rev) en lugar de compartir número
+        return await this.prisma.$transaction((tx) => createRevision(tx, postId, revisionData));
+    }
+
+    async readByPost(postId: number): Promise<PostRevision[]> {
+        return await this.prisma.postRevision.findMany({
+            where: { postId },
+            orderBy: { rev: 'asc' }
+        });
+    }
+
+    async readByRev(postId: number, rev: number): Promise<PostRevision | null> {
+        return await this.prisma.postRevision.findUnique({
+            where: { postId_rev: { postId, rev } }
+        });
+    }
+}
@@ -0,0 +1,61 @@
+import { PrismaClientConfig } from "../connectors/prisma-db";
+import { withTagNames } from "./prisma-post";
+import { MARK_END, MARK_START, toHighlightHtml } from "./highlight";
+import { PostSearchQuery, PostSearchRepository, PostSearchResult } from "../../application/repositories/postsearch";
+
+type SearchRow = {
+    id: number;
+    rank: number;
+    titleHighlight: string;
+    contentSnippet: string;
+}
+
+// "PostSearch" es una tabla virtual FTS5 que se mantiene con triggers sobre "Post" (ver migración add_post_search)
+export class PrismaPostSearchRepository extends PrismaClientConfig implements PostSearchRepository {
+
+    async search({ text, limit, offset }: PostSearchQuery): Promise<PostSearchResult[]> {
+        const match = toMatchExpression(text);
+        if (!match) return [];
+        const rows = await this.prisma.$queryRaw<SearchRow[]>`
+            SELECT "PostSearch"."rowid" AS "id",
+                   bm25("PostSearch", 10.0, 1.0) AS "rank",
+                   highlight("PostSearch", 0, ${MARK_START}, ${MARK_END}) AS "titleHighlight",
+                   snippet("PostSearch", 1, ${MARK_START}, ${MARK_END}, '…', 16) AS "contentSnippet"
+            FROM "PostSearch"
+            JOIN "Post" ON "Post"."id" = "PostSearch"."rowid"
+            WHERE "PostSearch" MATCH ${match} AND "Post"."deleted" = false AND "Post"."hidden" = false AND "Post"."status" = 'published'
+            ORDER BY "rank"
+            LIMIT ${limit} OFFSET ${offset}`;
+        const posts = (await this.prisma.post.findMany({
+            where: { id: { in: rows.map((row) => Number(row.id)) }, deleted: false, hidden: false, status: 'published' },
+            include: { tags: true }
+        })).map(withTagNames);
+        return rows.flatMap((row) => {
+            const post = posts.find((p) => p.id === Number(row.id));
+            if (!post) return [];
+            return [{ post, rank: -Number(row.rank), titleHighlight: toHighlightHtml(row.titleHighlight), contentSnippet: toHighlightHtml(row.contentSnippet) }];
+        });
+    }
+}
+
+/**
+ * Convierte el texto del usuario en una expresión MATCH de FTS5 segura.
+ * Soporta frases entre comillas (`"hola mundo"`) y prefijos (`corr*`), el resto de
+ * palabras se buscan como términos sueltos que deben aparecer todos.
+ */
+export const toMatchExpression = (text: string): string => {
+    const tokens = text.match(/"[^"]*"|[^\s"]+/g) ?? [];
+    return tokens
+        .map((token) => {
+            if (token.startsWith('"')) {
+                const phrase = token.slice(1, -1).trim();
+                return phrase ? `"${phrase}"` : '';
+            }
+            const prefix = token.endsWith('*');
+            const term = token.replace(/\*+$/, '').replace(/"/g, '');
+            if (!term) return '';
+            return prefix ? `"${term}"*` : `"${term}"`;
+        })
+        .filter(Boolean)
+        .join(' ');
+};
\ No newline at end of file
@@ -0,0 +1,55 @@
+import { Prisma } from "@prisma/client";
+import { PrismaClientConfig } from "../connectors/prisma-db";
+import { LIKE_BUCKET_HOURS, LikeBucket, TrendingWindow, windowStart } from "../../domain/entities/ranking";
+import { RankingData, RankingRepository } from "../../application/repositories/ranking";
+import { activeSuspension } from "./prisma-suspension";
+
+type BucketRow = {
+    postId: bigint | number;
+    likes: bigint | number;
+    likedAt: number;
+}
+
+// Prisma guarda las fechas de SQLite como milisegundos, las filas con el DEFAULT de una migración como texto
+const millis = (column: string) =>
+    Prisma.raw(`CASE WHEN typeof(${column}) = 'integer' THEN ${column} ELSE CAST((julianday(${column}) - 2440587.5) * 86400000 AS INTEGER) END`)
+
+// Mismos grupos que `likeBucket`, a partir de las horas completas desde el like
+const bucket = Prisma.raw(`CASE ${LIKE_BUCKET_HOURS
+    .map(({ since, size }) => `WHEN "hours" >= ${since} THEN ("hours" / ${size}) * ${size}`)
+    .join(' ')} END`)
+
+export class PrismaRankingRepository extends PrismaClientConfig implements RankingRepository {
+
+    // Los likes se agregan en la base de datos, ni los likes ni los usuarios se leen uno a uno
+    async read(window: TrendingWindow): Promise<RankingData> {
+        const now = new Date();
+        const since = windowStart(window, now);
+        const [visible, rows, users] = await Promise.all([
+            this.prisma.post.findMany({
+                where: {
+                    deleted: false, hidden: false, status: 'published', author: { suspensions: { none: activeSuspension(now) } },
+                    ...(since && { likes: { some: { createdAt: { gte: since } } } }),
+                },
+                select: { id: true },
+            }),
+            this.prisma.$queryRaw<BucketRow[]>`
+                SELECT "postId", COUNT(*) AS "likes", AVG("ms") AS "likedAt"
+                FROM (
+                    SELECT "postId", "ms", MAX(CAST((${now.getTime()} - "ms") / 3600000 AS INTEGER), 0) AS "hours"
+                    FROM (SELECT "postId", ${millis('"createdAt"')} AS "ms" FROM "LikePost")
+                    WHERE "ms" >= ${since?.getTime() ?? 0}
+                )
+                GROUP BY "postId", ${bucket}`,
+            this.prisma.user.count(),
+        ]);
+        const likes = new Map<number, LikeBucket[]>();
+        for (const row of rows) {
+            // SQLite puede devolver los enteros como BigInt
+            const postId = Number(row.postId);
+            likes.set(postId, [...(likes.get(postId) ?? []), { likedAt: new Date(Math.round(row.likedAt)), likes: Number(row.likes) }]);
+        }
+        const posts = visible.map(({ id }) => ({ postId: id, likes: likes.get(id) ?? [] }));
+        return { posts, users };
+    }
+}
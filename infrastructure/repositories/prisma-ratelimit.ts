@@ -0,0 +1,48 @@
+import { PrismaClientConfig } from "../connectors/prisma-db";
+import { RateLimitCounter } from "../../domain/entities/ratelimit";
+import { RateLimitStore } from "../../application/repositories/ratelimit";
+
+export class PrismaRateLimitStore extends PrismaClientConfig implements RateLimitStore {
+
+    async hit(key: string, windowMs: number): Promise<RateLimitCounter> {
+        const now = new Date();
+        // Se descartan los contadores caducados y sin bloqueo para que la tabla no crezca con cada IP
+        await this.prisma.rateLimit.deleteMany({
+            where: { resetAt: { lte: now }, OR: [{ lockedUntil: null }, { lockedUntil: { lte: now } }] }
+        });
+        return await this.prisma.$transaction(async (tx) => {
+            const counter = await tx.rateLimit.findUnique({ where: { key } });
+            if (counter && counter.resetAt > now) {
+                return await tx.rateLimit.update({
+                    where: { key },
+                    data: { count: { increment: 1 } }
+                });
+            }
+            const resetAt = new Date(now.getTime() + windowMs);
+            return await tx.rateLimit.upsert({
+                where: { key },
+                create: { key, count: 1, resetAt },
+                update: { count: 1, resetAt }
+            });
+        });
+    }
+
+    async read(key: string): Promise<RateLimitCounter | null> {
+        return await this.prisma.rateLimit.findUnique({
+            where: { key }
+        });
+    }
+
+    async lock(key: string, until: Date): Promise<void> {
+        await this.prisma.rateLimit.updateMany({
+            where: { key },
+            data: { lockedUntil: until }
+        });
+    }
+
+    async reset(key: string): Promise<void> {
+        await this.prisma.rateLimit.deleteMany({
+            where: { key }
+        });
+    }
+}
@@ -0,0 +1,71 @@
+import { Prisma } from "@prisma/client";
+import { PrismaClientConfig } from "../connectors/prisma-db";
+import { Report, ReportReason, ReportStatus, ReportTargetType } from "../../domain/entities/report";
+import { ReportData, ReportPage, ReportQuery, ReportRepository } from "../../application/repositories/report";
+
+// El objetivo se guarda en `postId` o en `userId` para que las denuncias se borren en cascada con él
+type ReportRow = Omit<Report, 'targetType' | 'targetId' | 'reason' | 'status'> & {
+    postId: number | null;
+    userId: number | null;
+    reason: string;
+    status: string;
+}
+
+const toReport = ({ postId, userId, reason, status, ...report }: ReportRow): Report => ({
+    ...report,
+    targetType: postId !== null ? 'post' : 'user',
+    targetId: (postId ?? userId) as number,
+    reason: reason as ReportReason,
+    status: status as ReportStatus,
+})
+
+const target = (targetType: ReportTargetType, targetId: number): Prisma.ReportWhereInput =>
+    targetType === 'post' ? { postId: targetId } : { userId: targetId }
+
+export class PrismaReportRepository extends PrismaClientConfig implements ReportRepository {
+
+    async create({ targetType, targetId, ...data }: ReportData): Promise<Report> {
+        const report = await this.prisma.report.create({
+            data: { ...data, ...(targetType === 'post' ? { postId: targetId } : { userId: targetId }) }
+        });
+        return toReport(report);
+    }
+
+    async readById(id: number): Promise<Report | null> {
+        const report = await this.prisma.report.findUnique({ where: { id } });
+        return report && toReport(report);
+    }
+
+    async readPage({ status, targetType, limit, cursor }: ReportQuery): Promise<ReportPage> {
+        // Se pide una de más para saber si existe una página siguiente
+        const rows = await this.prisma.report.findMany({
+            where: {
+                status,
+                ...(targetType === 'post' && { postId: { not: null } }),
+                ...(targetType === 'user' && { userId: { not: null } }),
+            },
+            orderBy: { id: 'asc' },
+            take: limit + 1,
+            ...(cursor !== undefined && { cursor: { id: cursor }, skip: 1 }),
+        });
+        const reports = rows.slice(0, limit).map(toReport);
+        return { reports, nextCursor: rows.length > limit ? reports[reports.length - 1].id : null };
+    }
+
+    async readOpenByReporter(reporterId: number, targetType: ReportTargetType, targetId: number): Promise<Report | null> {
+        const report = await this.prisma.report.findFirst({ where: { reporterId, status: 'open', ...target(targetType, targetId) } });
+        return report && toReport(report);
+    }
+
+    async countOpen(targetType: ReportTargetType, targetId: number): Promise<number> {
+        return await this.prisma.report.count({ where: { status: 'open', ...target(targetType, targetId) } });
+    }
+
+    async resolveOpen(targetType: ReportTargetType, targetId: number, status: Exclude<ReportStatus, 'open'>, resolvedById: number): Promise<number> {
+        const { count } = await this.prisma.report.updateMany({
+            where: { status: 'open', ...target(targetType, targetId) },
+            data: { status, resolvedById, resolvedAt: new Date() }
+        });
+        return count;
+    }
+}
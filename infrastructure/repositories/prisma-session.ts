@@ -0,0 +1,63 @@
+import { PrismaClientConfig } from "../connectors/prisma-db";
+import { RefreshToken, Session } from "../../domain/entities/session";
+import { RefreshTokenWithSession, SessionRepository } from "../../application/repositories/session";
+
+export class PrismaSessionRepository extends PrismaClientConfig implements SessionRepository {
+
+    async create(userId: number): Promise<Session> {
+        return await this.prisma.session.create({
+            data: {
+                user: {
+                    connect: { id: userId }
+                }
+            }
+        });
+    }
+
+    async readById(id: string): Promise<Session | null> {
+        return await this.prisma.session.findUnique({
+            where: { id }
+        });
+    }
+
+    async revoke(id: string): Promise<void> {
+        await this.prisma.session.updateMany({
+            where: { id, revokedAt: null },
+            data: { revokedAt: new Date() }
+        });
+    }
+
+    async revokeAllByUser(userId: number): Promise<void> {
+        await this.prisma.session.updateMany({
+            where: { userId, revokedAt: null },
+            data: { revokedAt: new Date() }
+        });
+    }
+
+    async createRefreshToken(sessionId: string, tokenHash: string, expiresAt: Date): Promise<RefreshToken> {
+        return await this.prisma.refreshToken.create({
+            data: {
+                tokenHash,
+                expiresAt,
+                session: {
+                    connect: { id: sessionId }
+                }
+            }
+        });
+    }
+
+    async readRefreshTokenByHash(tokenHash: string): Promise<RefreshTokenWithSession | null> {
+        return await this.prisma.refreshToken.findUnique({
+            where: { tokenHash },
+            include: { session: true }
+        });
+    }
+
+    async markRefreshTokenUsed(id: number): Promise<boolean> {
+        const { count } = await this.prisma.refreshToken.updateMany({
+            where: { id, usedAt: null },
+            data: { usedAt: new Date() }
+        });
+        return count === 1;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,77 @@
+import { Prisma } from "@prisma/client";
+import { PrismaClientConfig } from "../connectors/prisma-db";
+import { DailyActivity, UserStats } from "../../domain/entities/stats";
+import { StatsRepository } from "../../application/repositories/stats";
+
+type DailyRow = {
+    date: string;
+    signups: bigint | number;
+    posts: bigint | number;
+    likes: bigint | number;
+    activeUsers: bigint | number;
+}
+
+// Prisma guarda las fechas de SQLite como milisegundos, las filas con el DEFAULT de una migración como texto
+const day = (column: string) =>
+    Prisma.raw(`CASE WHEN typeof(${column}) = 'integer' THEN date(${column} / 1000, 'unixepoch') ELSE date(${column}) END`)
+
+// Una fila por registro, post publicado, like o comentario con su día y el usuario que lo hizo (null en los registros)
+const activity = Prisma.sql`
+    SELECT ${day('"User"."createdAt"')} AS "date", 1 AS "signup", 0 AS "post", 0 AS "like", NULL AS "userId" FROM "User"
+    UNION ALL SELECT ${day('"Post"."date"')}, 0, 1, 0, "Post"."authorId" FROM "Post" WHERE "Post"."status" = 'published'
+    UNION ALL SELECT ${day('"LikePost"."createdAt"')}, 0, 0, 1, "LikePost"."userId" FROM "LikePost"
+    UNION ALL SELECT ${day('"Comment"."date"')}, 0, 0, 0, "Comment"."authorId" FROM "Comment"`
+
+export class PrismaStatsRepository extends PrismaClientConfig implements StatsRepository {
+
+    async countUsers(): Promise<number> {
+        return this.prisma.user.count();
+    }
+
+    async readUserStats(userId: number): Promise<UserStats | null> {
+        const user = await this.prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+        if (!user) return null;
+        const [posts, likesGiven, likesReceived, mostLiked] = await Promise.all([
+            this.prisma.post.count({ where: { authorId: userId, deleted: false, status: 'published' } }),
+            this.prisma.likePost.count({ where: { userId } }),
+            this.prisma.likePost.count({ where: { post: { authorId: userId, deleted: false, status: 'published' } } }),
+            this.prisma.post.findFirst({
+                where: { authorId: userId, deleted: false, hidden: false, status: 'published', likes: { some: {} } },
+                orderBy: [{ likes: { _count: 'desc' } }, { id: 'desc' }],
+                select: { id: true, title: true, _count: { select: { likes: true } } },
+            }),
+        ]);
+        return {
+            userId,
+            posts,
+            likesGiven,
+            likesReceived,
+            mostLikedPost: mostLiked ? { id: mostLiked.id, title: mostLiked.title, likes: mostLiked._count.likes } : null,
+        };
+    }
+
+    async readDailyActivity(from: string, to: string): Promise<DailyActivity[]> {
+        const rows = await this.prisma.$queryRaw<DailyRow[]>`
+            SELECT "date", SUM("signup") AS "signups", SUM("post") AS "posts", SUM("like") AS "likes", COUNT(DISTINCT "userId") AS "activeUsers"
+            FROM (${activity})
+            WHERE "date" BETWEEN ${from} AND ${to}
+            GROUP BY "date"
+            ORDER BY "date"`;
+        // SQLite devuelve los COUNT y SUM como BigInt
+        return rows.map((row) => ({
+            date: row.date,
+            signups: Number(row.signups),
+            posts: Number(row.posts),
+            likes: Number(row.likes),
+            activeUsers: Number(row.activeUsers),
+        }));
+    }
+
+    async countActiveUsers(from: string, to: string): Promise<number> {
+        const [row] = await this.prisma.$queryRaw<{ activeUsers: bigint | number }[]>`
+            SELECT COUNT(DISTINCT "userId") AS "activeUsers"
+            FROM (${activity})
+            WHERE "date" BETWEEN ${from} AND ${to}`;
+        return Number(row.activeUsers);
+    }
+}
@@ -0,0 +1,36 @@
+import { Prisma } from "@prisma/client";
+import { PrismaClientConfig } from "../connectors/prisma-db";
+import { Suspension } from "../../domain/entities/suspension";
+import { SuspensionData, SuspensionRepository } from "../../application/repositories/suspension";
+
+// Misma condición que `isActiveSuspension`, para filtrar en la base de datos
+export const activeSuspension = (now: Date): Prisma.SuspensionWhereInput => ({
+    liftedAt: null,
+    startsAt: { lte: now },
+    OR: [{ endsAt: null }, { endsAt: { gt: now } }],
+})
+
+export class PrismaSuspensionRepository extends PrismaClientConfig implements SuspensionRepository {
+
+    async create(data: SuspensionData): Promise<Suspension> {
+        return await this.prisma.suspension.create({ data });
+    }
+
+    async readActive(userId: number, now: Date): Promise<Suspension | null> {
+        return await this.prisma.suspension.findFirst({
+            where: { userId, ...activeSuspension(now) },
+            orderBy: { id: 'desc' }
+        });
+    }
+
+    async readByUser(userId: number): Promise<Suspension[]> {
+        return await this.prisma.suspension.findMany({ where: { userId }, orderBy: { id: 'desc' } });
+    }
+
+    async lift(id: number, liftedById: number): Promise<Suspension> {
+        return await this.prisma.suspension.update({
+            where: { id },
+            data: { liftedAt: new Date(), liftedById }
+        });
+    }
+}
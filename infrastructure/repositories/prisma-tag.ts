@@ -0,0 +1,23 @@
+import { PrismaClientConfig } from "../connectors/prisma-db";
+import { TagCount } from "../../domain/entities/tag";
+import { TagRepository } from "../../application/repositories/tag";
+
+export class PrismaTagRepository extends PrismaClientConfig implements TagRepository {
+
+    async readCounts(since?: Date): Promise<TagCount[]> {
+        const tags = await this.prisma.tag.findMany({
+            select: {
+                name: true,
+                _count: {
+                    select: { posts: { where: { deleted: false, ...(since && { date: { gte: since } }) } } }
+                }
+            }
+        });
+        return tags
+            .map(({ name, _count }) => ({ name, count: _count.posts }))
+            .filter((tag) => tag.count > 0)
+            .sort(byCount);
+    }
+}
+
+const byCount = (a: TagCount, b: TagCount) => b.count - a.count || (a.name < b.name ? -1 : a.name > b.name ? 1 : 0);
@@ -2,8 +2,14 @@
 
 import { Prisma } from '@prisma/client';
 import { PrismaClientConfig } from '../connectors/prisma-db';
-import { User } from '../../domain/entities/user';
-import { UserRepository } from '../../application/repositories/user';
+import { PublicUser, User } from '../../domain/entities/user';
+import { UserRepository, UserUpdateData } from '../../application/repositories/user';
+import { activeSuspension } from './prisma-suspension';
+
+// `banned` no es una columna: se consulta si el usuario tiene alguna suspensión vigente
+const withSuspension = () => ({ suspensions: { where: activeSuspension(new Date()), select: { id: true }, take: 1 } })
+
+const withBanned = <T extends { suspensions: { id: number }[] }>({ suspensions, ...user }: T) => ({ ...user, banned: suspensions.length > 0 })
 
 export class PrismaUserRepository extends PrismaClientConfig implements UserRepository {
   constructor() {
@@ -12,9 +18,10 @@ export class PrismaUserRepository extends PrismaClientConfig implements UserRepo
 
   async create(userData: {email:string, password:string, name?: string}): Promise<User> {
     try {
-      return await this.prisma.user.create({
+      return withBanned(await this.prisma.user.create({
         data: userData,
-      });
+        include: withSuspension(),
+      }));
     } catch (error) {
       this.handleError(error, 'Failed to create user');
     }
@@ -22,7 +29,8 @@ export class PrismaUserRepository extends PrismaClientConfig implements UserRepo
 
   async readById(id: number): Promise<User | null> {
     try {
-      return await this.prisma.user.findUnique({ where: { id } });
+      const user = await this.prisma.user.findUnique({ where: { id }, include: withSuspension() });
+      return user && withBanned(user);
     } catch (error) {
       this.handleError(error, 'Failed to find user by id');
     }
@@ -30,25 +38,30 @@ export class PrismaUserRepository extends PrismaClientConfig implements UserRepo
 
   async readByEmail(email: string): Promise<User | null> {
     try {
-      return await this.prisma.user.findUnique({ where: { email } });
+      const user = await this.prisma.user.findUnique({ where: { email }, include: withSuspension() });
+      return user && withBanned(user);
     } catch (error) {
       this.handleError(error, 'Failed to find user by email');
     }
   }
-    async readAll(): Promise<User[]> {
+    async readAll(): Promise<PublicUser[]> {
         try {
-            return await this.prisma.user.findMany({ include: { posts: true, likePosts: true  } });
+            const users = await this.prisma.user.findMany({
+                select: { id: true, email: true, name: true, role: true, emailVerified: true, createdAt: true, ...withSuspension() },
+            });
+            return users.map(withBanned);
         } catch (error) {
             this.handleError(error, 'Failed to find all users');
         }
     }
 
-    async update(id: number, userData: Partial<User>): Promise<User> {
+    async update(id: number, userData: UserUpdateData): Promise<User> {
         try {
-        return await this.prisma.user.update({
+        return withBanned(await this.prisma.user.update({
             where: { id },
             data: userData,
-        });
+            include: withSuspension(),
+        }));
         } catch (error) {
         this.handleError(error, 'Failed to update user');
         }
@@ -64,7 +77,9 @@ export class PrismaUserRepository extends PrismaClientConfig implements UserRepo
 
   private handleError(error: unknown, message: string): never {
     if (error instanceof Prisma.PrismaClientKnownRequestError) {
-      throw new Error(`${message}: ${error.message} (Code: ${error.code})`);
+      // Se relanza tal cual para que la interfaz pueda traducir su código (P2002, P2025...)
+      error.message = `${message}: ${error.message}`;
+      throw error;
     } else if (error instanceof Prisma.PrismaClientValidationError) {
       throw new Error(`${message}: ${error.message}`);
     } else if (error instanceof Error) {
@@ -0,0 +1,37 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { FileStorage, StoredFile } from "../../application/repositories/filestorage";
+import { mimeTypeOfKey } from "../../domain/entities/attachment";
+
+/**
+ * Almacenamiento por defecto: un fichero por clave en una carpeta del disco local.
+ * No guarda el tipo de contenido, se deduce de la extensión de la clave.
+ * Con varias instancias la carpeta tiene que estar compartida (o usar un almacenamiento compatible con S3).
+ */
+export class LocalFileStorage implements FileStorage {
+    constructor(private rootDir: string = process.env.FILE_STORAGE_DIR ?? path.join(process.cwd(), "uploads")) {}
+
+    async put(key: string, body: Buffer): Promise<void> {
+        await fs.mkdir(this.rootDir, { recursive: true });
+        await fs.writeFile(this.pathOf(key), body);
+    }
+
+    async get(key: string): Promise<StoredFile | null> {
+        try {
+            return { body: await fs.readFile(this.pathOf(key)), contentType: mimeTypeOfKey(key) };
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+            throw error;
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        await fs.rm(this.pathOf(key), { force: true });
+    }
+
+    // Una clave nunca puede salir de la carpeta
+    private pathOf(key: string): string {
+        if (!key || key !== path.basename(key) || key.startsWith('.')) throw new Error(`Invalid file key: ${key}`);
+        return path.join(this.rootDir, key);
+    }
+}